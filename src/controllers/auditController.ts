@@ -0,0 +1,116 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { Readable } from 'stream'
+import { z } from 'zod'
+import { requireAuth } from './contextController'
+import { AuditLogError } from '../services/AuditLogService'
+import { WorkspaceAccessError } from '../services/WorkspaceSecretService'
+
+const AuditFilterSchema = z.object({
+  // Defaults to the caller's workspace; other workspaces need a service administrator
+  workspace_id: z.string().min(1).optional(),
+  user_id: z.string().min(1).optional(),
+  operation: z.string().min(1).optional(),
+  context_type: z.enum(['secret', 'user', 'global']).optional(),
+  resource_key: z.string().min(1).optional(),
+  status: z.enum(['success', 'failed']).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional()
+})
+
+const AuditQuerySchema = AuditFilterSchema.extend({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional()
+})
+
+const AuditExportQuerySchema = AuditFilterSchema.extend({
+  format: z.enum(['csv', 'ndjson']).default('ndjson')
+})
+
+const EXPORT_CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson'
+}
+
+// Service administrators (JWT role claim) may read any workspace's audit log
+function isServiceAdmin(request: FastifyRequest): boolean {
+  const isDevBypass = process.env.NODE_ENV === 'development' && process.env.BYPASS_AUTH === 'true'
+  return isDevBypass || (request as any).user?.role === 'admin'
+}
+
+// HTTP status for a failed audit log read
+function auditErrorStatus(error: unknown): number {
+  if (error instanceof WorkspaceAccessError) return 403
+  if (error instanceof AuditLogError) return 400
+  return 500
+}
+
+export async function auditRoutes(fastify: FastifyInstance) {
+
+  // Query audit entries, newest first, with cursor pagination
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { cursor, limit, ...filter } = AuditQuerySchema.parse(request.query)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const serviceAdmin = isServiceAdmin(request)
+
+    const workspaceId = filter.workspace_id || user.workspace_id
+    if (workspaceId !== user.workspace_id && !serviceAdmin) {
+      reply.code(403).send({ success: false, error: 'Administrator role required to read other workspaces' })
+      return
+    }
+
+    try {
+      const page = await fastify.auditQueryService.query(user.user_id, { ...filter, workspace_id: workspaceId }, {
+        ...(cursor && { cursor }),
+        ...(limit && { limit }),
+        serviceAdmin
+      })
+
+      reply.send({
+        success: true,
+        data: page
+      })
+    } catch (error) {
+      reply.code(auditErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to query audit log',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Export every matching entry as CSV or NDJSON
+  fastify.get('/export', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { format, ...filter } = AuditExportQuerySchema.parse(request.query)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const serviceAdmin = isServiceAdmin(request)
+
+    const workspaceId = filter.workspace_id || user.workspace_id
+    if (workspaceId !== user.workspace_id && !serviceAdmin) {
+      reply.code(403).send({ success: false, error: 'Administrator role required to read other workspaces' })
+      return
+    }
+
+    try {
+      const lines = await fastify.auditQueryService.export(
+        user.user_id,
+        { ...filter, workspace_id: workspaceId },
+        format,
+        { serviceAdmin }
+      )
+
+      // Returning the reply keeps the handler from finishing before the stream does
+      return reply
+        .header('content-type', EXPORT_CONTENT_TYPES[format])
+        .header('content-disposition', `attachment; filename="audit-${workspaceId.replace(/[^\w.-]/g, '_')}.${format}"`)
+        .send(Readable.from(lines))
+    } catch (error) {
+      reply.code(auditErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to export audit log',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+}
@@ -1,5 +1,17 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
+import { CertificateError } from '../utils/certificates'
+import { SSHKeyError } from '../utils/ssh'
+import { SecretLeaseError } from '../services/SecretLeaseService'
+import { SecretContextLockedError, SecretVersionError } from '../services/SecretContextService'
+import { WorkspaceAccessError } from '../services/WorkspaceSecretService'
+import { SecretReferenceError } from '../services/SecretReferenceService'
+import { CredentialRotationError } from '../services/CredentialRotationService'
+import { CredentialValidationError } from '../providers'
+import { SecretImportError, classifySecretImport, parseSecretImport } from '../utils/secretImport'
+import { SecretBundle, SecretBundleError } from '../utils/secretBundle'
+import { withActor } from '../utils/actorContext'
+import { ContextConflictError } from '../utils/concurrency'
 
 // Request/Response schemas for validation
 const StoreCredentialSchema = z.object({
@@ -7,20 +19,128 @@ const StoreCredentialSchema = z.object({
   value: z.string().min(1),
   credential_type: z.enum(['oauth', 'api_key', 'password', 'token']),
   provider: z.string().min(1),
-  expires_at: z.string().datetime().optional()
+  expires_at: z.string().datetime().optional(),
+  check_liveness: z.boolean().optional()
+})
+
+const ImportSecretsSchema = z.object({
+  content: z.string().min(1),
+  format: z.enum(['dotenv', 'json', 'sops']),
+  rules: z.array(z.object({
+    match: z.string().min(1),
+    key: z.string().min(1).optional(),
+    credential_type: z.enum(['oauth', 'api_key', 'password', 'token']).optional(),
+    provider: z.string().min(1).optional(),
+    skip: z.boolean().optional()
+  })).optional(),
+  // Data key of a SOPS document, hex or base64
+  sops_data_key: z.string().min(1).optional(),
+  dry_run: z.boolean().optional().default(false),
+  check_liveness: z.boolean().optional()
+})
+
+// Bundles are encrypted to exactly one of a passphrase or an X25519 public key
+const ExportSecretBundleSchema = z.object({
+  passphrase: z.string().min(12).optional(),
+  public_key: z.string().min(1).optional()
+}).refine(body => !!body.passphrase !== !!body.public_key, 'Give either passphrase or public_key')
+
+const ImportSecretBundleSchema = z.object({
+  bundle: z.object({
+    format: z.string(),
+    version: z.number(),
+    manifest: z.object({ bundle_id: z.string() }).passthrough(),
+    recipient: z.object({ type: z.enum(['passphrase', 'x25519']) }).passthrough(),
+    payload: z.object({ iv: z.string(), tag: z.string(), ciphertext: z.string(), sha256: z.string() }).passthrough()
+  }).passthrough(),
+  passphrase: z.string().min(1).optional(),
+  private_key: z.string().min(1).optional(),
+  overwrite: z.boolean().optional().default(false)
+}).refine(body => !!body.passphrase !== !!body.private_key, 'Give either passphrase or private_key')
+
+const CreateSecretLeaseSchema = z.object({
+  key: z.string().min(1),
+  session_id: z.string().min(1),
+  purpose: z.string().min(1),
+  ttl_seconds: z.number().int().min(1).max(3600).optional(),
+  max_uses: z.number().int().min(1).max(10).optional()
+})
+
+const RedeemSecretLeaseSchema = z.object({
+  lease: z.string().min(1),
+  session_id: z.string().min(1),
+  purpose: z.string().min(1)
 })
 
 const StoreSSHKeySchema = z.object({
   key_name: z.string().min(1),
   private_key: z.string().min(1),
   public_key: z.string().min(1),
-  key_type: z.enum(['rsa', 'ed25519', 'ecdsa']),
+  key_type: z.enum(['rsa', 'ed25519', 'ecdsa']).optional(),
   metadata: z.object({
     description: z.string().optional(),
     allowed_hosts: z.array(z.string()).optional()
   }).optional()
 })
 
+const GenerateSSHKeySchema = z.object({
+  key_name: z.string().min(1),
+  key_type: z.enum(['rsa', 'ed25519', 'ecdsa']).default('ed25519'),
+  bits: z.number().int().positive().optional(),
+  comment: z.string().optional(),
+  metadata: z.object({
+    description: z.string().optional(),
+    allowed_hosts: z.array(z.string()).optional()
+  }).optional(),
+  overwrite: z.boolean().default(false)
+})
+
+const StoreCertificateSchema = z.object({
+  name: z.string().min(1),
+  certificate: z.string().min(1),
+  private_key: z.string().min(1).optional(),
+  chain: z.string().min(1).optional(),
+  certificate_type: z.enum(['ssl', 'client', 'ca']).optional(),
+  metadata: z.record(z.any()).optional()
+})
+
+const ExpiringSecretsQuerySchema = z.object({
+  within_days: z.coerce.number().int().min(0).max(365).optional()
+})
+
+const SecretParamsSchema = z.object({
+  type: z.enum(['credential', 'ssh_key', 'certificate']),
+  key: z.string().min(1)
+})
+
+const SecretVersionParamsSchema = SecretParamsSchema.extend({
+  version: z.coerce.number().int().positive()
+})
+
+const RollbackSecretSchema = z.object({
+  version: z.number().int().positive()
+})
+
+const CredentialRotationPolicySchema = z.object({
+  interval_days: z.number().int().positive(),
+  grace_period_hours: z.number().int().min(0).optional().default(24)
+})
+
+const RotateCredentialSchema = z.object({
+  dry_run: z.boolean().optional().default(false)
+})
+
+const InspectSecretReferencesSchema = z.object({
+  value: z.any().optional(),
+  deployment_pattern_id: z.string().min(1).optional(),
+  community_pattern_id: z.string().min(1).optional()
+})
+
+// Executors expand references on behalf of a user in their workspace
+const ResolveSecretReferencesSchema = InspectSecretReferencesSchema.extend({
+  user_id: z.string().min(1)
+})
+
 const UpdatePreferencesSchema = z.object({
   default_cloud_provider: z.string().optional(),
   preferred_regions: z.array(z.string()).optional(),
@@ -65,7 +185,7 @@ const RecordInfrastructureEventSchema = z.object({
 
 
 // Helper to ensure user is authenticated
-function requireAuth(request: FastifyRequest, reply: FastifyReply): { user_id: string; workspace_id: string } | null {
+export function requireAuth(request: FastifyRequest, reply: FastifyReply): { user_id: string; workspace_id: string } | null {
   try {
     // Development mode: bypass authentication
     if (process.env.NODE_ENV === 'development' && process.env.BYPASS_AUTH === 'true') {
@@ -92,6 +212,134 @@ function requireAuth(request: FastifyRequest, reply: FastifyReply): { user_id: s
   }
 }
 
+// Helper to ensure the caller is a service administrator (JWT role claim)
+function requireAdmin(request: FastifyRequest, reply: FastifyReply): { user_id: string; workspace_id: string } | null {
+  const user = requireAuth(request, reply)
+  if (!user) return null
+
+  const isDevBypass = process.env.NODE_ENV === 'development' && process.env.BYPASS_AUTH === 'true'
+  if (!isDevBypass && (request as any).user?.role !== 'admin') {
+    reply.code(403).send({ success: false, error: 'Administrator role required' })
+    return null
+  }
+
+  return user
+}
+
+// Helper to ensure the caller is a trusted executor allowed to redeem secret leases
+function requireExecutor(request: FastifyRequest, reply: FastifyReply): { user_id: string; workspace_id: string } | null {
+  const user = requireAuth(request, reply)
+  if (!user) return null
+
+  const isDevBypass = process.env.NODE_ENV === 'development' && process.env.BYPASS_AUTH === 'true'
+  if (!isDevBypass && (request as any).user?.role !== 'executor') {
+    reply.code(403).send({ success: false, error: 'Executor role required' })
+    return null
+  }
+
+  return user
+}
+
+// Lease mode (REQUIRE_SECRET_LEASES) hands out lease handles, never plaintext credentials
+function refusePlaintext(reply: FastifyReply, instead: string): boolean {
+  if (process.env.REQUIRE_SECRET_LEASES !== 'true') return false
+
+  reply.code(403).send({ success: false, error: `Plaintext retrieval is disabled; ${instead}` })
+  return true
+}
+
+// ETag of a context version
+function versionETag(version: number): string {
+  return `"${version}"`
+}
+
+// Send the version of the secret context a read came from, once it exists
+function setContextETag(reply: FastifyReply, version: number | null): void {
+  if (version !== null) {
+    reply.header('ETag', versionETag(version))
+  }
+}
+
+// Context version an If-Match header names; '*' (or no header) accepts any.
+// A tag this service never hands out names no version, so the write fails.
+function ifMatchVersion(request: FastifyRequest): number | undefined {
+  const ifMatch = request.headers['if-match']?.trim()
+  if (!ifMatch || ifMatch === '*') return undefined
+
+  const match = /^(?:W\/)?"(\d+)"$/.exec(ifMatch)
+  return match ? Number(match[1]) : -1
+}
+
+// HTTP status for a write that lost to a concurrent one: 412 when the
+// If-Match version is outdated, 409 when retrying did not get it through
+function contextConflictStatus(error: unknown): number | null {
+  if (!(error instanceof ContextConflictError)) return null
+  return error.code === 'VERSION_MISMATCH' ? 412 : 409
+}
+
+// HTTP status for a failed lease operation
+function secretLeaseErrorStatus(error: unknown): number {
+  if (!(error instanceof SecretLeaseError)) return 500
+
+  switch (error.code) {
+    case 'LEASE_NOT_FOUND':
+    case 'CREDENTIAL_NOT_FOUND':
+      return 404
+    case 'LEASE_SCOPE_MISMATCH':
+      return 403
+    case 'LEASE_EXPIRED':
+    case 'LEASE_REVOKED':
+    case 'LEASE_EXHAUSTED':
+      return 410
+    default:
+      return 400
+  }
+}
+
+// HTTP status for a failed retrieval; locked contexts answer 423 Locked
+function secretRetrievalErrorStatus(error: unknown): number {
+  return error instanceof SecretContextLockedError ? 423 : 500
+}
+
+// HTTP status for a failed secret version operation
+function secretVersionErrorStatus(error: unknown): number {
+  if (!(error instanceof SecretVersionError)) return 500
+  return error.code === 'VERSION_NOT_FOUND' ? 404 : 409
+}
+
+// HTTP status for a failed workspace-shared secret operation
+function workspaceSecretErrorStatus(error: unknown): number {
+  const conflictStatus = contextConflictStatus(error)
+  if (conflictStatus !== null) return conflictStatus
+  if (error instanceof WorkspaceAccessError) return 403
+  if (error instanceof SecretContextLockedError) return 423
+  if (error instanceof SSHKeyError || error instanceof CertificateError || error instanceof CredentialValidationError) return 400
+  return 500
+}
+
+// HTTP status for a failed reference check or expansion
+function secretReferenceErrorStatus(error: unknown): number {
+  if (error instanceof SecretReferenceError) {
+    return error.code === 'SOURCE_NOT_FOUND' ? 404 : 400
+  }
+  return 500
+}
+
+// HTTP status for a failed rotation request
+function credentialRotationErrorStatus(error: unknown): number {
+  if (!(error instanceof CredentialRotationError)) return 500
+
+  switch (error.code) {
+    case 'CREDENTIAL_NOT_FOUND':
+      return 404
+    case 'NO_POLICY':
+    case 'REVOCATION_PENDING':
+      return 409
+    default:
+      return 400
+  }
+}
+
 export async function contextRoutes(fastify: FastifyInstance) {
   
   // =================================
@@ -100,7 +348,7 @@ export async function contextRoutes(fastify: FastifyInstance) {
   
   // Store encrypted credential
   fastify.post('/secret/credential', async (request: FastifyRequest, reply: FastifyReply) => {
-    const { key, value, credential_type, provider, expires_at } = StoreCredentialSchema.parse(request.body)
+    const { key, value, credential_type, provider, expires_at, check_liveness } = StoreCredentialSchema.parse(request.body)
     
     if (!request.user) {
       return reply.code(401).send({ error: 'Unauthorized' })
@@ -112,23 +360,29 @@ export async function contextRoutes(fastify: FastifyInstance) {
 
     try {
       const expiresAtDate = expires_at ? new Date(expires_at) : undefined
+      const expectedVersion = ifMatchVersion(request)
       
-      await fastify.secretContextService.storeCredential(
+      const validation = await fastify.secretContextService.storeCredential(
         workspace_id,
         user_id,
         key,
         value,
         credential_type,
         provider,
-        expiresAtDate
+        expiresAtDate,
+        {
+          ...(check_liveness !== undefined && { checkLiveness: check_liveness }),
+          ...(expectedVersion !== undefined && { expectedVersion })
+        }
       )
 
       reply.code(201).send({
         success: true,
-        message: `Credential '${key}' stored successfully`
+        message: `Credential '${key}' stored successfully`,
+        data: { validation }
       })
     } catch (error) {
-      reply.code(500).send({
+      reply.code(contextConflictStatus(error) ?? (error instanceof CredentialValidationError ? 400 : 500)).send({
         success: false,
         error: 'Failed to store credential',
         details: error instanceof Error ? error.message : 'Unknown error'
@@ -141,10 +395,12 @@ export async function contextRoutes(fastify: FastifyInstance) {
     const { key } = request.params as { key: string }
     const user = requireAuth(request, reply)
     if (!user) return
+    if (refusePlaintext(reply, 'request a lease instead')) return
     const { user_id, workspace_id } = user
 
     try {
-      const credential = await fastify.secretContextService.getCredential(
+      // The user's own credential or the workspace-shared one, per the resolution order
+      const credential = await fastify.workspaceSecretService.resolveCredential(
         workspace_id,
         user_id,
         key
@@ -158,12 +414,15 @@ export async function contextRoutes(fastify: FastifyInstance) {
         return
       }
 
+      setContextETag(reply, credential.scope === 'workspace'
+        ? await fastify.workspaceSecretService.getSecretContextVersion(workspace_id, user_id)
+        : await fastify.secretContextService.getSecretContextVersion(workspace_id, user_id))
       reply.send({
         success: true,
-        data: { value: credential }
+        data: { value: credential.value, scope: credential.scope }
       })
     } catch (error) {
-      reply.code(500).send({
+      reply.code(secretRetrievalErrorStatus(error)).send({
         success: false,
         error: 'Failed to retrieve credential',
         details: error instanceof Error ? error.message : 'Unknown error'
@@ -171,193 +430,1232 @@ export async function contextRoutes(fastify: FastifyInstance) {
     }
   })
 
-  // Store SSH key
-  fastify.post('/secret/ssh-key', async (request: FastifyRequest, reply: FastifyReply) => {
-    const { key_name, private_key, public_key, key_type, metadata } = StoreSSHKeySchema.parse(request.body)
+  // Import credentials from a .env, flat JSON or SOPS file, or preview the import with dry_run
+  fastify.post('/secret/import', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { content, format, rules, sops_data_key, dry_run, check_liveness } = ImportSecretsSchema.parse(request.body)
     const user = requireAuth(request, reply)
     if (!user) return
     const { user_id, workspace_id } = user
 
     try {
-      await fastify.secretContextService.storeSSHKey(
+      const plan = classifySecretImport(
+        parseSecretImport(content, format, { ...(sops_data_key && { sopsDataKey: sops_data_key }) }),
+        rules
+      )
+      const expectedVersion = ifMatchVersion(request)
+      const result = await fastify.secretContextService.importCredentials(
         workspace_id,
         user_id,
-        key_name,
-        private_key,
-        public_key,
-        key_type,
-        metadata
+        plan.candidates,
+        {
+          dryRun: dry_run,
+          ...(check_liveness !== undefined && { checkLiveness: check_liveness }),
+          ...(expectedVersion !== undefined && { expectedVersion })
+        }
       )
 
-      reply.code(201).send({
+      reply.send({
         success: true,
-        message: `SSH key '${key_name}' stored successfully`
+        message: result.applied
+          ? `Imported ${result.changes.filter(change => change.action !== 'unchanged').length} credential(s)`
+          : dry_run ? 'Import preview (nothing was stored)' : 'All credentials are up to date',
+        data: {
+          applied: result.applied,
+          // Sources and matching are only known here; the service reports the diff
+          changes: result.changes.map(change => {
+            const candidate = plan.candidates.find(c => c.key === change.key)!
+            return { ...change, sources: candidate.sources, matched_by: candidate.matched_by }
+          }),
+          skipped: plan.skipped
+        }
       })
     } catch (error) {
-      reply.code(500).send({
+      reply.code(contextConflictStatus(error) ?? (error instanceof SecretImportError ? 400 : 500)).send({
         success: false,
-        error: 'Failed to store SSH key',
+        error: 'Failed to import secrets',
         details: error instanceof Error ? error.message : 'Unknown error'
       })
     }
   })
 
-  // Get SSH key
-  fastify.get('/secret/ssh-key/:keyName', async (request: FastifyRequest, reply: FastifyReply) => {
-    const { keyName } = request.params as { keyName: string }
+  // Export all secrets as a bundle encrypted to a passphrase or X25519 public key
+  fastify.post('/secret/export', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { passphrase, public_key } = ExportSecretBundleSchema.parse(request.body)
     const user = requireAuth(request, reply)
     if (!user) return
     const { user_id, workspace_id } = user
 
     try {
-      const sshKey = await fastify.secretContextService.getSSHKey(
+      const bundle = await fastify.secretContextService.exportSecretBundle(
         workspace_id,
         user_id,
-        keyName
+        passphrase ? { passphrase } : { public_key: public_key! }
       )
 
-      if (!sshKey) {
-        reply.code(404).send({
-          success: false,
-          error: `SSH key '${keyName}' not found`
-        })
-        return
-      }
-
       reply.send({
         success: true,
-        data: sshKey
+        message: `Exported ${bundle.manifest.entries.length} secret(s)`,
+        data: bundle
       })
     } catch (error) {
-      reply.code(500).send({
+      reply.code(error instanceof SecretBundleError ? 400 : 500).send({
         success: false,
-        error: 'Failed to retrieve SSH key',
+        error: 'Failed to export secrets',
         details: error instanceof Error ? error.message : 'Unknown error'
       })
     }
   })
 
-  // List all secrets (metadata only)
-  fastify.get('/secret/list', async (request: FastifyRequest, reply: FastifyReply) => {
+  // Import a bundle exported from this or another instance
+  fastify.post('/secret/import/bundle', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { bundle, passphrase, private_key, overwrite } = ImportSecretBundleSchema.parse(request.body)
     const user = requireAuth(request, reply)
     if (!user) return
     const { user_id, workspace_id } = user
 
     try {
-      const secrets = await fastify.secretContextService.listSecrets(workspace_id, user_id)
+      const expectedVersion = ifMatchVersion(request)
+      const result = await fastify.secretContextService.importSecretBundle(
+        workspace_id,
+        user_id,
+        bundle as unknown as SecretBundle,
+        passphrase ? { passphrase } : { private_key: private_key! },
+        { overwrite, ...(expectedVersion !== undefined && { expectedVersion }) }
+      )
 
       reply.send({
         success: true,
-        data: secrets
+        message: `Imported ${result.imported.length} secret(s), skipped ${result.skipped.length}`,
+        data: result
       })
     } catch (error) {
-      reply.code(500).send({
+      reply.code(contextConflictStatus(error) ?? (error instanceof SecretBundleError ? 400 : 500)).send({
         success: false,
-        error: 'Failed to list secrets',
+        error: 'Failed to import secret bundle',
         details: error instanceof Error ? error.message : 'Unknown error'
       })
     }
   })
 
-  // Delete secret
-  fastify.delete('/secret/:type/:key', async (request: FastifyRequest, reply: FastifyReply) => {
-    const { type, key } = request.params as { type: string; key: string }
+  // Issue a short-lived lease for a credential instead of returning its value
+  fastify.post('/secret/lease', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { key, session_id, purpose, ttl_seconds, max_uses } = CreateSecretLeaseSchema.parse(request.body)
     const user = requireAuth(request, reply)
     if (!user) return
     const { user_id, workspace_id } = user
 
-    if (!['credential', 'ssh_key', 'certificate'].includes(type)) {
-      reply.code(400).send({
-        success: false,
-        error: 'Invalid secret type. Must be credential, ssh_key, or certificate'
-      })
-      return
-    }
-
     try {
-      const deleted = await fastify.secretContextService.deleteSecret(
+      const { lease_handle, lease } = await fastify.secretLeaseService.createLease(
         workspace_id,
         user_id,
-        type as 'credential' | 'ssh_key' | 'certificate',
-        key
+        key,
+        {
+          session_id,
+          purpose,
+          ...(ttl_seconds !== undefined && { ttl_seconds }),
+          ...(max_uses !== undefined && { max_uses })
+        }
       )
 
-      if (!deleted) {
-        reply.code(404).send({
-          success: false,
-          error: `${type} '${key}' not found`
-        })
-        return
-      }
+      reply.code(201).send({
+        success: true,
+        data: { lease_handle, ...lease }
+      })
+    } catch (error) {
+      reply.code(secretLeaseErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to create lease',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // List the caller's active leases (handles are never returned again)
+  fastify.get('/secret/leases', async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const leases = await fastify.secretLeaseService.listLeases(workspace_id, user_id)
 
       reply.send({
         success: true,
-        message: `${type} '${key}' deleted successfully`
+        data: leases
       })
     } catch (error) {
       reply.code(500).send({
         success: false,
-        error: `Failed to delete ${type}`,
+        error: 'Failed to list leases',
         details: error instanceof Error ? error.message : 'Unknown error'
       })
     }
   })
 
-  // =================================
-  // USER CONTEXT ROUTES
-  // =================================
-
-  // Get user context
-  fastify.get('/user', async (request: FastifyRequest, reply: FastifyReply) => {
+  // Revoke a lease
+  fastify.delete('/secret/lease/:leaseId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { leaseId } = request.params as { leaseId: string }
     const user = requireAuth(request, reply)
     if (!user) return
     const { user_id, workspace_id } = user
 
     try {
-      const userContext = await fastify.userContextService.getUserContext(workspace_id, user_id)
+      const revoked = await fastify.secretLeaseService.revokeLease(workspace_id, user_id, leaseId)
 
-      if (!userContext) {
+      if (!revoked) {
         reply.code(404).send({
           success: false,
-          error: 'User context not found'
+          error: `Lease '${leaseId}' not found`
         })
         return
       }
 
       reply.send({
         success: true,
-        data: userContext
+        message: `Lease '${leaseId}' revoked`
       })
     } catch (error) {
       reply.code(500).send({
         success: false,
-        error: 'Failed to retrieve user context',
+        error: 'Failed to revoke lease',
         details: error instanceof Error ? error.message : 'Unknown error'
       })
     }
   })
 
-  // Update user preferences
-  fastify.put('/user/preferences', async (request: FastifyRequest, reply: FastifyReply) => {
-    const preferences = UpdatePreferencesSchema.parse(request.body)
+  // Redeem a lease for the credential value (trusted executors only)
+  fastify.post('/secret/lease/redeem', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { lease, session_id, purpose } = RedeemSecretLeaseSchema.parse(request.body)
+    const executor = requireExecutor(request, reply)
+    if (!executor) return
+
+    try {
+      const redemption = await fastify.secretLeaseService.redeemLease(lease, {
+        executor_id: executor.user_id,
+        workspace_id: executor.workspace_id,
+        session_id,
+        purpose,
+        ip_address: request.ip,
+        ...(request.headers['user-agent'] && { user_agent: request.headers['user-agent'] })
+      })
+
+      reply.send({
+        success: true,
+        data: redemption
+      })
+    } catch (error) {
+      reply.code(secretLeaseErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to redeem lease',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Store SSH key
+  fastify.post('/secret/ssh-key', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { key_name, private_key, public_key, key_type, metadata } = StoreSSHKeySchema.parse(request.body)
     const user = requireAuth(request, reply)
     if (!user) return
     const { user_id, workspace_id } = user
 
     try {
-      const updatedContext = await fastify.userContextService.updateUserPreferences(
+      const keyPair = await fastify.secretContextService.storeSSHKey(
         workspace_id,
         user_id,
-        preferences
+        key_name,
+        private_key,
+        public_key,
+        key_type,
+        metadata,
+        ifMatchVersion(request)
       )
 
-      reply.send({
+      reply.code(201).send({
         success: true,
-        data: updatedContext.preferences,
-        message: 'Preferences updated successfully'
+        message: `SSH key '${key_name}' stored successfully`,
+        data: {
+          key_name,
+          key_type: keyPair.key_type,
+          bits: keyPair.bits,
+          fingerprint: keyPair.fingerprint
+        }
       })
     } catch (error) {
-      reply.code(500).send({
+      reply.code(contextConflictStatus(error) ?? (error instanceof SSHKeyError ? 400 : 500)).send({
+        success: false,
+        error: 'Failed to store SSH key',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Generate SSH key pair (private key stays in the service)
+  fastify.post('/secret/ssh-key/generate', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { key_name, key_type, bits, comment, metadata, overwrite } = GenerateSSHKeySchema.parse(request.body)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const expectedVersion = ifMatchVersion(request)
+      const keyPair = await fastify.secretContextService.generateSSHKey(
+        workspace_id,
+        user_id,
+        key_name,
+        key_type,
+        {
+          ...(bits !== undefined && { bits }),
+          ...(comment !== undefined && { comment }),
+          ...(metadata && { metadata }),
+          overwrite,
+          ...(expectedVersion !== undefined && { expectedVersion })
+        }
+      )
+
+      reply.code(201).send({
+        success: true,
+        message: `SSH key '${key_name}' generated successfully`,
+        data: {
+          key_name,
+          key_type: keyPair.key_type,
+          bits: keyPair.bits,
+          public_key: keyPair.public_key,
+          fingerprint: keyPair.fingerprint
+        }
+      })
+    } catch (error) {
+      const code = error instanceof SSHKeyError ? (error.code === 'KEY_EXISTS' ? 409 : 400) : 500
+      reply.code(contextConflictStatus(error) ?? code).send({
+        success: false,
+        error: 'Failed to generate SSH key',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Get SSH key
+  fastify.get('/secret/ssh-key/:keyName', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { keyName } = request.params as { keyName: string }
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const sshKey = await fastify.secretContextService.getSSHKey(
+        workspace_id,
+        user_id,
+        keyName
+      )
+
+      if (!sshKey) {
+        reply.code(404).send({
+          success: false,
+          error: `SSH key '${keyName}' not found`
+        })
+        return
+      }
+
+      setContextETag(reply, await fastify.secretContextService.getSecretContextVersion(workspace_id, user_id))
+      reply.send({
+        success: true,
+        data: sshKey
+      })
+    } catch (error) {
+      reply.code(secretRetrievalErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to retrieve SSH key',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Store X.509 certificate
+  fastify.post('/secret/certificate', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { name, certificate, private_key, chain, certificate_type, metadata } = StoreCertificateSchema.parse(request.body)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const stored = await fastify.secretContextService.storeCertificate(
+        workspace_id,
+        user_id,
+        name,
+        certificate,
+        private_key,
+        chain,
+        certificate_type,
+        metadata,
+        ifMatchVersion(request)
+      )
+
+      reply.code(201).send({
+        success: true,
+        message: `Certificate '${name}' stored successfully`,
+        data: {
+          name,
+          certificate_type: stored.certificate_type,
+          common_name: stored.common_name,
+          subject_alt_names: stored.subject_alt_names,
+          issuer: stored.issuer,
+          fingerprint: stored.fingerprint,
+          expires_at: stored.expires_at,
+          has_private_key: stored.has_private_key
+        }
+      })
+    } catch (error) {
+      reply.code(contextConflictStatus(error) ?? (error instanceof CertificateError ? 400 : 500)).send({
+        success: false,
+        error: 'Failed to store certificate',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Get X.509 certificate
+  fastify.get('/secret/certificate/:name', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { name } = request.params as { name: string }
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const certificate = await fastify.secretContextService.getCertificate(
+        workspace_id,
+        user_id,
+        name
+      )
+
+      if (!certificate) {
+        reply.code(404).send({
+          success: false,
+          error: `Certificate '${name}' not found`
+        })
+        return
+      }
+
+      setContextETag(reply, await fastify.secretContextService.getSecretContextVersion(workspace_id, user_id))
+      reply.send({
+        success: true,
+        data: certificate
+      })
+    } catch (error) {
+      reply.code(secretRetrievalErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to retrieve certificate',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // List all secrets (metadata only)
+  fastify.get('/secret/list', async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const secrets = await fastify.secretContextService.listSecrets(workspace_id, user_id)
+      setContextETag(reply, await fastify.secretContextService.getSecretContextVersion(workspace_id, user_id))
+      reply.send({
+        success: true,
+        data: secrets
+      })
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: 'Failed to list secrets',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // List credentials and certificates that are expired or about to expire
+  fastify.get('/secret/expiring', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { within_days } = ExpiringSecretsQuerySchema.parse(request.query)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const expiring = await fastify.expiryMonitorService.listExpiringSecrets(workspace_id, user_id, within_days)
+
+      reply.send({
+        success: true,
+        data: expiring
+      })
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: 'Failed to list expiring secrets',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // List the version history of a secret
+  fastify.get('/secret/:type/:key/versions', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { type, key } = SecretParamsSchema.parse(request.params)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const versions = await fastify.secretContextService.listSecretVersions(workspace_id, user_id, type, key)
+
+      setContextETag(reply, await fastify.secretContextService.getSecretContextVersion(workspace_id, user_id))
+      reply.send({
+        success: true,
+        data: versions
+      })
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: 'Failed to list secret versions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Get one version of a secret with its decrypted value
+  fastify.get('/secret/:type/:key/versions/:version', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { type, key, version } = SecretVersionParamsSchema.parse(request.params)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    if (refusePlaintext(reply, 'roll back the version and request a lease instead')) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const result = await fastify.secretContextService.getSecretVersion(workspace_id, user_id, type, key, version)
+
+      reply.send({
+        success: true,
+        data: { ...result.version, value: result.value }
+      })
+    } catch (error) {
+      reply.code(secretVersionErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to retrieve secret version',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Restore an earlier version of a secret
+  fastify.post('/secret/:type/:key/rollback', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { type, key } = SecretParamsSchema.parse(request.params)
+    const { version } = RollbackSecretSchema.parse(request.body)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const rollback = await fastify.secretContextService.rollbackSecret(workspace_id, user_id, type, key, version, ifMatchVersion(request))
+
+      reply.send({
+        success: true,
+        message: `${type} '${key}' rolled back to version ${version}`,
+        data: rollback
+      })
+    } catch (error) {
+      reply.code(contextConflictStatus(error) ?? secretVersionErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to roll back secret',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Rotate a credential on a schedule through its provider
+  fastify.put('/secret/credential/:key/rotation-policy', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { key } = request.params as { key: string }
+    const { interval_days, grace_period_hours } = CredentialRotationPolicySchema.parse(request.body)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const policy = await fastify.credentialRotationService.setPolicy(workspace_id, user_id, key, {
+        interval_days,
+        grace_period_hours
+      })
+
+      reply.send({
+        success: true,
+        message: `Credential '${key}' rotates every ${interval_days} day(s)`,
+        data: policy
+      })
+    } catch (error) {
+      reply.code(credentialRotationErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to set rotation policy',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Stop rotating a credential
+  fastify.delete('/secret/credential/:key/rotation-policy', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { key } = request.params as { key: string }
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const removed = await fastify.credentialRotationService.removePolicy(workspace_id, user_id, key)
+
+      if (!removed) {
+        reply.code(404).send({
+          success: false,
+          error: `Credential '${key}' has no rotation policy`
+        })
+        return
+      }
+
+      reply.send({
+        success: true,
+        message: `Rotation policy for '${key}' removed`
+      })
+    } catch (error) {
+      reply.code(credentialRotationErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to remove rotation policy',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Rotate a credential now, or rehearse the rotation with dry_run
+  fastify.post('/secret/credential/:key/rotate', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { key } = request.params as { key: string }
+    const { dry_run } = RotateCredentialSchema.parse(request.body || {})
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const run = await fastify.credentialRotationService.rotate(workspace_id, user_id, key, { dryRun: dry_run })
+
+      reply.code(run.status === 'failed' ? 502 : 200).send({
+        success: run.status !== 'failed',
+        ...(run.error_message && { error: run.error_message }),
+        data: run
+      })
+    } catch (error) {
+      reply.code(credentialRotationErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to rotate credential',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Rotation policy and last rotation run of a credential
+  fastify.get('/secret/credential/:key/rotation', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { key } = request.params as { key: string }
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const status = await fastify.credentialRotationService.getStatus(workspace_id, user_id, key)
+
+      reply.send({
+        success: true,
+        data: status
+      })
+    } catch (error) {
+      reply.code(credentialRotationErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to get rotation status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Delete secret
+  fastify.delete('/secret/:type/:key', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { type, key } = request.params as { type: string; key: string }
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    if (!['credential', 'ssh_key', 'certificate'].includes(type)) {
+      reply.code(400).send({
+        success: false,
+        error: 'Invalid secret type. Must be credential, ssh_key, or certificate'
+      })
+      return
+    }
+
+    try {
+      const deleted = await fastify.secretContextService.deleteSecret(
+        workspace_id,
+        user_id,
+        type as 'credential' | 'ssh_key' | 'certificate',
+        key,
+        ifMatchVersion(request)
+      )
+
+      if (!deleted) {
+        reply.code(404).send({
+          success: false,
+          error: `${type} '${key}' not found`
+        })
+        return
+      }
+
+      reply.send({
+        success: true,
+        message: `${type} '${key}' deleted successfully`
+      })
+    } catch (error) {
+      reply.code(contextConflictStatus(error) ?? 500).send({
+        success: false,
+        error: `Failed to delete ${type}`,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // =================================
+  // WORKSPACE-SHARED SECRET ROUTES
+  // =================================
+
+  // Store a credential shared by the workspace (role: user)
+  fastify.post('/secret/workspace/credential', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { key, value, credential_type, provider, expires_at, check_liveness } = StoreCredentialSchema.parse(request.body)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const expectedVersion = ifMatchVersion(request)
+      const validation = await fastify.workspaceSecretService.storeCredential(
+        workspace_id,
+        user_id,
+        key,
+        value,
+        credential_type,
+        provider,
+        expires_at ? new Date(expires_at) : undefined,
+        {
+          ...(check_liveness !== undefined && { checkLiveness: check_liveness }),
+          ...(expectedVersion !== undefined && { expectedVersion })
+        }
+      )
+
+      reply.code(201).send({
+        success: true,
+        message: `Workspace credential '${key}' stored successfully`,
+        data: { validation }
+      })
+    } catch (error) {
+      reply.code(workspaceSecretErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to store workspace credential',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Get a workspace credential (role: reader)
+  fastify.get('/secret/workspace/credential/:key', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { key } = request.params as { key: string }
+    const user = requireAuth(request, reply)
+    if (!user) return
+    if (refusePlaintext(reply, 'request a lease instead')) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const credential = await fastify.workspaceSecretService.getCredential(workspace_id, user_id, key)
+
+      if (!credential) {
+        reply.code(404).send({
+          success: false,
+          error: `Workspace credential '${key}' not found`
+        })
+        return
+      }
+
+      setContextETag(reply, await fastify.workspaceSecretService.getSecretContextVersion(workspace_id, user_id))
+      reply.send({
+        success: true,
+        data: { value: credential, scope: 'workspace' }
+      })
+    } catch (error) {
+      reply.code(workspaceSecretErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to retrieve workspace credential',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Store an SSH key shared by the workspace (role: user)
+  fastify.post('/secret/workspace/ssh-key', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { key_name, private_key, public_key, key_type, metadata } = StoreSSHKeySchema.parse(request.body)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const keyPair = await fastify.workspaceSecretService.storeSSHKey(
+        workspace_id,
+        user_id,
+        key_name,
+        private_key,
+        public_key,
+        key_type,
+        metadata,
+        ifMatchVersion(request)
+      )
+
+      reply.code(201).send({
+        success: true,
+        message: `Workspace SSH key '${key_name}' stored successfully`,
+        data: {
+          key_name,
+          key_type: keyPair.key_type,
+          bits: keyPair.bits,
+          fingerprint: keyPair.fingerprint
+        }
+      })
+    } catch (error) {
+      reply.code(workspaceSecretErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to store workspace SSH key',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Get a workspace SSH key (role: reader)
+  fastify.get('/secret/workspace/ssh-key/:keyName', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { keyName } = request.params as { keyName: string }
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const sshKey = await fastify.workspaceSecretService.getSSHKey(workspace_id, user_id, keyName)
+
+      if (!sshKey) {
+        reply.code(404).send({
+          success: false,
+          error: `Workspace SSH key '${keyName}' not found`
+        })
+        return
+      }
+
+      setContextETag(reply, await fastify.workspaceSecretService.getSecretContextVersion(workspace_id, user_id))
+      reply.send({
+        success: true,
+        data: sshKey
+      })
+    } catch (error) {
+      reply.code(workspaceSecretErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to retrieve workspace SSH key',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Store a certificate shared by the workspace (role: user)
+  fastify.post('/secret/workspace/certificate', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { name, certificate, private_key, chain, certificate_type, metadata } = StoreCertificateSchema.parse(request.body)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const stored = await fastify.workspaceSecretService.storeCertificate(
+        workspace_id,
+        user_id,
+        name,
+        certificate,
+        private_key,
+        chain,
+        certificate_type,
+        metadata,
+        ifMatchVersion(request)
+      )
+
+      reply.code(201).send({
+        success: true,
+        message: `Workspace certificate '${name}' stored successfully`,
+        data: {
+          name,
+          certificate_type: stored.certificate_type,
+          common_name: stored.common_name,
+          subject_alt_names: stored.subject_alt_names,
+          issuer: stored.issuer,
+          fingerprint: stored.fingerprint,
+          expires_at: stored.expires_at,
+          has_private_key: stored.has_private_key
+        }
+      })
+    } catch (error) {
+      reply.code(workspaceSecretErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to store workspace certificate',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Get a workspace certificate (role: reader)
+  fastify.get('/secret/workspace/certificate/:name', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { name } = request.params as { name: string }
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const certificate = await fastify.workspaceSecretService.getCertificate(workspace_id, user_id, name)
+
+      if (!certificate) {
+        reply.code(404).send({
+          success: false,
+          error: `Workspace certificate '${name}' not found`
+        })
+        return
+      }
+
+      setContextETag(reply, await fastify.workspaceSecretService.getSecretContextVersion(workspace_id, user_id))
+      reply.send({
+        success: true,
+        data: certificate
+      })
+    } catch (error) {
+      reply.code(workspaceSecretErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to retrieve workspace certificate',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // List workspace secrets (metadata only, role: reader)
+  fastify.get('/secret/workspace/list', async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const secrets = await fastify.workspaceSecretService.listSecrets(workspace_id, user_id)
+
+      setContextETag(reply, await fastify.workspaceSecretService.getSecretContextVersion(workspace_id, user_id))
+      reply.send({
+        success: true,
+        data: secrets
+      })
+    } catch (error) {
+      reply.code(workspaceSecretErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to list workspace secrets',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Delete a workspace secret (role: admin)
+  fastify.delete('/secret/workspace/:type/:key', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { type, key } = SecretParamsSchema.parse(request.params)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const deleted = await fastify.workspaceSecretService.deleteSecret(workspace_id, user_id, type, key, ifMatchVersion(request))
+
+      if (!deleted) {
+        reply.code(404).send({
+          success: false,
+          error: `Workspace ${type} '${key}' not found`
+        })
+        return
+      }
+
+      reply.send({
+        success: true,
+        message: `Workspace ${type} '${key}' deleted successfully`
+      })
+    } catch (error) {
+      reply.code(workspaceSecretErrorStatus(error)).send({
+        success: false,
+        error: `Failed to delete workspace ${type}`,
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Report which secret:// references in a config resolve, without their values
+  fastify.post('/secret/references/inspect', async (request: FastifyRequest, reply: FastifyReply) => {
+    const source = InspectSecretReferencesSchema.parse(request.body)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const report = await fastify.secretReferenceService.inspectReferences(workspace_id, user_id, source)
+
+      reply.send({
+        success: true,
+        data: report
+      })
+    } catch (error) {
+      reply.code(secretReferenceErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to inspect secret references',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Expand secret:// references for a trusted executor
+  fastify.post('/secret/references/resolve', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { user_id, ...source } = ResolveSecretReferencesSchema.parse(request.body)
+    const executor = requireExecutor(request, reply)
+    if (!executor) return
+
+    try {
+      const resolution = await fastify.secretReferenceService.resolveReferences(
+        executor.workspace_id,
+        user_id,
+        source,
+        {
+          executor_id: executor.user_id,
+          ip_address: request.ip,
+          ...(request.headers['user-agent'] && { user_agent: request.headers['user-agent'] })
+        }
+      )
+
+      reply.send({
+        success: true,
+        data: resolution
+      })
+    } catch (error) {
+      reply.code(secretReferenceErrorStatus(error)).send({
+        success: false,
+        error: 'Failed to resolve secret references',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Start re-encrypting all secret contexts under the current key version
+  fastify.post('/secret/key-rotation', async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = requireAdmin(request, reply)
+    if (!user) return
+
+    const progress = fastify.keyRotationService.start()
+
+    reply.code(202).send({
+      success: true,
+      data: progress
+    })
+  })
+
+  // Key rotation job progress
+  fastify.get('/secret/key-rotation', async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = requireAdmin(request, reply)
+    if (!user) return
+
+    reply.send({
+      success: true,
+      data: fastify.keyRotationService.getProgress()
+    })
+  })
+
+  // Rotate the workspace data key and re-encrypt the workspace's secrets
+  fastify.post('/secret/workspace-key/rotate', async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = requireAdmin(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const result = await fastify.secretContextService.rotateWorkspaceKey(workspace_id, user_id)
+
+      reply.send({
+        success: result.failed === 0,
+        data: result
+      })
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: 'Failed to rotate workspace key',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Destroy the workspace data keys, making all workspace secrets unreadable
+  fastify.delete('/secret/workspace-key', async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = requireAdmin(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const destroyedKeys = await fastify.secretContextService.shredWorkspaceSecrets(workspace_id, user_id)
+
+      reply.send({
+        success: true,
+        message: `Destroyed ${destroyedKeys} data key(s) for workspace '${workspace_id}'`
+      })
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: 'Failed to shred workspace keys',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Check the workspace's audit log hash chain for gaps and edited entries
+  fastify.get('/secret/audit/verify', async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = requireAdmin(request, reply)
+    if (!user) return
+
+    try {
+      const verification = await fastify.auditLogService.verify(user.workspace_id)
+
+      reply.send({
+        success: true,
+        data: verification
+      })
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: 'Failed to verify audit log',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Whether retrieval of the caller's secrets is suspended
+  fastify.get('/secret/lock', async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const lock = await fastify.secretContextService.getSecretContextLock(workspace_id, user_id)
+
+      reply.send({
+        success: true,
+        data: { locked: lock !== null, lock }
+      })
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: 'Failed to get lock status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Unlock a member's secret context after reviewing why it was locked
+  fastify.delete('/secret/lock/:userId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { userId } = request.params as { userId: string }
+    const user = requireAdmin(request, reply)
+    if (!user) return
+
+    try {
+      const unlocked = await withActor(user.user_id, () =>
+        fastify.secretContextService.unlockSecretContext(user.workspace_id, userId)
+      )
+
+      if (!unlocked) {
+        reply.code(404).send({
+          success: false,
+          error: `Secret context of '${userId}' is not locked`
+        })
+        return
+      }
+
+      reply.send({
+        success: true,
+        message: `Unlocked secret context of '${userId}'`
+      })
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: 'Failed to unlock secret context',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Secret access anomalies detected in the workspace, newest first
+  fastify.get('/secret/anomalies', async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = requireAdmin(request, reply)
+    if (!user) return
+
+    reply.send({
+      success: true,
+      data: fastify.anomalyDetectionService.listFindings(user.workspace_id)
+    })
+  })
+
+  // =================================
+  // USER CONTEXT ROUTES
+  // =================================
+
+  // Get user context
+  fastify.get('/user', async (request: FastifyRequest, reply: FastifyReply) => {
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const userContext = await fastify.userContextService.getUserContext(workspace_id, user_id)
+
+      if (!userContext) {
+        reply.code(404).send({
+          success: false,
+          error: 'User context not found'
+        })
+        return
+      }
+
+      reply.header('ETag', versionETag(userContext.version ?? 1)).send({
+        success: true,
+        data: userContext
+      })
+    } catch (error) {
+      reply.code(500).send({
+        success: false,
+        error: 'Failed to retrieve user context',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  })
+
+  // Update user preferences
+  fastify.put('/user/preferences', async (request: FastifyRequest, reply: FastifyReply) => {
+    const preferences = UpdatePreferencesSchema.parse(request.body)
+    const user = requireAuth(request, reply)
+    if (!user) return
+    const { user_id, workspace_id } = user
+
+    try {
+      const updatedContext = await fastify.userContextService.updateUserPreferences(
+        workspace_id,
+        user_id,
+        preferences,
+        ifMatchVersion(request)
+      )
+
+      reply.header('ETag', versionETag(updatedContext.version!)).send({
+        success: true,
+        data: updatedContext.preferences,
+        message: 'Preferences updated successfully'
+      })
+    } catch (error) {
+      reply.code(contextConflictStatus(error) ?? 500).send({
         success: false,
         error: 'Failed to update preferences',
         details: error instanceof Error ? error.message : 'Unknown error'
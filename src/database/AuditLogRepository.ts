@@ -0,0 +1,69 @@
+/**
+ * Audit Log Repository
+ *
+ * Append-only persistence for audit entries. Entries are never updated or
+ * deleted here; the database enforces the same with a trigger.
+ */
+
+import { DatabaseClient } from './client'
+import { AuditLog, AuditLogFilter } from '../types'
+
+const TABLE = 'audit_logs'
+
+export class AuditLogRepository {
+  constructor(private db: DatabaseClient) {}
+
+  /**
+   * The workspace's most recent entry, or null before its first one
+   */
+  async latest(workspaceId: string): Promise<AuditLog | null> {
+    const rows = await this.db.query(TABLE, {
+      filter: { workspace_id: workspaceId },
+      order: { column: 'sequence', ascending: false },
+      limit: 1
+    }) as unknown as AuditLog[]
+
+    return rows[0] || null
+  }
+
+  /**
+   * List a workspace's entries in chain order
+   */
+  async list(workspaceId: string, options: { offset?: number; limit?: number } = {}): Promise<AuditLog[]> {
+    const offset = options.offset || 0
+    const limit = options.limit || 1000
+
+    return await this.db.query(TABLE, {
+      filter: { workspace_id: workspaceId },
+      order: { column: 'sequence', ascending: true },
+      offset,
+      limit
+    }) as unknown as AuditLog[]
+  }
+
+  /**
+   * Entries matching a filter, newest first, optionally only those before a
+   * sequence number
+   */
+  async query(filter: AuditLogFilter, options: { beforeSequence?: number; limit: number }): Promise<AuditLog[]> {
+    const { workspace_id, from, to, ...equals } = filter
+
+    return await this.db.query(TABLE, {
+      filter: Object.fromEntries(Object.entries({ workspace_id, ...equals }).filter(([, value]) => value !== undefined)),
+      range: {
+        timestamp: { gte: from, lte: to },
+        sequence: { lt: options.beforeSequence }
+      },
+      order: { column: 'sequence', ascending: false },
+      limit: options.limit
+    }) as unknown as AuditLog[]
+  }
+
+  /**
+   * Append an entry. Fails with code 23505 when another writer already took
+   * its sequence number.
+   */
+  async insert(entry: AuditLog): Promise<void> {
+    await this.db.insert(TABLE, entry)
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Context Store
+ *
+ * The storage backend behind DatabaseClient: plain table operations that
+ * Supabase, Postgres and SQLite implement alike, so repositories and
+ * services never see which one is configured. Rows go in and come out as
+ * plain objects: JSON columns as objects and arrays, timestamps as ISO
+ * strings. A unique violation fails with code 23505 on every backend,
+ * updating a missing row with NOT_FOUND and a conditional update of a row
+ * that no longer holds the expected values with CONFLICT.
+ *
+ * transaction() groups calls: everything the store is asked to do from
+ * within the work's async context commits together or not at all.
+ *
+ * CONTEXT_STORE selects the backend (supabase, postgres or sqlite);
+ * USE_IN_MEMORY_DB=true runs SQLite in memory instead. Supabase takes
+ * DATABASE_URL, when set, as the direct connection its transactions run on.
+ */
+
+import { DatabaseError } from './client'
+import { SupabaseStore } from './stores/SupabaseStore'
+import { PostgresStore } from './stores/PostgresStore'
+import { SqliteStore } from './stores/SqliteStore'
+
+export type ContextStoreBackend = 'supabase' | 'postgres' | 'sqlite'
+
+export type Row = Record<string, any>
+
+export interface RangeBounds {
+  gt?: unknown
+  gte?: unknown
+  lt?: unknown
+  lte?: unknown
+}
+
+export interface QueryOptions {
+  // Comma-separated columns, all by default
+  select?: string
+  // Column equality; null matches NULL
+  filter?: Record<string, unknown>
+  // Bounds per column, e.g. { timestamp: { gte: from, lte: to } }; undefined bounds are ignored
+  range?: Record<string, RangeBounds>
+  // Case-insensitive substring per column, e.g. { name: 'react' }
+  contains?: Record<string, string>
+  order?: { column: string; ascending?: boolean }
+  limit?: number
+  // Rows to skip; limit defaults to 10 when set
+  offset?: number
+}
+
+// count() counts rows, the others take a numeric column; an empty group sums to null
+export type Aggregate =
+  | { fn: 'count' }
+  | { fn: 'sum' | 'avg' | 'min' | 'max'; column: string }
+
+export interface AggregateOptions extends Pick<QueryOptions, 'filter' | 'range' | 'contains'> {
+  // One result row per distinct combination of these columns, a single row without
+  groupBy?: string[]
+  // Result column -> aggregate, e.g. { events: { fn: 'count' } }
+  measures: Record<string, Aggregate>
+}
+
+export interface ContextStore {
+  readonly backend: ContextStoreBackend
+  // Whether transaction() groups calls rather than rejecting
+  readonly transactional: boolean
+
+  query(table: string, options?: QueryOptions): Promise<Row[]>
+  insert(table: string, row: Row): Promise<Row>
+  // expected: column values the row must still hold, e.g. { version: 3 }
+  update(table: string, id: string, changes: Row, expected?: Record<string, unknown>): Promise<Row>
+  // onConflict: comma-separated columns of the unique constraint
+  upsert(table: string, row: Row, onConflict: string): Promise<Row>
+  // Like upsert() but keeps the existing row; null when there was one
+  insertIfAbsent(table: string, row: Row, onConflict: string): Promise<Row | null>
+  delete(table: string, id: string): Promise<boolean>
+  count(table: string, filter?: Record<string, unknown>): Promise<number>
+  aggregate(table: string, options: AggregateOptions): Promise<Row[]>
+  // Runs SQL statements in one transaction, for schema migrations; Supabase
+  // (PostgREST) has no SQL access and rejects with UNSUPPORTED
+  execute(sql: string): Promise<void>
+  // Commits every call made within work, or rolls them all back when it
+  // throws; nested calls join the outer transaction. Supabase rejects with
+  // UNSUPPORTED unless it has a direct connection (DATABASE_URL)
+  transaction<T>(work: () => Promise<T>): Promise<T>
+  healthCheck(): Promise<boolean>
+  close(): Promise<void>
+}
+
+/**
+ * Whether a conditional update found the row changed
+ */
+export function isConflict(error: unknown): boolean {
+  return error instanceof DatabaseError && error.code === 'CONFLICT'
+}
+
+/**
+ * Insert a row without a version as version 1, or update it from the
+ * version it carries to the next. Either fails with CONFLICT when another
+ * write got there first. Returns the new version.
+ */
+export async function saveVersioned(store: ContextStore, table: string, row: Row): Promise<number> {
+  if (row.version === undefined) {
+    try {
+      await store.insert(table, { ...row, version: 1 })
+    } catch (error) {
+      if (error instanceof DatabaseError && error.code === '23505') {
+        throw new DatabaseError(`Insert failed: row in ${table} was created meanwhile`, 'CONFLICT')
+      }
+      throw error
+    }
+    return 1
+  }
+
+  await store.update(table, row.id, { ...row, version: row.version + 1 }, { version: row.version })
+  return row.version + 1
+}
+
+/**
+ * LIKE pattern matching the value anywhere, with its wildcards escaped
+ */
+export function containsPattern(value: string): string {
+  return `%${value.replace(/[\\%_]/g, character => `\\${character}`)}%`
+}
+
+/**
+ * The store configured through the environment
+ */
+export function createContextStore(supabase: { url: string; key: string }): ContextStore {
+  if (process.env.USE_IN_MEMORY_DB === 'true') {
+    return new SqliteStore(':memory:')
+  }
+
+  const backend = process.env.CONTEXT_STORE || 'supabase'
+  switch (backend) {
+    case 'supabase':
+      return new SupabaseStore(
+        supabase.url,
+        supabase.key,
+        process.env.DATABASE_URL ? new PostgresStore(process.env.DATABASE_URL) : undefined
+      )
+    case 'postgres':
+      if (!process.env.DATABASE_URL) {
+        throw new DatabaseError('DATABASE_URL is required for the postgres context store', 'CONFIG_ERROR')
+      }
+      return new PostgresStore(process.env.DATABASE_URL)
+    case 'sqlite':
+      return new SqliteStore(process.env.SQLITE_PATH || 'data/context-manager.db')
+    default:
+      throw new DatabaseError(`Unknown CONTEXT_STORE '${backend}', expected supabase, postgres or sqlite`, 'CONFIG_ERROR')
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Migration Runner
+ *
+ * Applies and rolls back the versioned migrations in src/database/migrations
+ * against a Postgres or SQLite context store. Applied versions are recorded
+ * in schema_migrations, each together with its schema change in one
+ * transaction. A row in schema_migrations_lock keeps concurrent runners,
+ * e.g. several instances starting at once, from migrating side by side.
+ */
+
+import os from 'os'
+import { DatabaseError } from './client'
+import { ContextStore } from './ContextStore'
+import { MIGRATIONS, MIGRATION_TABLES, Migration, MigrationDialect } from './migrations'
+
+export interface MigrationStatus {
+  version: number
+  name: string
+  applied_at: string | null
+}
+
+export interface MigrationRunnerOptions {
+  // How long to wait for another runner's lock, 30 seconds by default
+  lockTimeoutMs?: number
+}
+
+const LOCK_POLL_MS = 500
+
+export class MigrationRunner {
+  private dialect: MigrationDialect
+  private migrations: Migration[]
+
+  constructor(
+    private store: ContextStore,
+    migrations: Migration[] = MIGRATIONS,
+    private options: MigrationRunnerOptions = {}
+  ) {
+    this.dialect = store.backend === 'sqlite' ? 'sqlite' : 'postgres'
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version)
+
+    this.migrations.forEach((migration, index) => {
+      if (!Number.isInteger(migration.version) || migration.version < 1 || !/^[a-z0-9_]+$/.test(migration.name)) {
+        throw new DatabaseError(`Invalid migration ${migration.version}_${migration.name}`, 'INVALID_MIGRATION')
+      }
+      if (index > 0 && this.migrations[index - 1]!.version === migration.version) {
+        throw new DatabaseError(`Duplicate migration version ${migration.version}`, 'INVALID_MIGRATION')
+      }
+    })
+  }
+
+  /**
+   * Every known migration, plus any applied one this build doesn't know
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.store.execute(MIGRATION_TABLES)
+    const applied = await this.applied()
+
+    const statuses: MigrationStatus[] = this.migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied_at: applied.get(migration.version)?.applied_at ?? null
+    }))
+    for (const [version, row] of applied) {
+      if (!this.migrations.some(migration => migration.version === version)) {
+        statuses.push({ version, name: row.name, applied_at: row.applied_at })
+      }
+    }
+
+    return statuses.sort((a, b) => a.version - b.version)
+  }
+
+  /**
+   * Apply pending migrations up to and including the target version
+   * (all of them by default)
+   */
+  async up(target: number = Infinity): Promise<Migration[]> {
+    return await this.withLock(async () => {
+      const applied = await this.applied()
+      const pending = this.migrations.filter(migration => migration.version <= target && !applied.has(migration.version))
+
+      for (const migration of pending) {
+        await this.run(migration, `${migration.up[this.dialect]}
+INSERT INTO schema_migrations (version, name, applied_at) VALUES (${migration.version}, '${migration.name}', '${new Date().toISOString()}');`)
+        console.log(`[Migrations] Applied ${label(migration)}`)
+      }
+
+      return pending
+    })
+  }
+
+  /**
+   * Roll back applied migrations newer than the target version, by default
+   * only the latest one
+   */
+  async down(target?: number): Promise<Migration[]> {
+    return await this.withLock(async () => {
+      const versions = Array.from((await this.applied()).keys()).sort((a, b) => b - a)
+      const floor = target ?? versions[1] ?? 0
+      const rolledBack: Migration[] = []
+
+      for (const version of versions.filter(version => version > floor)) {
+        const migration = this.migrations.find(candidate => candidate.version === version)
+        if (!migration) {
+          throw new DatabaseError(`Applied migration ${version} is unknown to this build and cannot be rolled back`, 'MIGRATION_UNKNOWN')
+        }
+
+        await this.run(migration, `${migration.down[this.dialect]}
+DELETE FROM schema_migrations WHERE version = ${migration.version};`)
+        console.log(`[Migrations] Rolled back ${label(migration)}`)
+        rolledBack.push(migration)
+      }
+
+      return rolledBack
+    })
+  }
+
+  /**
+   * Release a lock left behind by a runner that died mid-migration
+   */
+  async unlock(): Promise<boolean> {
+    await this.store.execute(MIGRATION_TABLES)
+    const held = await this.store.count('schema_migrations_lock') > 0
+    await this.store.delete('schema_migrations_lock', '1')
+    return held
+  }
+
+  // Private helper methods
+  private async applied(): Promise<Map<number, { name: string; applied_at: string }>> {
+    const rows = await this.store.query('schema_migrations', { order: { column: 'version', ascending: true } })
+    return new Map(rows.map(row => [Number(row.version), { name: row.name, applied_at: row.applied_at }]))
+  }
+
+  private async run(migration: Migration, sql: string): Promise<void> {
+    try {
+      await this.store.execute(sql)
+    } catch (error) {
+      const { message, code } = error as DatabaseError
+      throw new DatabaseError(`Migration ${label(migration)} failed: ${message}`, code || 'MIGRATION_FAILED')
+    }
+  }
+
+  private async withLock<T>(work: () => Promise<T>): Promise<T> {
+    await this.store.execute(MIGRATION_TABLES)
+
+    const owner = `${os.hostname()}:${process.pid}`
+    const deadline = Date.now() + (this.options.lockTimeoutMs ?? 30000)
+
+    for (;;) {
+      try {
+        await this.store.insert('schema_migrations_lock', { id: 1, locked_by: owner, locked_at: new Date().toISOString() })
+        break
+      } catch (error) {
+        if (!(error instanceof DatabaseError) || error.code !== '23505') {
+          throw error
+        }
+        if (Date.now() >= deadline) {
+          const [lock] = await this.store.query('schema_migrations_lock', { limit: 1 })
+          throw new DatabaseError(
+            `Migrations are locked by ${lock?.locked_by} since ${lock?.locked_at}; if that runner is gone, release the lock with \`npm run migrate unlock\``,
+            'MIGRATION_LOCKED'
+          )
+        }
+        await new Promise(resolve => setTimeout(resolve, LOCK_POLL_MS))
+      }
+    }
+
+    try {
+      return await work()
+    } finally {
+      await this.store.delete('schema_migrations_lock', '1')
+    }
+  }
+}
+
+function label(migration: Migration): string {
+  return `${String(migration.version).padStart(3, '0')}_${migration.name}`
+}
@@ -0,0 +1,185 @@
+/**
+ * Secret Context Repository
+ *
+ * Persistence for secret contexts, per user or (in its own table) shared by
+ * a workspace. Values inside the credentials, ssh_keys, certificates and
+ * api_keys maps are already sealed by SecretContextService, so rows are
+ * stored and cached as-is. Rows written by the old persistence
+ * path (each map encrypted once more as a whole with the master key) are
+ * decoded on read and rewritten by repairLegacyRows.
+ */
+
+import { DatabaseClient } from './client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContext, EncryptedValue } from '../types'
+
+const CACHE_TTL_SECONDS = 300
+const SECRET_MAPS = ['api_keys', 'credentials', 'ssh_keys', 'certificates'] as const
+
+export interface SecretContextRepairResult {
+  scanned: number
+  repaired: number
+  failures: Array<{ id: string; error: string }>
+}
+
+export class SecretContextRepository {
+  constructor(
+    private db: DatabaseClient,
+    private encryption: EncryptionService,
+    // workspace_secret_contexts holds the workspace-shared store
+    private table: string = 'secret_contexts'
+  ) {}
+
+  /**
+   * Load the secret context of a user in a workspace, cache first
+   */
+  async findByUserAndWorkspace(workspaceId: string, userId: string): Promise<SecretContext | null> {
+    const cacheKey = this.cacheKey(workspaceId, userId)
+    const cached = await this.db.cacheGet<SecretContext>(cacheKey)
+    if (cached) {
+      return cached
+    }
+
+    const rows = await this.db.findByUserAndWorkspace<Record<string, any>>(this.table, userId, workspaceId)
+    if (!rows[0]) {
+      return null
+    }
+
+    const { secretContext } = this.fromRow(rows[0])
+    await this.db.cacheSet(cacheKey, secretContext, CACHE_TTL_SECONDS)
+
+    return secretContext
+  }
+
+  /**
+   * Insert a new secret context or update it from the version it was read
+   * at, and drop its cache entry. Fails with CONFLICT when another write got
+   * there first; otherwise the context now carries its new version.
+   */
+  async save(secretContext: SecretContext): Promise<void> {
+    try {
+      secretContext.version = await this.db.saveVersioned(this.table, this.toRow(secretContext))
+    } finally {
+      await this.invalidate(secretContext.workspace_id, secretContext.user_id)
+    }
+  }
+
+  async count(): Promise<number> {
+    return await this.db.count(this.table)
+  }
+
+  /**
+   * Iterate every stored secret context page by page (for background jobs)
+   */
+  async *iterate(pageSize: number = 100, workspaceId?: string): AsyncGenerator<SecretContext> {
+    for await (const row of this.iterateRows(pageSize, workspaceId)) {
+      yield this.fromRow(row).secretContext
+    }
+  }
+
+  async invalidate(workspaceId: string, userId: string): Promise<void> {
+    await this.db.cacheDelete(this.cacheKey(workspaceId, userId))
+  }
+
+  async invalidateWorkspace(workspaceId: string): Promise<void> {
+    await this.db.cacheInvalidatePattern(this.cacheKey(workspaceId, '*'))
+  }
+
+  /**
+   * One-time repair of rows whose secret maps were encrypted a second time
+   * as a whole. Each map is decrypted with the master key and written back
+   * in its plain shape; the individual values stay sealed.
+   */
+  async repairLegacyRows(pageSize: number = 100): Promise<SecretContextRepairResult> {
+    const result: SecretContextRepairResult = { scanned: 0, repaired: 0, failures: [] }
+
+    for await (const row of this.iterateRows(pageSize)) {
+      result.scanned++
+
+      try {
+        const { secretContext, repaired } = this.fromRow(row)
+        if (!repaired) continue
+
+        await this.save(secretContext)
+        result.repaired++
+      } catch (error) {
+        result.failures.push({
+          id: row.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    return result
+  }
+
+  // Private helper methods
+  private async *iterateRows(pageSize: number, workspaceId?: string): AsyncGenerator<Record<string, any>> {
+    let offset = 0
+    while (true) {
+      const page = await this.db.query(this.table, {
+        ...(workspaceId && { filter: { workspace_id: workspaceId } }),
+        order: { column: 'created_at', ascending: true },
+        limit: pageSize,
+        offset
+      })
+
+      for (const row of page) {
+        yield row
+      }
+
+      if (page.length < pageSize) {
+        return
+      }
+      offset += pageSize
+    }
+  }
+
+  private fromRow(row: Record<string, any>): { secretContext: SecretContext; repaired: boolean } {
+    const { _encrypted_fields, ...rest } = row
+    const secretContext = rest as SecretContext
+    let repaired = _encrypted_fields !== undefined
+
+    for (const field of SECRET_MAPS) {
+      const value = secretContext[field] as unknown
+      if (this.isLegacyEncryptedMap(value)) {
+        (secretContext as any)[field] = JSON.parse(this.encryption.decrypt(value))
+        repaired = true
+      } else if (!value) {
+        (secretContext as any)[field] = {}
+      }
+    }
+
+    return { secretContext, repaired }
+  }
+
+  private toRow(secretContext: SecretContext): Record<string, any> {
+    return {
+      id: secretContext.id,
+      workspace_id: secretContext.workspace_id,
+      user_id: secretContext.user_id,
+      api_keys: secretContext.api_keys,
+      credentials: secretContext.credentials,
+      ssh_keys: secretContext.ssh_keys,
+      certificates: secretContext.certificates,
+      created_at: secretContext.created_at,
+      updated_at: secretContext.updated_at,
+      expires_at: secretContext.expires_at ?? null,
+      locked: secretContext.locked ?? null,
+      version: secretContext.version
+    }
+  }
+
+  // A whole map sealed by encryptObject, as opposed to a map of sealed values
+  private isLegacyEncryptedMap(value: unknown): value is EncryptedValue {
+    const candidate = value as Record<string, unknown> | null
+    return typeof candidate === 'object' && candidate !== null &&
+      typeof candidate.encrypted_data === 'string' &&
+      typeof candidate.iv === 'string' &&
+      typeof candidate.algorithm === 'string'
+  }
+
+  private cacheKey(workspaceId: string, userId: string): string {
+    return this.db.generateCacheKey('secret_context', workspaceId, userId)
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Secret Version Repository
+ *
+ * Persistence for the version history of credentials, SSH keys and
+ * certificates. Each row holds the sealed entry exactly as it was stored,
+ * so old versions stay encrypted.
+ */
+
+import { DatabaseClient } from './client'
+import { SecretVersion } from '../types'
+
+const TABLE = 'secret_versions'
+
+export class SecretVersionRepository {
+  constructor(private db: DatabaseClient) {}
+
+  /**
+   * List the versions of one secret, newest first
+   */
+  async list(
+    workspaceId: string,
+    userId: string,
+    secretType: SecretVersion['secret_type'],
+    key: string
+  ): Promise<SecretVersion[]> {
+    return await this.db.query(TABLE, {
+      filter: { workspace_id: workspaceId, user_id: userId, secret_type: secretType, key },
+      order: { column: 'version', ascending: false }
+    }) as unknown as SecretVersion[]
+  }
+
+  async find(
+    workspaceId: string,
+    userId: string,
+    secretType: SecretVersion['secret_type'],
+    key: string,
+    version: number
+  ): Promise<SecretVersion | null> {
+    const rows = await this.db.query(TABLE, {
+      filter: { workspace_id: workspaceId, user_id: userId, secret_type: secretType, key, version }
+    }) as unknown as SecretVersion[]
+
+    return rows[0] || null
+  }
+
+  async insert(version: SecretVersion): Promise<void> {
+    await this.db.insert(TABLE, version)
+  }
+
+  async delete(versions: SecretVersion[]): Promise<void> {
+    for (const version of versions) {
+      await this.db.delete(TABLE, version.id)
+    }
+  }
+
+  /**
+   * Delete the whole version history of a workspace
+   */
+  async deleteWorkspace(workspaceId: string): Promise<number> {
+    const versions = await this.db.findByWorkspace<SecretVersion>(TABLE, workspaceId)
+    await this.delete(versions)
+    return versions.length
+  }
+}
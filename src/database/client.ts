@@ -1,9 +1,23 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { AsyncLocalStorage } from 'async_hooks'
 import Redis from 'ioredis'
+import { AggregateOptions, ContextStore, QueryOptions, Row, createContextStore, saveVersioned } from './ContextStore'
+import { MigrationRunner } from './MigrationRunner'
 import { DatabaseConfig, CacheConfig } from '../types'
 
+// What a transaction has cached, invalidated and must undo in memory; its
+// cache writes stay private until it commits
+interface TransactionScope {
+  // key -> serialized value, null once deleted
+  cache: Map<string, string | null>
+  patterns: string[]
+  rollbackHooks: Array<() => void | Promise<void>>
+}
+
+const transactionScope = new AsyncLocalStorage<TransactionScope>()
+
 export class DatabaseClient {
-  private supabase: SupabaseClient
+  // Where rows live: Supabase, Postgres or SQLite (see ContextStore)
+  readonly store: ContextStore
   private redis: Redis | null = null
   private inMemoryCache: Map<string, any> = new Map()
   private useInMemoryCache: boolean
@@ -12,20 +26,9 @@ export class DatabaseClient {
     cache: CacheConfig
   }
 
-  constructor(supabaseUrl: string, supabaseKey: string, redisConfig: any) {
+  constructor(supabaseUrl: string, supabaseKey: string, redisConfig: any, store?: ContextStore) {
     this.useInMemoryCache = process.env.USE_IN_MEMORY_CACHE === 'true'
-    
-    this.supabase = createClient(supabaseUrl, supabaseKey, {
-      auth: {
-        autoRefreshToken: true,
-        persistSession: false // Server-side, no need to persist sessions
-      },
-      global: {
-        headers: {
-          'X-Client-Info': 'cv-context-manager'
-        }
-      }
-    })
+    this.store = store || createContextStore({ url: supabaseUrl, key: supabaseKey })
 
     // Only create Redis connection if not using in-memory cache
     if (!this.useInMemoryCache) {
@@ -56,107 +59,84 @@ export class DatabaseClient {
     }
   }
 
-  // Supabase Database Operations
-  async query(table: string, options: any = {}) {
-    let query = this.supabase.from(table).select(options.select || '*')
-    
-    if (options.filter) {
-      Object.entries(options.filter).forEach(([key, value]) => {
-        query = query.eq(key, value)
-      })
-    }
-    
-    if (options.order) {
-      query = query.order(options.order.column, { ascending: options.order.ascending })
-    }
-    
-    if (options.limit) {
-      query = query.limit(options.limit)
-    }
-    
-    if (options.offset) {
-      query = query.range(options.offset, options.offset + (options.limit || 10) - 1)
-    }
+  // Database Operations (delegated to the configured context store)
+  async query(table: string, options: QueryOptions = {}): Promise<Row[]> {
+    return await this.store.query(table, options)
+  }
 
-    const { data, error } = await query
-    
-    if (error) {
-      throw new DatabaseError(`Query failed: ${error.message}`, error.code || 'QUERY_ERROR')
-    }
-    
-    return data
+  async insert(table: string, data: Row): Promise<Row> {
+    return await this.store.insert(table, data)
   }
 
-  async insert(table: string, data: any) {
-    const { data: result, error } = await this.supabase
-      .from(table)
-      .insert(data)
-      .select()
-      .single()
-    
-    if (error) {
-      throw new DatabaseError(`Insert failed: ${error.message}`, error.code || 'INSERT_ERROR')
-    }
-    
-    return result
+  async update(table: string, id: string, data: Row, expected?: Record<string, unknown>): Promise<Row> {
+    return await this.store.update(table, id, data, expected)
   }
 
-  async update(table: string, id: string, data: any) {
-    const { data: result, error } = await this.supabase
-      .from(table)
-      .update(data)
-      .eq('id', id)
-      .select()
-      .single()
-    
-    if (error) {
-      throw new DatabaseError(`Update failed: ${error.message}`, error.code || 'UPDATE_ERROR')
-    }
-    
-    return result
+  async upsert(table: string, data: Row, onConflict: string): Promise<Row> {
+    return await this.store.upsert(table, data, onConflict)
   }
 
-  async delete(table: string, id: string) {
-    const { error } = await this.supabase
-      .from(table)
-      .delete()
-      .eq('id', id)
-    
-    if (error) {
-      throw new DatabaseError(`Delete failed: ${error.message}`, error.code || 'DELETE_ERROR')
-    }
-    
-    return true
+  async insertIfAbsent(table: string, data: Row, onConflict: string): Promise<Row | null> {
+    return await this.store.insertIfAbsent(table, data, onConflict)
   }
 
-  async findById<T>(table: string, id: string): Promise<T | null> {
-    const { data, error } = await this.supabase
-      .from(table)
-      .select('*')
-      .eq('id', id)
-      .single()
-    
-    if (error) {
-      if (error.code === 'PGRST116') { // No rows found
-        return null
+  async delete(table: string, id: string): Promise<boolean> {
+    return await this.store.delete(table, id)
+  }
+
+  // See saveVersioned() in ContextStore
+  async saveVersioned(table: string, row: Row): Promise<number> {
+    return await saveVersioned(this.store, table, row)
+  }
+
+  /**
+   * Run work in one store transaction: its writes, cache changes included,
+   * take effect together when it returns and are discarded when it throws.
+   * Nested calls join the outer transaction.
+   */
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (transactionScope.getStore()) {
+      return await work()
+    }
+
+    const scope: TransactionScope = { cache: new Map(), patterns: [], rollbackHooks: [] }
+    try {
+      return await transactionScope.run(scope, () => this.store.transaction(work))
+    } catch (error) {
+      for (const hook of scope.rollbackHooks.reverse()) {
+        try {
+          await hook()
+        } catch (hookError) {
+          console.error('Transaction rollback hook failed:', hookError)
+        }
+      }
+      throw error
+    } finally {
+      // Others may have cached what the rows held before
+      for (const key of scope.cache.keys()) {
+        await this.cacheDelete(key)
+      }
+      for (const pattern of scope.patterns) {
+        await this.cacheInvalidatePattern(pattern)
       }
-      throw new DatabaseError(`FindById failed: ${error.message}`, error.code || 'FIND_ERROR')
     }
-    
-    return data as T
+  }
+
+  /**
+   * transaction() where the store supports one; on Supabase without a
+   * direct connection work's writes take effect one by one
+   */
+  async transactionIfSupported<T>(work: () => Promise<T>): Promise<T> {
+    return this.store.transactional ? await this.transaction(work) : await work()
+  }
+
+  async findById<T>(table: string, id: string): Promise<T | null> {
+    const [row] = await this.store.query(table, { filter: { id }, limit: 1 })
+    return (row as T) || null
   }
 
   async findByWorkspace<T>(table: string, workspaceId: string): Promise<T[]> {
-    const { data, error } = await this.supabase
-      .from(table)
-      .select('*')
-      .eq('workspace_id', workspaceId)
-    
-    if (error) {
-      throw new DatabaseError(`FindByWorkspace failed: ${error.message}`, error.code || 'FIND_ERROR')
-    }
-    
-    return (data as T[]) || []
+    return await this.store.query(table, { filter: { workspace_id: workspaceId } }) as T[]
   }
 
   async findByUserAndWorkspace<T>(
@@ -164,22 +144,26 @@ export class DatabaseClient {
     userId: string, 
     workspaceId: string
   ): Promise<T[]> {
-    const { data, error } = await this.supabase
-      .from(table)
-      .select('*')
-      .eq('user_id', userId)
-      .eq('workspace_id', workspaceId)
-    
-    if (error) {
-      throw new DatabaseError(`FindByUserAndWorkspace failed: ${error.message}`, error.code || 'FIND_ERROR')
-    }
-    
-    return (data as T[]) || []
+    return await this.store.query(table, { filter: { user_id: userId, workspace_id: workspaceId } }) as T[]
+  }
+
+  async count(table: string, filter?: Record<string, unknown>): Promise<number> {
+    return await this.store.count(table, filter)
+  }
+
+  async aggregate(table: string, options: AggregateOptions): Promise<Row[]> {
+    return await this.store.aggregate(table, options)
   }
 
   // Cache Operations (Redis or In-Memory)
   async cacheGet<T>(key: string): Promise<T | null> {
     try {
+      const pending = transactionScope.getStore()?.cache
+      if (pending?.has(key)) {
+        const cached = pending.get(key)
+        return cached ? JSON.parse(cached) as T : null
+      }
+
       if (this.useInMemoryCache) {
         const cached = this.inMemoryCache.get(key)
         return cached ? JSON.parse(cached) as T : null
@@ -198,13 +182,20 @@ export class DatabaseClient {
   async cacheSet<T>(key: string, value: T, ttl?: number): Promise<void> {
     try {
       const serialized = JSON.stringify(value)
+      const scope = transactionScope.getStore()
+      if (scope) {
+        await this.cacheDelete(key)
+        scope.cache.set(key, serialized)
+        return
+      }
+
       if (this.useInMemoryCache) {
         this.inMemoryCache.set(key, serialized)
         // Handle TTL for in-memory cache
         if (ttl) {
           setTimeout(() => {
             this.inMemoryCache.delete(key)
-          }, ttl * 1000)
+          }, ttl * 1000).unref()
         }
       } else if (this.redis) {
         if (ttl) {
@@ -221,6 +212,11 @@ export class DatabaseClient {
 
   async cacheDelete(key: string): Promise<void> {
     try {
+      const scope = transactionScope.getStore()
+      if (scope) {
+        scope.cache.set(key, null)
+      }
+
       if (this.useInMemoryCache) {
         this.inMemoryCache.delete(key)
       } else if (this.redis) {
@@ -233,6 +229,17 @@ export class DatabaseClient {
 
   async cacheInvalidatePattern(pattern: string): Promise<void> {
     try {
+      const scope = transactionScope.getStore()
+      if (scope) {
+        const regex = new RegExp(pattern.replace(/\*/g, '.*'))
+        for (const key of scope.cache.keys()) {
+          if (regex.test(key)) {
+            scope.cache.set(key, null)
+          }
+        }
+        scope.patterns.push(pattern)
+      }
+
       if (this.useInMemoryCache) {
         const regex = new RegExp(pattern.replace(/\*/g, '.*'))
         for (const [key] of this.inMemoryCache) {
@@ -241,9 +248,11 @@ export class DatabaseClient {
           }
         }
       } else if (this.redis) {
-        const keys = await this.redis!.keys(pattern)
+        // KEYS ignores the client keyPrefix while DEL re-applies it
+        const prefix = this.redis.options.keyPrefix || ''
+        const keys = await this.redis!.keys(`${prefix}${pattern}`)
         if (keys.length > 0) {
-          await this.redis!.del(...keys)
+          await this.redis!.del(...keys.map(key => key.slice(prefix.length)))
         }
       }
     } catch (error) {
@@ -264,12 +273,7 @@ export class DatabaseClient {
 
     // Test database connection
     try {
-      const { data, error } = await this.supabase
-        .from('profiles')
-        .select('id')
-        .limit(1)
-      
-      results.database = !error
+      results.database = await this.store.healthCheck()
     } catch (error) {
       console.error('Database health check failed:', error)
     }
@@ -290,6 +294,7 @@ export class DatabaseClient {
   }
 
   async close(): Promise<void> {
+    await this.store.close()
     if (this.redis) {
       await this.redis!.quit()
     }
@@ -306,11 +311,31 @@ export class DatabaseError extends Error {
   }
 }
 
-// Database schema initialization
+/**
+ * Undo an in-memory change if the transaction the caller runs in rolls
+ * back; outside a transaction the change stands and the hook is dropped
+ */
+export function onRollback(hook: () => void | Promise<void>): void {
+  transactionScope.getStore()?.rollbackHooks.push(hook)
+}
+
+/**
+ * Whether the caller runs within DatabaseClient.transaction()
+ */
+export function inTransaction(): boolean {
+  return transactionScope.getStore() !== undefined
+}
+
+// Apply pending schema migrations at startup unless MIGRATE_ON_START=false.
+// SQLite stores migrate when they open; Supabase projects are migrated with
+// `npm run migrate` over their direct Postgres connection (DATABASE_URL)
 export async function initializeSchema(client: DatabaseClient): Promise<void> {
-  // This would typically run migrations
-  console.log('Schema initialization would run here')
-  
-  // For now, we'll assume the Supabase database schema is managed separately
-  // In a production setup, you'd want to run migrations here
-}
\ No newline at end of file
+  if (client.store.backend !== 'postgres' || process.env.MIGRATE_ON_START === 'false') {
+    return
+  }
+
+  const applied = await new MigrationRunner(client.store).up()
+  if (applied.length > 0) {
+    console.log(`[Migrations] Applied ${applied.length} migration(s) at startup`)
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Import credentials for one user from a .env, flat JSON or SOPS file.
+ * Shows what would change and stores nothing unless --apply is given.
+ *
+ *   npm run import:secrets -- --workspace <id> --user <id> --file .env [--format dotenv|json|sops]
+ *     [--rules rules.json] [--apply] [--check-liveness]
+ *
+ * The format is taken from the file name when not given (.env*, .json,
+ * .yaml/.yml, or a JSON file with sops metadata). SOPS files are decrypted
+ * with the data key in SOPS_DATA_KEY.
+ */
+
+import 'dotenv/config'
+import { readFileSync } from 'fs'
+import { basename } from 'path'
+import { DatabaseClient } from './client'
+import { EncryptionService } from '../utils/encryption'
+import { createKeyProvider } from '../kms'
+import { createCredentialProviderRegistry } from '../providers'
+import { WorkspaceKeyService } from '../services/WorkspaceKeyService'
+import { SecretContextService } from '../services/SecretContextService'
+import { SecretImportFormat, SecretImportRule, classifySecretImport, parseSecretImport } from '../utils/secretImport'
+
+const ACTION_SYMBOLS = { create: '+', update: '~', unchanged: '=', invalid: '✗' }
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {}
+  for (let i = 0; i < argv.length; i++) {
+    const name = argv[i]!.replace(/^--/, '')
+    const next = argv[i + 1]
+    if (next === undefined || next.startsWith('--')) {
+      args[name] = true
+    } else {
+      args[name] = next
+      i++
+    }
+  }
+  return args
+}
+
+function detectFormat(fileName: string, content: string): SecretImportFormat {
+  const name = basename(fileName).toLowerCase()
+  if (/\.ya?ml$/.test(name)) return 'sops'
+  if (name.endsWith('.json')) return /"sops"\s*:/.test(content) ? 'sops' : 'json'
+  return 'dotenv'
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2))
+  const { workspace, user, file } = args
+  if (typeof workspace !== 'string' || typeof user !== 'string' || typeof file !== 'string') {
+    throw new Error('--workspace, --user and --file are required')
+  }
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+  }
+
+  const content = readFileSync(file, 'utf8')
+  const format = typeof args.format === 'string' ? args.format as SecretImportFormat : detectFormat(file, content)
+  const rules: SecretImportRule[] = typeof args.rules === 'string' ? JSON.parse(readFileSync(args.rules, 'utf8')) : []
+  const plan = classifySecretImport(
+    parseSecretImport(content, format, { ...(process.env.SOPS_DATA_KEY && { sopsDataKey: process.env.SOPS_DATA_KEY }) }),
+    rules
+  )
+
+  const db = new DatabaseClient(
+    process.env.SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+      db: parseInt(process.env.REDIS_DB || '0')
+    }
+  )
+  const encryption = EncryptionService.fromEnvironment().setKeyProvider(createKeyProvider())
+  const secretContextService = new SecretContextService(db, encryption, new WorkspaceKeyService(db, encryption))
+    .setCredentialProviders(createCredentialProviderRegistry())
+
+  try {
+    const result = await secretContextService.importCredentials(workspace, user, plan.candidates, {
+      dryRun: args.apply !== true,
+      ...(args['check-liveness'] === true && { checkLiveness: true })
+    })
+
+    for (const change of result.changes) {
+      const candidate = plan.candidates.find(c => c.key === change.key)!
+      const details = change.error || (change.changed_fields ? `changes ${change.changed_fields.join(', ')}` : '')
+      console.log(
+        `${ACTION_SYMBOLS[change.action]} ${change.key} (${change.credential_type}, ${change.provider}) from ${candidate.sources.join(', ')}` +
+        `${details ? `: ${details}` : ''}`
+      )
+    }
+    for (const skipped of plan.skipped) {
+      console.log(`- ${skipped.source}: ${skipped.reason}`)
+    }
+
+    console.log(result.applied
+      ? `[ImportSecrets] Imported into workspace ${workspace} for user ${user}`
+      : args.apply === true ? '[ImportSecrets] Nothing to import' : '[ImportSecrets] Preview only; run with --apply to store')
+    process.exitCode = result.changes.some(change => change.action === 'invalid') ? 1 : 0
+  } finally {
+    await db.close()
+  }
+}
+
+main().catch(error => {
+  console.error('[ImportSecrets] Failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,85 @@
+/**
+ * Apply or roll back the schema migrations in src/database/migrations.
+ *
+ *   npm run migrate                      apply every pending migration
+ *   npm run migrate -- up [version]      apply pending migrations up to a version
+ *   npm run migrate -- down [version]    roll back to a version, by default just the latest
+ *   npm run migrate -- status
+ *   npm run migrate -- unlock            release the lock of a runner that died
+ *
+ * Postgres is migrated over DATABASE_URL, which for Supabase projects is
+ * their direct connection string (PostgREST has no SQL access); SQLite at
+ * SQLITE_PATH. The service itself also migrates SQLite databases when it
+ * opens them, and Postgres at startup unless MIGRATE_ON_START=false.
+ */
+
+import 'dotenv/config'
+import { ContextStore } from './ContextStore'
+import { MigrationRunner } from './MigrationRunner'
+import { PostgresStore } from './stores/PostgresStore'
+import { SqliteStore } from './stores/SqliteStore'
+
+function openStore(): ContextStore {
+  const backend = process.env.CONTEXT_STORE || 'supabase'
+
+  if (backend === 'sqlite') {
+    return new SqliteStore(process.env.SQLITE_PATH || 'data/context-manager.db', { migrate: false })
+  }
+  if (backend !== 'postgres' && backend !== 'supabase') {
+    throw new Error(`Unknown CONTEXT_STORE '${backend}', expected supabase, postgres or sqlite`)
+  }
+  if (!process.env.DATABASE_URL) {
+    throw new Error(backend === 'supabase'
+      ? 'DATABASE_URL is required: the Postgres connection string of the Supabase project'
+      : 'DATABASE_URL is required')
+  }
+  return new PostgresStore(process.env.DATABASE_URL)
+}
+
+function parseVersion(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined
+  const version = parseInt(value)
+  if (isNaN(version) || version < 0) {
+    throw new Error(`Invalid version '${value}'`)
+  }
+  return version
+}
+
+async function main(): Promise<void> {
+  const [command = 'up', version] = process.argv.slice(2)
+  const store = openStore()
+  const runner = new MigrationRunner(store)
+
+  try {
+    switch (command) {
+      case 'up': {
+        const applied = await runner.up(parseVersion(version))
+        console.log(applied.length > 0 ? `[Migrate] Applied ${applied.length} migration(s)` : '[Migrate] Schema is up to date')
+        break
+      }
+      case 'down': {
+        const rolledBack = await runner.down(parseVersion(version))
+        console.log(rolledBack.length > 0 ? `[Migrate] Rolled back ${rolledBack.length} migration(s)` : '[Migrate] Nothing to roll back')
+        break
+      }
+      case 'status':
+        for (const migration of await runner.status()) {
+          console.log(`${migration.applied_at ? '✓' : ' '} ${String(migration.version).padStart(3, '0')}_${migration.name}` +
+            `${migration.applied_at ? ` (applied ${migration.applied_at})` : ''}`)
+        }
+        break
+      case 'unlock':
+        console.log(await runner.unlock() ? '[Migrate] Lock released' : '[Migrate] No lock was held')
+        break
+      default:
+        throw new Error(`Unknown command '${command}', expected up, down, status or unlock`)
+    }
+  } finally {
+    await store.close()
+  }
+}
+
+main().catch(error => {
+  console.error('[Migrate] Failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,166 @@
+import { Migration, SQLITE_ID, SQLITE_NOW } from './common'
+
+const sqliteSecretContextColumns = (userIdColumn: string) => `
+    id ${SQLITE_ID},
+    workspace_id TEXT NOT NULL,
+    ${userIdColumn},
+    credentials JSON DEFAULT '{}',
+    ssh_keys JSON DEFAULT '{}',
+    certificates JSON DEFAULT '{}',
+    api_keys JSON DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    updated_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    expires_at TIMESTAMPTZ,
+    locked JSON,
+    UNIQUE (user_id, workspace_id)`
+
+export const secretContexts: Migration = {
+  version: 1,
+  name: 'secret_contexts',
+  up: {
+    postgres: `
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- Function to update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Secret contexts table (encrypted sensitive data)
+CREATE TABLE IF NOT EXISTS secret_contexts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    -- Encrypted JSON fields
+    credentials JSONB DEFAULT '{}',
+    ssh_keys JSONB DEFAULT '{}',
+    certificates JSONB DEFAULT '{}',
+    api_keys JSONB DEFAULT '{}',
+    -- Metadata
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ,
+    -- Set while retrieval is suspended: { locked_at, locked_by, reason }
+    locked JSONB,
+    CONSTRAINT unique_secret_context_user_workspace UNIQUE(user_id, workspace_id)
+);
+
+-- Workspace-shared secret contexts, same shape as secret_contexts; user_id is
+-- always the nil UUID and access is governed by workspace roles
+CREATE TABLE IF NOT EXISTS workspace_secret_contexts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000000',
+    credentials JSONB DEFAULT '{}',
+    ssh_keys JSONB DEFAULT '{}',
+    certificates JSONB DEFAULT '{}',
+    api_keys JSONB DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ,
+    locked JSONB,
+    CONSTRAINT unique_workspace_secret_context UNIQUE(user_id, workspace_id)
+);
+
+-- Workspace data keys (envelope encryption, wrapped by the master key)
+CREATE TABLE IF NOT EXISTS workspace_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL,
+    key_version VARCHAR(20) NOT NULL,
+    -- Data key sealed with the master key-encryption key
+    wrapped_key JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_workspace_key_version UNIQUE(workspace_id, key_version)
+);
+
+-- Version history of credentials, SSH keys and certificates (values stay sealed)
+CREATE TABLE IF NOT EXISTS secret_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    secret_type VARCHAR(20) NOT NULL CHECK (secret_type IN ('credential', 'ssh_key', 'certificate')),
+    key VARCHAR(255) NOT NULL,
+    version INTEGER NOT NULL,
+    change_type VARCHAR(20) NOT NULL CHECK (change_type IN ('create', 'update', 'rollback', 'delete')),
+    -- Sealed entry as stored at this version, NULL for deletions
+    value JSONB,
+    changed_by UUID NOT NULL,
+    restored_version INTEGER,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT unique_secret_version UNIQUE(workspace_id, user_id, secret_type, key, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_secret_contexts_workspace_id ON secret_contexts(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_secret_contexts_user_id ON secret_contexts(user_id);
+CREATE INDEX IF NOT EXISTS idx_secret_contexts_updated_at ON secret_contexts(updated_at);
+CREATE INDEX IF NOT EXISTS idx_workspace_keys_workspace_id ON workspace_keys(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_workspace_secret_contexts_workspace_id ON workspace_secret_contexts(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_secret_versions_secret ON secret_versions(workspace_id, user_id, secret_type, key, version DESC);
+
+DROP TRIGGER IF EXISTS update_secret_contexts_updated_at ON secret_contexts;
+CREATE TRIGGER update_secret_contexts_updated_at
+    BEFORE UPDATE ON secret_contexts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_workspace_secret_contexts_updated_at ON workspace_secret_contexts;
+CREATE TRIGGER update_workspace_secret_contexts_updated_at
+    BEFORE UPDATE ON workspace_secret_contexts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+`,
+    sqlite: `
+CREATE TABLE IF NOT EXISTS secret_contexts (${sqliteSecretContextColumns('user_id TEXT NOT NULL')}
+);
+
+CREATE TABLE IF NOT EXISTS workspace_secret_contexts (${sqliteSecretContextColumns(`user_id TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000000'`)}
+);
+
+CREATE TABLE IF NOT EXISTS workspace_keys (
+    id ${SQLITE_ID},
+    workspace_id TEXT NOT NULL,
+    key_version TEXT NOT NULL,
+    wrapped_key JSON NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    UNIQUE (workspace_id, key_version)
+);
+
+CREATE TABLE IF NOT EXISTS secret_versions (
+    id ${SQLITE_ID},
+    workspace_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    secret_type TEXT NOT NULL CHECK (secret_type IN ('credential', 'ssh_key', 'certificate')),
+    key TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    change_type TEXT NOT NULL CHECK (change_type IN ('create', 'update', 'rollback', 'delete')),
+    value JSON,
+    changed_by TEXT NOT NULL,
+    restored_version INTEGER,
+    created_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    UNIQUE (workspace_id, user_id, secret_type, key, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_secret_contexts_workspace_id ON secret_contexts(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_workspace_keys_workspace_id ON workspace_keys(workspace_id);
+`
+  },
+  down: {
+    postgres: `
+DROP TABLE IF EXISTS secret_versions;
+DROP TABLE IF EXISTS workspace_keys;
+DROP TABLE IF EXISTS workspace_secret_contexts;
+DROP TABLE IF EXISTS secret_contexts;
+DROP FUNCTION IF EXISTS update_updated_at_column();
+`,
+    sqlite: `
+DROP TABLE IF EXISTS secret_versions;
+DROP TABLE IF EXISTS workspace_keys;
+DROP TABLE IF EXISTS workspace_secret_contexts;
+DROP TABLE IF EXISTS secret_contexts;
+`
+  }
+}
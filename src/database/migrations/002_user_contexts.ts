@@ -0,0 +1,110 @@
+import { Migration, SQLITE_ID, SQLITE_NOW } from './common'
+
+export const userContexts: Migration = {
+  version: 2,
+  name: 'user_contexts',
+  up: {
+    postgres: `
+-- User contexts table (user-specific preferences and history)
+CREATE TABLE IF NOT EXISTS user_contexts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+
+    -- User preferences (JSON)
+    preferences JSONB DEFAULT '{
+        "default_cloud_provider": "digitalocean",
+        "preferred_regions": ["nyc1", "sfo3"],
+        "cost_limits": {
+            "daily_limit": 50,
+            "monthly_limit": 500,
+            "alert_threshold": 80
+        },
+        "notification_preferences": {
+            "channels": ["email"],
+            "quiet_hours": {
+                "start": "22:00",
+                "end": "08:00",
+                "timezone": "UTC"
+            }
+        },
+        "ui_preferences": {
+            "theme": "auto",
+            "sidebar_collapsed": false,
+            "default_view": "infrastructure"
+        }
+    }',
+
+    -- User settings (JSON)
+    settings JSONB DEFAULT '{
+        "security": {
+            "mfa_enabled": false,
+            "session_timeout": 3600,
+            "ip_restrictions": []
+        },
+        "workspace": {
+            "workspace_permissions": {}
+        },
+        "integrations": {
+            "enabled_providers": ["digitalocean"],
+            "webhook_endpoints": []
+        }
+    }',
+
+    -- Deployment patterns (JSON array)
+    deployment_patterns JSONB DEFAULT '[]',
+
+    -- Infrastructure history (JSON array)
+    infrastructure_history JSONB DEFAULT '[]',
+
+    -- Conversation context (JSON array)
+    conversation_context JSONB DEFAULT '[]',
+
+    -- Deployment sessions (JSON array)
+    deployment_sessions JSONB DEFAULT '[]',
+
+    -- Metadata
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT unique_user_context_user_workspace UNIQUE(user_id, workspace_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_contexts_workspace_id ON user_contexts(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_user_contexts_user_id ON user_contexts(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_contexts_updated_at ON user_contexts(updated_at);
+
+DROP TRIGGER IF EXISTS update_user_contexts_updated_at ON user_contexts;
+CREATE TRIGGER update_user_contexts_updated_at
+    BEFORE UPDATE ON user_contexts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+`,
+    sqlite: `
+CREATE TABLE IF NOT EXISTS user_contexts (
+    id ${SQLITE_ID},
+    workspace_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    preferences JSON DEFAULT '{}',
+    settings JSON DEFAULT '{}',
+    deployment_patterns JSON DEFAULT '[]',
+    infrastructure_history JSON DEFAULT '[]',
+    conversation_context JSON DEFAULT '[]',
+    deployment_sessions JSON DEFAULT '[]',
+    created_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    updated_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    UNIQUE (user_id, workspace_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_contexts_workspace_id ON user_contexts(workspace_id);
+`
+  },
+  down: {
+    postgres: `
+DROP TABLE IF EXISTS user_contexts;
+`,
+    sqlite: `
+DROP TABLE IF EXISTS user_contexts;
+`
+  }
+}
@@ -0,0 +1,109 @@
+import { Migration, SQLITE_ID, SQLITE_NOW } from './common'
+
+export const globalContexts: Migration = {
+  version: 3,
+  name: 'global_contexts',
+  up: {
+    postgres: `
+-- Global context table (system-wide intelligence)
+CREATE TABLE IF NOT EXISTS global_contexts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    context_type VARCHAR(50) NOT NULL, -- 'pattern', 'metric', 'intelligence', 'template'
+    category VARCHAR(100) NOT NULL, -- 'deployment', 'cost', 'security', etc.
+
+    -- Context data (flexible JSON structure)
+    data JSONB NOT NULL,
+
+    -- Intelligence metrics
+    confidence_score DECIMAL(3,2) DEFAULT 0.0 CHECK (confidence_score >= 0 AND confidence_score <= 1),
+    usage_count INTEGER DEFAULT 0,
+    success_rate DECIMAL(3,2) DEFAULT 0.0 CHECK (success_rate >= 0 AND success_rate <= 1),
+
+    -- Classification tags
+    tags TEXT[] DEFAULT '{}',
+
+    -- Metadata
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT check_context_type CHECK (context_type IN ('pattern', 'metric', 'intelligence', 'template'))
+);
+
+-- Anonymous community patterns (GlobalContextService), whole pattern in data
+CREATE TABLE IF NOT EXISTS community_patterns (
+    id TEXT PRIMARY KEY,
+    pattern_type VARCHAR(50) NOT NULL,
+    provider VARCHAR(100) NOT NULL,
+    data JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Multi-agent workflow patterns, whole workflow in data
+CREATE TABLE IF NOT EXISTS workflow_patterns (
+    id TEXT PRIMARY KEY,
+    use_case VARCHAR(255) NOT NULL,
+    data JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_global_contexts_type_category ON global_contexts(context_type, category);
+CREATE INDEX IF NOT EXISTS idx_global_contexts_confidence ON global_contexts(confidence_score DESC);
+CREATE INDEX IF NOT EXISTS idx_global_contexts_usage ON global_contexts(usage_count DESC);
+CREATE INDEX IF NOT EXISTS idx_global_contexts_tags ON global_contexts USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_global_contexts_data ON global_contexts USING GIN(data);
+CREATE INDEX IF NOT EXISTS idx_community_patterns_type ON community_patterns(pattern_type);
+
+DROP TRIGGER IF EXISTS update_global_contexts_updated_at ON global_contexts;
+CREATE TRIGGER update_global_contexts_updated_at
+    BEFORE UPDATE ON global_contexts
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+`,
+    sqlite: `
+CREATE TABLE IF NOT EXISTS global_contexts (
+    id ${SQLITE_ID},
+    context_type TEXT NOT NULL CHECK (context_type IN ('pattern', 'metric', 'intelligence', 'template')),
+    category TEXT NOT NULL,
+    data JSON NOT NULL,
+    confidence_score REAL DEFAULT 0 CHECK (confidence_score >= 0 AND confidence_score <= 1),
+    usage_count INTEGER DEFAULT 0,
+    success_rate REAL DEFAULT 0 CHECK (success_rate >= 0 AND success_rate <= 1),
+    tags JSON DEFAULT '[]',
+    created_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    updated_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW}
+);
+
+CREATE TABLE IF NOT EXISTS community_patterns (
+    id TEXT PRIMARY KEY,
+    pattern_type TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    data JSON NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    updated_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW}
+);
+
+CREATE TABLE IF NOT EXISTS workflow_patterns (
+    id TEXT PRIMARY KEY,
+    use_case TEXT NOT NULL,
+    data JSON NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW}
+);
+
+CREATE INDEX IF NOT EXISTS idx_global_contexts_type_category ON global_contexts(context_type, category);
+CREATE INDEX IF NOT EXISTS idx_community_patterns_type ON community_patterns(pattern_type);
+`
+  },
+  down: {
+    postgres: `
+DROP TABLE IF EXISTS workflow_patterns;
+DROP TABLE IF EXISTS community_patterns;
+DROP TABLE IF EXISTS global_contexts;
+`,
+    sqlite: `
+DROP TABLE IF EXISTS workflow_patterns;
+DROP TABLE IF EXISTS community_patterns;
+DROP TABLE IF EXISTS global_contexts;
+`
+  }
+}
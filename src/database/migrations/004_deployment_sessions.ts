@@ -0,0 +1,50 @@
+import { Migration, SQLITE_NOW } from './common'
+
+export const deploymentSessions: Migration = {
+  version: 4,
+  name: 'deployment_sessions',
+  up: {
+    postgres: `
+-- Deployment sessions (DeploymentSessionService), whole session in data
+CREATE TABLE IF NOT EXISTS deployment_sessions (
+    id UUID PRIMARY KEY,
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    conversation_id TEXT,
+    status VARCHAR(20) NOT NULL,
+    data JSONB NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployment_sessions_user_id ON deployment_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_deployment_sessions_conversation_id ON deployment_sessions(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_deployment_sessions_expires_at ON deployment_sessions(expires_at);
+`,
+    sqlite: `
+CREATE TABLE IF NOT EXISTS deployment_sessions (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    conversation_id TEXT,
+    status TEXT NOT NULL,
+    data JSON NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    updated_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    expires_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_deployment_sessions_user_id ON deployment_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_deployment_sessions_conversation_id ON deployment_sessions(conversation_id);
+`
+  },
+  down: {
+    postgres: `
+DROP TABLE IF EXISTS deployment_sessions;
+`,
+    sqlite: `
+DROP TABLE IF EXISTS deployment_sessions;
+`
+  }
+}
@@ -0,0 +1,111 @@
+import { Migration, SQLITE_ID, SQLITE_NOW } from './common'
+
+export const auditLogs: Migration = {
+  version: 5,
+  name: 'audit_logs',
+  up: {
+    postgres: `
+-- Audit logs table (security and compliance)
+CREATE TABLE IF NOT EXISTS audit_logs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+
+    -- Operation details
+    operation VARCHAR(100) NOT NULL,
+    context_type VARCHAR(20) NOT NULL CHECK (context_type IN ('secret', 'user', 'global')),
+    resource_key VARCHAR(255) NOT NULL,
+
+    -- Value hashes (for integrity checking without storing actual values)
+    old_value_hash VARCHAR(64),
+    new_value_hash VARCHAR(64),
+
+    -- Request metadata ('system' for background jobs)
+    ip_address TEXT,
+    user_agent TEXT,
+
+    -- Result
+    status VARCHAR(20) NOT NULL CHECK (status IN ('success', 'failed')),
+    error_message TEXT,
+
+    -- Timestamp
+    timestamp TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Hash chain: each entry hashes its content and the previous entry's hash
+    sequence BIGINT NOT NULL,
+    prev_hash CHAR(64) NOT NULL,
+    hash CHAR(64) NOT NULL,
+
+    CONSTRAINT uq_audit_logs_workspace_sequence UNIQUE (workspace_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_workspace_id ON audit_logs(workspace_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_user_id ON audit_logs(user_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_operation ON audit_logs(operation);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_context_type ON audit_logs(context_type);
+
+-- Audit logs are append-only; rows only go when their workspace is deleted
+CREATE OR REPLACE FUNCTION prevent_audit_log_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+        RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$ language 'plpgsql';
+
+DROP TRIGGER IF EXISTS audit_logs_append_only ON audit_logs;
+CREATE TRIGGER audit_logs_append_only
+    BEFORE UPDATE OR DELETE ON audit_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION prevent_audit_log_changes();
+`,
+    sqlite: `
+CREATE TABLE IF NOT EXISTS audit_logs (
+    id ${SQLITE_ID},
+    workspace_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    context_type TEXT NOT NULL CHECK (context_type IN ('secret', 'user', 'global')),
+    resource_key TEXT NOT NULL,
+    old_value_hash TEXT,
+    new_value_hash TEXT,
+    ip_address TEXT,
+    user_agent TEXT,
+    status TEXT NOT NULL CHECK (status IN ('success', 'failed')),
+    error_message TEXT,
+    timestamp TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    sequence INTEGER NOT NULL,
+    prev_hash TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    UNIQUE (workspace_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);
+
+-- Audit logs are append-only
+CREATE TRIGGER IF NOT EXISTS audit_logs_no_update BEFORE UPDATE ON audit_logs
+BEGIN
+    SELECT RAISE(ABORT, 'audit_logs is append-only');
+END;
+
+CREATE TRIGGER IF NOT EXISTS audit_logs_no_delete BEFORE DELETE ON audit_logs
+BEGIN
+    SELECT RAISE(ABORT, 'audit_logs is append-only');
+END;
+`
+  },
+  down: {
+    postgres: `
+DROP TABLE IF EXISTS audit_logs;
+DROP FUNCTION IF EXISTS prevent_audit_log_changes();
+`,
+    sqlite: `
+DROP TRIGGER IF EXISTS audit_logs_no_update;
+DROP TRIGGER IF EXISTS audit_logs_no_delete;
+DROP TABLE IF EXISTS audit_logs;
+`
+  }
+}
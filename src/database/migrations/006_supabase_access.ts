@@ -0,0 +1,106 @@
+import { Migration, SUPABASE_ONLY, plpgsqlLines } from './common'
+
+// Supabase only; plain Postgres and SQLite skip this migration
+const TABLES = [
+  'secret_contexts',
+  'workspace_keys',
+  'workspace_secret_contexts',
+  'secret_versions',
+  'user_contexts',
+  'global_contexts',
+  'community_patterns',
+  'workflow_patterns',
+  'deployment_sessions',
+  'audit_logs'
+]
+
+// [table, constraint, column, referenced table]
+const FOREIGN_KEYS: Array<[string, string, string, string]> = [
+  ['secret_contexts', 'fk_secret_contexts_workspace', 'workspace_id', 'workspaces'],
+  ['secret_contexts', 'fk_secret_contexts_user', 'user_id', 'profiles'],
+  ['workspace_secret_contexts', 'fk_workspace_secret_contexts_workspace', 'workspace_id', 'workspaces'],
+  ['workspace_keys', 'fk_workspace_keys_workspace', 'workspace_id', 'workspaces'],
+  // No user foreign key: workspace-shared secrets are versioned under the nil UUID
+  ['secret_versions', 'fk_secret_versions_workspace', 'workspace_id', 'workspaces'],
+  ['user_contexts', 'fk_user_contexts_workspace', 'workspace_id', 'workspaces'],
+  ['user_contexts', 'fk_user_contexts_user', 'user_id', 'profiles'],
+  ['audit_logs', 'fk_audit_logs_workspace', 'workspace_id', 'workspaces'],
+  ['audit_logs', 'fk_audit_logs_user', 'user_id', 'profiles']
+]
+
+// [table, policy name, policy body]
+const POLICIES: Array<[string, string, string]> = [
+  ['secret_contexts', 'Users can only access their own workspace secret contexts',
+    'USING (workspace_id IN (SELECT workspace_id FROM workspace_users WHERE user_id = auth.uid()))'],
+  ['secret_contexts', 'Users can only modify their own secret contexts', 'FOR ALL USING (user_id = auth.uid())'],
+  // Workspace keys are only ever touched by the service itself
+  ['workspace_keys', 'Only service role can access workspace keys', `FOR ALL USING (auth.role() = 'service_role')`],
+  // Workspace roles are enforced by the service
+  ['workspace_secret_contexts', 'Only service role can access workspace secret contexts', `FOR ALL USING (auth.role() = 'service_role')`],
+  // Secret versions follow their secret context
+  ['secret_versions', 'Users can only access their own secret versions', 'FOR ALL USING (user_id = auth.uid())'],
+  ['user_contexts', 'Users can only access their own workspace user contexts',
+    'USING (workspace_id IN (SELECT workspace_id FROM workspace_users WHERE user_id = auth.uid()))'],
+  ['user_contexts', 'Users can only modify their own user contexts', 'FOR ALL USING (user_id = auth.uid())'],
+  // Global contexts are read-only for most users
+  ['global_contexts', 'All authenticated users can read global contexts', `FOR SELECT USING (auth.role() = 'authenticated')`],
+  ['global_contexts', 'Only service role can modify global contexts', `FOR ALL USING (auth.role() = 'service_role')`],
+  // Patterns and workflows are served through the service
+  ['community_patterns', 'Only service role can access community patterns', `FOR ALL USING (auth.role() = 'service_role')`],
+  ['workflow_patterns', 'Only service role can access workflow patterns', `FOR ALL USING (auth.role() = 'service_role')`],
+  ['deployment_sessions', 'Users can only access their own deployment sessions', 'FOR ALL USING (user_id = auth.uid())'],
+  ['audit_logs', 'Users can read audit logs for their workspaces',
+    'FOR SELECT USING (workspace_id IN (SELECT workspace_id FROM workspace_users WHERE user_id = auth.uid()))']
+]
+
+const GRANTS = `
+    GRANT SELECT, INSERT, UPDATE, DELETE ON secret_contexts TO authenticated;
+    GRANT SELECT, INSERT, UPDATE, DELETE ON user_contexts TO authenticated;
+    GRANT SELECT ON global_contexts TO authenticated;
+    GRANT SELECT ON audit_logs TO authenticated;
+    GRANT ALL ON ${TABLES.join(', ')} TO service_role;`
+
+export const supabaseAccess: Migration = {
+  version: 6,
+  name: 'supabase_access',
+  up: {
+    postgres: `
+DO $$
+BEGIN
+${SUPABASE_ONLY}
+
+${plpgsqlLines(FOREIGN_KEYS.flatMap(([table, constraint, column, referenced]) => [
+  `ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${constraint};`,
+  `ALTER TABLE ${table} ADD CONSTRAINT ${constraint} FOREIGN KEY (${column}) REFERENCES ${referenced}(id) ON DELETE CASCADE;`
+]))}
+
+${plpgsqlLines(TABLES.map(table => `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;`))}
+
+${plpgsqlLines(POLICIES.flatMap(([table, policy, body]) => [
+  `DROP POLICY IF EXISTS "${policy}" ON ${table};`,
+  `CREATE POLICY "${policy}" ON ${table} ${body};`
+]))}
+${GRANTS}
+END
+$$;
+`,
+    sqlite: ''
+  },
+  down: {
+    // Grants stay: Supabase grants these roles access to new public tables by default
+    postgres: `
+DO $$
+BEGIN
+${SUPABASE_ONLY}
+
+${plpgsqlLines(POLICIES.map(([table, policy]) => `DROP POLICY IF EXISTS "${policy}" ON ${table};`))}
+
+${plpgsqlLines(TABLES.map(table => `ALTER TABLE ${table} DISABLE ROW LEVEL SECURITY;`))}
+
+${plpgsqlLines(FOREIGN_KEYS.map(([table, constraint]) => `ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${constraint};`))}
+END
+$$;
+`,
+    sqlite: ''
+  }
+}
@@ -0,0 +1,416 @@
+import { Migration, SQLITE_ID, SQLITE_NOW, SUPABASE_ONLY, plpgsqlLines } from './common'
+
+// The deployment patterns, infrastructure events, conversations and
+// deployment sessions kept as JSON arrays in user_contexts move to a table
+// each. Existing documents are split into rows on the way up and put back
+// together on the way down.
+
+type FieldType = 'text' | 'json' | 'number' | 'timestamp'
+
+interface History {
+  table: string
+  // Former JSON array column of user_contexts
+  column: string
+  // Columns besides id, workspace_id and user_id, as named in the documents
+  fields: Array<[string, FieldType]>
+  // Arrays are rebuilt newest first
+  orderBy: string
+  // Text matched by searches, from the document element `item`
+  searchText?: Record<'postgres' | 'sqlite', string>
+  // Elements that share these columns become one row
+  merge?: {
+    key: string[]
+    // Postgres folds a document's elements together before they arrive;
+    // columns not listed take the most recently used element's value
+    combine: Record<string, string>
+    // A row arriving at an existing one, as `excluded` and the table
+    set: Record<'postgres' | 'sqlite', string>
+  }
+}
+
+const HISTORIES: History[] = [
+  {
+    table: 'user_deployment_patterns',
+    column: 'deployment_patterns',
+    fields: [
+      ['name', 'text'], ['pattern_type', 'text'], ['configuration', 'json'], ['success_rate', 'number'],
+      ['usage_count', 'number'], ['last_used', 'timestamp'], ['created_at', 'timestamp']
+    ],
+    orderBy: 'last_used',
+    searchText: {
+      postgres: `concat_ws(' ', item->>'name', item->>'configuration')`,
+      sqlite: `concat_ws(' ', json_extract(item.value, '$.name'), json_extract(item.value, '$.configuration'))`
+    },
+    // Usage counts add up, success rates average weighted by usage and the
+    // most recently used configuration stays
+    merge: {
+      key: ['workspace_id', 'user_id', 'name', 'pattern_type'],
+      combine: {
+        success_rate: 'COALESCE(SUM(success_rate * usage_count) / NULLIF(SUM(usage_count), 0), AVG(success_rate))',
+        usage_count: 'COALESCE(SUM(usage_count), 0)',
+        last_used: 'MAX(last_used)',
+        created_at: 'MIN(created_at)'
+      },
+      set: {
+        postgres: `success_rate = COALESCE(
+        (COALESCE(p.success_rate, 0) * COALESCE(p.usage_count, 0) + COALESCE(excluded.success_rate, 0) * COALESCE(excluded.usage_count, 0))
+            / NULLIF(COALESCE(p.usage_count, 0) + COALESCE(excluded.usage_count, 0), 0),
+        (COALESCE(p.success_rate, 0) + COALESCE(excluded.success_rate, 0)) / 2),
+    usage_count = COALESCE(p.usage_count, 0) + COALESCE(excluded.usage_count, 0),
+    configuration = CASE WHEN excluded.last_used > p.last_used THEN excluded.configuration ELSE p.configuration END,
+    search_text = CASE WHEN excluded.last_used > p.last_used THEN excluded.search_text ELSE p.search_text END,
+    last_used = GREATEST(p.last_used, excluded.last_used),
+    created_at = LEAST(p.created_at, excluded.created_at)`,
+        sqlite: `success_rate = COALESCE(
+        (COALESCE(success_rate, 0) * COALESCE(usage_count, 0) + COALESCE(excluded.success_rate, 0) * COALESCE(excluded.usage_count, 0))
+            / NULLIF(COALESCE(usage_count, 0) + COALESCE(excluded.usage_count, 0), 0),
+        (COALESCE(success_rate, 0) + COALESCE(excluded.success_rate, 0)) / 2.0),
+    usage_count = COALESCE(usage_count, 0) + COALESCE(excluded.usage_count, 0),
+    configuration = CASE WHEN excluded.last_used > last_used THEN excluded.configuration ELSE configuration END,
+    search_text = CASE WHEN excluded.last_used > last_used THEN excluded.search_text ELSE search_text END,
+    last_used = COALESCE(max(last_used, excluded.last_used), last_used, excluded.last_used),
+    created_at = COALESCE(min(created_at, excluded.created_at), created_at, excluded.created_at)`
+      }
+    }
+  },
+  {
+    table: 'user_infrastructure_events',
+    column: 'infrastructure_history',
+    fields: [
+      ['event_type', 'text'], ['resource_type', 'text'], ['provider', 'text'], ['status', 'text'],
+      ['configuration', 'json'], ['cost_impact', 'number'], ['duration_ms', 'number'],
+      ['timestamp', 'timestamp'], ['metadata', 'json']
+    ],
+    orderBy: 'timestamp'
+  },
+  {
+    table: 'user_conversations',
+    column: 'conversation_context',
+    fields: [
+      ['session_id', 'text'], ['message_content', 'text'], ['intent_analysis', 'json'],
+      ['agent_responses', 'json'], ['outcome', 'json'], ['timestamp', 'timestamp']
+    ],
+    orderBy: 'timestamp',
+    searchText: {
+      postgres: `concat_ws(E'\\n', item->>'message_content', item->'intent_analysis'->>'primary_intent',
+            (SELECT string_agg(response->>'response', E'\\n') FROM jsonb_array_elements(
+                CASE WHEN jsonb_typeof(item->'agent_responses') = 'array' THEN item->'agent_responses' ELSE '[]' END) AS response))`,
+      sqlite: `concat_ws(char(10), json_extract(item.value, '$.message_content'), json_extract(item.value, '$.intent_analysis.primary_intent'),
+            (SELECT group_concat(json_extract(response.value, '$.response'), char(10))
+             FROM json_each(CASE WHEN json_type(item.value, '$.agent_responses') = 'array' THEN json_extract(item.value, '$.agent_responses') ELSE '[]' END) AS response))`
+    }
+  },
+  {
+    table: 'user_deployment_sessions',
+    column: 'deployment_sessions',
+    fields: [
+      ['session_name', 'text'], ['deployment_context', 'json'], ['active_resources', 'json'], ['session_state', 'text'],
+      ['metadata', 'json'], ['created_at', 'timestamp'], ['updated_at', 'timestamp'], ['expires_at', 'timestamp']
+    ],
+    orderBy: 'updated_at'
+  }
+]
+
+const POSTGRES_UUID = `'^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'`
+
+function postgresField(name: string, type: FieldType): string {
+  switch (type) {
+    case 'text': return `item->>'${name}'`
+    case 'json': return `item->'${name}'`
+    case 'number': return `(item->>'${name}')::numeric`
+    case 'timestamp': return `(item->>'${name}')::timestamptz`
+  }
+}
+
+function splitPostgres({ table, column, fields, searchText, merge, orderBy }: History): string {
+  const columns = ['id', 'workspace_id', 'user_id', ...fields.map(([name]) => name), ...(searchText ? ['search_text'] : [])]
+  const values = [
+    `CASE WHEN item->>'id' ~* ${POSTGRES_UUID} THEN (item->>'id')::uuid ELSE gen_random_uuid() END`,
+    'uc.workspace_id',
+    'uc.user_id',
+    ...fields.map(([name, type]) => postgresField(name, type)),
+    ...(searchText ? [searchText.postgres] : [])
+  ]
+
+  const split = `SELECT
+    ${values.map((value, index) => `${value} AS ${columns[index]}`).join(',\n    ')}
+FROM user_contexts uc
+CROSS JOIN LATERAL jsonb_array_elements(CASE WHEN jsonb_typeof(uc.${column}) = 'array' THEN uc.${column} ELSE '[]' END) AS item
+WHERE jsonb_typeof(item) = 'object'`
+
+  if (!merge) {
+    return `INSERT INTO ${table} (${columns.join(', ')})
+${split}
+ON CONFLICT DO NOTHING;`
+  }
+
+  // One statement may not update a row twice, hence the folding
+  const merged = columns.map(name => merge.key.includes(name)
+    ? name
+    : merge.combine[name] || `(array_agg(${name} ORDER BY ${orderBy} DESC NULLS LAST))[1]`)
+  return `WITH split AS (
+${split}
+)
+INSERT INTO ${table} AS p (${columns.join(', ')})
+SELECT
+    ${merged.join(',\n    ')}
+FROM split
+GROUP BY ${merge.key.join(', ')}
+ON CONFLICT (${merge.key.join(', ')}) DO UPDATE SET
+    ${merge.set.postgres};`
+}
+
+function splitSqlite({ table, column, fields, searchText, merge }: History): string {
+  const columns = ['id', 'workspace_id', 'user_id', ...fields.map(([name]) => name), ...(searchText ? ['search_text'] : [])]
+  const values = [
+    `COALESCE(json_extract(item.value, '$.id'), lower(hex(randomblob(16))))`,
+    'uc.workspace_id',
+    'uc.user_id',
+    // json_extract hands objects and arrays back as JSON text
+    ...fields.map(([name]) => `json_extract(item.value, '$.${name}')`),
+    ...(searchText ? [searchText.sqlite] : [])
+  ]
+
+  const split = `SELECT
+    ${values.join(',\n    ')}
+FROM user_contexts uc, json_each(CASE WHEN json_type(uc.${column}) = 'array' THEN uc.${column} ELSE '[]' END) AS item
+WHERE item.type = 'object'`
+
+  if (!merge) {
+    return `INSERT OR IGNORE INTO ${table} (${columns.join(', ')})
+${split};`
+  }
+
+  // Elements arrive one by one, so each merges into the row before it
+  return `INSERT INTO ${table} (${columns.join(', ')})
+${split}
+ON CONFLICT (${merge.key.join(', ')}) DO UPDATE SET
+    ${merge.set.sqlite}
+ON CONFLICT DO NOTHING;`
+}
+
+function rebuildPostgres({ table, column, fields, orderBy }: History): string {
+  const pairs = ['id', ...fields.map(([name]) => name)].map(name => `'${name}', h.${name}`)
+  return `UPDATE user_contexts uc SET ${column} = COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(${pairs.join(', ')}) ORDER BY h.${orderBy} DESC)
+    FROM ${table} h
+    WHERE h.workspace_id = uc.workspace_id AND h.user_id = uc.user_id
+), '[]');`
+}
+
+function rebuildSqlite({ table, column, fields, orderBy }: History): string {
+  const pairs = ['id', ...fields.map(([name]) => name)].map(name =>
+    fields.some(([field, type]) => field === name && type === 'json') ? `'${name}', json(h.${name})` : `'${name}', h.${name}`)
+  return `UPDATE user_contexts SET ${column} = (
+    SELECT json_group_array(json(element)) FROM (
+        SELECT json_object(${pairs.join(', ')}) AS element
+        FROM ${table} h
+        WHERE h.workspace_id = user_contexts.workspace_id AND h.user_id = user_contexts.user_id
+        ORDER BY h.${orderBy} DESC
+    )
+);`
+}
+
+// [table, constraint, column, referenced table]
+const FOREIGN_KEYS: Array<[string, string, string, string]> = HISTORIES.flatMap(({ table }) => [
+  [table, `fk_${table}_workspace`, 'workspace_id', 'workspaces'],
+  [table, `fk_${table}_user`, 'user_id', 'profiles']
+] as Array<[string, string, string, string]>)
+
+const policy = (table: string) => `Users can only access their own ${table.replace(/_/g, ' ')}`
+
+export const userContextHistory: Migration = {
+  version: 7,
+  name: 'user_context_history',
+  up: {
+    postgres: `
+-- Deployment patterns a user has deployed with, one per name and type
+CREATE TABLE IF NOT EXISTS user_deployment_patterns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    pattern_type VARCHAR(20) NOT NULL,
+    configuration JSONB DEFAULT '{}',
+    success_rate DOUBLE PRECISION DEFAULT 0,
+    usage_count INTEGER DEFAULT 0,
+    last_used TIMESTAMPTZ DEFAULT NOW(),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Name and configuration, for context searches
+    search_text TEXT,
+
+    CONSTRAINT unique_user_deployment_pattern UNIQUE (workspace_id, user_id, name, pattern_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_deployment_patterns_last_used ON user_deployment_patterns(workspace_id, user_id, last_used DESC);
+
+-- Infrastructure events (provision, deploy, scale, ...) with their cost
+CREATE TABLE IF NOT EXISTS user_infrastructure_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    event_type VARCHAR(20) NOT NULL,
+    resource_type VARCHAR(100) NOT NULL,
+    provider VARCHAR(50) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    configuration JSONB DEFAULT '{}',
+    cost_impact NUMERIC(12, 4) DEFAULT 0,
+    duration_ms INTEGER DEFAULT 0,
+    timestamp TIMESTAMPTZ DEFAULT NOW(),
+    metadata JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_infrastructure_events_timestamp ON user_infrastructure_events(workspace_id, user_id, timestamp DESC);
+
+-- Conversations with their intent analysis and agent responses
+CREATE TABLE IF NOT EXISTS user_conversations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    session_id VARCHAR(255) NOT NULL,
+    message_content TEXT NOT NULL,
+    intent_analysis JSONB DEFAULT '{}',
+    agent_responses JSONB DEFAULT '[]',
+    outcome JSONB DEFAULT '{}',
+    timestamp TIMESTAMPTZ DEFAULT NOW(),
+
+    -- Message, primary intent and agent responses, for history searches
+    search_text TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_conversations_timestamp ON user_conversations(workspace_id, user_id, timestamp DESC);
+
+-- Deployment sessions a user can pause and resume
+CREATE TABLE IF NOT EXISTS user_deployment_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    session_name VARCHAR(255) NOT NULL,
+    deployment_context JSONB DEFAULT '{}',
+    active_resources JSONB DEFAULT '[]',
+    session_state VARCHAR(20) NOT NULL DEFAULT 'active',
+    metadata JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_deployment_sessions_updated_at ON user_deployment_sessions(workspace_id, user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_deployment_sessions_expires_at ON user_deployment_sessions(expires_at);
+
+${HISTORIES.map(splitPostgres).join('\n\n')}
+
+ALTER TABLE user_contexts
+${HISTORIES.map(({ column }) => `    DROP COLUMN IF EXISTS ${column}`).join(',\n')};
+
+DO $$
+BEGIN
+${SUPABASE_ONLY}
+
+${plpgsqlLines(FOREIGN_KEYS.flatMap(([table, constraint, column, referenced]) => [
+  `ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${constraint};`,
+  `ALTER TABLE ${table} ADD CONSTRAINT ${constraint} FOREIGN KEY (${column}) REFERENCES ${referenced}(id) ON DELETE CASCADE;`
+]))}
+
+${plpgsqlLines(HISTORIES.flatMap(({ table }) => [
+  `ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY;`,
+  `DROP POLICY IF EXISTS "${policy(table)}" ON ${table};`,
+  `CREATE POLICY "${policy(table)}" ON ${table} FOR ALL USING (user_id = auth.uid());`,
+  `GRANT SELECT, INSERT, UPDATE, DELETE ON ${table} TO authenticated;`,
+  `GRANT ALL ON ${table} TO service_role;`
+]))}
+END
+$$;
+`,
+    sqlite: `
+CREATE TABLE IF NOT EXISTS user_deployment_patterns (
+    id ${SQLITE_ID},
+    workspace_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    pattern_type TEXT NOT NULL,
+    configuration JSON DEFAULT '{}',
+    success_rate REAL DEFAULT 0,
+    usage_count INTEGER DEFAULT 0,
+    last_used TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    created_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    search_text TEXT,
+    UNIQUE (workspace_id, user_id, name, pattern_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_deployment_patterns_last_used ON user_deployment_patterns(workspace_id, user_id, last_used DESC);
+
+CREATE TABLE IF NOT EXISTS user_infrastructure_events (
+    id ${SQLITE_ID},
+    workspace_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    resource_type TEXT NOT NULL,
+    provider TEXT NOT NULL,
+    status TEXT NOT NULL,
+    configuration JSON DEFAULT '{}',
+    cost_impact REAL DEFAULT 0,
+    duration_ms INTEGER DEFAULT 0,
+    timestamp TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    metadata JSON
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_infrastructure_events_timestamp ON user_infrastructure_events(workspace_id, user_id, timestamp DESC);
+
+CREATE TABLE IF NOT EXISTS user_conversations (
+    id ${SQLITE_ID},
+    workspace_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    message_content TEXT NOT NULL,
+    intent_analysis JSON DEFAULT '{}',
+    agent_responses JSON DEFAULT '[]',
+    outcome JSON DEFAULT '{}',
+    timestamp TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    search_text TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_conversations_timestamp ON user_conversations(workspace_id, user_id, timestamp DESC);
+
+CREATE TABLE IF NOT EXISTS user_deployment_sessions (
+    id ${SQLITE_ID},
+    workspace_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    session_name TEXT NOT NULL,
+    deployment_context JSON DEFAULT '{}',
+    active_resources JSON DEFAULT '[]',
+    session_state TEXT NOT NULL DEFAULT 'active',
+    metadata JSON,
+    created_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    updated_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_deployment_sessions_updated_at ON user_deployment_sessions(workspace_id, user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_deployment_sessions_expires_at ON user_deployment_sessions(expires_at);
+
+${HISTORIES.map(splitSqlite).join('\n\n')}
+
+${HISTORIES.map(({ column }) => `ALTER TABLE user_contexts DROP COLUMN ${column};`).join('\n')}
+`
+  },
+  down: {
+    // Rows of users without a user_contexts row have no document to go back to
+    postgres: `
+ALTER TABLE user_contexts
+${HISTORIES.map(({ column }) => `    ADD COLUMN IF NOT EXISTS ${column} JSONB DEFAULT '[]'`).join(',\n')};
+
+${HISTORIES.map(rebuildPostgres).join('\n\n')}
+
+${HISTORIES.map(({ table }) => `DROP TABLE IF EXISTS ${table};`).join('\n')}
+`,
+    sqlite: `
+${HISTORIES.map(({ column }) => `ALTER TABLE user_contexts ADD COLUMN ${column} JSON DEFAULT '[]';`).join('\n')}
+
+${HISTORIES.map(rebuildSqlite).join('\n\n')}
+
+${HISTORIES.map(({ table }) => `DROP TABLE IF EXISTS ${table};`).join('\n')}
+`
+  }
+}
@@ -0,0 +1,27 @@
+import { Migration } from './common'
+
+// A version per context row, bumped by every write. Writes name the version
+// they read, so one based on a stale copy fails instead of overwriting a
+// newer one. Global contexts are only ever inserted and need none.
+const VERSIONED_TABLES = ['secret_contexts', 'workspace_secret_contexts', 'user_contexts', 'user_deployment_sessions']
+
+export const contextVersions: Migration = {
+  version: 8,
+  name: 'context_versions',
+  up: {
+    postgres: `
+${VERSIONED_TABLES.map(table => `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;`).join('\n')}
+`,
+    sqlite: `
+${VERSIONED_TABLES.map(table => `ALTER TABLE ${table} ADD COLUMN version INTEGER NOT NULL DEFAULT 1;`).join('\n')}
+`
+  },
+  down: {
+    postgres: `
+${VERSIONED_TABLES.map(table => `ALTER TABLE ${table} DROP COLUMN IF EXISTS version;`).join('\n')}
+`,
+    sqlite: `
+${VERSIONED_TABLES.map(table => `ALTER TABLE ${table} DROP COLUMN version;`).join('\n')}
+`
+  }
+}
@@ -0,0 +1,24 @@
+import { Migration } from './common'
+
+// Deployment sessions get the version 008 gave the other contexts: instances
+// sharing a session write it from the version they read
+export const deploymentSessionVersions: Migration = {
+  version: 9,
+  name: 'deployment_session_versions',
+  up: {
+    postgres: `
+ALTER TABLE deployment_sessions ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+`,
+    sqlite: `
+ALTER TABLE deployment_sessions ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+`
+  },
+  down: {
+    postgres: `
+ALTER TABLE deployment_sessions DROP COLUMN IF EXISTS version;
+`,
+    sqlite: `
+ALTER TABLE deployment_sessions DROP COLUMN version;
+`
+  }
+}
@@ -0,0 +1,72 @@
+import { Migration, SQLITE_NOW, SUPABASE_ONLY } from './common'
+
+// Secret leases (SecretLeaseService) outlive the instance that issued them,
+// so any instance can redeem or revoke one. Handles are kept as SHA-256
+// digests only.
+export const secretLeases: Migration = {
+  version: 10,
+  name: 'secret_leases',
+  up: {
+    postgres: `
+CREATE TABLE IF NOT EXISTS secret_leases (
+    id UUID PRIMARY KEY,
+    handle_digest VARCHAR(64) NOT NULL UNIQUE,
+    workspace_id UUID NOT NULL,
+    user_id UUID NOT NULL,
+    key VARCHAR(255) NOT NULL,
+    session_id TEXT NOT NULL,
+    purpose TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    max_uses INTEGER NOT NULL,
+    uses INTEGER NOT NULL DEFAULT 0,
+    revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_secret_leases_user ON secret_leases(workspace_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_secret_leases_expires_at ON secret_leases(expires_at);
+
+DO $$
+BEGIN
+${SUPABASE_ONLY}
+
+    ALTER TABLE secret_leases DROP CONSTRAINT IF EXISTS fk_secret_leases_workspace;
+    ALTER TABLE secret_leases ADD CONSTRAINT fk_secret_leases_workspace FOREIGN KEY (workspace_id) REFERENCES workspaces(id) ON DELETE CASCADE;
+
+    -- Leases are only ever touched by the service itself
+    ALTER TABLE secret_leases ENABLE ROW LEVEL SECURITY;
+    DROP POLICY IF EXISTS "Only service role can access secret leases" ON secret_leases;
+    CREATE POLICY "Only service role can access secret leases" ON secret_leases FOR ALL USING (auth.role() = 'service_role');
+    GRANT ALL ON secret_leases TO service_role;
+END
+$$;
+`,
+    sqlite: `
+CREATE TABLE IF NOT EXISTS secret_leases (
+    id TEXT PRIMARY KEY,
+    handle_digest TEXT NOT NULL UNIQUE,
+    workspace_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    purpose TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT ${SQLITE_NOW},
+    expires_at TIMESTAMPTZ NOT NULL,
+    max_uses INTEGER NOT NULL,
+    uses INTEGER NOT NULL DEFAULT 0,
+    revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_secret_leases_user ON secret_leases(workspace_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_secret_leases_expires_at ON secret_leases(expires_at);
+`
+  },
+  down: {
+    postgres: `
+DROP TABLE IF EXISTS secret_leases;
+`,
+    sqlite: `
+DROP TABLE IF EXISTS secret_leases;
+`
+  }
+}
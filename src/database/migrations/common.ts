@@ -0,0 +1,34 @@
+/**
+ * Shared pieces of the schema migrations. Every migration carries SQL for
+ * Postgres (plain or Supabase) and for the embedded SQLite store.
+ */
+
+export type MigrationDialect = 'postgres' | 'sqlite'
+
+export interface Migration {
+  // Applied in ascending order, never reused
+  version: number
+  // snake_case, recorded in schema_migrations
+  name: string
+  up: Record<MigrationDialect, string>
+  down: Record<MigrationDialect, string>
+}
+
+// SQLite has no timestamp or UUID types: ISO 8601 strings in UTC sort in
+// time order, and SqliteStore reads the declared JSON, BOOLEAN and
+// TIMESTAMPTZ column types to convert values
+export const SQLITE_NOW = `(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`
+export const SQLITE_ID = `TEXT PRIMARY KEY DEFAULT (lower(hex(randomblob(16))))`
+
+// Opening of a DO block that only continues on Supabase on top of the
+// chatbot-ui schema (auth, workspaces, profiles, workspace_users)
+export const SUPABASE_ONLY = `
+    IF to_regnamespace('auth') IS NULL
+       OR to_regclass('public.workspaces') IS NULL
+       OR to_regclass('public.profiles') IS NULL
+       OR to_regclass('public.workspace_users') IS NULL THEN
+        RETURN;
+    END IF;`
+
+// Statements indented for the body of a DO block
+export const plpgsqlLines = (statements: string[]) => statements.map(statement => `    ${statement}`).join('\n')
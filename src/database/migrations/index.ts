@@ -0,0 +1,50 @@
+/**
+ * Schema migrations in the order they apply. Add new ones at the end with
+ * the next version; never edit a migration once it has shipped.
+ *
+ * The Postgres migrations also apply over a database created from the former
+ * schema.sql, so existing Supabase projects can adopt them as they are.
+ */
+
+import { Migration } from './common'
+import { secretContexts } from './001_secret_contexts'
+import { userContexts } from './002_user_contexts'
+import { globalContexts } from './003_global_contexts'
+import { deploymentSessions } from './004_deployment_sessions'
+import { auditLogs } from './005_audit_logs'
+import { supabaseAccess } from './006_supabase_access'
+import { userContextHistory } from './007_user_context_history'
+import { contextVersions } from './008_context_versions'
+import { deploymentSessionVersions } from './009_deployment_session_versions'
+import { secretLeases } from './010_secret_leases'
+
+export { Migration, MigrationDialect } from './common'
+
+export const MIGRATIONS: Migration[] = [
+  secretContexts,
+  userContexts,
+  globalContexts,
+  deploymentSessions,
+  auditLogs,
+  supabaseAccess,
+  userContextHistory,
+  contextVersions,
+  deploymentSessionVersions,
+  secretLeases
+]
+
+// Bookkeeping tables, the same SQL on Postgres and SQLite
+export const MIGRATION_TABLES = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL
+);
+
+-- At most one row: the runner currently applying migrations
+CREATE TABLE IF NOT EXISTS schema_migrations_lock (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    locked_by VARCHAR(255) NOT NULL,
+    locked_at TIMESTAMPTZ NOT NULL
+);
+`
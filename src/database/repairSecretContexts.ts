@@ -0,0 +1,48 @@
+/**
+ * One-time repair for secret_contexts rows whose credentials, ssh_keys and
+ * certificates maps were encrypted a second time as a whole by the old
+ * persistence path. Safe to run more than once; rows in the correct shape
+ * are left untouched.
+ *
+ *   npm run repair:secret-contexts
+ */
+
+import 'dotenv/config'
+import { DatabaseClient } from './client'
+import { SecretContextRepository } from './SecretContextRepository'
+import { EncryptionService } from '../utils/encryption'
+
+async function main(): Promise<void> {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+  }
+
+  const db = new DatabaseClient(
+    process.env.SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY,
+    {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD,
+      db: parseInt(process.env.REDIS_DB || '0')
+    }
+  )
+  const repository = new SecretContextRepository(db, EncryptionService.fromEnvironment())
+
+  try {
+    const result = await repository.repairLegacyRows()
+    console.log(`[RepairSecretContexts] Scanned ${result.scanned} row(s), repaired ${result.repaired}`)
+
+    for (const failure of result.failures) {
+      console.error(`[RepairSecretContexts] Row ${failure.id} could not be repaired: ${failure.error}`)
+    }
+    process.exitCode = result.failures.length > 0 ? 1 : 0
+  } finally {
+    await db.close()
+  }
+}
+
+main().catch(error => {
+  console.error('[RepairSecretContexts] Failed:', error)
+  process.exit(1)
+})
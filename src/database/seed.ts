@@ -0,0 +1,32 @@
+/**
+ * Load the global context seed data (community patterns and workflows) into
+ * the configured context store. Entries already there, matched by name, are
+ * left alone, so running it again is harmless.
+ *
+ *   npm run seed
+ */
+
+import 'dotenv/config'
+import { createContextStore } from './ContextStore'
+import { seedGlobalContext } from './seeds/globalContext'
+
+async function main(): Promise<void> {
+  const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env
+  if ((process.env.CONTEXT_STORE || 'supabase') === 'supabase' && (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY)) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+  }
+
+  const store = createContextStore({ url: SUPABASE_URL || '', key: SUPABASE_SERVICE_ROLE_KEY || '' })
+
+  try {
+    const seeded = await seedGlobalContext(store)
+    console.log(`[Seed] Added ${seeded.patterns} community pattern(s) and ${seeded.workflows} workflow(s)`)
+  } finally {
+    await store.close()
+  }
+}
+
+main().catch(error => {
+  console.error('[Seed] Failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+})
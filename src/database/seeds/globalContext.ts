@@ -0,0 +1,292 @@
+/**
+ * Global context seed data: community patterns and multi-agent workflows
+ * from real CLI deployment experience. Loaded with `npm run seed`, and at
+ * startup when the database lives in memory.
+ */
+
+import { ContextStore } from '../ContextStore'
+import { CommunityPattern, GlobalContextService, WorkflowPattern } from '../../services/GlobalContextService'
+
+type PatternSeed = Omit<CommunityPattern, 'id' | 'created_at' | 'updated_at'>
+type WorkflowSeed = Omit<WorkflowPattern, 'id' | 'created_at'>
+
+// Add proven CLI experience patterns from deployment_patterns.md and GLOBAL_CONTEXT.md
+const cliPatterns: PatternSeed[] = [
+  {
+    name: "FastAPI + Cloud-Init Deployment",
+    pattern_type: "deployment", 
+    description: "Proven arbitrary application deployment pattern validated with ImageVoyage",
+    configuration: {
+      detection: "main.py with FastAPI imports",
+      deployment_method: "cloud-init",
+      start_command: "uvicorn main:app --host 0.0.0.0 --port 8000",
+      service_type: "systemd with virtual environment",
+      debug_strategy: "iterative AI-powered debugging",
+      fallback: "simplified app version when external dependencies fail"
+    },
+    success_metrics: {
+      success_rate: 0.92,
+      usage_count: 5,
+      cost_efficiency: 0.95,
+      performance_score: 8.5
+    },
+    tags: ["python", "fastapi", "arbitrary-app", "ai-debugging", "production-tested"],
+    provider: "digitalocean", 
+    tech_stack: ["python", "fastapi", "uvicorn", "systemd", "nginx"]
+  },
+  {
+    name: "DigitalOcean + Cloudflare Optimal Stack",
+    pattern_type: "infrastructure",
+    description: "Proven high-reliability stack with 100% success rate using local SSH key control",
+    configuration: {
+      server_size: "s-2vcpu-4gb",
+      region: "nyc3", 
+      image: "ubuntu-22-04-x64",
+      ssh_strategy: "local_key_generation",
+      dns_provider: "cloudflare",
+      ssl_provider: "letsencrypt",
+      deployment_method: "cloud_init",
+      dns_verification_timeout: 90,
+      max_retry_attempts: 3
+    },
+    success_metrics: {
+      success_rate: 1.0,
+      usage_count: 15,
+      cost_efficiency: 0.85,
+      performance_score: 9.2
+    },
+    tags: ["digitalocean", "cloudflare", "production-ready", "ssh-optimized"],
+    provider: "digitalocean",
+    tech_stack: ["ubuntu", "nginx", "letsencrypt", "systemd"]
+  },
+  {
+    name: "Static Site + CDN High Performance",
+    pattern_type: "infrastructure",
+    description: "Static site hosting with 98% success rate and 5-minute deployment time",
+    configuration: {
+      hosting: "DigitalOcean Droplet + Nginx",
+      ssl: "Let's Encrypt",
+      deployment_time: "< 5 minutes",
+      optimal_size: "s-1vcpu-1gb",
+      cost_monthly: "$6-12"
+    },
+    success_metrics: {
+      success_rate: 0.98,
+      usage_count: 203,
+      cost_efficiency: 0.98,
+      performance_score: 9.5
+    },
+    tags: ["static", "cdn", "low-cost", "fast-deployment"],
+    provider: "digitalocean",
+    tech_stack: ["html", "css", "javascript", "nginx"]
+  },
+  {
+    name: "AI-Powered Iterative Debugging",
+    pattern_type: "workflow",
+    description: "Systematic debugging methodology proven with ImageVoyage deployment success",
+    configuration: {
+      step_1: "Comprehensive system state collection",
+      step_2: "AI analysis with confidence scoring",
+      step_3: "Execute highest-confidence fixes first", 
+      step_4: "Verify results after each action",
+      step_5: "Adapt strategy based on outcomes",
+      common_fixes: ["APT lock resolution", "dependency installation", "service configuration", "nginx setup"]
+    },
+    success_metrics: {
+      success_rate: 0.95,
+      usage_count: 8,
+      cost_efficiency: 0.9,
+      performance_score: 9.0
+    },
+    tags: ["debugging", "ai-powered", "iterative", "systematic"],
+    provider: "any",
+    tech_stack: ["ai", "diagnostic", "repair"]
+  }
+]
+
+// Add critical anti-patterns and solutions from CLI experience
+const antiPatterns: PatternSeed[] = [
+  {
+    name: "Unicode Console Error Prevention",
+    pattern_type: "workflow",
+    description: "Critical fix for Windows console Unicode errors that break deployments",
+    configuration: {
+      problem: "Scripts using emoji characters cause UnicodeEncodeError on Windows",
+      impact: "15% of Windows users experience script failures",
+      solution: "Use ASCII markers: [SUCCESS], [ERROR], [WARNING], [*], [+], [-]",
+      affected_files: "All provisioning scripts, deployment tools",
+      prevention: "Never use emoji in console output"
+    },
+    success_metrics: {
+      success_rate: 1.0,
+      usage_count: 50,
+      cost_efficiency: 1.0,
+      performance_score: 8.0
+    },
+    tags: ["windows", "console", "unicode", "error-prevention"],
+    provider: "any",
+    tech_stack: ["windows", "python", "nodejs", "console"]
+  },
+  {
+    name: "DNS Verification Timeout Solution",
+    pattern_type: "workflow",
+    description: "Prevents infinite DNS verification loops that hang deployments",
+    configuration: {
+      problem: "DNS verification using socket.gethostbyname() hangs indefinitely",
+      root_cause: "Local DNS caching + slow propagation creates infinite wait loops",
+      impact: "8% of deployments hang during DNS verification", 
+      solutions: [
+        "Use external DNS servers (8.8.8.8) with nslookup subprocess",
+        "Implement strict 90-second timeout with asyncio.wait_for()", 
+        "Reduce verification attempts to 6 maximum",
+        "Make DNS verification non-blocking for deployment success"
+      ]
+    },
+    success_metrics: {
+      success_rate: 0.98,
+      usage_count: 35,
+      cost_efficiency: 0.95,
+      performance_score: 8.5
+    },
+    tags: ["dns", "timeout", "verification", "anti-pattern"],
+    provider: "any", 
+    tech_stack: ["dns", "python", "networking"]
+  },
+  {
+    name: "Local SSH Key Generation Pattern",
+    pattern_type: "infrastructure",
+    description: "Critical pattern to prevent SSH key permission denied errors",
+    configuration: {
+      problem: "Using existing DigitalOcean SSH keys without local private key access",
+      impact: "25% of deployments fail with Permission denied (publickey) errors",
+      root_cause: "SSH keys generated on different machines not available locally", 
+      solution: "Always generate new SSH key pairs locally before server creation",
+      implementation: "Include SSH key generation in deployment automation",
+      key_type: "RSA 4096-bit for compatibility",
+      auto_upload: "Upload public key to provider automatically"
+    },
+    success_metrics: {
+      success_rate: 1.0,
+      usage_count: 25,
+      cost_efficiency: 0.9,
+      performance_score: 9.0
+    },
+    tags: ["ssh", "key-management", "local-generation", "anti-pattern"],
+    provider: "digitalocean",
+    tech_stack: ["ssh", "rsa", "deployment"]
+  }
+]
+
+// Add framework-specific insights from CLI experience
+const frameworkPatterns: PatternSeed[] = [
+  {
+    name: "Python FastAPI Production Pattern",
+    pattern_type: "deployment",
+    description: "Production-tested FastAPI deployment with dependency resolution",
+    configuration: {
+      detection: ["main.py with FastAPI imports", "requirements.txt with fastapi", "uvicorn in dependencies"],
+      start_command: "uvicorn main:app --host 0.0.0.0 --port 8000",
+      workers: "2x CPU cores for production",
+      virtual_env: "python3 -m venv venv && source venv/bin/activate",
+      common_dependencies: ["fastapi", "uvicorn", "pydantic", "Pillow", "numpy"],
+      service_template: "systemd with virtual environment and auto-restart",
+      health_check: "/health or /docs endpoint",
+      common_issues: ["PIL/Pillow import errors", "missing numpy/scipy", "port conflicts"]
+    },
+    success_metrics: {
+      success_rate: 0.95,
+      usage_count: 12,
+      cost_efficiency: 0.9,
+      performance_score: 8.8
+    },
+    tags: ["python", "fastapi", "production", "validated"],
+    provider: "any",
+    tech_stack: ["python", "fastapi", "uvicorn", "systemd"]
+  },
+  {
+    name: "Node.js Express Production Pattern", 
+    pattern_type: "deployment",
+    description: "Battle-tested Node.js deployment with PM2 process management",
+    configuration: {
+      detection: ["package.json with express", "app.js or server.js", "node_modules present"],
+      start_commands: ["npm start", "node server.js", "node app.js"],
+      process_manager: "PM2 for production deployments",
+      service_pattern: "systemd with PM2 or direct node", 
+      common_ports: [3000, 8000, 8080],
+      health_check_paths: ["/health", "/api/health", "/"],
+      common_issues: ["Node version conflicts", "npm install failures", "port binding issues"]
+    },
+    success_metrics: {
+      success_rate: 0.88,
+      usage_count: 8,
+      cost_efficiency: 0.85,
+      performance_score: 8.2
+    },
+    tags: ["nodejs", "express", "pm2", "production"],
+    provider: "any",
+    tech_stack: ["nodejs", "express", "pm2", "npm"]
+  }
+]
+
+export const COMMUNITY_PATTERN_SEEDS: PatternSeed[] = [...cliPatterns, ...antiPatterns, ...frameworkPatterns]
+
+// Add proven CLI workflow patterns
+export const WORKFLOW_PATTERN_SEEDS: WorkflowSeed[] = [
+  {
+    name: "Arbitrary Application AI Deployment",
+    description: "Proven workflow for deploying any application using AI analysis and iterative debugging",
+    steps: [
+      { step_name: "AI Repository Analysis", agent: "Mercury", command: "analyze_repository", success_rate: 0.95 },
+      { step_name: "Infrastructure Provisioning", agent: "Atlas", command: "provision_server", success_rate: 0.94 },
+      { step_name: "Deterministic Pipeline Deployment", agent: "Phoenix", command: "cloud_init_deploy", success_rate: 0.90 },
+      { step_name: "AI-Powered Debugging (Iteration 1)", agent: "Watson", command: "diagnose_and_fix", success_rate: 0.85 },
+      { step_name: "AI-Powered Debugging (Iteration 2)", agent: "Watson", command: "advanced_repair", success_rate: 0.92 },
+      { step_name: "DNS and SSL Setup", agent: "Neptune", command: "setup_production_domain", success_rate: 0.96 }
+    ],
+    use_case: "arbitrary application deployment",
+    total_success_rate: 0.90,
+    average_duration: 20.0
+  },
+  {
+    name: "Production FastAPI Deployment", 
+    description: "Optimized workflow for FastAPI applications with proven 95% success rate",
+    steps: [
+      { step_name: "FastAPI App Detection", agent: "Mercury", command: "detect_fastapi", success_rate: 0.98 },
+      { step_name: "Server Provisioning", agent: "Atlas", command: "provision_optimal_server", success_rate: 0.96 },
+      { step_name: "Python Environment Setup", agent: "Phoenix", command: "setup_python_venv", success_rate: 0.94 },
+      { step_name: "Dependency Installation", agent: "Phoenix", command: "install_requirements", success_rate: 0.90 },
+      { step_name: "Systemd Service Creation", agent: "Phoenix", command: "create_systemd_service", success_rate: 0.95 },
+      { step_name: "Nginx Proxy Configuration", agent: "Phoenix", command: "configure_nginx_proxy", success_rate: 0.92 }
+    ],
+    use_case: "fastapi deployment",
+    total_success_rate: 0.95,
+    average_duration: 8.0
+  }
+]
+
+/**
+ * Submit the seed patterns and workflows the store doesn't have yet, matched
+ * by name, so seeding twice changes nothing
+ */
+export async function seedGlobalContext(store: ContextStore): Promise<{ patterns: number; workflows: number }> {
+  const [patterns, workflows] = await Promise.all([
+    store.query('community_patterns', { select: 'data' }),
+    store.query('workflow_patterns', { select: 'data' })
+  ])
+  const patternNames = new Set(patterns.map(row => row.data.name))
+  const workflowNames = new Set(workflows.map(row => row.data.name))
+
+  const service = new GlobalContextService(store)
+  const newPatterns = COMMUNITY_PATTERN_SEEDS.filter(pattern => !patternNames.has(pattern.name))
+  const newWorkflows = WORKFLOW_PATTERN_SEEDS.filter(workflow => !workflowNames.has(workflow.name))
+
+  // One at a time, so created_at keeps the seed order
+  for (const pattern of newPatterns) {
+    await service.submitCommunityPattern(pattern)
+  }
+  for (const workflow of newWorkflows) {
+    await service.submitWorkflowPattern(workflow)
+  }
+
+  return { patterns: newPatterns.length, workflows: newWorkflows.length }
+}
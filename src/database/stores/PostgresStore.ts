@@ -0,0 +1,222 @@
+/**
+ * Postgres context store over a pg connection pool (DATABASE_URL), for
+ * self-hosted deployments without Supabase. The schema migrations are
+ * applied at startup or with `npm run migrate`.
+ *
+ * Postgres aborts a whole transaction when one of its statements fails, so
+ * within a transaction each write runs under a savepoint: a unique
+ * violation rolls back just that write and callers may recover from it.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { Pool, PoolClient, types } from 'pg'
+import { DatabaseError } from '../client'
+import { AggregateOptions, ContextStore, QueryOptions, Row } from '../ContextStore'
+import {
+  SqlDialect,
+  SqlStatement,
+  aggregateStatement,
+  countStatement,
+  deleteStatement,
+  insertStatement,
+  selectStatement,
+  updateStatement
+} from './sql'
+
+const TIMESTAMPTZ_OID = 1184
+const INT8_OID = 20
+const NUMERIC_OID = 1700
+
+// Hand rows back in the shapes PostgREST uses: ISO timestamps and numbers
+const parseTimestamp = types.getTypeParser(TIMESTAMPTZ_OID)
+const typeParsers: Record<number, (value: string) => unknown> = {
+  [TIMESTAMPTZ_OID]: value => (parseTimestamp(value) as Date).toISOString(),
+  [INT8_OID]: value => Number(value),
+  [NUMERIC_OID]: value => parseFloat(value)
+}
+
+interface TransactionConnection {
+  client: PoolClient
+  // Settles once the writes queued so far have
+  writes: Promise<unknown>
+}
+
+export class PostgresStore implements ContextStore {
+  readonly backend = 'postgres'
+  readonly transactional = true
+  private pool: Pool
+  // table -> column -> data_type, read once per table
+  private columnTypes: Map<string, Promise<Map<string, string>>> = new Map()
+  // The connection of the transaction the caller runs in, if any
+  private transactionClient = new AsyncLocalStorage<TransactionConnection>()
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({
+      connectionString,
+      max: parseInt(process.env.DATABASE_POOL_SIZE || '10'),
+      types: {
+        getTypeParser: ((oid: number, format?: string) =>
+          typeParsers[oid] || types.getTypeParser(oid, format as any)) as typeof types.getTypeParser
+      }
+    })
+  }
+
+  async query(table: string, options: QueryOptions = {}): Promise<Row[]> {
+    const dialect = await this.dialect(table)
+    return await this.run('Query', 'QUERY_ERROR', selectStatement(dialect, table, options))
+  }
+
+  async insert(table: string, row: Row): Promise<Row> {
+    const dialect = await this.dialect(table)
+    const [inserted] = await this.run('Insert', 'INSERT_ERROR', insertStatement(dialect, table, row), true)
+    return inserted!
+  }
+
+  async update(table: string, id: string, changes: Row, expected?: Record<string, unknown>): Promise<Row> {
+    const dialect = await this.dialect(table)
+    const [updated] = await this.run('Update', 'UPDATE_ERROR', updateStatement(dialect, table, id, changes, expected), true)
+    if (!updated) {
+      throw expected && await this.count(table, { id }) > 0
+        ? new DatabaseError(`Update failed: row ${id} in ${table} has changed`, 'CONFLICT')
+        : new DatabaseError(`Update failed: no row ${id} in ${table}`, 'NOT_FOUND')
+    }
+    return updated
+  }
+
+  async upsert(table: string, row: Row, onConflict: string): Promise<Row> {
+    const dialect = await this.dialect(table)
+    const [upserted] = await this.run('Upsert', 'UPSERT_ERROR', insertStatement(dialect, table, row, onConflict), true)
+    return upserted!
+  }
+
+  async insertIfAbsent(table: string, row: Row, onConflict: string): Promise<Row | null> {
+    const dialect = await this.dialect(table)
+    const [inserted] = await this.run('Insert', 'INSERT_ERROR', insertStatement(dialect, table, row, onConflict, true), true)
+    return inserted || null
+  }
+
+  async delete(table: string, id: string): Promise<boolean> {
+    const dialect = await this.dialect(table)
+    await this.run('Delete', 'DELETE_ERROR', deleteStatement(dialect, table, id))
+    return true
+  }
+
+  async count(table: string, filter?: Record<string, unknown>): Promise<number> {
+    const dialect = await this.dialect(table)
+    const [row] = await this.run('Count', 'COUNT_ERROR', countStatement(dialect, table, filter))
+    return Number(row?.count || 0)
+  }
+
+  async aggregate(table: string, options: AggregateOptions): Promise<Row[]> {
+    const dialect = await this.dialect(table)
+    return await this.run('Aggregate', 'AGGREGATE_ERROR', aggregateStatement(dialect, table, options))
+  }
+
+  async execute(sql: string): Promise<void> {
+    const client = await this.pool.connect()
+    try {
+      await client.query('BEGIN')
+      await client.query(sql)
+      await client.query('COMMIT')
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined)
+      const { message, code } = error as { message: string; code?: string }
+      throw new DatabaseError(`Execute failed: ${message}`, code || 'EXECUTE_ERROR')
+    } finally {
+      client.release()
+      // Tables may have changed shape
+      this.columnTypes.clear()
+    }
+  }
+
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.transactionClient.getStore()) {
+      return await work()
+    }
+
+    const client = await this.pool.connect()
+    try {
+      await client.query('BEGIN')
+      const result = await this.transactionClient.run({ client, writes: Promise.resolve() }, work)
+      await client.query('COMMIT')
+      return result
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined)
+      throw error
+    } finally {
+      client.release()
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.pool.query('SELECT 1')
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end()
+  }
+
+  // Private helpers
+  // write: run under a savepoint within a transaction
+  private async run(operation: string, fallbackCode: string, statement: SqlStatement, write = false): Promise<Row[]> {
+    try {
+      const transaction = this.transactionClient.getStore()
+      if (!transaction) {
+        return (await this.pool.query(statement.text, statement.values)).rows
+      }
+      if (!write) {
+        return (await transaction.client.query(statement.text, statement.values)).rows
+      }
+
+      // One savepoint at a time, so concurrent writes in the transaction
+      // never roll back to each other's
+      const written = transaction.writes.then(() => this.underSavepoint(transaction.client, statement))
+      transaction.writes = written.catch(() => undefined)
+      return await written
+    } catch (error) {
+      const { message, code } = error as { message: string; code?: string }
+      throw new DatabaseError(`${operation} failed: ${message}`, code || fallbackCode)
+    }
+  }
+
+  private async underSavepoint(client: PoolClient, statement: SqlStatement): Promise<Row[]> {
+    await client.query('SAVEPOINT context_store_write')
+    try {
+      const result = await client.query(statement.text, statement.values)
+      await client.query('RELEASE SAVEPOINT context_store_write')
+      return result.rows
+    } catch (error) {
+      await client.query('ROLLBACK TO SAVEPOINT context_store_write')
+      await client.query('RELEASE SAVEPOINT context_store_write')
+      throw error
+    }
+  }
+
+  // JSON columns take serialized values; pg would send arrays as Postgres arrays
+  private async dialect(table: string): Promise<SqlDialect> {
+    let columnTypes = this.columnTypes.get(table)
+    if (!columnTypes) {
+      columnTypes = this.pool.query(
+        'SELECT column_name, data_type FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = $1',
+        [table]
+      ).then(result => new Map(result.rows.map(row => [row.column_name as string, row.data_type as string])))
+      this.columnTypes.set(table, columnTypes)
+      columnTypes.catch(() => this.columnTypes.delete(table))
+    }
+
+    const columns = await columnTypes
+    return {
+      placeholder: index => `$${index}`,
+      ilike: 'ILIKE',
+      encode: (column, value) => {
+        const dataType = columns.get(column)
+        return (dataType === 'jsonb' || dataType === 'json') && value !== null ? JSON.stringify(value) : value
+      }
+    }
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Embedded SQLite context store (better-sqlite3) for single-node and offline
+ * use, or in memory (':memory:') for development and tests. Pending schema
+ * migrations are applied when the store opens.
+ *
+ * The store has a single connection, so transactions are serialized with
+ * everything else: while one is open, calls from outside it wait until it
+ * commits or rolls back. Work within a transaction should stay on the store
+ * and not wait on the network.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { DatabaseError } from '../client'
+import { AggregateOptions, ContextStore, QueryOptions, Row } from '../ContextStore'
+import { MIGRATIONS, MIGRATION_TABLES } from '../migrations'
+import {
+  SqlDialect,
+  SqlStatement,
+  aggregateStatement,
+  countStatement,
+  deleteStatement,
+  insertStatement,
+  quoteIdentifier,
+  selectStatement,
+  updateStatement
+} from './sql'
+
+type ColumnType = 'JSON' | 'BOOLEAN' | 'TIMESTAMPTZ' | 'OTHER'
+
+export class SqliteStore implements ContextStore {
+  readonly backend = 'sqlite'
+  readonly transactional = true
+  private db: Database.Database
+  // table -> column -> declared type
+  private columnTypes: Map<string, Map<string, ColumnType>> = new Map()
+  // The one connection is shared, so calls from outside an open transaction
+  // wait for it to end rather than joining it
+  private transactionScope = new AsyncLocalStorage<true>()
+  private openTransaction: Promise<unknown> | null = null
+
+  constructor(filename: string, options: { migrate?: boolean } = {}) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true })
+    }
+
+    this.db = new Database(filename)
+    this.db.pragma('journal_mode = WAL')
+    this.db.pragma('busy_timeout = 5000')
+
+    if (options.migrate !== false) {
+      this.migrate()
+    }
+  }
+
+  async query(table: string, options: QueryOptions = {}): Promise<Row[]> {
+    return await this.gate(() => this.all('Query', 'QUERY_ERROR', table, selectStatement(this.dialect(table), table, options)))
+  }
+
+  async insert(table: string, row: Row): Promise<Row> {
+    const [inserted] = await this.gate(() => this.all('Insert', 'INSERT_ERROR', table, insertStatement(this.dialect(table), table, row)))
+    return inserted!
+  }
+
+  async update(table: string, id: string, changes: Row, expected?: Record<string, unknown>): Promise<Row> {
+    const [updated] = await this.gate(() => this.all('Update', 'UPDATE_ERROR', table, updateStatement(this.dialect(table), table, id, changes, expected)))
+    if (!updated) {
+      throw expected && await this.count(table, { id }) > 0
+        ? new DatabaseError(`Update failed: row ${id} in ${table} has changed`, 'CONFLICT')
+        : new DatabaseError(`Update failed: no row ${id} in ${table}`, 'NOT_FOUND')
+    }
+    return updated
+  }
+
+  async upsert(table: string, row: Row, onConflict: string): Promise<Row> {
+    const [upserted] = await this.gate(() => this.all('Upsert', 'UPSERT_ERROR', table, insertStatement(this.dialect(table), table, row, onConflict)))
+    return upserted!
+  }
+
+  async insertIfAbsent(table: string, row: Row, onConflict: string): Promise<Row | null> {
+    const [inserted] = await this.gate(() => this.all('Insert', 'INSERT_ERROR', table, insertStatement(this.dialect(table), table, row, onConflict, true)))
+    return inserted || null
+  }
+
+  async delete(table: string, id: string): Promise<boolean> {
+    await this.gate(() => {
+      const statement = deleteStatement(this.dialect(table), table, id)
+      this.attempt('Delete', 'DELETE_ERROR', () => this.db.prepare(statement.text).run(...statement.values))
+    })
+    return true
+  }
+
+  async count(table: string, filter?: Record<string, unknown>): Promise<number> {
+    const row = await this.gate(() => {
+      const statement = countStatement(this.dialect(table), table, filter)
+      return this.attempt('Count', 'COUNT_ERROR', () => this.db.prepare(statement.text).get(...statement.values)) as Row
+    })
+    return Number(row.count)
+  }
+
+  async aggregate(table: string, options: AggregateOptions): Promise<Row[]> {
+    return await this.gate(() => this.all('Aggregate', 'AGGREGATE_ERROR', table, aggregateStatement(this.dialect(table), table, options)))
+  }
+
+  async execute(sql: string): Promise<void> {
+    try {
+      await this.gate(() => this.attempt('Execute', 'EXECUTE_ERROR', () => this.db.transaction(() => this.db.exec(sql))()))
+    } finally {
+      // Tables may have changed shape
+      this.columnTypes.clear()
+    }
+  }
+
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.transactionScope.getStore()) {
+      return await work()
+    }
+
+    while (this.openTransaction) {
+      await this.openTransaction.catch(() => undefined)
+    }
+    const running = this.transactionScope.run(true, async () => {
+      this.attempt('Transaction', 'TRANSACTION_ERROR', () => this.db.exec('BEGIN'))
+      try {
+        const result = await work()
+        this.attempt('Transaction', 'TRANSACTION_ERROR', () => this.db.exec('COMMIT'))
+        return result
+      } catch (error) {
+        if (this.db.inTransaction) {
+          this.db.exec('ROLLBACK')
+        }
+        throw error
+      }
+    })
+
+    this.openTransaction = running
+    try {
+      return await running
+    } finally {
+      this.openTransaction = null
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      this.db.prepare('SELECT 1').get()
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.db.open) {
+      this.db.close()
+    }
+  }
+
+  // Private helpers
+
+  // Synchronous counterpart of MigrationRunner.up(); the IMMEDIATE
+  // transaction serializes processes opening the same file
+  private migrate(): void {
+    this.db.exec(MIGRATION_TABLES)
+    const isApplied = this.db.prepare('SELECT 1 FROM schema_migrations WHERE version = ?')
+    const record = this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+
+    for (const migration of MIGRATIONS) {
+      this.db.transaction(() => {
+        if (isApplied.get(migration.version)) return
+        this.db.exec(migration.up.sqlite)
+        record.run(migration.version, migration.name, new Date().toISOString())
+      }).immediate()
+    }
+  }
+
+  // Runs a statement once no transaction is open that the caller is outside of
+  private async gate<T>(statement: () => T): Promise<T> {
+    while (this.openTransaction && !this.transactionScope.getStore()) {
+      await this.openTransaction.catch(() => undefined)
+    }
+    return statement()
+  }
+
+  private all(operation: string, fallbackCode: string, table: string, statement: SqlStatement): Row[] {
+    const rows = this.attempt(operation, fallbackCode, () => this.db.prepare(statement.text).all(...statement.values)) as Row[]
+    return rows.map(row => this.decode(table, row))
+  }
+
+  private attempt<T>(operation: string, fallbackCode: string, run: () => T): T {
+    try {
+      return run()
+    } catch (error) {
+      if (error instanceof DatabaseError) throw error
+      const { message, code } = error as { message: string; code?: string }
+      // Report unique violations with the Postgres code, as the other stores do
+      const unique = code === 'SQLITE_CONSTRAINT_UNIQUE' || code === 'SQLITE_CONSTRAINT_PRIMARYKEY'
+      throw new DatabaseError(`${operation} failed: ${message}`, unique ? '23505' : code || fallbackCode)
+    }
+  }
+
+  private dialect(table: string): SqlDialect {
+    const columns = this.columns(table)
+    return {
+      placeholder: () => '?',
+      // LIKE ignores case for ASCII letters
+      ilike: 'LIKE',
+      encode: (column, value) => this.encode(columns.get(column) || 'OTHER', value)
+    }
+  }
+
+  private encode(type: ColumnType, value: unknown): unknown {
+    if (value === null || value === undefined) return null
+    if (type === 'JSON') return JSON.stringify(value)
+    if (type === 'TIMESTAMPTZ' && (typeof value === 'string' || value instanceof Date)) {
+      // One format, so comparisons between stored and given times hold
+      const time = new Date(value)
+      return isNaN(time.getTime()) ? value : time.toISOString()
+    }
+    if (typeof value === 'boolean') return value ? 1 : 0
+    if (value instanceof Date) return value.toISOString()
+    if (typeof value === 'object') return JSON.stringify(value)
+    return value
+  }
+
+  private decode(table: string, row: Row): Row {
+    const columns = this.columns(table)
+    for (const [column, value] of Object.entries(row)) {
+      const type = columns.get(column)
+      if (value === null) continue
+      if (type === 'JSON') row[column] = JSON.parse(value)
+      else if (type === 'BOOLEAN') row[column] = value === 1
+    }
+    return row
+  }
+
+  private columns(table: string): Map<string, ColumnType> {
+    let columns = this.columnTypes.get(table)
+    if (!columns) {
+      const info = this.db.prepare(`PRAGMA table_info(${quoteIdentifier(table)})`).all() as Array<{ name: string; type: string }>
+      if (info.length === 0) {
+        throw new DatabaseError(`Unknown table ${table}`, 'UNKNOWN_TABLE')
+      }
+      columns = new Map(info.map(column => {
+        const type = column.type.toUpperCase()
+        return [column.name, type === 'JSON' || type === 'BOOLEAN' || type === 'TIMESTAMPTZ' ? type : 'OTHER']
+      }))
+      this.columnTypes.set(table, columns)
+    }
+    return columns
+  }
+}
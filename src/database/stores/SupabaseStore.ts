@@ -0,0 +1,259 @@
+/**
+ * Supabase context store, through the PostgREST query builder. Expects the
+ * schema migrations applied to the Supabase project (`npm run migrate`).
+ *
+ * PostgREST runs every request on its own, so transactions need the
+ * project's direct Postgres connection (DATABASE_URL): everything asked of
+ * the store within transaction() goes through it instead.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { DatabaseError } from '../client'
+import { AggregateOptions, ContextStore, QueryOptions, Row, containsPattern } from '../ContextStore'
+
+// The filters of the PostgREST query builder used here
+interface FilterBuilder<Query> {
+  eq(column: string, value: unknown): Query
+  is(column: string, value: null): Query
+  gt(column: string, value: unknown): Query
+  gte(column: string, value: unknown): Query
+  lt(column: string, value: unknown): Query
+  lte(column: string, value: unknown): Query
+  ilike(column: string, pattern: string): Query
+}
+
+export class SupabaseStore implements ContextStore {
+  readonly backend = 'supabase'
+  private supabase: SupabaseClient
+  // The store the current transaction() runs on, if any
+  private transactionScope = new AsyncLocalStorage<ContextStore>()
+
+  constructor(supabaseUrl: string, supabaseKey: string, private transactionStore?: ContextStore) {
+    this.supabase = createClient(supabaseUrl, supabaseKey, {
+      auth: {
+        autoRefreshToken: true,
+        persistSession: false // Server-side, no need to persist sessions
+      },
+      global: {
+        headers: {
+          'X-Client-Info': 'cv-context-manager'
+        }
+      }
+    })
+  }
+
+  get transactional(): boolean {
+    return this.transactionStore !== undefined
+  }
+
+  async query(table: string, options: QueryOptions = {}): Promise<Row[]> {
+    const direct = this.transactionScope.getStore()
+    if (direct) return await direct.query(table, options)
+
+    let query = this.supabase.from(table).select(options.select || '*')
+
+    query = this.filtered(query, options)
+
+    if (options.order) {
+      query = query.order(options.order.column, { ascending: options.order.ascending !== false })
+    }
+
+    if (options.limit) {
+      query = query.limit(options.limit)
+    }
+
+    if (options.offset) {
+      query = query.range(options.offset, options.offset + (options.limit || 10) - 1)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new DatabaseError(`Query failed: ${error.message}`, error.code || 'QUERY_ERROR')
+    }
+
+    return (data as unknown as Row[]) || []
+  }
+
+  async insert(table: string, row: Row): Promise<Row> {
+    const direct = this.transactionScope.getStore()
+    if (direct) return await direct.insert(table, row)
+
+    const { data: result, error } = await this.supabase
+      .from(table)
+      .insert(row)
+      .select()
+      .single()
+
+    if (error) {
+      throw new DatabaseError(`Insert failed: ${error.message}`, error.code || 'INSERT_ERROR')
+    }
+
+    return result
+  }
+
+  async update(table: string, id: string, changes: Row, expected?: Record<string, unknown>): Promise<Row> {
+    const direct = this.transactionScope.getStore()
+    if (direct) return await direct.update(table, id, changes, expected)
+
+    let query = this.supabase
+      .from(table)
+      .update(changes)
+      .eq('id', id)
+    for (const [column, value] of Object.entries(expected || {})) {
+      query = value === null ? query.is(column, null) : query.eq(column, value)
+    }
+    const { data: result, error } = await query.select().single()
+
+    if (error) {
+      // .single() on no rows
+      if (error.code === 'PGRST116') {
+        throw expected && await this.count(table, { id }) > 0
+          ? new DatabaseError(`Update failed: row ${id} in ${table} has changed`, 'CONFLICT')
+          : new DatabaseError(`Update failed: ${error.message}`, 'NOT_FOUND')
+      }
+      throw new DatabaseError(`Update failed: ${error.message}`, error.code || 'UPDATE_ERROR')
+    }
+
+    return result
+  }
+
+  async upsert(table: string, row: Row, onConflict: string): Promise<Row> {
+    const direct = this.transactionScope.getStore()
+    if (direct) return await direct.upsert(table, row, onConflict)
+
+    const { data: result, error } = await this.supabase
+      .from(table)
+      .upsert(row, { onConflict })
+      .select()
+      .single()
+
+    if (error) {
+      throw new DatabaseError(`Upsert failed: ${error.message}`, error.code || 'UPSERT_ERROR')
+    }
+
+    return result
+  }
+
+  async insertIfAbsent(table: string, row: Row, onConflict: string): Promise<Row | null> {
+    const direct = this.transactionScope.getStore()
+    if (direct) return await direct.insertIfAbsent(table, row, onConflict)
+
+    const { data: result, error } = await this.supabase
+      .from(table)
+      .upsert(row, { onConflict, ignoreDuplicates: true })
+      .select()
+
+    if (error) {
+      throw new DatabaseError(`Insert failed: ${error.message}`, error.code || 'INSERT_ERROR')
+    }
+
+    return result?.[0] || null
+  }
+
+  async delete(table: string, id: string): Promise<boolean> {
+    const direct = this.transactionScope.getStore()
+    if (direct) return await direct.delete(table, id)
+
+    const { error } = await this.supabase
+      .from(table)
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      throw new DatabaseError(`Delete failed: ${error.message}`, error.code || 'DELETE_ERROR')
+    }
+
+    return true
+  }
+
+  async count(table: string, filter: Record<string, unknown> = {}): Promise<number> {
+    const direct = this.transactionScope.getStore()
+    if (direct) return await direct.count(table, filter)
+
+    let query = this.supabase
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+
+    Object.entries(filter).forEach(([key, value]) => {
+      query = value === null ? query.is(key, null) : query.eq(key, value)
+    })
+
+    const { count, error } = await query
+
+    if (error) {
+      throw new DatabaseError(`Count failed: ${error.message}`, error.code || 'COUNT_ERROR')
+    }
+
+    return count || 0
+  }
+
+  // PostgREST aggregates, which the project must enable
+  // (pgrst.db_aggregates_enabled, see .env.example)
+  async aggregate(table: string, options: AggregateOptions): Promise<Row[]> {
+    const direct = this.transactionScope.getStore()
+    if (direct) return await direct.aggregate(table, options)
+
+    const measures = Object.entries(options.measures).map(([alias, measure]) =>
+      measure.fn === 'count' ? `${alias}:count()` : `${alias}:${measure.column}.${measure.fn}()`)
+
+    let query = this.supabase.from(table).select([...(options.groupBy || []), ...measures].join(','))
+    query = this.filtered(query, options)
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new DatabaseError(`Aggregate failed: ${error.message}`, error.code || 'AGGREGATE_ERROR')
+    }
+
+    return (data as unknown as Row[]) || []
+  }
+
+  async execute(): Promise<void> {
+    throw new DatabaseError('Supabase has no SQL access through PostgREST, run migrations against DATABASE_URL', 'UNSUPPORTED')
+  }
+
+  async transaction<T>(work: () => Promise<T>): Promise<T> {
+    const transactionStore = this.transactionStore
+    if (!transactionStore) {
+      throw new DatabaseError('Supabase runs every PostgREST request on its own, set DATABASE_URL for transactions', 'UNSUPPORTED')
+    }
+
+    return await transactionStore.transaction(() => this.transactionScope.run(transactionStore, work))
+  }
+
+  async healthCheck(): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('profiles')
+      .select('id')
+      .limit(1)
+
+    return !error
+  }
+
+  async close(): Promise<void> {
+    // PostgREST is HTTP only; the direct connection has a pool to release
+    await this.transactionStore?.close()
+  }
+
+  // Private helpers
+  private filtered<Query extends FilterBuilder<Query>>(query: Query, options: Pick<QueryOptions, 'filter' | 'range' | 'contains'>): Query {
+    Object.entries(options.filter || {}).forEach(([key, value]) => {
+      query = value === null ? query.is(key, null) : query.eq(key, value)
+    })
+
+    Object.entries(options.range || {}).forEach(([column, bounds]) => {
+      if (bounds.gt !== undefined) query = query.gt(column, bounds.gt)
+      if (bounds.gte !== undefined) query = query.gte(column, bounds.gte)
+      if (bounds.lt !== undefined) query = query.lt(column, bounds.lt)
+      if (bounds.lte !== undefined) query = query.lte(column, bounds.lte)
+    })
+
+    Object.entries(options.contains || {}).forEach(([column, value]) => {
+      query = query.ilike(column, containsPattern(value))
+    })
+
+    return query
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * SQL shared by the Postgres and SQLite stores. Identifiers are checked and
+ * quoted; every value is passed as a parameter. Each store supplies its
+ * placeholder syntax and how values are encoded for a column.
+ */
+
+import { DatabaseError } from '../client'
+import { AggregateOptions, QueryOptions, Row, containsPattern } from '../ContextStore'
+
+export interface SqlStatement {
+  text: string
+  values: unknown[]
+}
+
+export interface SqlDialect {
+  // Placeholder for the nth (1-based) parameter
+  placeholder(index: number): string
+  encode(column: string, value: unknown): unknown
+  // Case-insensitive LIKE operator
+  ilike: string
+}
+
+const AGGREGATES = { sum: 'SUM', avg: 'AVG', min: 'MIN', max: 'MAX' } as const
+
+export function quoteIdentifier(name: string): string {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new DatabaseError(`Invalid identifier: ${name}`, 'INVALID_IDENTIFIER')
+  }
+  return `"${name}"`
+}
+
+export function selectStatement(dialect: SqlDialect, table: string, options: QueryOptions): SqlStatement {
+  const values: unknown[] = []
+  const columns = !options.select || options.select.trim() === '*'
+    ? '*'
+    : options.select.split(',').map(column => quoteIdentifier(column.trim())).join(', ')
+
+  let text = `SELECT ${columns} FROM ${quoteIdentifier(table)}${whereClause(dialect, options, values)}`
+
+  if (options.order) {
+    text += ` ORDER BY ${quoteIdentifier(options.order.column)} ${options.order.ascending === false ? 'DESC' : 'ASC'}`
+  }
+
+  // Same paging as the Supabase range() call
+  const limit = options.offset ? options.limit || 10 : options.limit
+  if (limit) {
+    values.push(limit)
+    text += ` LIMIT ${dialect.placeholder(values.length)}`
+  }
+  if (options.offset) {
+    values.push(options.offset)
+    text += ` OFFSET ${dialect.placeholder(values.length)}`
+  }
+
+  return { text, values }
+}
+
+export function countStatement(dialect: SqlDialect, table: string, filter?: Record<string, unknown>): SqlStatement {
+  const values: unknown[] = []
+  const text = `SELECT COUNT(*) AS count FROM ${quoteIdentifier(table)}${whereClause(dialect, { ...(filter && { filter }) }, values)}`
+  return { text, values }
+}
+
+export function aggregateStatement(dialect: SqlDialect, table: string, options: AggregateOptions): SqlStatement {
+  const values: unknown[] = []
+  const groupBy = (options.groupBy || []).map(quoteIdentifier)
+  const measures = Object.entries(options.measures).map(([alias, measure]) => {
+    if (measure.fn === 'count') {
+      return `COUNT(*) AS ${quoteIdentifier(alias)}`
+    }
+    if (!AGGREGATES[measure.fn]) {
+      throw new DatabaseError(`Invalid aggregate: ${measure.fn}`, 'INVALID_AGGREGATE')
+    }
+    return `${AGGREGATES[measure.fn]}(${quoteIdentifier(measure.column)}) AS ${quoteIdentifier(alias)}`
+  })
+
+  let text = `SELECT ${[...groupBy, ...measures].join(', ')} FROM ${quoteIdentifier(table)}${whereClause(dialect, options, values)}`
+  if (groupBy.length > 0) {
+    text += ` GROUP BY ${groupBy.join(', ')}`
+  }
+
+  return { text, values }
+}
+
+// onConflict updates the existing row, or leaves it be when ignoreDuplicates
+export function insertStatement(
+  dialect: SqlDialect,
+  table: string,
+  row: Row,
+  onConflict?: string,
+  ignoreDuplicates = false
+): SqlStatement {
+  const entries = definedEntries(row)
+  const values = entries.map(([column, value]) => dialect.encode(column, value))
+  const columns = entries.map(([column]) => quoteIdentifier(column))
+
+  let text = `INSERT INTO ${quoteIdentifier(table)} (${columns.join(', ')}) ` +
+    `VALUES (${values.map((_, index) => dialect.placeholder(index + 1)).join(', ')})`
+
+  if (onConflict) {
+    const conflictColumns = onConflict.split(',').map(column => column.trim())
+    if (ignoreDuplicates) {
+      return { text: `${text} ON CONFLICT (${conflictColumns.map(quoteIdentifier).join(', ')}) DO NOTHING RETURNING *`, values }
+    }
+    const updated = entries.map(([column]) => column).filter(column => !conflictColumns.includes(column))
+    text += ` ON CONFLICT (${conflictColumns.map(quoteIdentifier).join(', ')}) DO UPDATE SET ` +
+      (updated.length > 0 ? updated : conflictColumns)
+        .map(column => `${quoteIdentifier(column)} = EXCLUDED.${quoteIdentifier(column)}`)
+        .join(', ')
+  }
+
+  return { text: `${text} RETURNING *`, values }
+}
+
+export function updateStatement(
+  dialect: SqlDialect,
+  table: string,
+  id: string,
+  changes: Row,
+  expected: Record<string, unknown> = {}
+): SqlStatement {
+  const entries = definedEntries(changes)
+  const values = entries.map(([column, value]) => dialect.encode(column, value))
+  const assignments = entries.map(([column], index) => `${quoteIdentifier(column)} = ${dialect.placeholder(index + 1)}`)
+  const where = whereClause(dialect, { filter: { ...expected, id } }, values)
+
+  return { text: `UPDATE ${quoteIdentifier(table)} SET ${assignments.join(', ')}${where} RETURNING *`, values }
+}
+
+export function deleteStatement(dialect: SqlDialect, table: string, id: string): SqlStatement {
+  return { text: `DELETE FROM ${quoteIdentifier(table)} WHERE "id" = ${dialect.placeholder(1)}`, values: [id] }
+}
+
+// Private helpers
+function whereClause(dialect: SqlDialect, options: Pick<QueryOptions, 'filter' | 'range' | 'contains'>, values: unknown[]): string {
+  const conditions: string[] = []
+  const parameter = (column: string, value: unknown): string => {
+    values.push(dialect.encode(column, value))
+    return dialect.placeholder(values.length)
+  }
+
+  for (const [column, value] of Object.entries(options.filter || {})) {
+    conditions.push(value === null
+      ? `${quoteIdentifier(column)} IS NULL`
+      : `${quoteIdentifier(column)} = ${parameter(column, value)}`)
+  }
+
+  const operators = { gt: '>', gte: '>=', lt: '<', lte: '<=' } as const
+  for (const [column, bounds] of Object.entries(options.range || {})) {
+    for (const [bound, operator] of Object.entries(operators) as Array<[keyof typeof operators, string]>) {
+      if (bounds[bound] !== undefined) {
+        conditions.push(`${quoteIdentifier(column)} ${operator} ${parameter(column, bounds[bound])}`)
+      }
+    }
+  }
+
+  for (const [column, value] of Object.entries(options.contains || {})) {
+    values.push(containsPattern(value))
+    conditions.push(`${quoteIdentifier(column)} ${dialect.ilike} ${dialect.placeholder(values.length)} ESCAPE '\\'`)
+  }
+
+  return conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : ''
+}
+
+// Undefined fields are left to the column default, as the Supabase client does
+function definedEntries(row: Row): Array<[string, unknown]> {
+  return Object.entries(row).filter(([, value]) => value !== undefined)
+}
@@ -4,11 +4,28 @@ import cors from '@fastify/cors'
 import helmet from '@fastify/helmet'
 import jwt from '@fastify/jwt'
 
-import { DatabaseClient } from './database/client'
+import { DatabaseClient, initializeSchema } from './database/client'
+import { seedGlobalContext } from './database/seeds/globalContext'
 import { EncryptionService } from './utils/encryption'
+import { createKeyProvider } from './kms'
+import { createCredentialProviderRegistry } from './providers'
 import { SecretContextService } from './services/SecretContextService'
 import { UserContextService } from './services/UserContextService'
+import { GlobalContextService } from './services/GlobalContextService'
+import { DeploymentSessionService } from './services/DeploymentSessionService'
+import { KeyRotationService } from './services/KeyRotationService'
+import { SecretLeaseService } from './services/SecretLeaseService'
+import { ExpiryMonitorService } from './services/ExpiryMonitorService'
+import { WorkspaceSecretService } from './services/WorkspaceSecretService'
+import { SecretReferenceService } from './services/SecretReferenceService'
+import { CredentialRotationService } from './services/CredentialRotationService'
+import { WorkspaceKeyService } from './services/WorkspaceKeyService'
+import { AuditLogService } from './services/AuditLogService'
+import { AuditQueryService } from './services/AuditQueryService'
+import { AnomalyDetectionService } from './services/AnomalyDetectionService'
+import { withRequestContext } from './utils/requestContext'
 import { contextRoutes } from './controllers/contextController'
+import { auditRoutes } from './controllers/auditController'
 import { mcpRoutes } from './mcp/routes'
 
 const PORT = parseInt(process.env.PORT || '3002')
@@ -56,22 +73,70 @@ async function buildServer() {
       db: parseInt(process.env.REDIS_DB || '0')
     }
   )
+  await initializeSchema(db)
 
-  // Encryption service
-  const encryption = new EncryptionService(
-    process.env.CONTEXT_ENCRYPTION_KEY || 'fallback-key-for-development-only',
-    '1'
-  )
+  // Encryption service (current key plus any retired key versions); data keys
+  // are wrapped through the configured KMS provider when there is one
+  const encryption = EncryptionService.fromEnvironment().setKeyProvider(createKeyProvider())
 
   // Services
-  const secretContextService = new SecretContextService(db, encryption)
+  const workspaceKeyService = new WorkspaceKeyService(db, encryption)
+  const credentialProviders = createCredentialProviderRegistry()
+  const auditLogService = new AuditLogService(db)
+  const secretContextService = new SecretContextService(db, encryption, workspaceKeyService, undefined, undefined, auditLogService)
+    .setCredentialProviders(credentialProviders)
   const userContextService = new UserContextService(db)
+  const globalContextService = new GlobalContextService(db.store)
+  const deploymentSessionService = new DeploymentSessionService(db.store)
+  const keyRotationService = new KeyRotationService(secretContextService, workspaceKeyService, encryption)
+  const workspaceSecretService = new WorkspaceSecretService(secretContextService, userContextService, db, encryption, workspaceKeyService)
+  const auditQueryService = new AuditQueryService(auditLogService, workspaceSecretService)
+  const anomalyDetectionService = new AnomalyDetectionService(auditLogService, secretContextService, globalContextService)
+  const secretReferenceService = new SecretReferenceService(secretContextService, workspaceSecretService, userContextService, globalContextService)
+  const secretLeaseService = new SecretLeaseService(secretContextService, db.store)
+  const expiryMonitorService = new ExpiryMonitorService(secretContextService, userContextService)
+    .setWorkspaceSecrets(workspaceSecretService)
+  const credentialRotationService = new CredentialRotationService(secretContextService, credentialProviders)
 
   // Add services to fastify instance
   fastify.decorate('db', db)
   fastify.decorate('encryption', encryption)
+  fastify.decorate('auditLogService', auditLogService)
+  fastify.decorate('auditQueryService', auditQueryService)
+  fastify.decorate('anomalyDetectionService', anomalyDetectionService)
   fastify.decorate('secretContextService', secretContextService)
   fastify.decorate('userContextService', userContextService)
+  fastify.decorate('globalContextService', globalContextService)
+  fastify.decorate('deploymentSessionService', deploymentSessionService)
+  fastify.decorate('keyRotationService', keyRotationService)
+  fastify.decorate('workspaceSecretService', workspaceSecretService)
+  fastify.decorate('secretReferenceService', secretReferenceService)
+  fastify.decorate('secretLeaseService', secretLeaseService)
+  fastify.decorate('expiryMonitorService', expiryMonitorService)
+  fastify.decorate('credentialRotationService', credentialRotationService)
+
+  // An in-memory database starts out empty every time
+  if (process.env.USE_IN_MEMORY_DB === 'true') {
+    await seedGlobalContext(db.store)
+  }
+
+  // Read global context and live deployment sessions back from the store
+  await globalContextService.load()
+  await deploymentSessionService.load()
+
+  // Scan for expiring secrets and due credential rotations in the background,
+  // and watch secret retrievals for anomalies
+  expiryMonitorService.start()
+  credentialRotationService.start()
+  anomalyDetectionService.start()
+
+  // Audit entries written while handling a request record where it came from
+  fastify.addHook('onRequest', (request, reply, done) => {
+    withRequestContext({
+      ip_address: request.ip,
+      user_agent: request.headers['user-agent'] || 'unknown'
+    }, done)
+  })
 
   // Authentication hook
   fastify.addHook('onRequest', async (request, reply) => {
@@ -117,6 +182,7 @@ async function buildServer() {
       context_secret: '/api/v1/context/secret',
       context_user: '/api/v1/context/user',
       context_global: '/api/v1/context/global',
+      audit: '/api/v1/audit',
       mcp_tools: '/api/v1/mcp/tools',
       mcp_call: '/api/v1/mcp/call',
       mcp_health: '/api/v1/mcp/health',
@@ -131,17 +197,22 @@ async function buildServer() {
 
   fastify.get('/health', async () => {
     const healthCheck = await db.healthCheck()
+    const kms = await encryption.keyProviderHealthCheck()
     
     return {
-      status: healthCheck.database && healthCheck.cache ? 'healthy' : 'degraded',
+      status: healthCheck.database && healthCheck.cache && kms ? 'healthy' : 'degraded',
       database: healthCheck.database,
       cache: healthCheck.cache,
+      kms,
       timestamp: new Date().toISOString()
     }
   })
 
   // Context management routes
   await fastify.register(contextRoutes, { prefix: '/api/v1/context' })
+
+  // Audit log queries and exports
+  await fastify.register(auditRoutes, { prefix: '/api/v1/audit' })
   
   // MCP routes for tool primitives
   await fastify.register(mcpRoutes, { prefix: '/api/v1' })
@@ -178,6 +249,10 @@ async function buildServer() {
     fastify.log.info('Starting graceful shutdown...')
     
     try {
+      expiryMonitorService.stop()
+      credentialRotationService.stop()
+      anomalyDetectionService.stop()
+      await anomalyDetectionService.idle()
       await db.close()
       await fastify.close()
       fastify.log.info('Graceful shutdown completed')
@@ -222,7 +297,18 @@ declare module 'fastify' {
   interface FastifyInstance {
     db: DatabaseClient
     encryption: EncryptionService
+    auditLogService: AuditLogService
+    auditQueryService: AuditQueryService
+    anomalyDetectionService: AnomalyDetectionService
     secretContextService: SecretContextService
     userContextService: UserContextService
+    globalContextService: GlobalContextService
+    deploymentSessionService: DeploymentSessionService
+    keyRotationService: KeyRotationService
+    workspaceSecretService: WorkspaceSecretService
+    secretReferenceService: SecretReferenceService
+    secretLeaseService: SecretLeaseService
+    expiryMonitorService: ExpiryMonitorService
+    credentialRotationService: CredentialRotationService
   }
 }
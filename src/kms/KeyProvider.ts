@@ -0,0 +1,48 @@
+/**
+ * Key Provider abstraction
+ *
+ * A KeyProvider holds the master key-encryption key outside the service
+ * (local keystore file, HashiCorp Vault Transit, an HSM via PKCS#11) and
+ * wraps/unwraps workspace data keys with it. The plaintext master key never
+ * has to live in this process.
+ */
+
+export interface WrappedKey {
+  // Name of the provider that produced the wrapped key ('master' = EncryptionService keyring)
+  provider: string
+  key_id: string
+  key_version: string
+  ciphertext: string
+  iv?: string
+  auth_tag?: string
+  created_at: string
+}
+
+export interface KeyProvider {
+  readonly name: string
+
+  /**
+   * Wrap (encrypt) a data-encryption key with the provider's current master key
+   */
+  wrapKey(dataKey: Buffer): Promise<WrappedKey>
+
+  /**
+   * Unwrap (decrypt) a data-encryption key previously wrapped by this provider
+   */
+  unwrapKey(wrappedKey: WrappedKey): Promise<Buffer>
+
+  /**
+   * Re-wrap a key under the provider's current master key version.
+   * Returns null when the key is already wrapped with the current version.
+   */
+  rewrapKey(wrappedKey: WrappedKey): Promise<WrappedKey | null>
+
+  healthCheck(): Promise<boolean>
+}
+
+export class KeyProviderError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'KeyProviderError'
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Local file keystore
+ *
+ * Keeps versioned 256-bit master keys in a JSON file (mode 0600) for
+ * single-node and development setups. The file is created with a fresh key
+ * on first use.
+ */
+
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { KeyProvider, KeyProviderError, WrappedKey } from './KeyProvider'
+
+interface KeystoreFile {
+  current_version: string
+  keys: Record<string, string> // version -> base64 key
+}
+
+export class LocalFileKeyProvider implements KeyProvider {
+  readonly name = 'local-file'
+  private keystore: KeystoreFile | null = null
+
+  constructor(private keystorePath: string, private keyId: string = 'cv-context-manager') {}
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    const keystore = this.load()
+    return this.wrapWithVersion(dataKey, keystore.current_version)
+  }
+
+  async unwrapKey(wrappedKey: WrappedKey): Promise<Buffer> {
+    const key = this.getKey(wrappedKey.key_version)
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(wrappedKey.iv || '', 'hex'))
+      decipher.setAAD(this.aad(wrappedKey.key_version))
+      decipher.setAuthTag(Buffer.from(wrappedKey.auth_tag || '', 'hex'))
+      return Buffer.concat([decipher.update(Buffer.from(wrappedKey.ciphertext, 'base64')), decipher.final()])
+    } catch (error) {
+      throw new KeyProviderError('Failed to unwrap key with local keystore', 'UNWRAP_FAILED')
+    }
+  }
+
+  async rewrapKey(wrappedKey: WrappedKey): Promise<WrappedKey | null> {
+    const keystore = this.load()
+    if (wrappedKey.key_version === keystore.current_version) {
+      return null
+    }
+    return this.wrapWithVersion(await this.unwrapKey(wrappedKey), keystore.current_version)
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      this.load()
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  /**
+   * Add a new master key version to the keystore and make it current
+   */
+  rotate(): string {
+    const keystore = this.load()
+    const nextVersion = String(Math.max(...Object.keys(keystore.keys).map(v => parseInt(v))) + 1)
+
+    keystore.keys[nextVersion] = crypto.randomBytes(32).toString('base64')
+    keystore.current_version = nextVersion
+    this.save(keystore)
+
+    return nextVersion
+  }
+
+  // Private helper methods
+  private wrapWithVersion(dataKey: Buffer, keyVersion: string): WrappedKey {
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getKey(keyVersion), iv)
+    cipher.setAAD(this.aad(keyVersion))
+    const ciphertext = Buffer.concat([cipher.update(dataKey), cipher.final()])
+
+    return {
+      provider: this.name,
+      key_id: this.keyId,
+      key_version: keyVersion,
+      ciphertext: ciphertext.toString('base64'),
+      iv: iv.toString('hex'),
+      auth_tag: cipher.getAuthTag().toString('hex'),
+      created_at: new Date().toISOString()
+    }
+  }
+
+  private getKey(keyVersion: string): Buffer {
+    const encoded = this.load().keys[keyVersion]
+    if (!encoded) {
+      throw new KeyProviderError(`Unknown local keystore key version '${keyVersion}'`, 'UNKNOWN_KEY_VERSION')
+    }
+    return Buffer.from(encoded, 'base64')
+  }
+
+  private aad(keyVersion: string): Buffer {
+    return Buffer.from(`cv-kms:${this.keyId}:${keyVersion}`)
+  }
+
+  private load(): KeystoreFile {
+    if (this.keystore) {
+      return this.keystore
+    }
+
+    if (fs.existsSync(this.keystorePath)) {
+      const keystore = JSON.parse(fs.readFileSync(this.keystorePath, 'utf8')) as KeystoreFile
+      if (!keystore.current_version || !keystore.keys?.[keystore.current_version]) {
+        throw new KeyProviderError(`Invalid keystore file '${this.keystorePath}'`, 'INVALID_KEYSTORE')
+      }
+      this.keystore = keystore
+    } else {
+      this.save({
+        current_version: '1',
+        keys: { '1': crypto.randomBytes(32).toString('base64') }
+      })
+    }
+
+    return this.keystore!
+  }
+
+  private save(keystore: KeystoreFile): void {
+    fs.mkdirSync(path.dirname(this.keystorePath), { recursive: true })
+    fs.writeFileSync(this.keystorePath, JSON.stringify(keystore, null, 2), { mode: 0o600 })
+    this.keystore = keystore
+  }
+}
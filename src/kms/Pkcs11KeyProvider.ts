@@ -0,0 +1,78 @@
+/**
+ * PKCS#11 key provider (stub)
+ *
+ * Wraps data keys with an AES key held in an HSM. No PKCS#11 binding ships
+ * with this service; deployments with an HSM inject a Pkcs11Session that
+ * performs CKM_AES_GCM operations against the configured key label.
+ */
+
+import crypto from 'crypto'
+import { KeyProvider, KeyProviderError, WrappedKey } from './KeyProvider'
+
+export interface Pkcs11Config {
+  modulePath: string
+  slot: number
+  pin: string
+  keyLabel: string
+}
+
+export interface Pkcs11Session {
+  encrypt(keyLabel: string, iv: Buffer, plaintext: Buffer): Promise<{ ciphertext: Buffer; authTag: Buffer; keyVersion: string }>
+  decrypt(keyLabel: string, keyVersion: string, iv: Buffer, ciphertext: Buffer, authTag: Buffer): Promise<Buffer>
+  currentKeyVersion(keyLabel: string): Promise<string>
+}
+
+export class Pkcs11KeyProvider implements KeyProvider {
+  readonly name = 'pkcs11'
+
+  constructor(private config: Pkcs11Config, private session?: Pkcs11Session) {}
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    const session = this.requireSession()
+    const iv = crypto.randomBytes(12)
+    const { ciphertext, authTag, keyVersion } = await session.encrypt(this.config.keyLabel, iv, dataKey)
+
+    return {
+      provider: this.name,
+      key_id: `slot:${this.config.slot}/${this.config.keyLabel}`,
+      key_version: keyVersion,
+      ciphertext: ciphertext.toString('base64'),
+      iv: iv.toString('hex'),
+      auth_tag: authTag.toString('hex'),
+      created_at: new Date().toISOString()
+    }
+  }
+
+  async unwrapKey(wrappedKey: WrappedKey): Promise<Buffer> {
+    const session = this.requireSession()
+    return await session.decrypt(
+      this.config.keyLabel,
+      wrappedKey.key_version,
+      Buffer.from(wrappedKey.iv || '', 'hex'),
+      Buffer.from(wrappedKey.ciphertext, 'base64'),
+      Buffer.from(wrappedKey.auth_tag || '', 'hex')
+    )
+  }
+
+  async rewrapKey(wrappedKey: WrappedKey): Promise<WrappedKey | null> {
+    const session = this.requireSession()
+    if (wrappedKey.key_version === await session.currentKeyVersion(this.config.keyLabel)) {
+      return null
+    }
+    return await this.wrapKey(await this.unwrapKey(wrappedKey))
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.session !== undefined
+  }
+
+  private requireSession(): Pkcs11Session {
+    if (!this.session) {
+      throw new KeyProviderError(
+        `No PKCS#11 session available for module '${this.config.modulePath}' (slot ${this.config.slot})`,
+        'PKCS11_UNAVAILABLE'
+      )
+    }
+    return this.session
+  }
+}
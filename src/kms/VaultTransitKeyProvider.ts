@@ -0,0 +1,96 @@
+/**
+ * HashiCorp Vault Transit key provider
+ *
+ * Data keys are wrapped by Vault's transit secrets engine; the master key
+ * never leaves Vault. Key rotation happens in Vault and old ciphertexts are
+ * upgraded with the transit rewrap endpoint.
+ */
+
+import NodeVault from 'node-vault'
+import { KeyProvider, KeyProviderError, WrappedKey } from './KeyProvider'
+
+export interface VaultTransitConfig {
+  endpoint: string
+  token: string
+  keyName: string
+  mountPath?: string
+  namespace?: string
+}
+
+export class VaultTransitKeyProvider implements KeyProvider {
+  readonly name = 'vault-transit'
+  private vault: NodeVault.client
+  private mountPath: string
+
+  constructor(private config: VaultTransitConfig) {
+    this.mountPath = (config.mountPath || 'transit').replace(/^\/+|\/+$/g, '')
+    this.vault = NodeVault({
+      apiVersion: 'v1',
+      endpoint: config.endpoint,
+      token: config.token,
+      ...(config.namespace && { namespace: config.namespace })
+    })
+  }
+
+  async wrapKey(dataKey: Buffer): Promise<WrappedKey> {
+    const response = await this.call('encrypt', { plaintext: dataKey.toString('base64') })
+    return this.toWrappedKey(response.data.ciphertext)
+  }
+
+  async unwrapKey(wrappedKey: WrappedKey): Promise<Buffer> {
+    const response = await this.call('decrypt', { ciphertext: wrappedKey.ciphertext })
+    return Buffer.from(response.data.plaintext, 'base64')
+  }
+
+  async rewrapKey(wrappedKey: WrappedKey): Promise<WrappedKey | null> {
+    const keyInfo = await this.vault.read(`${this.mountPath}/keys/${this.config.keyName}`).catch(error => {
+      throw new KeyProviderError(
+        `Vault transit key lookup failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VAULT_ERROR'
+      )
+    })
+    if (wrappedKey.key_version === String(keyInfo.data.latest_version)) {
+      return null
+    }
+
+    const response = await this.call('rewrap', { ciphertext: wrappedKey.ciphertext })
+    return this.toWrappedKey(response.data.ciphertext)
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.vault.read(`${this.mountPath}/keys/${this.config.keyName}`)
+      return true
+    } catch (error) {
+      return false
+    }
+  }
+
+  // Private helper methods
+  private async call(operation: 'encrypt' | 'decrypt' | 'rewrap', data: Record<string, string>): Promise<any> {
+    try {
+      return await this.vault.write(`${this.mountPath}/${operation}/${this.config.keyName}`, data)
+    } catch (error) {
+      throw new KeyProviderError(
+        `Vault transit ${operation} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'VAULT_ERROR'
+      )
+    }
+  }
+
+  private toWrappedKey(ciphertext: string): WrappedKey {
+    // Vault ciphertexts look like "vault:v3:<base64>"
+    const version = /^vault:v(\d+):/.exec(ciphertext)?.[1]
+    if (!version) {
+      throw new KeyProviderError('Unexpected Vault transit ciphertext format', 'VAULT_ERROR')
+    }
+
+    return {
+      provider: this.name,
+      key_id: `${this.mountPath}/${this.config.keyName}`,
+      key_version: version,
+      ciphertext,
+      created_at: new Date().toISOString()
+    }
+  }
+}
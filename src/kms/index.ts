@@ -0,0 +1,45 @@
+import { KeyProvider, KeyProviderError } from './KeyProvider'
+import { LocalFileKeyProvider } from './LocalFileKeyProvider'
+import { VaultTransitKeyProvider } from './VaultTransitKeyProvider'
+import { Pkcs11KeyProvider } from './Pkcs11KeyProvider'
+
+export * from './KeyProvider'
+export * from './LocalFileKeyProvider'
+export * from './VaultTransitKeyProvider'
+export * from './Pkcs11KeyProvider'
+
+/**
+ * Build the key provider selected by KMS_PROVIDER. Returns undefined when no
+ * provider is configured, in which case the EncryptionService keyring wraps
+ * data keys itself.
+ */
+export function createKeyProvider(env: NodeJS.ProcessEnv = process.env): KeyProvider | undefined {
+  switch (env.KMS_PROVIDER) {
+    case undefined:
+    case '':
+    case 'master':
+      return undefined
+    case 'local-file':
+      return new LocalFileKeyProvider(env.KMS_LOCAL_KEYSTORE_PATH || './.keystore/master-keys.json')
+    case 'vault-transit':
+      if (!env.VAULT_ENDPOINT || !env.VAULT_TOKEN) {
+        throw new KeyProviderError('VAULT_ENDPOINT and VAULT_TOKEN are required for the vault-transit provider', 'INVALID_CONFIG')
+      }
+      return new VaultTransitKeyProvider({
+        endpoint: env.VAULT_ENDPOINT,
+        token: env.VAULT_TOKEN,
+        keyName: env.VAULT_TRANSIT_KEY || 'cv-context-manager',
+        mountPath: env.VAULT_TRANSIT_MOUNT || 'transit',
+        ...(env.VAULT_NAMESPACE && { namespace: env.VAULT_NAMESPACE })
+      })
+    case 'pkcs11':
+      return new Pkcs11KeyProvider({
+        modulePath: env.PKCS11_MODULE_PATH || '',
+        slot: parseInt(env.PKCS11_SLOT || '0'),
+        pin: env.PKCS11_PIN || '',
+        keyLabel: env.PKCS11_KEY_LABEL || 'cv-context-manager'
+      })
+    default:
+      throw new KeyProviderError(`Unknown KMS_PROVIDER '${env.KMS_PROVIDER}'`, 'INVALID_CONFIG')
+  }
+}
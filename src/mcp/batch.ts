@@ -0,0 +1,257 @@
+/**
+ * MCP Batch Calls
+ *
+ * Several tool calls in one request. By default they run side by side and
+ * each stands on its own. A transactional batch runs them in order within
+ * one store transaction across secret, user and session contexts: the first
+ * call that fails rolls back every call before it and the rest never run.
+ * Tools whose effects a rollback cannot undo, and tools that read secrets,
+ * are refused in transactional batches. On Supabase, transactional batches
+ * need its direct Postgres connection (DATABASE_URL) and fail with
+ * UNSUPPORTED without one.
+ *
+ * On SQLite every other store call waits while a transactional batch runs,
+ * so its calls never wait on the network: credentials stored in one are not
+ * checked with their provider for liveness, and asking for that is refused.
+ *
+ * Arguments of a transactional batch may use the data of earlier results,
+ * e.g. { "$ref": "session.session_id" } for the session_id returned by the
+ * call with id "session" (or "0.session_id" for the first call).
+ */
+
+import { z } from 'zod'
+import { DatabaseClient } from '../database/client'
+import { MCPToolResult } from './tools'
+
+export const MAX_BATCH_CALLS = 10
+
+// Their effects live outside the context store and would outlast a rollback
+export const NON_TRANSACTIONAL_TOOLS = [
+  'rotate_credential',
+  'revoke_secret_lease',
+  'submit_community_pattern',
+  'submit_workflow_pattern'
+]
+
+// They return secret values, and a rollback would erase the audit entry
+// (and the anomaly detector's record) of that access
+export const SECRET_READING_TOOLS = [
+  'retrieve_credential',
+  'retrieve_ssh_key',
+  'retrieve_certificate',
+  'get_secret_version',
+  'resolve_references'
+]
+
+export const MCPBatchSchema = z.object({
+  calls: z.array(z.object({
+    id: z.string().regex(/^[A-Za-z_][\w-]*$/).optional().describe("Name later calls reference this call's result by"),
+    name: z.string().describe("Name of the MCP tool to call"),
+    arguments: z.record(z.any()).describe("Tool arguments as key-value pairs")
+  })).min(1).max(MAX_BATCH_CALLS).describe("Array of MCP tool calls to execute"),
+  transactional: z.boolean().default(false).describe("Run the calls in order, committing all of them or none; tools that read secrets or act outside the context store are refused. On Supabase this needs DATABASE_URL")
+})
+
+export type MCPBatch = z.infer<typeof MCPBatchSchema>
+
+export interface MCPBatchCallResult {
+  id?: string
+  tool_name: string
+  // Whether the call's changes stand
+  success: boolean
+  // Transactional batches only
+  status?: 'committed' | 'rolled_back' | 'failed' | 'not_run'
+  result?: MCPToolResult
+  error?: string
+}
+
+export interface MCPBatchOutcome {
+  results: MCPBatchCallResult[]
+  // Transactional batches only
+  committed?: boolean
+  aborted_at?: {
+    index: number
+    id?: string
+    tool_name: string
+    error: string
+    error_code?: string
+  }
+}
+
+export class MCPBatchError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'MCPBatchError'
+  }
+}
+
+// Thrown within the transaction to roll it back
+class BatchAbort extends Error {}
+
+type CallTool = (name: string, input: unknown) => Promise<MCPToolResult>
+
+/**
+ * Run a batch, transactional or not
+ */
+export async function runMCPBatch(batch: MCPBatch, callTool: CallTool, db: DatabaseClient): Promise<MCPBatchOutcome> {
+  validateBatch(batch)
+  return batch.transactional
+    ? await runTransactional(batch, callTool, db)
+    : await runParallel(batch, callTool)
+}
+
+// Private helpers
+function validateBatch(batch: MCPBatch): void {
+  const ids = new Set<string>()
+  for (const [index, call] of batch.calls.entries()) {
+    if (call.id !== undefined) {
+      if (ids.has(call.id)) {
+        throw new MCPBatchError(`Call ${index} reuses the id '${call.id}'`, 'DUPLICATE_ID')
+      }
+      ids.add(call.id)
+    }
+
+    if (!batch.transactional) {
+      if (findReferences(call.arguments).length > 0) {
+        throw new MCPBatchError(`Call ${index} references another call; references need a transactional batch`, 'REFERENCE_NOT_ALLOWED')
+      }
+      continue
+    }
+
+    if (NON_TRANSACTIONAL_TOOLS.includes(call.name)) {
+      throw new MCPBatchError(`${call.name} cannot be rolled back and is not allowed in a transactional batch`, 'NOT_TRANSACTIONAL')
+    }
+    if (SECRET_READING_TOOLS.includes(call.name)) {
+      throw new MCPBatchError(`${call.name} reads secrets, whose access audit must outlast a rollback, and is not allowed in a transactional batch`, 'NOT_TRANSACTIONAL')
+    }
+    if (call.arguments.check_liveness === true) {
+      throw new MCPBatchError(`Call ${index} asks for a provider liveness check, which a transactional batch does not wait for`, 'NOT_TRANSACTIONAL')
+    }
+  }
+}
+
+async function runParallel(batch: MCPBatch, callTool: CallTool): Promise<MCPBatchOutcome> {
+  const results = await Promise.all(
+    batch.calls.map(async (call): Promise<MCPBatchCallResult> => {
+      try {
+        const result = await callTool(call.name, call.arguments)
+        return {
+          ...(call.id !== undefined && { id: call.id }),
+          tool_name: call.name,
+          success: !result.isError,
+          result: result
+        }
+      } catch (error) {
+        return {
+          ...(call.id !== undefined && { id: call.id }),
+          tool_name: call.name,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      }
+    })
+  )
+
+  return { results }
+}
+
+async function runTransactional(batch: MCPBatch, callTool: CallTool, db: DatabaseClient): Promise<MCPBatchOutcome> {
+  const results: MCPBatchCallResult[] = batch.calls.map(call => ({
+    ...(call.id !== undefined && { id: call.id }),
+    tool_name: call.name,
+    success: false,
+    status: 'not_run'
+  }))
+  let aborted: MCPBatchOutcome['aborted_at']
+
+  try {
+    await db.transaction(async () => {
+      for (const [index, call] of batch.calls.entries()) {
+        const entry = results[index]!
+        let result: MCPToolResult
+        try {
+          result = await callTool(call.name, resolveReferences(call.arguments, batch, results, index))
+        } catch (error) {
+          entry.status = 'failed'
+          entry.error = error instanceof Error ? error.message : 'Unknown error'
+          aborted = {
+            index,
+            ...(call.id !== undefined && { id: call.id }),
+            tool_name: call.name,
+            error: entry.error,
+            ...(error instanceof MCPBatchError && { error_code: error.code })
+          }
+          throw new BatchAbort()
+        }
+
+        entry.result = result
+        if (result.isError) {
+          entry.status = 'failed'
+          aborted = {
+            index,
+            ...(call.id !== undefined && { id: call.id }),
+            tool_name: call.name,
+            error: result.content.map(item => item.text).join('\n'),
+            ...(result.errorCode && { error_code: result.errorCode })
+          }
+          throw new BatchAbort()
+        }
+        entry.status = 'committed'
+      }
+    })
+  } catch (error) {
+    if (!(error instanceof BatchAbort)) throw error
+
+    // What rolled back calls returned no longer holds
+    for (const entry of results) {
+      if (entry.status === 'committed') {
+        entry.status = 'rolled_back'
+        delete entry.result
+      }
+    }
+    return { results, committed: false, aborted_at: aborted }
+  }
+
+  for (const entry of results) {
+    entry.success = true
+  }
+  return { results, committed: true }
+}
+
+function isReference(value: unknown): value is { $ref: string } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.keys(value).length === 1 && typeof (value as { $ref?: unknown }).$ref === 'string'
+}
+
+function findReferences(value: unknown): string[] {
+  if (isReference(value)) return [value.$ref]
+  if (Array.isArray(value)) return value.flatMap(findReferences)
+  if (typeof value === 'object' && value !== null) return Object.values(value).flatMap(findReferences)
+  return []
+}
+
+// Replace every { $ref } with the value it points at in an earlier result's data
+function resolveReferences(value: unknown, batch: MCPBatch, results: MCPBatchCallResult[], index: number): unknown {
+  if (isReference(value)) {
+    const [target = '', ...path] = value.$ref.split('.')
+    const source = /^\d+$/.test(target) ? Number(target) : batch.calls.findIndex(call => call.id === target)
+    if (source < 0 || source >= index) {
+      throw new MCPBatchError(`Reference '${value.$ref}' does not name an earlier call`, 'UNRESOLVED_REFERENCE')
+    }
+
+    let resolved: unknown = results[source]!.result?.data
+    for (const key of path) {
+      resolved = typeof resolved === 'object' && resolved !== null ? (resolved as Record<string, unknown>)[key] : undefined
+    }
+    if (resolved === undefined) {
+      throw new MCPBatchError(`Reference '${value.$ref}' has no value in the result of ${batch.calls[source]!.name}`, 'UNRESOLVED_REFERENCE')
+    }
+    return resolved
+  }
+
+  if (Array.isArray(value)) return value.map(item => resolveReferences(item, batch, results, index))
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, resolveReferences(item, batch, results, index)]))
+  }
+  return value
+}
@@ -10,8 +10,8 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
 import { ContextManagerMCPServer } from './server'
-import { GlobalContextService } from '../services/GlobalContextService'
-import { DeploymentSessionService } from '../services/DeploymentSessionService'
+import { MCPBatchError, MCPBatchSchema, runMCPBatch } from './batch'
+import { DatabaseError } from '../database/client'
 
 // Request schemas
 const MCPToolCallSchema = z.object({
@@ -22,14 +22,19 @@ const MCPToolCallSchema = z.object({
 // MCP Routes
 export async function mcpRoutes(fastify: FastifyInstance) {
   
-  // Initialize services and MCP server
-  const globalContextService = new GlobalContextService()
-  const deploymentSessionService = new DeploymentSessionService()
+  // Initialize MCP server
   const contextMCPServer = new ContextManagerMCPServer(
     fastify.secretContextService,
     fastify.userContextService,
-    globalContextService,
-    deploymentSessionService
+    fastify.globalContextService,
+    fastify.deploymentSessionService,
+    fastify.secretLeaseService,
+    fastify.expiryMonitorService,
+    fastify.workspaceSecretService,
+    fastify.secretReferenceService,
+    fastify.credentialRotationService,
+    fastify.auditQueryService,
+    token => fastify.jwt.verify(token)
   )
 
   // List available MCP tools
@@ -66,7 +71,8 @@ export async function mcpRoutes(fastify: FastifyInstance) {
       const result = await contextMCPServer.callTool(body.name, body.arguments)
       
       if (result.isError) {
-        reply.code(400).send({
+        // A write that kept losing to concurrent ones may simply be retried
+        reply.code(result.errorCode === 'CONFLICT' ? 409 : 400).send({
           success: false,
           error: 'Tool execution failed',
           result: result,
@@ -89,38 +95,28 @@ export async function mcpRoutes(fastify: FastifyInstance) {
     }
   })
 
-  // Batch call multiple MCP tools
+  // Batch call multiple MCP tools, optionally as one transaction (501 on
+  // Supabase without DATABASE_URL)
   fastify.post('/mcp/batch', async (request: FastifyRequest, reply: FastifyReply) => {
     try {
-      const body = z.object({
-        calls: z.array(MCPToolCallSchema).min(1).max(10).describe("Array of MCP tool calls to execute")
-      }).parse(request.body)
-      
-      const results = await Promise.all(
-        body.calls.map(async (call) => {
-          try {
-            const result = await contextMCPServer.callTool(call.name, call.arguments)
-            return {
-              tool_name: call.name,
-              success: !result.isError,
-              result: result
-            }
-          } catch (error) {
-            return {
-              tool_name: call.name,
-              success: false,
-              error: error instanceof Error ? error.message : 'Unknown error'
-            }
-          }
-        })
-      )
+      const batch = MCPBatchSchema.parse(request.body)
+
+      const outcome = await runMCPBatch(batch, (name, input) => contextMCPServer.callTool(name, input), fastify.db)
+      const results = outcome.results
 
       const successCount = results.filter(r => r.success).length
       const hasErrors = results.some(r => !r.success)
 
-      reply.code(hasErrors ? 207 : 200).send({
+      let status = hasErrors ? 207 : 200
+      if (outcome.aborted_at) {
+        // The whole batch may simply be retried after losing to a concurrent write
+        status = outcome.aborted_at.error_code === 'CONFLICT' ? 409 : 400
+      }
+
+      reply.code(status).send({
         success: successCount === results.length,
         results: results,
+        ...(batch.transactional && { committed: outcome.committed, aborted_at: outcome.aborted_at ?? null }),
         summary: {
           total_calls: results.length,
           successful: successCount,
@@ -129,10 +125,20 @@ export async function mcpRoutes(fastify: FastifyInstance) {
         execution_time: new Date().toISOString()
       })
     } catch (error) {
+      if (error instanceof DatabaseError) {
+        reply.code(error.code === 'UNSUPPORTED' ? 501 : 500).send({
+          success: false,
+          error: 'MCP batch transaction failed',
+          message: error.message
+        })
+        return
+      }
+
       reply.code(400).send({
         success: false,
         error: 'Invalid MCP batch call',
-        message: error instanceof Error ? error.message : 'Unknown validation error'
+        message: error instanceof Error ? error.message : 'Unknown validation error',
+        ...(error instanceof MCPBatchError && { code: error.code })
       })
     }
   })
@@ -11,16 +11,38 @@ import { SecretContextService } from '../services/SecretContextService'
 import { UserContextService } from '../services/UserContextService'
 import { GlobalContextService } from '../services/GlobalContextService'
 import { DeploymentSessionService } from '../services/DeploymentSessionService'
+import { SecretLeaseService } from '../services/SecretLeaseService'
+import { ExpiryMonitorService } from '../services/ExpiryMonitorService'
+import { WorkspaceSecretService } from '../services/WorkspaceSecretService'
+import { SecretReferenceService } from '../services/SecretReferenceService'
+import { CredentialRotationService, CredentialRotationRun } from '../services/CredentialRotationService'
+import { AuditQueryService } from '../services/AuditQueryService'
+import { CredentialValidation } from '../providers'
 import { 
   CONTEXT_MANAGER_MCP_TOOLS, 
   validateMCPToolInput, 
   createMCPResult,
+  createMCPErrorResult,
   MCPToolResult,
   StoreCredentialSchema,
   RetrieveCredentialSchema,
+  RevokeSecretLeaseSchema,
+  StoreWorkspaceCredentialSchema,
+  ListWorkspaceSecretsSchema,
   StoreSSHKeySchema,
+  GenerateSSHKeySchema,
   RetrieveSSHKeySchema,
+  StoreCertificateSchema,
+  RetrieveCertificateSchema,
   ListSecretsSchema,
+  ListExpiringSecretsSchema,
+  ListSecretVersionsSchema,
+  GetSecretVersionSchema,
+  RollbackSecretSchema,
+  ResolveReferencesSchema,
+  RotateCredentialSchema,
+  GetCredentialRotationSchema,
+  QueryAuditLogSchema,
   GetUserContextSchema,
   UpdateUserPreferencesSchema,
   AddDeploymentPatternSchema,
@@ -39,22 +61,83 @@ import {
   GetConversationSessionSchema
 } from './tools'
 
+// Claims of a verified jwt_token
+export interface MCPCaller {
+  user_id: string
+  workspace_id: string
+  role?: string
+}
+
+// One-line summary of a credential's provider validation
+function describeCredentialValidation(validation: CredentialValidation | null): string {
+  if (!validation) return 'none (no provider plugin)'
+
+  const details = [
+    validation.account && `account ${validation.account}`,
+    validation.scopes && `scopes ${validation.scopes.join(', ')}`,
+    validation.note
+  ].filter(Boolean)
+
+  return `format valid, liveness ${validation.liveness.replace('_', ' ')}${details.length > 0 ? ` (${details.join('; ')})` : ''}`
+}
+
+// Step-by-step summary of a credential rotation run
+function describeRotationRun(run: CredentialRotationRun): string {
+  const steps = run.steps.map(step => `  ${step.step}: ${step.status}${step.detail ? ` (${step.detail})` : ''}`)
+
+  return `Run: ${run.run_id} (${run.dry_run ? 'dry run, ' : ''}${run.status})\n` +
+    `Started: ${run.started_at}\n` +
+    (run.version ? `New Version: ${run.version}\n` : '') +
+    (run.error_message ? `Error: ${run.error_message}\n` : '') +
+    `Steps:\n${steps.join('\n') || '  none'}`
+}
+
 export class ContextManagerMCPServer {
   private secretContextService: SecretContextService
   private userContextService: UserContextService
   private globalContextService: GlobalContextService
   private deploymentSessionService: DeploymentSessionService
+  private secretLeaseService: SecretLeaseService
+  private expiryMonitorService: ExpiryMonitorService
+  // Workspace-shared secrets; without it only the user's own store is used
+  private workspaceSecretService?: WorkspaceSecretService
+  // secret:// reference checks; needs the workspace secret service
+  private secretReferenceService?: SecretReferenceService
+  // Provider-driven credential rotation
+  private credentialRotationService?: CredentialRotationService
+  // Audit log reads for workspace admins
+  private auditQueryService?: AuditQueryService
+  // Who a jwt_token belongs to, for tools that act on the caller's role;
+  // throws for tokens that do not verify
+  private verifyToken?: (token: string) => MCPCaller
+  // Only hand out lease handles, never plaintext credentials
+  private requireSecretLeases: boolean
 
   constructor(
     secretContextService: SecretContextService,
     userContextService: UserContextService,
     globalContextService: GlobalContextService,
-    deploymentSessionService?: DeploymentSessionService
+    deploymentSessionService?: DeploymentSessionService,
+    secretLeaseService?: SecretLeaseService,
+    expiryMonitorService?: ExpiryMonitorService,
+    workspaceSecretService?: WorkspaceSecretService,
+    secretReferenceService?: SecretReferenceService,
+    credentialRotationService?: CredentialRotationService,
+    auditQueryService?: AuditQueryService,
+    verifyToken?: (token: string) => MCPCaller
   ) {
     this.secretContextService = secretContextService
     this.userContextService = userContextService
     this.globalContextService = globalContextService
     this.deploymentSessionService = deploymentSessionService || new DeploymentSessionService()
+    this.secretLeaseService = secretLeaseService || new SecretLeaseService(secretContextService)
+    this.expiryMonitorService = expiryMonitorService || new ExpiryMonitorService(secretContextService, userContextService)
+    this.workspaceSecretService = workspaceSecretService
+    this.secretReferenceService = secretReferenceService
+    this.credentialRotationService = credentialRotationService
+    this.auditQueryService = auditQueryService
+    this.verifyToken = verifyToken
+    this.requireSecretLeases = process.env.REQUIRE_SECRET_LEASES === 'true'
   }
 
   /**
@@ -81,12 +164,40 @@ export class ContextManagerMCPServer {
           return await this.storeCredential(input)
         case 'retrieve_credential':
           return await this.retrieveCredential(input)
+        case 'revoke_secret_lease':
+          return await this.revokeSecretLease(input)
+        case 'store_workspace_credential':
+          return await this.storeWorkspaceCredential(input)
+        case 'list_workspace_secrets':
+          return await this.listWorkspaceSecrets(input)
         case 'store_ssh_key':
           return await this.storeSSHKey(input)
+        case 'generate_ssh_key':
+          return await this.generateSSHKey(input)
         case 'retrieve_ssh_key':
           return await this.retrieveSSHKey(input)
+        case 'store_certificate':
+          return await this.storeCertificate(input)
+        case 'retrieve_certificate':
+          return await this.retrieveCertificate(input)
         case 'list_user_secrets':
           return await this.listUserSecrets(input)
+        case 'list_expiring_secrets':
+          return await this.listExpiringSecrets(input)
+        case 'list_secret_versions':
+          return await this.listSecretVersions(input)
+        case 'get_secret_version':
+          return await this.getSecretVersion(input)
+        case 'rollback_secret':
+          return await this.rollbackSecret(input)
+        case 'resolve_references':
+          return await this.resolveReferences(input)
+        case 'rotate_credential':
+          return await this.rotateCredential(input)
+        case 'get_credential_rotation':
+          return await this.getCredentialRotation(input)
+        case 'query_audit_log':
+          return await this.queryAuditLog(input)
         
         // User Context Tools (Tier 2) 👤
         case 'get_user_context':
@@ -131,8 +242,7 @@ export class ContextManagerMCPServer {
       }
     } catch (error) {
       console.error(`MCP tool error (${toolName}):`, error)
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
-      return createMCPResult(`Tool execution failed: ${errorMessage}`, true)
+      return createMCPErrorResult('Tool execution failed', error)
     }
   }
 
@@ -146,14 +256,15 @@ export class ContextManagerMCPServer {
 
     try {
       // Use EXISTING secure credential storage - NO CHANGES to security
-      await this.secretContextService.storeCredential(
+      const validation = await this.secretContextService.storeCredential(
         params.workspace_id,
         params.user_id,
         params.key,
         params.value,
         params.credential_type,
         params.provider,
-        params.expires_at ? new Date(params.expires_at) : undefined
+        params.expires_at ? new Date(params.expires_at) : undefined,
+        { ...(params.check_liveness !== undefined && { checkLiveness: params.check_liveness }) }
       )
 
       return createMCPResult(
@@ -162,10 +273,13 @@ export class ContextManagerMCPServer {
         `Provider: ${params.provider}\n` +
         `Type: ${params.credential_type}\n` +
         `Workspace: ${params.workspace_id}\n` +
-        `Expires: ${params.expires_at || 'Never'}`
+        `Expires: ${params.expires_at || 'Never'}\n` +
+        `Validation: ${describeCredentialValidation(validation)}`,
+        false,
+        { key: params.key, provider: params.provider }
       )
     } catch (error) {
-      return createMCPResult(`Failed to store credential: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to store credential', error)
     }
   }
 
@@ -173,13 +287,20 @@ export class ContextManagerMCPServer {
     const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'retrieve_credential')!
     const params = validateMCPToolInput<typeof RetrieveCredentialSchema._type>(tool, input)
 
+    if (params.mode === 'lease') {
+      return await this.leaseCredential(params)
+    }
+
+    if (this.requireSecretLeases) {
+      return createMCPResult(`Plaintext retrieval is disabled; request a lease with mode 'lease'`, true)
+    }
+
     try {
-      // Use EXISTING secure credential retrieval - SAME SECURITY
-      const credential = await this.secretContextService.getCredential(
-        params.workspace_id,
-        params.user_id,
-        params.key
-      )
+      // The user's own credential or the workspace-shared one, per the resolution order
+      const credential = this.workspaceSecretService
+        ? await this.workspaceSecretService.resolveCredential(params.workspace_id, params.user_id, params.key)
+        : await this.secretContextService.getCredential(params.workspace_id, params.user_id, params.key)
+          .then(value => value === null ? null : { value, scope: 'user' as const })
 
       if (!credential) {
         return createMCPResult(`Credential '${params.key}' not found`, true)
@@ -188,11 +309,128 @@ export class ContextManagerMCPServer {
       return createMCPResult(
         `Credential retrieved successfully.\n` +
         `Key: ${params.key}\n` +
-        `Value: ${credential}\n` +
+        `Value: ${credential.value}\n` +
+        `Scope: ${credential.scope}\n` +
         `Workspace: ${params.workspace_id}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to retrieve credential: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to retrieve credential', error)
+    }
+  }
+
+  private async leaseCredential(params: typeof RetrieveCredentialSchema._type): Promise<MCPToolResult> {
+    if (!params.session_id || !params.purpose) {
+      return createMCPResult(`Lease mode requires both 'session_id' and 'purpose'`, true)
+    }
+
+    try {
+      const { lease_handle, lease } = await this.secretLeaseService.createLease(
+        params.workspace_id,
+        params.user_id,
+        params.key,
+        {
+          session_id: params.session_id,
+          purpose: params.purpose,
+          ttl_seconds: params.ttl_seconds,
+          max_uses: params.max_uses
+        }
+      )
+
+      return createMCPResult(
+        `Credential lease issued. Pass the handle to a trusted executor; it cannot be used to read the value here.\n` +
+        `Key: ${params.key}\n` +
+        `Lease Handle: ${lease_handle}\n` +
+        `Lease ID: ${lease.lease_id}\n` +
+        `Session: ${lease.session_id}\n` +
+        `Purpose: ${lease.purpose}\n` +
+        `Max Uses: ${lease.max_uses}\n` +
+        `Expires: ${lease.expires_at}`
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to lease credential', error)
+    }
+  }
+
+  private async revokeSecretLease(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'revoke_secret_lease')!
+    const params = validateMCPToolInput<typeof RevokeSecretLeaseSchema._type>(tool, input)
+
+    try {
+      const revoked = await this.secretLeaseService.revokeLease(
+        params.workspace_id,
+        params.user_id,
+        params.lease_id
+      )
+
+      if (!revoked) {
+        return createMCPResult(`Lease '${params.lease_id}' not found`, true)
+      }
+
+      return createMCPResult(`Lease '${params.lease_id}' revoked`)
+    } catch (error) {
+      return createMCPErrorResult('Failed to revoke lease', error)
+    }
+  }
+
+  private async storeWorkspaceCredential(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'store_workspace_credential')!
+    const params = validateMCPToolInput<typeof StoreWorkspaceCredentialSchema._type>(tool, input)
+
+    if (!this.workspaceSecretService) {
+      return createMCPResult('Workspace-shared secrets are not available', true)
+    }
+
+    try {
+      const validation = await this.workspaceSecretService.storeCredential(
+        params.workspace_id,
+        params.user_id,
+        params.key,
+        params.value,
+        params.credential_type,
+        params.provider,
+        params.expires_at ? new Date(params.expires_at) : undefined,
+        { ...(params.check_liveness !== undefined && { checkLiveness: params.check_liveness }) }
+      )
+
+      return createMCPResult(
+        `Workspace credential stored successfully.\n` +
+        `Key: ${params.key}\n` +
+        `Provider: ${params.provider}\n` +
+        `Type: ${params.credential_type}\n` +
+        `Workspace: ${params.workspace_id}\n` +
+        `Expires: ${params.expires_at || 'Never'}\n` +
+        `Validation: ${describeCredentialValidation(validation)}`
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to store workspace credential', error)
+    }
+  }
+
+  private async listWorkspaceSecrets(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'list_workspace_secrets')!
+    const params = validateMCPToolInput<typeof ListWorkspaceSecretsSchema._type>(tool, input)
+
+    if (!this.workspaceSecretService) {
+      return createMCPResult('Workspace-shared secrets are not available', true)
+    }
+
+    try {
+      const secrets = await this.workspaceSecretService.listSecrets(params.workspace_id, params.user_id)
+
+      const allSecrets = [
+        ...secrets.credentials.map(cred => `credential: ${cred.key} (Provider: ${cred.provider})`),
+        ...secrets.ssh_keys.map(key => `ssh_key: ${key.key} (Type: ${key.type})`),
+        ...secrets.certificates.map(cert => `certificate: ${cert.key} (Type: ${cert.type})`)
+      ]
+
+      return createMCPResult(
+        `Workspace secrets (metadata only):\n` +
+        `Workspace: ${params.workspace_id}\n` +
+        `Total Secrets: ${allSecrets.length}\n\n` +
+        `${allSecrets.join('\n') || 'No secrets found'}`
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to list workspace secrets', error)
     }
   }
 
@@ -202,7 +440,7 @@ export class ContextManagerMCPServer {
 
     try {
       // Use EXISTING SSH key storage - SAME ENCRYPTION
-      await this.secretContextService.storeSSHKey(
+      const keyPair = await this.secretContextService.storeSSHKey(
         params.workspace_id,
         params.user_id,
         params.key_name,
@@ -215,12 +453,46 @@ export class ContextManagerMCPServer {
       return createMCPResult(
         `SSH key stored successfully.\n` +
         `Key Name: ${params.key_name}\n` +
-        `Key Type: ${params.key_type}\n` +
+        `Key Type: ${keyPair.key_type} (${keyPair.bits} bits)\n` +
+        `Fingerprint: ${keyPair.fingerprint}\n` +
         `Workspace: ${params.workspace_id}\n` +
         `Description: ${params.metadata?.description || 'None'}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to store SSH key: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to store SSH key', error)
+    }
+  }
+
+  private async generateSSHKey(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'generate_ssh_key')!
+    const params = validateMCPToolInput<typeof GenerateSSHKeySchema._type>(tool, input)
+
+    try {
+      const keyPair = await this.secretContextService.generateSSHKey(
+        params.workspace_id,
+        params.user_id,
+        params.key_name,
+        params.key_type,
+        {
+          ...(params.bits !== undefined && { bits: params.bits }),
+          ...(params.comment !== undefined && { comment: params.comment }),
+          ...(params.metadata && { metadata: params.metadata }),
+          overwrite: params.overwrite
+        }
+      )
+
+      return createMCPResult(
+        `SSH key generated and stored successfully.\n` +
+        `Key Name: ${params.key_name}\n` +
+        `Key Type: ${keyPair.key_type} (${keyPair.bits} bits)\n` +
+        `Fingerprint: ${keyPair.fingerprint}\n` +
+        `Public Key: ${keyPair.public_key}\n` +
+        `Private Key: Kept in the context manager (retrieve with retrieve_ssh_key when deploying)`,
+        false,
+        { key_name: params.key_name, public_key: keyPair.public_key, fingerprint: keyPair.fingerprint }
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to generate SSH key', error)
     }
   }
 
@@ -248,7 +520,68 @@ export class ContextManagerMCPServer {
         `Fingerprint: ${sshKey.fingerprint}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to retrieve SSH key: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to retrieve SSH key', error)
+    }
+  }
+
+  private async storeCertificate(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'store_certificate')!
+    const params = validateMCPToolInput<typeof StoreCertificateSchema._type>(tool, input)
+
+    try {
+      const certificate = await this.secretContextService.storeCertificate(
+        params.workspace_id,
+        params.user_id,
+        params.name,
+        params.certificate,
+        params.private_key,
+        params.chain,
+        params.certificate_type,
+        params.metadata
+      )
+
+      return createMCPResult(
+        `Certificate stored successfully.\n` +
+        `Name: ${params.name}\n` +
+        `Type: ${certificate.certificate_type}\n` +
+        `Common Name: ${certificate.common_name}\n` +
+        `SANs: ${certificate.subject_alt_names?.join(', ') || 'None'}\n` +
+        `Issuer: ${certificate.issuer}\n` +
+        `Expires: ${certificate.expires_at}\n` +
+        `Private Key: ${certificate.has_private_key ? 'Stored (verified against certificate)' : 'None'}`
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to store certificate', error)
+    }
+  }
+
+  private async retrieveCertificate(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'retrieve_certificate')!
+    const params = validateMCPToolInput<typeof RetrieveCertificateSchema._type>(tool, input)
+
+    try {
+      const certificate = await this.secretContextService.getCertificate(
+        params.workspace_id,
+        params.user_id,
+        params.name
+      )
+
+      if (!certificate) {
+        return createMCPResult(`Certificate '${params.name}' not found`, true)
+      }
+
+      return createMCPResult(
+        `Certificate retrieved successfully.\n` +
+        `Name: ${params.name}\n` +
+        `Common Name: ${certificate.commonName}\n` +
+        `SANs: ${certificate.subjectAltNames.join(', ') || 'None'}\n` +
+        `Expires: ${certificate.expiresAt}\n` +
+        `Certificate:\n${certificate.certificate}` +
+        `Chain: ${certificate.chain.length} certificate(s)\n` +
+        `Private Key: ${certificate.privateKey ? '[REDACTED - Available in response object]' : 'None'}`
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to retrieve certificate', error)
     }
   }
 
@@ -262,7 +595,8 @@ export class ContextManagerMCPServer {
 
       // Handle the secrets structure properly
       const allSecrets = [
-        ...secrets.credentials.map(cred => `credential: ${cred.key} (Provider: ${cred.provider})`),
+        ...secrets.credentials.map(cred =>
+          `credential: ${cred.key} (Provider: ${cred.provider}, Validation: ${describeCredentialValidation(cred.validation || null)})`),
         ...secrets.ssh_keys.map(key => `ssh_key: ${key.key} (Type: ${key.type})`),
         ...secrets.certificates.map(cert => `certificate: ${cert.key} (Type: ${cert.type})`)
       ]
@@ -274,7 +608,222 @@ export class ContextManagerMCPServer {
         `${allSecrets.join('\n') || 'No secrets found'}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to list secrets: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to list secrets', error)
+    }
+  }
+
+  private async listExpiringSecrets(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'list_expiring_secrets')!
+    const params = validateMCPToolInput<typeof ListExpiringSecretsSchema._type>(tool, input)
+
+    try {
+      const expiring = await this.expiryMonitorService.listExpiringSecrets(
+        params.workspace_id,
+        params.user_id,
+        params.within_days
+      )
+
+      const lines = expiring.map(secret =>
+        `${secret.secret_type}: ${secret.key} (${secret.expired ? 'Expired' : 'Expires'}: ${secret.expires_at})`
+      )
+
+      return createMCPResult(
+        `Expiring secrets:\n` +
+        `Workspace: ${params.workspace_id}\n` +
+        `Total: ${expiring.length}\n\n` +
+        `${lines.join('\n') || 'No secrets expiring soon'}`
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to list expiring secrets', error)
+    }
+  }
+
+  private async listSecretVersions(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'list_secret_versions')!
+    const params = validateMCPToolInput<typeof ListSecretVersionsSchema._type>(tool, input)
+
+    try {
+      const versions = await this.secretContextService.listSecretVersions(
+        params.workspace_id,
+        params.user_id,
+        params.secret_type,
+        params.key
+      )
+
+      const lines = versions.map(version =>
+        `v${version.version}: ${version.change_type}` +
+        `${version.restored_version !== undefined ? ` (from v${version.restored_version})` : ''}` +
+        ` by ${version.changed_by} at ${version.created_at}${version.current ? ' [current]' : ''}`
+      )
+
+      return createMCPResult(
+        `Versions of ${params.secret_type} '${params.key}':\n` +
+        `Workspace: ${params.workspace_id}\n\n` +
+        `${lines.join('\n') || 'No versions found'}`
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to list secret versions', error)
+    }
+  }
+
+  private async getSecretVersion(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'get_secret_version')!
+    const params = validateMCPToolInput<typeof GetSecretVersionSchema._type>(tool, input)
+
+    if (this.requireSecretLeases) {
+      return createMCPResult(`Plaintext retrieval is disabled; roll back the version and request a lease instead`, true)
+    }
+
+    try {
+      const { version, value } = await this.secretContextService.getSecretVersion(
+        params.workspace_id,
+        params.user_id,
+        params.secret_type,
+        params.key,
+        params.version
+      )
+
+      return createMCPResult(
+        `Secret version retrieved successfully.\n` +
+        `Key: ${params.key}\n` +
+        `Version: ${version.version} (${version.change_type}${version.current ? ', current' : ''})\n` +
+        `Changed: ${version.created_at} by ${version.changed_by}\n` +
+        `Value: ${value}`
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to retrieve secret version', error)
+    }
+  }
+
+  private async rollbackSecret(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'rollback_secret')!
+    const params = validateMCPToolInput<typeof RollbackSecretSchema._type>(tool, input)
+
+    try {
+      const rollback = await this.secretContextService.rollbackSecret(
+        params.workspace_id,
+        params.user_id,
+        params.secret_type,
+        params.key,
+        params.version
+      )
+
+      return createMCPResult(
+        `Secret rolled back successfully.\n` +
+        `Key: ${params.key}\n` +
+        `Restored Version: ${params.version}\n` +
+        `New Version: ${rollback.version}`,
+        false,
+        { key: params.key, version: rollback.version }
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to roll back secret', error)
+    }
+  }
+
+  private async rotateCredential(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'rotate_credential')!
+    const params = validateMCPToolInput<typeof RotateCredentialSchema._type>(tool, input)
+
+    if (!this.credentialRotationService) {
+      return createMCPResult('Credential rotation is not available', true)
+    }
+
+    try {
+      const run = await this.credentialRotationService.rotate(params.workspace_id, params.user_id, params.key, {
+        dryRun: params.dry_run
+      })
+
+      return createMCPResult(
+        `${run.status === 'failed' ? 'Credential rotation failed' : run.dry_run ? 'Credential rotation planned' : 'Credential rotated successfully'}.\n` +
+        `Key: ${params.key}\n` +
+        `Provider: ${run.provider}\n` +
+        describeRotationRun(run),
+        run.status === 'failed'
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to rotate credential', error)
+    }
+  }
+
+  private async getCredentialRotation(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'get_credential_rotation')!
+    const params = validateMCPToolInput<typeof GetCredentialRotationSchema._type>(tool, input)
+
+    if (!this.credentialRotationService) {
+      return createMCPResult('Credential rotation is not available', true)
+    }
+
+    try {
+      const status = await this.credentialRotationService.getStatus(params.workspace_id, params.user_id, params.key)
+      const policy = status.policy
+
+      return createMCPResult(
+        `Credential rotation for '${params.key}':\n` +
+        `Provider: ${status.provider} (${status.rotation_supported ? 'supports rotation' : 'rotation not supported'})\n` +
+        (policy
+          ? `Policy: every ${policy.interval_days} day(s), ${policy.grace_period_hours} hour grace period\n` +
+            `Next Rotation: ${policy.next_rotation_at}\n` +
+            `Last Rotated: ${policy.last_rotated_at || 'never'}\n` +
+            (policy.pending_revocation
+              ? `Pending Revocation: version ${policy.pending_revocation.version} after ${policy.pending_revocation.revoke_after}\n`
+              : '')
+          : 'Policy: none\n') +
+        (status.last_run ? `Last Run:\n${describeRotationRun(status.last_run)}` : 'Last Run: none')
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to get credential rotation', error)
+    }
+  }
+
+  private async queryAuditLog(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'query_audit_log')!
+    const params = validateMCPToolInput<typeof QueryAuditLogSchema._type>(tool, input)
+
+    if (!this.auditQueryService || !this.verifyToken) {
+      return createMCPResult('Audit log queries are not available', true)
+    }
+
+    // The admin check must not rest on the user_id the caller names
+    let caller: MCPCaller
+    try {
+      caller = this.verifyToken(params.jwt_token)
+    } catch {
+      return createMCPResult('Invalid or expired jwt_token', true)
+    }
+    if (caller.user_id !== params.user_id) {
+      return createMCPResult(`jwt_token does not belong to user '${params.user_id}'`, true)
+    }
+
+    try {
+      const page = await this.auditQueryService.query(caller.user_id, {
+        workspace_id: params.workspace_id,
+        ...(params.by_user_id && { user_id: params.by_user_id }),
+        ...(params.operation && { operation: params.operation }),
+        ...(params.context_type && { context_type: params.context_type }),
+        ...(params.resource_key && { resource_key: params.resource_key }),
+        ...(params.status && { status: params.status }),
+        ...(params.from && { from: params.from }),
+        ...(params.to && { to: params.to })
+      }, {
+        ...(params.cursor && { cursor: params.cursor }),
+        limit: params.limit,
+        // Service administrators (JWT role claim), as on /api/v1/audit
+        serviceAdmin: caller.role === 'admin'
+      })
+
+      const entries = page.entries.map(entry =>
+        `#${entry.sequence} ${entry.timestamp} ${entry.user_id} ${entry.operation} ${entry.resource_key} ` +
+        `${entry.status}${entry.error_message ? ` (${entry.error_message})` : ''} from ${entry.ip_address}`
+      )
+
+      return createMCPResult(
+        `Audit log for workspace ${params.workspace_id} (newest first):\n` +
+        `${entries.join('\n') || 'No matching entries'}` +
+        (page.next_cursor ? `\n\nNext Cursor: ${page.next_cursor}` : '')
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to query audit log', error)
     }
   }
 
@@ -282,6 +831,47 @@ export class ContextManagerMCPServer {
   // USER CONTEXT TOOLS (Tier 2) 👤
   // =================================
 
+  private async resolveReferences(input: unknown): Promise<MCPToolResult> {
+    const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'resolve_references')!
+    const params = validateMCPToolInput<typeof ResolveReferencesSchema._type>(tool, input)
+
+    if (!this.secretReferenceService) {
+      return createMCPResult('Secret references are not available', true)
+    }
+
+    // MCP responses reach the model, so expanded values are only handed to executors
+    if (params.expand) {
+      return createMCPResult(
+        'Refusing to expand secret references into an MCP response. ' +
+        'A trusted executor expands them via POST /api/v1/context/secret/references/resolve.',
+        true
+      )
+    }
+
+    try {
+      const report = await this.secretReferenceService.inspectReferences(params.workspace_id, params.user_id, {
+        ...(params.value !== undefined && { value: params.value }),
+        ...(params.deployment_pattern_id && { deployment_pattern_id: params.deployment_pattern_id }),
+        ...(params.community_pattern_id && { community_pattern_id: params.community_pattern_id })
+      })
+
+      const describe = (reference: { reference: string; path: string }) =>
+        `${reference.reference} (at ${reference.path || '<value>'})`
+
+      return createMCPResult(
+        `Secret references (values withheld):\n` +
+        `Resolvable: ${report.resolved.length}\n` +
+        `Unresolved: ${report.unresolved.length}\n\n` +
+        ([
+          ...report.resolved.map(reference => `✓ ${describe(reference)} from ${reference.scope} secrets`),
+          ...report.unresolved.map(reference => `✗ ${describe(reference)}: ${reference.reason}`)
+        ].join('\n') || 'No secret references found')
+      )
+    } catch (error) {
+      return createMCPErrorResult('Failed to resolve references', error)
+    }
+  }
+
   private async getUserContext(input: unknown): Promise<MCPToolResult> {
     const tool = CONTEXT_MANAGER_MCP_TOOLS.find(t => t.name === 'get_user_context')!
     const params = validateMCPToolInput<typeof GetUserContextSchema._type>(tool, input)
@@ -293,6 +883,7 @@ export class ContextManagerMCPServer {
       if (!userContext) {
         return createMCPResult(`User context not found for workspace: ${params.workspace_id}`, true)
       }
+      const patternCount = await this.userContextService.countDeploymentPatterns(params.workspace_id, params.user_id)
 
       return createMCPResult(
         `User Context Retrieved:\n` +
@@ -301,11 +892,11 @@ export class ContextManagerMCPServer {
         `Default Provider: ${userContext.preferences?.default_cloud_provider || 'Not set'}\n` +
         `Preferred Regions: ${userContext.preferences?.preferred_regions?.join(', ') || 'Not set'}\n` +
         `Theme: ${userContext.preferences?.ui_preferences?.theme || 'auto'}\n` +
-        `Deployment Patterns: ${userContext.deployment_patterns?.length || 0} patterns\n` +
+        `Deployment Patterns: ${patternCount} patterns\n` +
         `Context Created: ${userContext.created_at || 'Unknown'}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to get user context: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to get user context', error)
     }
   }
 
@@ -326,10 +917,12 @@ export class ContextManagerMCPServer {
         `Workspace: ${params.workspace_id}\n` +
         `Updated fields: ${Object.keys(params.preferences).join(', ')}\n` +
         `Default Provider: ${updatedContext.preferences?.default_cloud_provider || 'Not set'}\n` +
-        `Preferred Regions: ${updatedContext.preferences?.preferred_regions?.join(', ') || 'Not set'}`
+        `Preferred Regions: ${updatedContext.preferences?.preferred_regions?.join(', ') || 'Not set'}`,
+        false,
+        { version: updatedContext.version }
       )
     } catch (error) {
-      return createMCPResult(`Failed to update preferences: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to update preferences', error)
     }
   }
 
@@ -356,7 +949,7 @@ export class ContextManagerMCPServer {
         `Usage Count: ${params.pattern.usage_count}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to add deployment pattern: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to add deployment pattern', error)
     }
   }
 
@@ -382,7 +975,7 @@ export class ContextManagerMCPServer {
         `${patternsInfo || 'No patterns match the criteria'}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to search patterns: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to search patterns', error)
     }
   }
 
@@ -408,7 +1001,7 @@ export class ContextManagerMCPServer {
         `Duration: ${params.event.duration_ms}ms`
       )
     } catch (error) {
-      return createMCPResult(`Failed to record event: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to record event', error)
     }
   }
 
@@ -433,7 +1026,7 @@ export class ContextManagerMCPServer {
         `Thank you for contributing to the community knowledge base!`
       )
     } catch (error) {
-      return createMCPResult(`Failed to submit pattern: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to submit pattern', error)
     }
   }
 
@@ -457,7 +1050,7 @@ export class ContextManagerMCPServer {
         `Top patterns:\n${patternsInfo || 'No patterns found'}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to get community patterns: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to get community patterns', error)
     }
   }
 
@@ -482,7 +1075,7 @@ export class ContextManagerMCPServer {
         `${recommendationsInfo}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to get recommendations: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to get recommendations', error)
     }
   }
 
@@ -508,7 +1101,7 @@ export class ContextManagerMCPServer {
         `Thank you for sharing your workflow!`
       )
     } catch (error) {
-      return createMCPResult(`Failed to submit workflow: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to submit workflow', error)
     }
   }
 
@@ -536,10 +1129,12 @@ export class ContextManagerMCPServer {
         `Branch: ${session.deployment_target.branch}\n` +
         `Application: ${session.deployment_target.application_name}\n` +
         `Status: ${session.status}\n` +
-        `Expires: ${session.expires_at?.toISOString() || 'Never'}`
+        `Expires: ${session.expires_at?.toISOString() || 'Never'}`,
+        false,
+        { session_id: session.session_id, status: session.status }
       )
     } catch (error) {
-      return createMCPResult(`Failed to create deployment session: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to create deployment session', error)
     }
   }
 
@@ -579,7 +1174,7 @@ export class ContextManagerMCPServer {
         `Errors: ${session.error_count}${session.last_error ? ` (Last: ${session.last_error})` : ''}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to get deployment session: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to get deployment session', error)
     }
   }
 
@@ -599,7 +1194,7 @@ export class ContextManagerMCPServer {
         `Deployment session updated successfully.\n\n${summary}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to update deployment session: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to update deployment session', error)
     }
   }
 
@@ -617,10 +1212,12 @@ export class ContextManagerMCPServer {
       return createMCPResult(
         `Deployment step added successfully.\n` +
         `Step: ${params.step_name}\n` +
-        `Status: ${params.status}`
+        `Status: ${params.status}`,
+        false,
+        { session_id: params.session_id, step_name: params.step_name, status: params.status }
       )
     } catch (error) {
-      return createMCPResult(`Failed to add deployment step: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to add deployment step', error)
     }
   }
 
@@ -644,7 +1241,7 @@ export class ContextManagerMCPServer {
         (params.error_message ? `\nError: ${params.error_message}` : '')
       )
     } catch (error) {
-      return createMCPResult(`Failed to update deployment step: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to update deployment step', error)
     }
   }
 
@@ -670,7 +1267,7 @@ export class ContextManagerMCPServer {
         `User deployment sessions (${sessions.length}):\n${sessionsInfo}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to get user sessions: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to get user sessions', error)
     }
   }
 
@@ -690,7 +1287,7 @@ export class ContextManagerMCPServer {
         `Active deployment session for conversation:\n\n${summary}\n\nSession ID: ${session.session_id}`
       )
     } catch (error) {
-      return createMCPResult(`Failed to get conversation session: ${error instanceof Error ? error.message : 'Unknown error'}`, true)
+      return createMCPErrorResult('Failed to get conversation session', error)
     }
   }
 }
@@ -8,6 +8,7 @@
  */
 
 import { z } from 'zod'
+import { ContextConflictError } from '../utils/concurrency'
 
 export interface MCPTool {
   name: string
@@ -21,6 +22,10 @@ export interface MCPToolResult {
     text: string
   }>
   isError?: boolean
+  // Set on errors a caller can act on, e.g. CONFLICT: retry the call
+  errorCode?: string
+  // Identifiers and values later calls of a batch can reference
+  data?: Record<string, unknown>
 }
 
 // =================================
@@ -33,6 +38,7 @@ export const StoreCredentialSchema = z.object({
   credential_type: z.enum(['oauth', 'api_key', 'password', 'token']).describe("Type of credential"),
   provider: z.string().describe("Provider name (e.g., 'digitalocean', 'aws')"),
   expires_at: z.string().datetime().optional().describe("Optional expiration datetime"),
+  check_liveness: z.boolean().optional().describe("Ask the provider whether the credential is live (defaults to the server setting)"),
   workspace_id: z.string().describe("Workspace identifier"),
   user_id: z.string().describe("User identifier"),
   jwt_token: z.string().describe("JWT token for authentication")
@@ -40,20 +46,56 @@ export const StoreCredentialSchema = z.object({
 
 export const RetrieveCredentialSchema = z.object({
   key: z.string().describe("Credential identifier to retrieve"),
+  mode: z.enum(['lease', 'plaintext']).default('plaintext').describe("'lease' returns a short-lived handle for a trusted executor instead of the value"),
+  session_id: z.string().optional().describe("Session the lease is scoped to (required in lease mode)"),
+  purpose: z.string().optional().describe("What the lease will be used for (required in lease mode)"),
+  ttl_seconds: z.number().int().min(1).max(3600).optional().describe("Lease lifetime in seconds (default 300)"),
+  max_uses: z.number().int().min(1).max(10).optional().describe("Number of times the lease can be redeemed (default 1)"),
   workspace_id: z.string().describe("Workspace identifier"),
   user_id: z.string().describe("User identifier"),
   jwt_token: z.string().describe("JWT token for authentication")
 })
 
+export const RevokeSecretLeaseSchema = z.object({
+  lease_id: z.string().describe("Lease identifier returned when the lease was issued"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier"),
+  jwt_token: z.string().describe("JWT token for authentication")
+})
+
+// Same fields as store_credential; the credential is stored for the whole workspace
+export const StoreWorkspaceCredentialSchema = StoreCredentialSchema
+
+export const ListWorkspaceSecretsSchema = z.object({
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier (must have a workspace role)"),
+  jwt_token: z.string().describe("JWT token for authentication")
+})
+
 export const StoreSSHKeySchema = z.object({
   key_name: z.string().describe("SSH key identifier"),
   private_key: z.string().describe("Private key content"),
   public_key: z.string().describe("Public key content"),
-  key_type: z.enum(['rsa', 'ed25519', 'ecdsa']).describe("SSH key algorithm"),
+  key_type: z.enum(['rsa', 'ed25519', 'ecdsa']).optional().describe("SSH key algorithm (detected from the key if omitted)"),
+  metadata: z.object({
+    description: z.string().optional(),
+    allowed_hosts: z.array(z.string()).optional()
+  }).optional().describe("Optional key metadata"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier"),
+  jwt_token: z.string().describe("JWT token for authentication")
+})
+
+export const GenerateSSHKeySchema = z.object({
+  key_name: z.string().describe("SSH key identifier"),
+  key_type: z.enum(['rsa', 'ed25519', 'ecdsa']).default('ed25519').describe("SSH key algorithm"),
+  bits: z.number().int().positive().optional().describe("RSA modulus size (default 4096) or ECDSA curve size (256, 384, 521)"),
+  comment: z.string().optional().describe("Public key comment (defaults to the key name)"),
   metadata: z.object({
     description: z.string().optional(),
     allowed_hosts: z.array(z.string()).optional()
   }).optional().describe("Optional key metadata"),
+  overwrite: z.boolean().default(false).describe("Replace an existing key with the same name"),
   workspace_id: z.string().describe("Workspace identifier"),
   user_id: z.string().describe("User identifier"),
   jwt_token: z.string().describe("JWT token for authentication")
@@ -66,12 +108,94 @@ export const RetrieveSSHKeySchema = z.object({
   jwt_token: z.string().describe("JWT token for authentication")
 })
 
+export const StoreCertificateSchema = z.object({
+  name: z.string().describe("Certificate identifier"),
+  certificate: z.string().describe("PEM-encoded certificate (may include the chain)"),
+  private_key: z.string().optional().describe("PEM-encoded private key matching the certificate"),
+  chain: z.string().optional().describe("PEM-encoded intermediate certificates"),
+  certificate_type: z.enum(['ssl', 'client', 'ca']).optional().describe("Certificate usage (detected from the certificate if omitted)"),
+  metadata: z.record(z.any()).optional().describe("Optional certificate metadata"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier"),
+  jwt_token: z.string().describe("JWT token for authentication")
+})
+
+export const RetrieveCertificateSchema = z.object({
+  name: z.string().describe("Certificate name to retrieve"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier"),
+  jwt_token: z.string().describe("JWT token for authentication")
+})
+
 export const ListSecretsSchema = z.object({
   workspace_id: z.string().describe("Workspace identifier"),
   user_id: z.string().describe("User identifier"),
   jwt_token: z.string().describe("JWT token for authentication")
 })
 
+export const ListExpiringSecretsSchema = z.object({
+  within_days: z.number().int().min(0).max(365).optional().describe("Look-ahead window in days (defaults to the service's warning window)"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier"),
+  jwt_token: z.string().describe("JWT token for authentication")
+})
+
+export const ListSecretVersionsSchema = z.object({
+  secret_type: z.enum(['credential', 'ssh_key', 'certificate']).describe("Type of secret"),
+  key: z.string().describe("Credential key, SSH key name or certificate name"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier"),
+  jwt_token: z.string().describe("JWT token for authentication")
+})
+
+export const GetSecretVersionSchema = ListSecretVersionsSchema.extend({
+  version: z.number().int().positive().describe("Version number to retrieve")
+})
+
+export const RollbackSecretSchema = ListSecretVersionsSchema.extend({
+  version: z.number().int().positive().describe("Version number to restore")
+})
+
+export const ResolveReferencesSchema = z.object({
+  value: z.any().optional().describe("Config value containing secret:// references"),
+  deployment_pattern_id: z.string().optional().describe("Deployment pattern whose configuration to check"),
+  community_pattern_id: z.string().optional().describe("Community pattern whose configuration to check"),
+  expand: z.boolean().default(false).describe("Expanding values is refused here; trusted executors expand references over the API"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier"),
+  jwt_token: z.string().describe("JWT token for authentication")
+})
+
+export const RotateCredentialSchema = z.object({
+  key: z.string().describe("Credential key to rotate"),
+  dry_run: z.boolean().default(false).describe("Only verify the current credential and report the planned steps"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier"),
+  jwt_token: z.string().describe("JWT token for authentication")
+})
+
+export const GetCredentialRotationSchema = z.object({
+  key: z.string().describe("Credential key"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier"),
+  jwt_token: z.string().describe("JWT token for authentication")
+})
+
+export const QueryAuditLogSchema = z.object({
+  by_user_id: z.string().optional().describe("Only entries by this user"),
+  operation: z.string().optional().describe("Only this operation, e.g. get_credential"),
+  context_type: z.enum(['secret', 'user', 'global']).optional().describe("Only this context tier"),
+  resource_key: z.string().optional().describe("Only entries for this key"),
+  status: z.enum(['success', 'failed']).optional().describe("Only successful or failed operations"),
+  from: z.string().datetime({ offset: true }).optional().describe("Earliest timestamp (ISO 8601)"),
+  to: z.string().datetime({ offset: true }).optional().describe("Latest timestamp (ISO 8601)"),
+  cursor: z.string().optional().describe("next_cursor from the previous page"),
+  limit: z.number().int().min(1).max(500).default(50).describe("Entries per page"),
+  workspace_id: z.string().describe("Workspace identifier"),
+  user_id: z.string().describe("User identifier (must be a workspace admin)"),
+  jwt_token: z.string().describe("JWT token of user_id, which identifies the caller")
+})
+
 // =================================
 // USER CONTEXT TOOLS (Tier 2) 👤
 // =================================
@@ -318,24 +442,94 @@ export const CONTEXT_MANAGER_MCP_TOOLS: MCPTool[] = [
   },
   {
     name: 'retrieve_credential',
-    description: 'Retrieve decrypted user credentials for API operations',
+    description: 'Retrieve user credentials for API operations, as a short-lived lease handle or as plaintext',
     inputSchema: RetrieveCredentialSchema
   },
+  {
+    name: 'store_workspace_credential',
+    description: 'Store a credential shared by the whole workspace (requires the user or admin workspace role)',
+    inputSchema: StoreWorkspaceCredentialSchema
+  },
+  {
+    name: 'list_workspace_secrets',
+    description: 'List metadata of secrets shared by the workspace (no values)',
+    inputSchema: ListWorkspaceSecretsSchema
+  },
+  {
+    name: 'revoke_secret_lease',
+    description: 'Revoke a credential lease before it expires',
+    inputSchema: RevokeSecretLeaseSchema
+  },
   {
     name: 'store_ssh_key',
     description: 'Securely store encrypted SSH private/public key pairs',
     inputSchema: StoreSSHKeySchema
   },
+  {
+    name: 'generate_ssh_key',
+    description: 'Generate an SSH key pair inside the service; returns only the public key and fingerprint',
+    inputSchema: GenerateSSHKeySchema
+  },
   {
     name: 'retrieve_ssh_key',
     description: 'Retrieve SSH keys for deployment operations',
     inputSchema: RetrieveSSHKeySchema
   },
+  {
+    name: 'store_certificate',
+    description: 'Securely store X.509 certificates with their private keys and chains',
+    inputSchema: StoreCertificateSchema
+  },
+  {
+    name: 'retrieve_certificate',
+    description: 'Retrieve X.509 certificates for TLS and client authentication',
+    inputSchema: RetrieveCertificateSchema
+  },
   {
     name: 'list_user_secrets',
     description: 'List metadata of stored credentials and SSH keys (no values)',
     inputSchema: ListSecretsSchema
   },
+  {
+    name: 'list_expiring_secrets',
+    description: 'List credentials and certificates that are expired or about to expire',
+    inputSchema: ListExpiringSecretsSchema
+  },
+  {
+    name: 'list_secret_versions',
+    description: 'List the version history of a credential, SSH key or certificate (no values)',
+    inputSchema: ListSecretVersionsSchema
+  },
+  {
+    name: 'get_secret_version',
+    description: 'Retrieve a specific earlier version of a secret',
+    inputSchema: GetSecretVersionSchema
+  },
+  {
+    name: 'rollback_secret',
+    description: 'Restore a secret to an earlier version',
+    inputSchema: RollbackSecretSchema
+  },
+  {
+    name: 'resolve_references',
+    description: 'Check which secret:// references in a config resolve and which do not (values are never returned)',
+    inputSchema: ResolveReferencesSchema
+  },
+  {
+    name: 'rotate_credential',
+    description: 'Rotate a credential through its provider now, or rehearse the rotation as a dry run',
+    inputSchema: RotateCredentialSchema
+  },
+  {
+    name: 'get_credential_rotation',
+    description: 'Show the rotation policy and last rotation run of a credential',
+    inputSchema: GetCredentialRotationSchema
+  },
+  {
+    name: 'query_audit_log',
+    description: 'Search the workspace audit log, newest first (workspace admins only)',
+    inputSchema: QueryAuditLogSchema
+  },
   
   // User Context Tools (Tier 2) 👤
   {
@@ -433,7 +627,7 @@ export function validateMCPToolInput<T>(tool: MCPTool, input: unknown): T {
   }
 }
 
-export function createMCPResult(content: string, isError: boolean = false): MCPToolResult {
+export function createMCPResult(content: string, isError: boolean = false, data?: Record<string, unknown>): MCPToolResult {
   return {
     content: [
       {
@@ -441,6 +635,15 @@ export function createMCPResult(content: string, isError: boolean = false): MCPT
         text: content
       }
     ],
-    isError
+    isError,
+    ...(data && { data })
+  }
+}
+
+// Failed tool call; writes that lost to concurrent ones carry their conflict code
+export function createMCPErrorResult(summary: string, error: unknown): MCPToolResult {
+  return {
+    ...createMCPResult(`${summary}: ${error instanceof Error ? error.message : 'Unknown error'}`, true),
+    ...(error instanceof ContextConflictError && { errorCode: error.code })
   }
 }
\ No newline at end of file
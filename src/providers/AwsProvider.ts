@@ -0,0 +1,168 @@
+/**
+ * AWS credential provider
+ *
+ * Access key pairs, stored either as JSON
+ * ({"access_key_id", "secret_access_key", "session_token"?}) or as
+ * "ACCESS_KEY_ID:SECRET_ACCESS_KEY". Liveness is checked with a SigV4-signed
+ * STS GetCallerIdentity call, which needs no IAM permissions.
+ *
+ * Long-term keys can be rotated through IAM (next to STS at iam.amazonaws.com):
+ * CreateAccessKey mints a second key for the same user, and the old key
+ * deletes itself with DeleteAccessKey once the grace period is over.
+ */
+
+import crypto from 'crypto'
+import { CredentialProvider, HttpChecker, LivenessResult, ReplacementCredential } from './CredentialProvider'
+
+const ACCESS_KEY_ID_PATTERN = /^(AKIA|ASIA)[A-Z0-9]{16}$/
+const SECRET_ACCESS_KEY_PATTERN = /^[A-Za-z0-9/+=]{40}$/
+// STS and IAM are both reachable through their us-east-1 global endpoints
+const SIGNING_REGION = 'us-east-1'
+const STS_VERSION = '2011-06-15'
+const IAM_VERSION = '2010-05-08'
+
+interface AwsKeyPair {
+  access_key_id: string
+  secret_access_key: string
+  session_token?: string
+}
+
+export class AwsProvider implements CredentialProvider {
+  readonly name = 'aws'
+  readonly apiUrl = 'https://sts.amazonaws.com'
+
+  checkFormat(value: string): string | null {
+    const keyPair = parseKeyPair(value)
+    if (!keyPair) {
+      return 'AWS credentials must be JSON with access_key_id and secret_access_key, or ACCESS_KEY_ID:SECRET_ACCESS_KEY'
+    }
+    if (!ACCESS_KEY_ID_PATTERN.test(keyPair.access_key_id)) {
+      return 'AWS access key IDs are 20 characters starting with AKIA or ASIA'
+    }
+    if (!SECRET_ACCESS_KEY_PATTERN.test(keyPair.secret_access_key)) {
+      return 'AWS secret access keys are 40 characters'
+    }
+    if (keyPair.access_key_id.startsWith('ASIA') && !keyPair.session_token) {
+      return 'Temporary AWS credentials (ASIA...) need a session_token'
+    }
+    return null
+  }
+
+  async checkLiveness(value: string, credentialType: string, http: HttpChecker, apiUrl: string): Promise<LivenessResult> {
+    const response = await callAws(http, apiUrl, 'sts', parseKeyPair(value)!, { Action: 'GetCallerIdentity', Version: STS_VERSION })
+
+    if (response.status !== 200) {
+      return { live: false, error: xmlValue(response.xml, 'Message') || `AWS STS returned status ${response.status}` }
+    }
+
+    const arn = xmlValue(response.xml, 'Arn')
+    return { live: true, ...(arn && { account: arn }) }
+  }
+
+  async createReplacement(value: string, credentialType: string, http: HttpChecker, apiUrl: string): Promise<ReplacementCredential> {
+    const keyPair = parseKeyPair(value)!
+    if (keyPair.session_token) {
+      throw new Error('Temporary AWS credentials cannot be rotated')
+    }
+
+    const response = await callAws(http, iamUrl(apiUrl), 'iam', keyPair, { Action: 'CreateAccessKey', Version: IAM_VERSION })
+    const accessKeyId = xmlValue(response.xml, 'AccessKeyId')
+    const secretAccessKey = xmlValue(response.xml, 'SecretAccessKey')
+    if (response.status !== 200 || !accessKeyId || !secretAccessKey) {
+      throw new Error(xmlValue(response.xml, 'Message') || `AWS IAM CreateAccessKey returned status ${response.status}`)
+    }
+
+    return { value: JSON.stringify({ access_key_id: accessKeyId, secret_access_key: secretAccessKey }) }
+  }
+
+  async revoke(value: string, credentialType: string, http: HttpChecker, apiUrl: string): Promise<void> {
+    const keyPair = parseKeyPair(value)!
+    const response = await callAws(http, iamUrl(apiUrl), 'iam', keyPair, {
+      Action: 'DeleteAccessKey',
+      AccessKeyId: keyPair.access_key_id,
+      Version: IAM_VERSION
+    })
+
+    if (response.status !== 200) {
+      throw new Error(xmlValue(response.xml, 'Message') || `AWS IAM DeleteAccessKey returned status ${response.status}`)
+    }
+  }
+}
+
+// Private helpers
+function parseKeyPair(value: string): AwsKeyPair | null {
+  try {
+    const parsed = JSON.parse(value)
+    if (typeof parsed?.access_key_id === 'string' && typeof parsed?.secret_access_key === 'string') {
+      return parsed
+    }
+    return null
+  } catch (error) {
+    const [accessKeyId, secretAccessKey, ...rest] = value.split(':')
+    return accessKeyId && secretAccessKey && rest.length === 0
+      ? { access_key_id: accessKeyId, secret_access_key: secretAccessKey }
+      : null
+  }
+}
+
+// POST a form-encoded query API call, signed with Signature Version 4
+async function callAws(
+  http: HttpChecker,
+  url: string,
+  service: 'sts' | 'iam',
+  keyPair: AwsKeyPair,
+  params: Record<string, string>
+): Promise<{ status: number; xml: string }> {
+  const body = new URLSearchParams(params).toString()
+  // The host header is signed but set by the HTTP client itself
+  const { host, ...headers } = signRequest(keyPair, service, new URL(url).host, body, new Date())
+  const response = await http.request({ url: `${url}/`, method: 'POST', headers, body })
+
+  return { status: response.status, xml: typeof response.body === 'string' ? response.body : '' }
+}
+
+// IAM lives next to STS (sts.amazonaws.com -> iam.amazonaws.com); other URLs are used as they are
+function iamUrl(apiUrl: string): string {
+  return apiUrl.replace('://sts.', '://iam.')
+}
+
+function signRequest(keyPair: AwsKeyPair, service: string, host: string, body: string, now: Date): Record<string, string> {
+  const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const dateStamp = amzDate.slice(0, 8)
+  const scope = `${dateStamp}/${SIGNING_REGION}/${service}/aws4_request`
+
+  const headers: Record<string, string> = {
+    'content-type': 'application/x-www-form-urlencoded; charset=utf-8',
+    host,
+    'x-amz-date': amzDate,
+    ...(keyPair.session_token && { 'x-amz-security-token': keyPair.session_token })
+  }
+  const signedHeaders = Object.keys(headers).sort().join(';')
+  const canonicalHeaders = Object.keys(headers).sort().map(name => `${name}:${headers[name]}\n`).join('')
+
+  const canonicalRequest = ['POST', '/', '', canonicalHeaders, signedHeaders, sha256(body)].join('\n')
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+
+  const signingKey = [service, 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${keyPair.secret_access_key}`, dateStamp), SIGNING_REGION)
+  )
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${keyPair.access_key_id}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  }
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest()
+}
+
+function sha256(data: string): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  return new RegExp(`<${tag}>([^<]*)</${tag}>`).exec(xml)?.[1]
+}
@@ -0,0 +1,121 @@
+/**
+ * Cloudflare credential provider
+ *
+ * API tokens (40 characters) and legacy global API keys (37 hex characters).
+ * Tokens are verified with GET /client/v4/user/tokens/verify; when the token
+ * may read its own details, its permission groups are reported as scopes.
+ * Global API keys also need the account email, so they are only format-checked.
+ *
+ * Tokens allowed to manage API tokens can be rotated: a new token is created
+ * with the same policies and the old one is deleted afterwards.
+ */
+
+import { CredentialProvider, HttpChecker, LivenessResult, ReplacementCredential } from './CredentialProvider'
+
+const API_TOKEN_PATTERN = /^[A-Za-z0-9_-]{40}$/
+const GLOBAL_API_KEY_PATTERN = /^[a-f0-9]{37}$/
+
+export class CloudflareProvider implements CredentialProvider {
+  readonly name = 'cloudflare'
+  readonly apiUrl = 'https://api.cloudflare.com'
+
+  checkFormat(value: string): string | null {
+    return API_TOKEN_PATTERN.test(value) || GLOBAL_API_KEY_PATTERN.test(value)
+      ? null
+      : 'Cloudflare API tokens are 40 characters and global API keys 37 hex characters'
+  }
+
+  async checkLiveness(value: string, credentialType: string, http: HttpChecker, apiUrl: string): Promise<LivenessResult> {
+    if (GLOBAL_API_KEY_PATTERN.test(value)) {
+      return { live: true, error: 'Global API keys cannot be verified without the account email' }
+    }
+
+    const headers = { Authorization: `Bearer ${value}` }
+    const response = await http.request({ url: `${apiUrl}/client/v4/user/tokens/verify`, headers })
+    const result = response.body?.result
+
+    if (response.status !== 200 || !response.body?.success || result?.status !== 'active') {
+      return {
+        live: false,
+        error: response.body?.errors?.[0]?.message || `Cloudflare token status is ${result?.status || `unknown (HTTP ${response.status})`}`
+      }
+    }
+
+    // Reading the token's policies needs the "API Tokens Read" permission; not every token has it
+    const details = await http.request({ url: `${apiUrl}/client/v4/user/tokens/${result.id}`, headers })
+    const scopes: string[] = details.status === 200
+      ? Array.from(new Set<string>((details.body?.result?.policies || []).flatMap((policy: any) =>
+          (policy.permission_groups || []).map((group: any) => group.name))))
+      : []
+
+    return {
+      live: true,
+      account: result.id,
+      ...(scopes.length > 0 && { scopes })
+    }
+  }
+
+  async createReplacement(value: string, credentialType: string, http: HttpChecker, apiUrl: string): Promise<ReplacementCredential> {
+    const headers = { Authorization: `Bearer ${value}`, 'Content-Type': 'application/json' }
+    const tokenId = await this.tokenId(value, http, apiUrl)
+
+    const current = await http.request({ url: `${apiUrl}/client/v4/user/tokens/${tokenId}`, headers })
+    if (current.status !== 200 || !current.body?.result) {
+      throw new Error(cloudflareError(current, 'Cannot read the token to copy its policies'))
+    }
+
+    const { name, policies, condition, expires_on, not_before } = current.body.result
+    const created = await http.request({
+      url: `${apiUrl}/client/v4/user/tokens`,
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        name,
+        // Policy IDs belong to the old token
+        policies: (policies || []).map(({ id, ...policy }: any) => policy),
+        ...(condition && { condition }),
+        ...(expires_on && { expires_on }),
+        ...(not_before && { not_before })
+      })
+    })
+    if (created.status !== 200 || !created.body?.result?.value) {
+      throw new Error(cloudflareError(created, 'Creating the replacement token failed'))
+    }
+
+    return {
+      value: created.body.result.value,
+      ...(created.body.result.expires_on && { expires_at: created.body.result.expires_on })
+    }
+  }
+
+  async revoke(value: string, credentialType: string, http: HttpChecker, apiUrl: string): Promise<void> {
+    const tokenId = await this.tokenId(value, http, apiUrl)
+    const response = await http.request({
+      url: `${apiUrl}/client/v4/user/tokens/${tokenId}`,
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${value}` }
+    })
+    if (response.status !== 200) {
+      throw new Error(cloudflareError(response, 'Deleting the token failed'))
+    }
+  }
+
+  private async tokenId(value: string, http: HttpChecker, apiUrl: string): Promise<string> {
+    if (GLOBAL_API_KEY_PATTERN.test(value)) {
+      throw new Error('Global API keys cannot be rotated through the API')
+    }
+
+    const response = await http.request({
+      url: `${apiUrl}/client/v4/user/tokens/verify`,
+      headers: { Authorization: `Bearer ${value}` }
+    })
+    if (response.status !== 200 || !response.body?.result?.id) {
+      throw new Error(cloudflareError(response, 'Token verification failed'))
+    }
+    return response.body.result.id
+  }
+}
+
+function cloudflareError(response: { status: number; body: any }, fallback: string): string {
+  return response.body?.errors?.[0]?.message || `${fallback} (HTTP ${response.status})`
+}
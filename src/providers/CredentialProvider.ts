@@ -0,0 +1,106 @@
+/**
+ * Credential Provider abstraction
+ *
+ * A CredentialProvider knows what a cloud or SaaS provider's credentials look
+ * like and, optionally, how to ask the provider whether one is live and what
+ * it may do. Liveness checks go through an HttpChecker so they can be pointed
+ * at a mock server or replaced entirely.
+ */
+
+export interface HttpCheckRequest {
+  url: string
+  method?: 'GET' | 'POST' | 'DELETE'
+  headers?: Record<string, string>
+  body?: string
+}
+
+export interface HttpCheckResponse {
+  status: number
+  // Header names are lower-cased
+  headers: Record<string, string>
+  body: any
+}
+
+export interface HttpChecker {
+  request(request: HttpCheckRequest): Promise<HttpCheckResponse>
+}
+
+export interface LivenessResult {
+  live: boolean
+  // Account, user or identity the credential belongs to
+  account?: string
+  // Permissions the provider reports for the credential
+  scopes?: string[]
+  error?: string
+}
+
+export interface ReplacementCredential {
+  value: string
+  expires_at?: string
+}
+
+export interface CredentialProvider {
+  readonly name: string
+  // Base URL of the provider API used for liveness checks and rotation
+  readonly apiUrl: string
+
+  /**
+   * Check the credential's format. Returns a description of the problem, or
+   * null when the value looks like a credential of this provider.
+   */
+  checkFormat(value: string, credentialType: string): string | null
+
+  /**
+   * Ask the provider whether the credential is live, through the given checker
+   */
+  checkLiveness(value: string, credentialType: string, http: HttpChecker, apiUrl: string): Promise<LivenessResult>
+
+  /**
+   * Mint a new credential with the same permissions, authenticating with the
+   * current one. Only providers whose APIs can mint credentials implement this.
+   */
+  createReplacement?(value: string, credentialType: string, http: HttpChecker, apiUrl: string): Promise<ReplacementCredential>
+
+  /**
+   * Revoke a credential that has been replaced, authenticating with it
+   */
+  revoke?(value: string, credentialType: string, http: HttpChecker, apiUrl: string): Promise<void>
+}
+
+export class CredentialValidationError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'CredentialValidationError'
+  }
+}
+
+/**
+ * HttpChecker backed by the global fetch
+ */
+export class FetchHttpChecker implements HttpChecker {
+  constructor(private timeoutMs: number = 5000) {}
+
+  async request(request: HttpCheckRequest): Promise<HttpCheckResponse> {
+    const response = await fetch(request.url, {
+      method: request.method || 'GET',
+      headers: request.headers || {},
+      ...(request.body !== undefined && { body: request.body }),
+      signal: AbortSignal.timeout(this.timeoutMs)
+    })
+
+    const text = await response.text()
+    let body: any = text
+    try {
+      body = text ? JSON.parse(text) : null
+    } catch (error) {
+      // Not JSON (e.g. AWS XML responses); keep the raw text
+    }
+
+    const headers: Record<string, string> = {}
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value
+    })
+
+    return { status: response.status, headers, body }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * DigitalOcean credential provider
+ *
+ * Personal access, OAuth and refresh tokens (dop_v1_, doo_v1_, dor_v1_),
+ * plus the bare 64-character hex tokens issued before prefixes. Liveness is
+ * checked against GET /v2/account.
+ */
+
+import { CredentialProvider, HttpChecker, LivenessResult } from './CredentialProvider'
+
+const TOKEN_PATTERN = /^(do[opr]_v1_)?[a-f0-9]{64}$/
+
+export class DigitalOceanProvider implements CredentialProvider {
+  readonly name = 'digitalocean'
+  readonly apiUrl = 'https://api.digitalocean.com'
+
+  checkFormat(value: string): string | null {
+    return TOKEN_PATTERN.test(value)
+      ? null
+      : 'DigitalOcean tokens are 64 hex characters, optionally prefixed with dop_v1_, doo_v1_ or dor_v1_'
+  }
+
+  async checkLiveness(value: string, credentialType: string, http: HttpChecker, apiUrl: string): Promise<LivenessResult> {
+    const response = await http.request({
+      url: `${apiUrl}/v2/account`,
+      headers: { Authorization: `Bearer ${value}` }
+    })
+
+    if (response.status !== 200) {
+      return { live: false, error: response.body?.message || `DigitalOcean returned status ${response.status}` }
+    }
+
+    const account = response.body?.account
+    return {
+      live: account?.status !== 'locked',
+      ...(account?.email && { account: account.email }),
+      ...(account?.status === 'locked' && { error: 'DigitalOcean account is locked' })
+    }
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * GitHub credential provider
+ *
+ * Classic and fine-grained personal access tokens, OAuth, user-to-server,
+ * server-to-server and refresh tokens. Liveness is checked against GET /user;
+ * classic tokens report their scopes in the X-OAuth-Scopes header.
+ */
+
+import { CredentialProvider, HttpChecker, LivenessResult } from './CredentialProvider'
+
+const TOKEN_PATTERN = /^(gh[pousr]_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{82})$/
+
+export class GitHubProvider implements CredentialProvider {
+  readonly name = 'github'
+  readonly apiUrl = 'https://api.github.com'
+
+  checkFormat(value: string): string | null {
+    return TOKEN_PATTERN.test(value)
+      ? null
+      : 'GitHub tokens start with ghp_, gho_, ghu_, ghs_, ghr_ or github_pat_'
+  }
+
+  async checkLiveness(value: string, credentialType: string, http: HttpChecker, apiUrl: string): Promise<LivenessResult> {
+    const response = await http.request({
+      url: `${apiUrl}/user`,
+      headers: {
+        Authorization: `Bearer ${value}`,
+        Accept: 'application/vnd.github+json',
+        'User-Agent': 'cv-context-manager'
+      }
+    })
+
+    if (response.status !== 200) {
+      return { live: false, error: response.body?.message || `GitHub returned status ${response.status}` }
+    }
+
+    const scopes = (response.headers['x-oauth-scopes'] || '')
+      .split(',')
+      .map(scope => scope.trim())
+      .filter(Boolean)
+
+    return {
+      live: true,
+      ...(response.body?.login && { account: response.body.login }),
+      ...(scopes.length > 0 && { scopes })
+    }
+  }
+}
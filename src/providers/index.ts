@@ -0,0 +1,164 @@
+import {
+  CredentialProvider,
+  CredentialValidationError,
+  FetchHttpChecker,
+  HttpChecker,
+  ReplacementCredential
+} from './CredentialProvider'
+import { DigitalOceanProvider } from './DigitalOceanProvider'
+import { CloudflareProvider } from './CloudflareProvider'
+import { AwsProvider } from './AwsProvider'
+import { GitHubProvider } from './GitHubProvider'
+
+export * from './CredentialProvider'
+export * from './DigitalOceanProvider'
+export * from './CloudflareProvider'
+export * from './AwsProvider'
+export * from './GitHubProvider'
+
+// Stored in the credential's metadata.validation
+export interface CredentialValidation {
+  provider: string
+  format: 'valid'
+  liveness: 'live' | 'not_checked' | 'unreachable'
+  checked_at: string
+  account?: string
+  scopes?: string[]
+  note?: string
+}
+
+export interface CredentialProviderRegistryOptions {
+  http?: HttpChecker
+  // Per-provider API base URL overrides (e.g. a mock server in tests)
+  apiUrls?: Record<string, string>
+  // Check liveness on every store unless the caller says otherwise
+  checkLiveness?: boolean
+}
+
+/**
+ * Credential providers by name. Credentials for providers without a plugin
+ * are stored unvalidated.
+ */
+export class CredentialProviderRegistry {
+  private providers: Map<string, CredentialProvider> = new Map()
+  private http: HttpChecker
+
+  constructor(private options: CredentialProviderRegistryOptions = {}) {
+    this.http = options.http || new FetchHttpChecker()
+  }
+
+  register(provider: CredentialProvider): this {
+    this.providers.set(provider.name, provider)
+    return this
+  }
+
+  get(name: string): CredentialProvider | undefined {
+    return this.providers.get(name.toLowerCase())
+  }
+
+  list(): string[] {
+    return Array.from(this.providers.keys())
+  }
+
+  /**
+   * Validate a credential for its provider. Throws a CredentialValidationError
+   * for a malformed credential or one the provider rejects; a provider that
+   * cannot be reached does not block the store. Returns null for providers
+   * without a plugin.
+   */
+  async validate(
+    providerName: string,
+    value: string,
+    credentialType: string,
+    options: { checkLiveness?: boolean } = {}
+  ): Promise<CredentialValidation | null> {
+    const provider = this.get(providerName)
+    if (!provider) return null
+
+    const formatError = provider.checkFormat(value, credentialType)
+    if (formatError) {
+      throw new CredentialValidationError(`Invalid ${provider.name} credential: ${formatError}`, 'INVALID_FORMAT')
+    }
+
+    const validation: CredentialValidation = {
+      provider: provider.name,
+      format: 'valid',
+      liveness: 'not_checked',
+      checked_at: new Date().toISOString()
+    }
+
+    if (!(options.checkLiveness ?? this.options.checkLiveness)) {
+      return validation
+    }
+
+    let result
+    try {
+      result = await provider.checkLiveness(value, credentialType, this.http, this.apiUrl(provider))
+    } catch (error) {
+      return {
+        ...validation,
+        liveness: 'unreachable',
+        note: `Liveness check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
+    }
+
+    if (!result.live) {
+      throw new CredentialValidationError(
+        `${provider.name} rejected the credential: ${result.error || 'not live'}`,
+        'CREDENTIAL_REJECTED'
+      )
+    }
+
+    return {
+      ...validation,
+      liveness: 'live',
+      ...(result.account && { account: result.account }),
+      ...(result.scopes && { scopes: result.scopes }),
+      ...(result.error && { note: result.error })
+    }
+  }
+
+  /**
+   * Whether the provider can mint and revoke credentials for rotation
+   */
+  supportsRotation(providerName: string): boolean {
+    const provider = this.get(providerName)
+    return !!provider?.createReplacement && !!provider.revoke
+  }
+
+  async createReplacement(providerName: string, value: string, credentialType: string): Promise<ReplacementCredential> {
+    const provider = this.rotatingProvider(providerName)
+    return await provider.createReplacement!(value, credentialType, this.http, this.apiUrl(provider))
+  }
+
+  async revoke(providerName: string, value: string, credentialType: string): Promise<void> {
+    const provider = this.rotatingProvider(providerName)
+    await provider.revoke!(value, credentialType, this.http, this.apiUrl(provider))
+  }
+
+  private rotatingProvider(providerName: string): CredentialProvider {
+    if (!this.supportsRotation(providerName)) {
+      throw new CredentialValidationError(`Provider '${providerName}' does not support rotation`, 'ROTATION_UNSUPPORTED')
+    }
+    return this.get(providerName)!
+  }
+
+  private apiUrl(provider: CredentialProvider): string {
+    return (this.options.apiUrls?.[provider.name] || provider.apiUrl).replace(/\/+$/, '')
+  }
+}
+
+/**
+ * Build the registry with the built-in providers. Liveness checks are off
+ * unless CREDENTIAL_LIVENESS_CHECKS is 'true'.
+ */
+export function createCredentialProviderRegistry(env: NodeJS.ProcessEnv = process.env): CredentialProviderRegistry {
+  return new CredentialProviderRegistry({
+    http: new FetchHttpChecker(parseInt(env.CREDENTIAL_LIVENESS_TIMEOUT_MS || '5000')),
+    checkLiveness: env.CREDENTIAL_LIVENESS_CHECKS === 'true'
+  })
+    .register(new DigitalOceanProvider())
+    .register(new CloudflareProvider())
+    .register(new AwsProvider())
+    .register(new GitHubProvider())
+}
@@ -0,0 +1,310 @@
+/**
+ * Anomaly Detection Service
+ *
+ * Watches secret retrievals as they are audited and learns a baseline per
+ * user: how often they retrieve secrets, at which hours (UTC), from which
+ * IP addresses and which keys. Retrievals that stray from it are flagged:
+ * - retrieval_burst: more retrievals within the burst window than allowed
+ * - new_key_spread: first-time access to many keys within the window
+ * - unusual_hour:    an hour of the day the user rarely works in
+ * - new_source_ip:   an IP address never seen for the user
+ * The last three only apply once the baseline has enough events.
+ *
+ * Findings are kept per workspace and shared in global context as security
+ * intelligence with no user, key or address in them. High-severity findings
+ * can lock the user's secret context until an administrator unlocks it.
+ * Retrievals are observed after they are answered, never holding them up.
+ * Baselines live in process memory, so each instance learns its own from
+ * the retrievals it serves and relearns them after a restart; the users
+ * least recently seen are forgotten beyond MAX_BASELINES.
+ */
+
+import crypto from 'crypto'
+import { AuditLogService } from './AuditLogService'
+import { SecretContextService } from './SecretContextService'
+import { GlobalContextService } from './GlobalContextService'
+import { AuditLog, SecurityIntelligenceData } from '../types'
+
+// Audited operations that hand out a secret value
+const ACCESS_OPERATIONS = new Set(['get_credential', 'get_ssh_key', 'get_certificate', 'get_secret_version'])
+// An hour counts as unusual below this share of the user's retrievals
+const UNUSUAL_HOUR_SHARE = 0.02
+const MAX_FINDINGS_PER_WORKSPACE = 100
+const MAX_BASELINES = 10000
+
+export type AccessAnomalyType = 'retrieval_burst' | 'new_key_spread' | 'unusual_hour' | 'new_source_ip'
+
+export interface AccessAnomaly {
+  id: string
+  workspace_id: string
+  user_id: string
+  type: AccessAnomalyType
+  severity: SecurityIntelligenceData['severity']
+  detected_at: string
+  description: string
+  evidence: Record<string, any>
+  // Whether the user's secret context was locked because of it
+  locked: boolean
+}
+
+interface AccessBaseline {
+  events: number
+  hours: number[]
+  ips: Map<string, number>
+  keys: Set<string>
+  // Retrieval times within the burst window
+  recent: number[]
+  // First-time key accesses within the new key window
+  newKeys: Array<{ key: string; at: number }>
+}
+
+const ANOMALY_PROFILES: Record<AccessAnomalyType, {
+  severity: SecurityIntelligenceData['severity']
+  confidence: number
+  mitigation_steps: string[]
+}> = {
+  retrieval_burst: {
+    severity: 'high',
+    confidence: 0.9,
+    mitigation_steps: ['Confirm the retrievals with the user', 'Rotate the secrets retrieved during the burst', 'Review the tokens and sessions used']
+  },
+  new_key_spread: {
+    severity: 'high',
+    confidence: 0.8,
+    mitigation_steps: ['Confirm the user needs the newly accessed secrets', 'Rotate secrets that were not expected to be used']
+  },
+  unusual_hour: {
+    severity: 'low',
+    confidence: 0.4,
+    mitigation_steps: ['Check the retrieval against the user\'s schedule']
+  },
+  new_source_ip: {
+    severity: 'medium',
+    confidence: 0.6,
+    mitigation_steps: ['Check the address belongs to the user or their infrastructure', 'Rotate the secret if the address is unknown']
+  }
+}
+
+export class AnomalyDetectionService {
+  private enabled: boolean
+  private autoLock: boolean
+  private burstThreshold: number
+  private burstWindowMs: number
+  private newKeyThreshold: number
+  private newKeyWindowMs: number
+  private minBaselineEvents: number
+
+  private baselines: Map<string, AccessBaseline> = new Map() // workspace:user -> baseline, least recently seen first
+  private findings: Map<string, AccessAnomaly[]> = new Map() // workspace -> newest last
+  private unsubscribe: (() => void) | null = null
+  // Observations still acting on what they found
+  private pending: Set<Promise<unknown>> = new Set()
+
+  constructor(
+    private auditLog: AuditLogService,
+    private secretContextService: SecretContextService,
+    private globalContextService: GlobalContextService,
+    options: {
+      enabled?: boolean
+      autoLock?: boolean
+      burstThreshold?: number
+      burstWindowSeconds?: number
+      newKeyThreshold?: number
+      newKeyWindowSeconds?: number
+      minBaselineEvents?: number
+    } = {}
+  ) {
+    this.enabled = options.enabled ?? process.env.ANOMALY_DETECTION_ENABLED !== 'false'
+    this.autoLock = options.autoLock ?? process.env.ANOMALY_AUTO_LOCK === 'true'
+    this.burstThreshold = options.burstThreshold ?? parseInt(process.env.ANOMALY_BURST_THRESHOLD || '20')
+    this.burstWindowMs = (options.burstWindowSeconds ?? parseInt(process.env.ANOMALY_BURST_WINDOW_SECONDS || '60')) * 1000
+    this.newKeyThreshold = options.newKeyThreshold ?? parseInt(process.env.ANOMALY_NEW_KEY_THRESHOLD || '5')
+    this.newKeyWindowMs = (options.newKeyWindowSeconds ?? parseInt(process.env.ANOMALY_NEW_KEY_WINDOW_SECONDS || '3600')) * 1000
+    this.minBaselineEvents = options.minBaselineEvents ?? parseInt(process.env.ANOMALY_BASELINE_MIN_EVENTS || '50')
+  }
+
+  /**
+   * Start watching audited retrievals (no-op if disabled)
+   */
+  start(): void {
+    if (this.unsubscribe || !this.enabled) {
+      return
+    }
+    this.unsubscribe = this.auditLog.onAppend(async entry => {
+      const observed = this.observe(entry).catch(error => {
+        console.error('[AnomalyDetection] Failed to observe retrieval:', error)
+      })
+      this.pending.add(observed)
+      observed.finally(() => this.pending.delete(observed))
+    })
+  }
+
+  /**
+   * Wait until the retrievals observed so far have been acted on
+   */
+  async idle(): Promise<void> {
+    await Promise.all(this.pending)
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe()
+      this.unsubscribe = null
+    }
+  }
+
+  /**
+   * Learn from one audit entry and act on any anomalies it shows
+   */
+  async observe(entry: AuditLog): Promise<AccessAnomaly[]> {
+    if (!ACCESS_OPERATIONS.has(entry.operation) || entry.status !== 'success') {
+      return []
+    }
+
+    const baselineKey = `${entry.workspace_id}:${entry.user_id}`
+    const baseline = this.baselines.get(baselineKey) || this.createBaseline()
+    this.baselines.delete(baselineKey)
+    this.baselines.set(baselineKey, baseline)
+    if (this.baselines.size > MAX_BASELINES) {
+      this.baselines.delete(this.baselines.keys().next().value!)
+    }
+
+    const at = new Date(entry.timestamp).getTime()
+    const hour = new Date(at).getUTCHours()
+    // Versions count as the secret they belong to
+    const key = entry.resource_key.replace(/@\d+$/, '')
+    const established = baseline.events >= this.minBaselineEvents
+    const detected: Array<{ type: AccessAnomalyType; description: string; evidence: Record<string, any> }> = []
+
+    baseline.recent = [...baseline.recent.filter(time => time > at - this.burstWindowMs), at]
+    if (baseline.recent.length > this.burstThreshold) {
+      detected.push({
+        type: 'retrieval_burst',
+        description: `${baseline.recent.length} secret retrievals within ${this.burstWindowMs / 1000}s`,
+        evidence: { retrievals: baseline.recent.length, window_seconds: this.burstWindowMs / 1000, threshold: this.burstThreshold }
+      })
+      baseline.recent = []
+    }
+
+    if (established && !baseline.keys.has(key)) {
+      baseline.newKeys = [...baseline.newKeys.filter(access => access.at > at - this.newKeyWindowMs), { key, at }]
+      if (baseline.newKeys.length >= this.newKeyThreshold) {
+        detected.push({
+          type: 'new_key_spread',
+          description: `First access to ${baseline.newKeys.length} secrets within ${this.newKeyWindowMs / 1000}s`,
+          evidence: { keys: baseline.newKeys.map(access => access.key), window_seconds: this.newKeyWindowMs / 1000 }
+        })
+        baseline.newKeys = []
+      }
+    }
+
+    if (established && baseline.hours[hour]! / baseline.events < UNUSUAL_HOUR_SHARE) {
+      detected.push({
+        type: 'unusual_hour',
+        description: `Secret retrieved at ${hour}:00 UTC, outside the user's usual hours`,
+        evidence: { hour_utc: hour, share_of_baseline: baseline.hours[hour]! / baseline.events, key }
+      })
+    }
+
+    if (established && entry.ip_address !== 'system' && !baseline.ips.has(entry.ip_address)) {
+      detected.push({
+        type: 'new_source_ip',
+        description: `Secret retrieved from a new address ${entry.ip_address}`,
+        evidence: { ip_address: entry.ip_address, user_agent: entry.user_agent, known_addresses: baseline.ips.size, key }
+      })
+    }
+
+    baseline.events++
+    baseline.hours[hour]!++
+    baseline.ips.set(entry.ip_address, (baseline.ips.get(entry.ip_address) || 0) + 1)
+    baseline.keys.add(key)
+
+    const anomalies: AccessAnomaly[] = []
+    for (const anomaly of detected) {
+      anomalies.push(await this.report(entry, anomaly.type, anomaly.description, anomaly.evidence))
+    }
+    return anomalies
+  }
+
+  /**
+   * A workspace's findings, newest first
+   */
+  listFindings(workspaceId: string, limit: number = 50): AccessAnomaly[] {
+    return [...(this.findings.get(workspaceId) || [])].reverse().slice(0, limit)
+  }
+
+  // Private helpers
+  private async report(
+    entry: AuditLog,
+    type: AccessAnomalyType,
+    description: string,
+    evidence: Record<string, any>
+  ): Promise<AccessAnomaly> {
+    const profile = ANOMALY_PROFILES[type]
+    const anomaly: AccessAnomaly = {
+      id: crypto.randomUUID(),
+      workspace_id: entry.workspace_id,
+      user_id: entry.user_id,
+      type,
+      severity: profile.severity,
+      detected_at: new Date().toISOString(),
+      description,
+      evidence,
+      locked: false
+    }
+
+    if (this.autoLock && (profile.severity === 'high' || profile.severity === 'critical')) {
+      try {
+        await this.secretContextService.lockSecretContext(
+          entry.workspace_id,
+          entry.user_id,
+          `Anomaly ${type}: ${description}`,
+          'anomaly-detector'
+        )
+        anomaly.locked = true
+      } catch (error) {
+        console.error('[AnomalyDetection] Failed to lock secret context:', error)
+      }
+    }
+
+    const findings = [...(this.findings.get(entry.workspace_id) || []), anomaly]
+    this.findings.set(entry.workspace_id, findings.slice(-MAX_FINDINGS_PER_WORKSPACE))
+
+    await this.globalContextService.recordSecurityIntelligence({
+      threat_type: `secret_access_${type}`,
+      threat_indicators: {
+        // Counts only; keys and addresses stay in the workspace's findings
+        ...(type === 'retrieval_burst' && evidence),
+        ...(type === 'new_key_spread' && { new_keys: evidence.keys.length, window_seconds: evidence.window_seconds }),
+        ...(type === 'unusual_hour' && { hour_utc: evidence.hour_utc }),
+        subject: crypto.createHash('sha256').update(`${entry.workspace_id}:${entry.user_id}`).digest('hex').slice(0, 16),
+        operation: entry.operation
+      },
+      severity: profile.severity,
+      affected_components: ['secret_context'],
+      mitigation_steps: profile.mitigation_steps,
+      detection_rules: {
+        burst_threshold: this.burstThreshold,
+        burst_window_seconds: this.burstWindowMs / 1000,
+        new_key_threshold: this.newKeyThreshold,
+        new_key_window_seconds: this.newKeyWindowMs / 1000,
+        min_baseline_events: this.minBaselineEvents,
+        auto_lock: anomaly.locked
+      }
+    }, { confidence_score: profile.confidence, tags: ['secret-access', 'anomaly', type] })
+
+    console.warn(`[AnomalyDetection] ${type} for user ${entry.user_id} in workspace ${entry.workspace_id}: ${description}`)
+    return anomaly
+  }
+
+  private createBaseline(): AccessBaseline {
+    return {
+      events: 0,
+      hours: new Array(24).fill(0),
+      ips: new Map(),
+      keys: new Set(),
+      recent: [],
+      newKeys: []
+    }
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * Audit Log Service
+ *
+ * Appends audit entries to a per-workspace hash chain: each entry carries a
+ * sequence number, the hash of the entry before it and its own hash over
+ * both. Editing, removing or reordering an entry breaks the chain, which
+ * verification reports. Truncating the newest entries cannot be seen from
+ * the chain alone; compare the reported head hash against one kept elsewhere.
+ *
+ * Entries pick up the IP address and user agent of the HTTP request being
+ * handled, or 'system' when written by a background job.
+ */
+
+import crypto from 'crypto'
+import { DatabaseClient, inTransaction } from '../database/client'
+import { AuditLogRepository } from '../database/AuditLogRepository'
+import { currentRequestContext } from '../utils/requestContext'
+import { AuditLog, AuditLogFilter } from '../types'
+
+// prev_hash of a workspace's first entry
+export const AUDIT_GENESIS_HASH = '0'.repeat(64)
+
+// Attempts to append when another instance takes the same sequence number
+const MAX_APPEND_ATTEMPTS = 5
+const VERIFY_PAGE_SIZE = 500
+const DEFAULT_QUERY_LIMIT = 100
+const MAX_QUERY_LIMIT = 500
+
+export type AuditLogEntry = Omit<AuditLog, 'id' | 'timestamp' | 'ip_address' | 'user_agent' | 'sequence' | 'prev_hash' | 'hash'> &
+  Partial<Pick<AuditLog, 'ip_address' | 'user_agent'>>
+
+export interface AuditChainProblem {
+  sequence: number
+  // gap: entries missing before this one; broken_link: prev_hash does not match
+  // the entry before it; edited: the entry no longer matches its own hash
+  type: 'gap' | 'broken_link' | 'edited'
+  detail: string
+}
+
+export interface AuditChainVerification {
+  workspace_id: string
+  valid: boolean
+  entries_checked: number
+  head_sequence: number
+  head_hash: string
+  problems: AuditChainProblem[]
+}
+
+export interface AuditLogPage {
+  entries: AuditLog[]
+  // Pass back as cursor for the next (older) page; null on the last page
+  next_cursor: string | null
+}
+
+export class AuditLogError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'AuditLogError'
+  }
+}
+
+export class AuditLogService {
+  private repository: AuditLogRepository
+  // Appends per workspace run one at a time within this process
+  private appendQueues: Map<string, Promise<unknown>> = new Map()
+  // Called with every appended entry, e.g. by the anomaly detector
+  private listeners: Set<(entry: AuditLog) => Promise<void>> = new Set()
+
+  constructor(db: DatabaseClient, repository?: AuditLogRepository) {
+    this.repository = repository || new AuditLogRepository(db)
+  }
+
+  /**
+   * Append an entry to its workspace's chain
+   */
+  async append(entry: AuditLogEntry): Promise<AuditLog> {
+    // Appends queued outside a transaction may be waiting for it to end
+    if (inTransaction()) {
+      return await this.notify(await this.appendNext(entry))
+    }
+
+    const previous = this.appendQueues.get(entry.workspace_id) || Promise.resolve()
+    const appended = previous.catch(() => undefined).then(() => this.appendNext(entry))
+    this.appendQueues.set(entry.workspace_id, appended)
+
+    let auditLog: AuditLog
+    try {
+      auditLog = await appended
+    } finally {
+      if (this.appendQueues.get(entry.workspace_id) === appended) {
+        this.appendQueues.delete(entry.workspace_id)
+      }
+    }
+
+    return await this.notify(auditLog)
+  }
+
+  /**
+   * Run a listener after each append; returns a function that removes it
+   */
+  onAppend(listener: (entry: AuditLog) => Promise<void>): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * List a workspace's entries in chain order
+   */
+  async list(workspaceId: string, options: { offset?: number; limit?: number } = {}): Promise<AuditLog[]> {
+    return await this.repository.list(workspaceId, options)
+  }
+
+  /**
+   * Entries matching a filter, newest first, a page at a time. Cursors
+   * stay valid while new entries are appended.
+   */
+  async query(filter: AuditLogFilter, options: { cursor?: string; limit?: number } = {}): Promise<AuditLogPage> {
+    const limit = Math.min(Math.max(options.limit || DEFAULT_QUERY_LIMIT, 1), MAX_QUERY_LIMIT)
+    const beforeSequence = options.cursor ? decodeCursor(options.cursor) : undefined
+
+    const rows = await this.repository.query(filter, {
+      ...(beforeSequence !== undefined && { beforeSequence }),
+      limit: limit + 1
+    })
+    const entries = rows.slice(0, limit)
+
+    return {
+      entries,
+      next_cursor: rows.length > limit ? encodeCursor(entries[entries.length - 1]!.sequence) : null
+    }
+  }
+
+  /**
+   * Walk a workspace's chain and report every gap, broken link and edited entry
+   */
+  async verify(workspaceId: string): Promise<AuditChainVerification> {
+    const problems: AuditChainProblem[] = []
+    let expectedSequence = 1
+    let previousHash = AUDIT_GENESIS_HASH
+    let checked = 0
+
+    for (let offset = 0; ; offset += VERIFY_PAGE_SIZE) {
+      const page = await this.repository.list(workspaceId, { offset, limit: VERIFY_PAGE_SIZE })
+
+      for (const entry of page) {
+        if (entry.sequence !== expectedSequence) {
+          problems.push({
+            sequence: entry.sequence,
+            type: 'gap',
+            detail: entry.sequence > expectedSequence
+              ? `Entries ${expectedSequence}-${entry.sequence - 1} are missing`
+              : `Expected sequence ${expectedSequence}`
+          })
+        }
+        if (entry.prev_hash !== previousHash) {
+          problems.push({ sequence: entry.sequence, type: 'broken_link', detail: 'prev_hash does not match the previous entry' })
+        }
+        if (hashAuditEntry(entry) !== entry.hash) {
+          problems.push({ sequence: entry.sequence, type: 'edited', detail: 'Entry does not match its hash' })
+        }
+
+        expectedSequence = entry.sequence + 1
+        previousHash = entry.hash
+        checked++
+      }
+
+      if (page.length < VERIFY_PAGE_SIZE) break
+    }
+
+    return {
+      workspace_id: workspaceId,
+      valid: problems.length === 0,
+      entries_checked: checked,
+      head_sequence: expectedSequence - 1,
+      head_hash: previousHash,
+      problems
+    }
+  }
+
+  // Private helpers
+  private async notify(auditLog: AuditLog): Promise<AuditLog> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(auditLog)
+      } catch (error) {
+        console.error('Audit log listener failed:', error)
+      }
+    }
+
+    return auditLog
+  }
+
+  private async appendNext(entry: AuditLogEntry): Promise<AuditLog> {
+    const request = currentRequestContext()
+
+    for (let attempt = 1; ; attempt++) {
+      const tip = await this.repository.latest(entry.workspace_id)
+      const chained: Omit<AuditLog, 'hash'> = {
+        ...entry,
+        id: crypto.randomUUID(),
+        ip_address: entry.ip_address || request?.ip_address || 'system',
+        user_agent: entry.user_agent || request?.user_agent || 'cv-context-manager',
+        timestamp: new Date().toISOString(),
+        sequence: (tip?.sequence || 0) + 1,
+        prev_hash: tip?.hash || AUDIT_GENESIS_HASH
+      }
+      const auditLog: AuditLog = { ...chained, hash: hashAuditEntry(chained) }
+
+      try {
+        await this.repository.insert(auditLog)
+        return auditLog
+      } catch (error) {
+        // Another instance appended first; chain onto its entry instead
+        if ((error as { code?: string }).code !== '23505' || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error
+        }
+      }
+    }
+  }
+}
+
+// Cursors name the sequence number a page continues below
+function encodeCursor(sequence: number): string {
+  return Buffer.from(JSON.stringify({ before: sequence })).toString('base64url')
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { before } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (Number.isInteger(before) && before > 0) return before
+  } catch (error) {
+    // Reported below
+  }
+  throw new AuditLogError('Invalid cursor', 'INVALID_CURSOR')
+}
+
+/**
+ * SHA-256 over an entry's fields in a fixed order, including the previous
+ * entry's hash
+ */
+export function hashAuditEntry(entry: Omit<AuditLog, 'hash'>): string {
+  const fields = [
+    entry.id,
+    entry.workspace_id,
+    entry.sequence,
+    entry.prev_hash,
+    entry.user_id,
+    entry.operation,
+    entry.context_type,
+    entry.resource_key,
+    entry.old_value_hash ?? null,
+    entry.new_value_hash ?? null,
+    entry.ip_address,
+    entry.user_agent,
+    // The database may hand the timestamp back in another ISO format
+    new Date(entry.timestamp).toISOString(),
+    entry.status,
+    entry.error_message ?? null
+  ]
+
+  return crypto.createHash('sha256').update(JSON.stringify(fields)).digest('hex')
+}
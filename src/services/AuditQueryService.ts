@@ -0,0 +1,111 @@
+/**
+ * Audit Query Service
+ *
+ * Read access to a workspace's audit log for security reviews: filtered,
+ * cursor-paginated queries and CSV or NDJSON exports, newest entry first.
+ * Only workspace admins and service administrators may read a workspace's
+ * log, and every read, allowed or refused, is audited itself.
+ */
+
+import { AuditLogPage, AuditLogService } from './AuditLogService'
+import { WorkspaceAccessError, WorkspaceSecretService } from './WorkspaceSecretService'
+import { AuditLog, AuditLogFilter } from '../types'
+
+export type AuditExportFormat = 'csv' | 'ndjson'
+
+const EXPORT_PAGE_SIZE = 500
+
+// CSV columns, in order
+const EXPORT_COLUMNS: Array<keyof AuditLog> = [
+  'sequence', 'timestamp', 'user_id', 'operation', 'context_type', 'resource_key', 'status', 'error_message',
+  'ip_address', 'user_agent', 'old_value_hash', 'new_value_hash', 'id', 'prev_hash', 'hash'
+]
+
+export class AuditQueryService {
+  constructor(
+    private auditLog: AuditLogService,
+    private workspaceSecretService: WorkspaceSecretService
+  ) {}
+
+  /**
+   * One page of a workspace's entries. Service administrators (serviceAdmin)
+   * need no workspace role.
+   */
+  async query(
+    userId: string,
+    filter: AuditLogFilter,
+    options: { cursor?: string; limit?: number; serviceAdmin?: boolean } = {}
+  ): Promise<AuditLogPage> {
+    await this.authorize(filter.workspace_id, userId, 'query_audit_log', options.serviceAdmin)
+    const { serviceAdmin, ...page } = options
+    return await this.auditLog.query(filter, page)
+  }
+
+  /**
+   * Every matching entry as CSV (with a header row) or NDJSON lines. Access
+   * is checked before anything is returned; the entries are read a page at
+   * a time as the export is consumed.
+   */
+  async export(
+    userId: string,
+    filter: AuditLogFilter,
+    format: AuditExportFormat,
+    options: { serviceAdmin?: boolean } = {}
+  ): Promise<AsyncIterable<string>> {
+    await this.authorize(filter.workspace_id, userId, 'export_audit_log', options.serviceAdmin)
+    const auditLog = this.auditLog
+
+    return (async function* () {
+      if (format === 'csv') {
+        yield `${EXPORT_COLUMNS.join(',')}\n`
+      }
+
+      let cursor: string | null = null
+      do {
+        const page: AuditLogPage = await auditLog.query(filter, { limit: EXPORT_PAGE_SIZE, ...(cursor && { cursor }) })
+        for (const entry of page.entries) {
+          yield format === 'csv'
+            ? `${EXPORT_COLUMNS.map(column => csvCell(entry[column])).join(',')}\n`
+            : `${JSON.stringify(entry)}\n`
+        }
+        cursor = page.next_cursor
+      } while (cursor)
+    })()
+  }
+
+  // Private helpers
+  private async authorize(workspaceId: string, userId: string, operation: string, serviceAdmin?: boolean): Promise<void> {
+    const role = serviceAdmin ? 'admin' : await this.workspaceSecretService.getRole(workspaceId, userId)
+    const message = role === 'admin' ? undefined : `Workspace role 'admin' required, user has ${role ? `'${role}'` : 'no role'}`
+
+    try {
+      await this.auditLog.append({
+        workspace_id: workspaceId,
+        user_id: userId,
+        operation,
+        context_type: 'secret',
+        resource_key: 'audit_log',
+        status: message ? 'failed' : 'success',
+        ...(message && { error_message: message })
+      })
+    } catch (error) {
+      console.error('Failed to create audit log:', error)
+      // Don't throw - auditing failure shouldn't break the operation
+    }
+
+    if (message) {
+      throw new WorkspaceAccessError(message, 'ACCESS_DENIED')
+    }
+  }
+}
+
+// Quote cells that need it, and keep spreadsheets from running values as formulas
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+
+  let text = String(value)
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,393 @@
+/**
+ * Credential Rotation Service
+ *
+ * Rotates credentials on a schedule for providers whose APIs can mint new
+ * ones. A replacement is created through the provider plugin and verified,
+ * swapped in only if the credential has not changed since the rotation
+ * started, and the old credential is revoked once its grace period is over.
+ * Any rotation can be rehearsed as a dry run, which changes nothing.
+ */
+
+import crypto from 'crypto'
+import { SecretContextService } from './SecretContextService'
+import { CredentialProviderRegistry } from '../providers'
+import { CredentialRotationPolicy } from '../types'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export interface CredentialRotationStep {
+  step: 'verify_current' | 'create_replacement' | 'verify_replacement' | 'swap' | 'revoke_previous'
+  status: 'done' | 'planned' | 'failed'
+  detail?: string
+}
+
+export interface CredentialRotationRun {
+  run_id: string
+  workspace_id: string
+  user_id: string
+  key: string
+  provider: string
+  dry_run: boolean
+  status: 'planned' | 'completed' | 'failed'
+  steps: CredentialRotationStep[]
+  started_at: string
+  completed_at?: string
+  // Version holding the new credential
+  version?: number
+  error_message?: string
+}
+
+export interface CredentialRotationStatus {
+  key: string
+  provider: string
+  rotation_supported: boolean
+  policy: CredentialRotationPolicy | null
+  last_run: CredentialRotationRun | null
+}
+
+export interface RotationScanResult {
+  rotated: number
+  revoked: number
+  failures: Array<{ workspace_id: string; user_id: string; key: string; error: string }>
+  completed_at: string
+}
+
+export class CredentialRotationError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'CredentialRotationError'
+  }
+}
+
+export class CredentialRotationService {
+  private scanIntervalMs: number
+  private timer: NodeJS.Timeout | null = null
+  // Latest run per credential, keyed by workspace, user and key
+  private lastRuns: Map<string, CredentialRotationRun> = new Map()
+
+  constructor(
+    private secretContextService: SecretContextService,
+    private credentialProviders: CredentialProviderRegistry,
+    options: { scanIntervalMs?: number } = {}
+  ) {
+    this.scanIntervalMs = options.scanIntervalMs ?? parseInt(process.env.CREDENTIAL_ROTATION_SCAN_INTERVAL || '3600000')
+  }
+
+  /**
+   * Start rotating due credentials on the configured interval (no-op if the interval is 0)
+   */
+  start(): void {
+    if (this.timer || this.scanIntervalMs <= 0) {
+      return
+    }
+
+    this.timer = setInterval(() => {
+      this.processDueRotations().catch(error => console.error('[CredentialRotation] Scan failed:', error))
+    }, this.scanIntervalMs)
+    this.timer.unref()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Rotate a credential every intervalDays, keeping the replaced one valid
+   * for gracePeriodHours. An existing schedule and pending revocation are kept.
+   */
+  async setPolicy(
+    workspaceId: string,
+    userId: string,
+    key: string,
+    policy: { interval_days: number; grace_period_hours: number }
+  ): Promise<CredentialRotationPolicy> {
+    await this.getRotatableCredential(workspaceId, userId, key)
+
+    if (policy.interval_days <= 0 || policy.grace_period_hours < 0 || policy.grace_period_hours >= policy.interval_days * 24) {
+      throw new CredentialRotationError(
+        'interval_days must be positive and grace_period_hours shorter than the interval',
+        'INVALID_POLICY'
+      )
+    }
+
+    const existing = await this.secretContextService.getRotationPolicy(workspaceId, userId, key)
+    const rotationPolicy: CredentialRotationPolicy = {
+      interval_days: policy.interval_days,
+      grace_period_hours: policy.grace_period_hours,
+      next_rotation_at: new Date(
+        (existing?.last_rotated_at ? new Date(existing.last_rotated_at).getTime() : Date.now()) + policy.interval_days * DAY_MS
+      ).toISOString(),
+      ...(existing?.last_rotated_at && { last_rotated_at: existing.last_rotated_at }),
+      ...(existing?.pending_revocation && { pending_revocation: existing.pending_revocation })
+    }
+
+    await this.secretContextService.setRotationPolicy(workspaceId, userId, key, rotationPolicy)
+    return rotationPolicy
+  }
+
+  /**
+   * Stop rotating a credential. Refused while a replaced credential still
+   * waits to be revoked, so it is not left valid forever.
+   */
+  async removePolicy(workspaceId: string, userId: string, key: string): Promise<boolean> {
+    const policy = await this.secretContextService.getRotationPolicy(workspaceId, userId, key)
+    if (!policy) {
+      return false
+    }
+    if (policy.pending_revocation) {
+      throw new CredentialRotationError(
+        `The previous credential is revoked after ${policy.pending_revocation.revoke_after}; remove the policy after that`,
+        'REVOCATION_PENDING'
+      )
+    }
+
+    return await this.secretContextService.setRotationPolicy(workspaceId, userId, key, null)
+  }
+
+  async getStatus(workspaceId: string, userId: string, key: string): Promise<CredentialRotationStatus> {
+    const credential = await this.findCredential(workspaceId, userId, key)
+
+    return {
+      key,
+      provider: credential.provider,
+      rotation_supported: this.credentialProviders.supportsRotation(credential.provider),
+      policy: await this.secretContextService.getRotationPolicy(workspaceId, userId, key),
+      last_run: this.lastRuns.get(this.runKey(workspaceId, userId, key)) || null
+    }
+  }
+
+  /**
+   * Rotate a credential now, or with dryRun only check the current credential
+   * and report the steps a rotation would take. Workflow failures are
+   * reported in the returned run; a failed rotation leaves the current
+   * credential in place.
+   */
+  async rotate(
+    workspaceId: string,
+    userId: string,
+    key: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<CredentialRotationRun> {
+    const credential = await this.getRotatableCredential(workspaceId, userId, key)
+    const policy = await this.secretContextService.getRotationPolicy(workspaceId, userId, key)
+    if (!policy) {
+      throw new CredentialRotationError(`Credential '${key}' has no rotation policy`, 'NO_POLICY')
+    }
+    if (policy.pending_revocation) {
+      throw new CredentialRotationError(
+        `The previous rotation of '${key}' is still in its grace period until ${policy.pending_revocation.revoke_after}`,
+        'REVOCATION_PENDING'
+      )
+    }
+
+    const run: CredentialRotationRun = {
+      run_id: crypto.randomUUID(),
+      workspace_id: workspaceId,
+      user_id: userId,
+      key,
+      provider: credential.provider,
+      dry_run: !!options.dryRun,
+      status: options.dryRun ? 'planned' : 'completed',
+      steps: [],
+      started_at: new Date().toISOString()
+    }
+
+    try {
+      const currentValue = await this.secretContextService.getCredential(workspaceId, userId, key)
+      if (currentValue === null) {
+        throw new CredentialRotationError(`Credential '${key}' not found`, 'CREDENTIAL_NOT_FOUND')
+      }
+
+      if (options.dryRun) {
+        await this.planRotation(run, credential.type, currentValue, policy)
+      } else {
+        await this.performRotation(run, credential.type, currentValue, policy)
+      }
+    } catch (error) {
+      run.status = 'failed'
+      run.error_message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`[CredentialRotation] Rotation of '${key}' failed:`, run.error_message)
+    }
+
+    run.completed_at = new Date().toISOString()
+    this.lastRuns.set(this.runKey(workspaceId, userId, key), run)
+    return { ...run, steps: [...run.steps] }
+  }
+
+  /**
+   * Revoke replaced credentials whose grace period is over and rotate
+   * credentials whose rotation is due
+   */
+  async processDueRotations(now: Date = new Date()): Promise<RotationScanResult> {
+    const result: RotationScanResult = { rotated: 0, revoked: 0, failures: [], completed_at: '' }
+
+    for await (const secretContext of this.secretContextService.iterateSecretContexts()) {
+      for (const [key, credential] of Object.entries(secretContext.credentials)) {
+        const policy: CredentialRotationPolicy | undefined = credential.metadata?.rotation
+        if (!policy) continue
+
+        const { workspace_id, user_id } = secretContext
+        try {
+          if (policy.pending_revocation) {
+            if (new Date(policy.pending_revocation.revoke_after) <= now) {
+              await this.revokePrevious(workspace_id, user_id, key, credential.provider, credential.credential_type, policy)
+              result.revoked++
+            }
+          } else if (new Date(policy.next_rotation_at) <= now) {
+            const run = await this.rotate(workspace_id, user_id, key)
+            if (run.status === 'failed') {
+              throw new Error(run.error_message)
+            }
+            result.rotated++
+          }
+        } catch (error) {
+          result.failures.push({ workspace_id, user_id, key, error: error instanceof Error ? error.message : 'Unknown error' })
+        }
+      }
+    }
+
+    result.completed_at = new Date().toISOString()
+    return result
+  }
+
+  // Private helper methods
+
+  private async planRotation(
+    run: CredentialRotationRun,
+    credentialType: string,
+    currentValue: string,
+    policy: CredentialRotationPolicy
+  ): Promise<void> {
+    // Rotation authenticates with the current credential, so it has to be live
+    const current = await this.credentialProviders.validate(run.provider, currentValue, credentialType, { checkLiveness: true })
+    if (current?.liveness !== 'live') {
+      throw new CredentialRotationError(`Current credential could not be verified: ${current?.note || 'not live'}`, 'VERIFICATION_FAILED')
+    }
+    run.steps.push({ step: 'verify_current', status: 'done', ...(current.account && { detail: `Account ${current.account}` }) })
+
+    run.steps.push(
+      { step: 'create_replacement', status: 'planned', detail: `Mint a new ${run.provider} credential with the same permissions` },
+      { step: 'verify_replacement', status: 'planned' },
+      { step: 'swap', status: 'planned', detail: `Replace '${run.key}' if it is unchanged` },
+      {
+        step: 'revoke_previous',
+        status: 'planned',
+        detail: `Revoke the current credential ${policy.grace_period_hours} hour(s) after the swap`
+      }
+    )
+  }
+
+  private async performRotation(
+    run: CredentialRotationRun,
+    credentialType: string,
+    currentValue: string,
+    policy: CredentialRotationPolicy
+  ): Promise<void> {
+    const replacement = await this.credentialProviders.createReplacement(run.provider, currentValue, credentialType)
+    run.steps.push({ step: 'create_replacement', status: 'done' })
+
+    // Anything that goes wrong from here on must not leave the new credential behind
+    const discardReplacement = async (reason: string, code: string): Promise<never> => {
+      await this.credentialProviders.revoke(run.provider, replacement.value, credentialType).catch(error =>
+        console.error(`[CredentialRotation] Revoking the unused replacement of '${run.key}' failed:`, error)
+      )
+      throw new CredentialRotationError(reason, code)
+    }
+
+    let validation
+    try {
+      validation = await this.credentialProviders.validate(run.provider, replacement.value, credentialType, { checkLiveness: true })
+    } catch (error) {
+      validation = null
+    }
+    if (validation?.liveness !== 'live') {
+      run.steps.push({ step: 'verify_replacement', status: 'failed' })
+      return await discardReplacement('The replacement credential could not be verified', 'VERIFICATION_FAILED')
+    }
+    run.steps.push({ step: 'verify_replacement', status: 'done' })
+
+    const now = Date.now()
+    const rotation: CredentialRotationPolicy = {
+      interval_days: policy.interval_days,
+      grace_period_hours: policy.grace_period_hours,
+      last_rotated_at: new Date(now).toISOString(),
+      next_rotation_at: new Date(now + policy.interval_days * DAY_MS).toISOString()
+    }
+
+    const swapped = await this.secretContextService.swapCredential(
+      run.workspace_id,
+      run.user_id,
+      run.key,
+      currentValue,
+      replacement.value,
+      { validation, rotation },
+      replacement.expires_at ? new Date(replacement.expires_at) : undefined
+    )
+    if (!swapped) {
+      run.steps.push({ step: 'swap', status: 'failed' })
+      return await discardReplacement(`Credential '${run.key}' changed during the rotation`, 'ROTATION_CONFLICT')
+    }
+    run.steps.push({ step: 'swap', status: 'done', detail: `Version ${swapped.version}` })
+    run.version = swapped.version
+
+    const pending: CredentialRotationPolicy = {
+      ...rotation,
+      pending_revocation: {
+        version: swapped.previous_version,
+        revoke_after: new Date(now + policy.grace_period_hours * HOUR_MS).toISOString()
+      }
+    }
+    await this.secretContextService.setRotationPolicy(run.workspace_id, run.user_id, run.key, pending)
+
+    if (policy.grace_period_hours === 0) {
+      await this.revokePrevious(run.workspace_id, run.user_id, run.key, run.provider, credentialType, pending)
+      run.steps.push({ step: 'revoke_previous', status: 'done' })
+    } else {
+      run.steps.push({ step: 'revoke_previous', status: 'planned', detail: `After ${pending.pending_revocation!.revoke_after}` })
+    }
+  }
+
+  // Revoke the replaced credential kept in the version history, then clear the pending revocation
+  private async revokePrevious(
+    workspaceId: string,
+    userId: string,
+    key: string,
+    provider: string,
+    credentialType: string,
+    policy: CredentialRotationPolicy
+  ): Promise<void> {
+    const { version, revoke_after } = policy.pending_revocation!
+    const previous = await this.secretContextService.getSecretVersion(workspaceId, userId, 'credential', key, version)
+
+    await this.credentialProviders.revoke(provider, previous.value, credentialType)
+
+    const { pending_revocation, ...rest } = policy
+    await this.secretContextService.setRotationPolicy(workspaceId, userId, key, rest)
+    console.log(`[CredentialRotation] Revoked version ${version} of '${key}' (grace period ended ${revoke_after})`)
+  }
+
+  private async findCredential(workspaceId: string, userId: string, key: string): Promise<{ provider: string; type: string }> {
+    const { credentials } = await this.secretContextService.listSecrets(workspaceId, userId)
+    const credential = credentials.find(c => c.key === key)
+    if (!credential) {
+      throw new CredentialRotationError(`Credential '${key}' not found`, 'CREDENTIAL_NOT_FOUND')
+    }
+    return credential
+  }
+
+  private async getRotatableCredential(workspaceId: string, userId: string, key: string): Promise<{ provider: string; type: string }> {
+    const credential = await this.findCredential(workspaceId, userId, key)
+    if (!this.credentialProviders.supportsRotation(credential.provider)) {
+      throw new CredentialRotationError(`Provider '${credential.provider}' cannot mint credentials for rotation`, 'ROTATION_UNSUPPORTED')
+    }
+    return credential
+  }
+
+  private runKey(workspaceId: string, userId: string, key: string): string {
+    return `${workspaceId}:${userId}:${key}`
+  }
+}
@@ -2,10 +2,23 @@
  * Deployment Session Service
  * 
  * Manages deployment session contexts to maintain state across
- * conversation turns and prevent context loss during deployments
+ * conversation turns and prevent context loss during deployments.
+ *
+ * With a context store, every change is written through to the
+ * deployment_sessions table, live sessions are read back by load() at
+ * startup, and sessions created by another instance are fetched on demand.
+ * A write rolled back with its transaction reloads the session from the store.
+ * Writes go from the version they read, so when another instance changed
+ * the session meanwhile the change is applied again to the stored copy.
+ * Changes are made to a copy that replaces the session once it is saved.
+ * Reading a session keeps it alive, but its new expiry is only saved once
+ * the stored one is EXPIRY_REFRESH_MS old.
  */
 
 import { v4 as uuidv4 } from 'uuid'
+import { ContextStore, Row, isConflict, saveVersioned } from '../database/ContextStore'
+import { onRollback } from '../database/client'
+import { retryOnConflict } from '../utils/concurrency'
 import {
   DeploymentSessionContext,
   DeploymentStep,
@@ -14,13 +27,30 @@ import {
   DeploymentTarget
 } from '../types/session'
 
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000
+const EXPIRY_REFRESH_MS = 60 * 60 * 1000
+
 export class DeploymentSessionService {
   private sessions: Map<string, DeploymentSessionContext> = new Map()
   private userSessions: Map<string, Set<string>> = new Map() // user_id -> session_ids
   
-  constructor() {
+  constructor(private store?: ContextStore) {
     // Start cleanup timer for expired sessions
-    setInterval(() => this.cleanupExpiredSessions(), 60000) // Every minute
+    setInterval(() => this.cleanupExpiredSessions(), 60000).unref() // Every minute
+  }
+
+  /**
+   * Load the sessions that have not expired from the store
+   */
+  async load(): Promise<void> {
+    if (!this.store) {
+      return
+    }
+
+    const rows = await this.store.query('deployment_sessions', {
+      range: { expires_at: { gt: new Date().toISOString() } }
+    })
+    rows.forEach(row => this.track(this.fromRow(row)))
   }
 
   /**
@@ -51,19 +81,14 @@ export class DeploymentSessionService {
       deployment_steps: [],
       created_at: now,
       updated_at: now,
-      expires_at: new Date(now.getTime() + 24 * 60 * 60 * 1000), // 24 hours
+      expires_at: new Date(now.getTime() + SESSION_TTL_MS),
       status: 'planning',
       error_count: 0
     }
     
     // Store session
-    this.sessions.set(sessionId, session)
-    
-    // Track user sessions
-    if (!this.userSessions.has(userId)) {
-      this.userSessions.set(userId, new Set())
-    }
-    this.userSessions.get(userId)!.add(sessionId)
+    await this.persist(session)
+    this.track(session)
     
     console.log(`[DeploymentSession] Created session ${sessionId} for deployment to ${deploymentTarget.target_domain}`)
     
@@ -74,87 +99,75 @@ export class DeploymentSessionService {
    * Get a deployment session by ID
    */
   async getSession(sessionId: string): Promise<DeploymentSessionContext | null> {
-    const session = this.sessions.get(sessionId)
-    
-    if (!session) {
-      return null
-    }
+    const session = await this.findSession(sessionId)
     
-    // Check if expired
-    if (session.expires_at && new Date() > session.expires_at) {
-      console.log(`[DeploymentSession] Session ${sessionId} has expired`)
-      this.deleteSession(sessionId)
-      return null
+    if (!session?.expires_at || session.expires_at.getTime() - Date.now() > SESSION_TTL_MS - EXPIRY_REFRESH_MS) {
+      return session
     }
     
-    // Update expiry on access
-    session.expires_at = new Date(Date.now() + 24 * 60 * 60 * 1000)
-    session.updated_at = new Date()
-    
-    return session
+    return await this.extendExpiry(session)
   }
 
   /**
    * Update a deployment session
    */
   async updateSession(sessionId: string, update: SessionUpdate): Promise<DeploymentSessionContext | null> {
-    const session = await this.getSession(sessionId)
-    
-    if (!session) {
-      return null
-    }
-    
-    // Update infrastructure state
-    if (update.infrastructure_state) {
-      session.infrastructure_state = {
-        ...session.infrastructure_state,
-        ...update.infrastructure_state
+    const session = await this.changeSession(sessionId, session => {
+      // Update infrastructure state
+      if (update.infrastructure_state) {
+        session.infrastructure_state = {
+          ...session.infrastructure_state,
+          ...update.infrastructure_state
+        }
       }
-    }
     
-    // Update DNS state
-    if (update.dns_state) {
-      session.dns_state = {
-        ...session.dns_state,
-        ...update.dns_state
+      // Update DNS state
+      if (update.dns_state) {
+        session.dns_state = {
+          ...session.dns_state,
+          ...update.dns_state
+        }
       }
-    }
     
-    // Update service state
-    if (update.service_state) {
-      session.service_state = {
-        ...session.service_state,
-        ...update.service_state
+      // Update service state
+      if (update.service_state) {
+        session.service_state = {
+          ...session.service_state,
+          ...update.service_state
+        }
       }
-    }
     
-    // Update other fields
-    if (update.current_step) {
-      session.current_step = update.current_step
-    }
+      // Update other fields
+      if (update.current_step) {
+        session.current_step = update.current_step
+      }
     
-    if (update.status) {
-      session.status = update.status
-    }
+      if (update.status) {
+        session.status = update.status
+      }
     
-    if (update.error_message) {
-      session.last_error = update.error_message
-      session.error_count++
-    }
+      if (update.error_message) {
+        session.last_error = update.error_message
+        session.error_count++
+      }
     
-    if (update.notes) {
-      session.notes = [...(session.notes || []), ...update.notes]
-    }
+      if (update.notes) {
+        session.notes = [...(session.notes || []), ...update.notes]
+      }
     
-    if (update.metadata) {
-      session.metadata = {
-        ...session.metadata,
-        ...update.metadata
+      if (update.metadata) {
+        session.metadata = {
+          ...session.metadata,
+          ...update.metadata
+        }
       }
-    }
     
-    session.updated_at = new Date()
-    session.expires_at = new Date(Date.now() + 24 * 60 * 60 * 1000)
+      session.updated_at = new Date()
+    })
+
+    if (!session) {
+      return null
+    }
     
     console.log(`[DeploymentSession] Updated session ${sessionId}`, update)
     
@@ -169,23 +182,11 @@ export class DeploymentSessionService {
     stepName: string,
     status: DeploymentStep['status'] = 'pending'
   ): Promise<void> {
-    const session = await this.getSession(sessionId)
+    const session = await this.changeSession(sessionId, session => this.appendStep(session, stepName, status))
     
-    if (!session) {
-      return
-    }
-    
-    const step: DeploymentStep = {
-      step_name: stepName,
-      status,
-      started_at: status === 'in_progress' ? new Date() : undefined
+    if (session) {
+      console.log(`[DeploymentSession] Added step '${stepName}' to session ${sessionId}`)
     }
-    
-    session.deployment_steps.push(step)
-    session.current_step = stepName
-    session.updated_at = new Date()
-    
-    console.log(`[DeploymentSession] Added step '${stepName}' to session ${sessionId}`)
   }
 
   /**
@@ -198,42 +199,46 @@ export class DeploymentSessionService {
     result?: any,
     errorMessage?: string
   ): Promise<void> {
-    const session = await this.getSession(sessionId)
+    let added = false
+    const session = await this.changeSession(sessionId, session => {
+      const step = session.deployment_steps.find(s => s.step_name === stepName)
+      added = !step
+      
+      if (!step) {
+        this.appendStep(session, stepName, status)
+        return
+      }
+      
+      step.status = status
+      
+      if (status === 'in_progress' && !step.started_at) {
+        step.started_at = new Date()
+      }
+      
+      if (status === 'completed' || status === 'failed') {
+        step.completed_at = new Date()
+      }
+      
+      if (result) {
+        step.result = result
+      }
+      
+      if (errorMessage) {
+        step.error_message = errorMessage
+        session.error_count++
+        session.last_error = errorMessage
+      }
+      
+      session.updated_at = new Date()
+    })
     
     if (!session) {
       return
     }
     
-    const step = session.deployment_steps.find(s => s.step_name === stepName)
-    
-    if (!step) {
-      await this.addDeploymentStep(sessionId, stepName, status)
-      return
-    }
-    
-    step.status = status
-    
-    if (status === 'in_progress' && !step.started_at) {
-      step.started_at = new Date()
-    }
-    
-    if (status === 'completed' || status === 'failed') {
-      step.completed_at = new Date()
-    }
-    
-    if (result) {
-      step.result = result
-    }
-    
-    if (errorMessage) {
-      step.error_message = errorMessage
-      session.error_count++
-      session.last_error = errorMessage
-    }
-    
-    session.updated_at = new Date()
-    
-    console.log(`[DeploymentSession] Updated step '${stepName}' to ${status} in session ${sessionId}`)
+    console.log(added
+      ? `[DeploymentSession] Added step '${stepName}' to session ${sessionId}`
+      : `[DeploymentSession] Updated step '${stepName}' to ${status} in session ${sessionId}`)
   }
 
   /**
@@ -308,6 +313,11 @@ export class DeploymentSessionService {
   async deleteSession(sessionId: string): Promise<void> {
     const session = this.sessions.get(sessionId)
     
+    if (this.store) {
+      await this.store.delete('deployment_sessions', sessionId)
+      onRollback(() => this.reload(sessionId))
+    }
+    
     if (session) {
       // Remove from user sessions
       const userSessions = this.userSessions.get(session.user_id)
@@ -331,7 +341,9 @@ export class DeploymentSessionService {
     
     for (const [sessionId, session] of this.sessions.entries()) {
       if (session.expires_at && now > session.expires_at) {
-        this.deleteSession(sessionId)
+        this.deleteSession(sessionId).catch(error => {
+          console.error(`[DeploymentSession] Failed to delete expired session ${sessionId}:`, error)
+        })
         cleanedCount++
       }
     }
@@ -341,6 +353,163 @@ export class DeploymentSessionService {
     }
   }
 
+  /**
+   * Look a session up, from the store if this instance has not seen it
+   */
+  private async findSession(sessionId: string): Promise<DeploymentSessionContext | null> {
+    let session = this.sessions.get(sessionId)
+    
+    if (!session && this.store) {
+      const [row] = await this.store.query('deployment_sessions', { filter: { id: sessionId }, limit: 1 })
+      if (row) {
+        session = this.fromRow(row)
+        this.track(session)
+      }
+    }
+    
+    if (!session) {
+      return null
+    }
+    
+    // Check if expired
+    if (session.expires_at && new Date() > session.expires_at) {
+      console.log(`[DeploymentSession] Session ${sessionId} has expired`)
+      await this.deleteSession(sessionId)
+      return null
+    }
+    
+    return session
+  }
+
+  /**
+   * Save a later expiry for a session that was read. Any other write saves
+   * one as well, so losing to one leaves the session as that write stored it.
+   */
+  private async extendExpiry(session: DeploymentSessionContext): Promise<DeploymentSessionContext | null> {
+    const extended = structuredClone(session)
+    extended.expires_at = new Date(Date.now() + SESSION_TTL_MS)
+    
+    try {
+      await this.persist(extended)
+    } catch (error) {
+      if (!isConflict(error)) throw error
+      await this.reload(session.session_id)
+      return this.sessions.get(session.session_id) || null
+    }
+    
+    this.track(extended)
+    return extended
+  }
+
+  /**
+   * Apply a change to a copy of a session, extend its expiry and save it.
+   * When another instance saved the session since it was read, reload it
+   * from the store and apply the change again.
+   */
+  private async changeSession(
+    sessionId: string,
+    change: (session: DeploymentSessionContext) => void
+  ): Promise<DeploymentSessionContext | null> {
+    return await retryOnConflict(async () => {
+      const current = await this.findSession(sessionId)
+      
+      if (!current) {
+        return null
+      }
+      
+      const session = structuredClone(current)
+      session.expires_at = new Date(Date.now() + SESSION_TTL_MS)
+      change(session)
+      try {
+        await this.persist(session)
+      } catch (error) {
+        if (isConflict(error)) {
+          await this.reload(sessionId)
+        }
+        throw error
+      }
+      
+      this.track(session)
+      return session
+    })
+  }
+
+  private appendStep(session: DeploymentSessionContext, stepName: string, status: DeploymentStep['status']): void {
+    session.deployment_steps.push({
+      step_name: stepName,
+      status,
+      started_at: status === 'in_progress' ? new Date() : undefined
+    })
+    session.current_step = stepName
+    session.updated_at = new Date()
+  }
+
+  private track(session: DeploymentSessionContext): void {
+    this.sessions.set(session.session_id, session)
+    
+    // Track user sessions
+    if (!this.userSessions.has(session.user_id)) {
+      this.userSessions.set(session.user_id, new Set())
+    }
+    this.userSessions.get(session.user_id)!.add(session.session_id)
+  }
+
+  private async persist(session: DeploymentSessionContext): Promise<void> {
+    if (!this.store) {
+      return
+    }
+    
+    const { version, ...data } = session
+    session.version = await saveVersioned(this.store, 'deployment_sessions', {
+      id: session.session_id,
+      workspace_id: session.workspace_id,
+      user_id: session.user_id,
+      conversation_id: session.conversation_id ?? null,
+      status: session.status,
+      data,
+      created_at: session.created_at.toISOString(),
+      updated_at: session.updated_at.toISOString(),
+      expires_at: session.expires_at?.toISOString() ?? null,
+      ...(version !== undefined && { version })
+    })
+    onRollback(() => this.reload(session.session_id))
+  }
+
+  // Replace what memory holds of a session with the stored row, if any
+  private async reload(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId)
+    if (session) {
+      this.userSessions.get(session.user_id)?.delete(sessionId)
+      this.sessions.delete(sessionId)
+    }
+
+    const [row] = await this.store!.query('deployment_sessions', { filter: { id: sessionId }, limit: 1 })
+    if (row) {
+      this.track(this.fromRow(row))
+    }
+  }
+
+  // Dates come back from the stored JSON as strings
+  private fromRow(row: Row): DeploymentSessionContext {
+    const session = row.data as DeploymentSessionContext
+    const toDate = (value?: Date | string): Date | undefined => value ? new Date(value) : undefined
+    
+    return {
+      ...session,
+      version: row.version,
+      created_at: new Date(session.created_at),
+      updated_at: new Date(session.updated_at),
+      expires_at: toDate(session.expires_at),
+      infrastructure_state: { ...session.infrastructure_state, created_at: toDate(session.infrastructure_state.created_at) },
+      service_state: { ...session.service_state, last_health_check: toDate(session.service_state.last_health_check) },
+      deployment_steps: session.deployment_steps.map(step => ({
+        ...step,
+        started_at: toDate(step.started_at),
+        completed_at: toDate(step.completed_at)
+      }))
+    }
+  }
+
   /**
    * Get session summary for logging
    */
@@ -0,0 +1,286 @@
+/**
+ * Expiry Monitor Service
+ *
+ * Periodically scans every secret context for credentials and certificates
+ * that expire within the warning window and notifies their owners through
+ * NotificationService; workspace-shared secrets are announced to the
+ * workspace admins. Each item is announced once per stage (expiring,
+ * expired); notifications held back by quiet hours go out on a later scan.
+ */
+
+import { SecretContextService, WORKSPACE_SECRET_OWNER } from './SecretContextService'
+import { UserContextService } from './UserContextService'
+import { WorkspaceSecretService } from './WorkspaceSecretService'
+import { NotificationService, Notification } from './NotificationService'
+import { timeUntilExpiry } from '../utils/encryption'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface ExpiringSecret {
+  secret_type: 'credential' | 'certificate'
+  key: string
+  expires_at: string
+  expires_in_seconds: number
+  expired: boolean
+}
+
+export interface ExpiryScanResult {
+  scanned_contexts: number
+  expiring_secrets: number
+  notifications_sent: number
+  notifications_deferred: number
+  failures: Array<{ workspace_id: string; user_id: string; error: string }>
+  completed_at: string
+}
+
+export class ExpiryMonitorService {
+  private warningWindowDays: number
+  private scanIntervalMs: number
+  private timer: NodeJS.Timeout | null = null
+  private currentScan: Promise<ExpiryScanResult> | null = null
+  private lastScan: ExpiryScanResult | null = null
+  // Items already announced, keyed by owner, item, expiry and stage
+  private notified: Set<string> = new Set()
+  private workspaceSecretService: WorkspaceSecretService | null = null
+
+  constructor(
+    private secretContextService: SecretContextService,
+    private userContextService: UserContextService,
+    private notificationService: NotificationService = new NotificationService(),
+    options: { warningWindowDays?: number; scanIntervalMs?: number } = {}
+  ) {
+    this.warningWindowDays = options.warningWindowDays ?? parseInt(process.env.SECRET_EXPIRY_WARNING_DAYS || '14')
+    this.scanIntervalMs = options.scanIntervalMs ?? parseInt(process.env.SECRET_EXPIRY_SCAN_INTERVAL || '3600000')
+  }
+
+  /**
+   * Start scanning on the configured interval (no-op if the interval is 0)
+   */
+  start(): void {
+    if (this.timer || this.scanIntervalMs <= 0) {
+      return
+    }
+
+    this.timer = setInterval(() => {
+      this.scan().catch(error => console.error('[ExpiryMonitor] Scan failed:', error))
+    }, this.scanIntervalMs)
+    this.timer.unref()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Scan workspace-shared secrets too, notifying each workspace's admins
+   */
+  setWorkspaceSecrets(workspaceSecretService: WorkspaceSecretService): this {
+    this.workspaceSecretService = workspaceSecretService
+    return this
+  }
+
+  getLastScan(): ExpiryScanResult | null {
+    return this.lastScan ? { ...this.lastScan, failures: [...this.lastScan.failures] } : null
+  }
+
+  /**
+   * List a user's credentials and certificates that expire within the given
+   * number of days (including those already expired), soonest first
+   */
+  async listExpiringSecrets(
+    workspaceId: string,
+    userId: string,
+    withinDays: number = this.warningWindowDays
+  ): Promise<ExpiringSecret[]> {
+    return this.expiringWithin(await this.secretContextService.listSecrets(workspaceId, userId), withinDays)
+  }
+
+  /**
+   * Scan all secret contexts and notify owners about newly expiring items.
+   * Returns the running scan if one is already in progress.
+   */
+  async scan(): Promise<ExpiryScanResult> {
+    if (!this.currentScan) {
+      this.currentScan = this.runScan().finally(() => {
+        this.currentScan = null
+      })
+    }
+
+    return await this.currentScan
+  }
+
+  // Private helper methods
+  private expiringWithin(
+    { credentials, certificates }: Awaited<ReturnType<SecretContextService['listSecrets']>>,
+    withinDays: number
+  ): ExpiringSecret[] {
+    const windowMs = withinDays * DAY_MS
+
+    const candidates: Array<Pick<ExpiringSecret, 'secret_type' | 'key'> & { expires_at?: string }> = [
+      ...credentials.map(credential => ({ secret_type: 'credential' as const, key: credential.key, expires_at: credential.expires_at })),
+      ...certificates.map(certificate => ({ secret_type: 'certificate' as const, key: certificate.key, expires_at: certificate.expires_at }))
+    ]
+
+    const expiring: ExpiringSecret[] = []
+    for (const candidate of candidates) {
+      const remainingMs = timeUntilExpiry(candidate.expires_at)
+      if (remainingMs === null || isNaN(remainingMs) || remainingMs > windowMs) {
+        continue
+      }
+
+      expiring.push({
+        secret_type: candidate.secret_type,
+        key: candidate.key,
+        expires_at: candidate.expires_at!,
+        expires_in_seconds: Math.floor(remainingMs / 1000),
+        expired: remainingMs <= 0
+      })
+    }
+
+    return expiring.sort((a, b) => a.expires_in_seconds - b.expires_in_seconds)
+  }
+
+  private async runScan(): Promise<ExpiryScanResult> {
+    const result: ExpiryScanResult = {
+      scanned_contexts: 0,
+      expiring_secrets: 0,
+      notifications_sent: 0,
+      notifications_deferred: 0,
+      failures: [],
+      completed_at: ''
+    }
+    const stillExpiring: Set<string> = new Set()
+
+    for await (const secretContext of this.secretContextService.iterateSecretContexts()) {
+      const { workspace_id, user_id } = secretContext
+      result.scanned_contexts++
+
+      try {
+        const expiring = await this.listExpiringSecrets(workspace_id, user_id)
+        result.expiring_secrets += expiring.length
+        await this.notifyRecipient(workspace_id, user_id, expiring, 'user', result, stillExpiring)
+      } catch (error) {
+        result.failures.push({
+          workspace_id,
+          user_id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    if (this.workspaceSecretService) {
+      for await (const sharedContext of this.workspaceSecretService.iterateSharedContexts()) {
+        const { workspace_id } = sharedContext
+        result.scanned_contexts++
+
+        try {
+          const expiring = this.expiringWithin(await this.workspaceSecretService.listSharedSecrets(workspace_id), this.warningWindowDays)
+          result.expiring_secrets += expiring.length
+          if (expiring.length === 0) continue
+
+          for (const adminId of await this.workspaceSecretService.listMembers(workspace_id, 'admin')) {
+            try {
+              await this.notifyRecipient(workspace_id, adminId, expiring, 'workspace', result, stillExpiring)
+            } catch (error) {
+              result.failures.push({
+                workspace_id,
+                user_id: adminId,
+                error: error instanceof Error ? error.message : 'Unknown error'
+              })
+            }
+          }
+        } catch (error) {
+          result.failures.push({
+            workspace_id,
+            user_id: WORKSPACE_SECRET_OWNER,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          })
+        }
+      }
+    }
+
+    // Forget items that were renewed or deleted
+    for (const notificationKey of Array.from(this.notified)) {
+      if (!stillExpiring.has(notificationKey)) {
+        this.notified.delete(notificationKey)
+      }
+    }
+
+    result.completed_at = new Date().toISOString()
+    this.lastScan = result
+
+    if (result.notifications_sent > 0 || result.failures.length > 0) {
+      console.log(`[ExpiryMonitor] Scanned ${result.scanned_contexts} contexts: ${result.expiring_secrets} expiring, ` +
+        `${result.notifications_sent} notified, ${result.notifications_deferred} deferred, ${result.failures.length} failures`)
+    }
+
+    return result
+  }
+
+  // Announce the items a recipient has not heard about yet, through their preferred channels
+  private async notifyRecipient(
+    workspaceId: string,
+    userId: string,
+    expiring: ExpiringSecret[],
+    scope: 'user' | 'workspace',
+    result: ExpiryScanResult,
+    stillExpiring: Set<string>
+  ): Promise<void> {
+    const pending = expiring.filter(secret => {
+      const notificationKey = this.notificationKey(workspaceId, userId, scope, secret)
+      stillExpiring.add(notificationKey)
+      return !this.notified.has(notificationKey)
+    })
+    if (pending.length === 0) return
+
+    const userContext = await this.userContextService.getUserContext(workspaceId, userId)
+    const dispatch = await this.notificationService.dispatch(
+      this.buildNotification(workspaceId, userId, scope, pending),
+      userContext?.preferences?.notification_preferences,
+      userContext?.settings
+    )
+
+    if (dispatch.status === 'deferred') {
+      result.notifications_deferred++
+      return
+    }
+
+    for (const failure of dispatch.failures) {
+      result.failures.push({ workspace_id: workspaceId, user_id: userId, error: `${failure.channel}: ${failure.error}` })
+    }
+
+    // Retry on the next scan if every channel failed
+    if (dispatch.status === 'sent' || dispatch.failures.length === 0) {
+      pending.forEach(secret => this.notified.add(this.notificationKey(workspaceId, userId, scope, secret)))
+    }
+    if (dispatch.status === 'sent') {
+      result.notifications_sent++
+    }
+  }
+
+  private buildNotification(workspaceId: string, userId: string, scope: 'user' | 'workspace', secrets: ExpiringSecret[]): Notification {
+    const lines = secrets.map(secret =>
+      `- ${secret.secret_type} '${secret.key}' ${secret.expired ? 'expired' : 'expires'} at ${secret.expires_at}`
+    )
+
+    return {
+      event: 'secret.expiring',
+      workspace_id: workspaceId,
+      user_id: userId,
+      title: scope === 'workspace'
+        ? `${secrets.length} shared workspace secret(s) expiring soon`
+        : `${secrets.length} secret(s) expiring soon`,
+      message: lines.join('\n'),
+      data: { secrets, scope },
+      created_at: new Date().toISOString()
+    }
+  }
+
+  private notificationKey(workspaceId: string, userId: string, scope: 'user' | 'workspace', secret: ExpiringSecret): string {
+    const stage = secret.expired ? 'expired' : 'expiring'
+    return `${workspaceId}:${userId}:${scope}:${secret.secret_type}:${secret.key}:${secret.expires_at}:${stage}`
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Key Rotation Service
+ *
+ * Background job that re-wraps every workspace data key under the current
+ * master key version and re-encrypts every stored secret context, reporting
+ * progress as it goes.
+ */
+
+import crypto from 'crypto'
+import { SecretContextService } from './SecretContextService'
+import { WorkspaceKeyService } from './WorkspaceKeyService'
+import { EncryptionService } from '../utils/encryption'
+
+export interface KeyRotationProgress {
+  job_id: string
+  status: 'idle' | 'running' | 'completed' | 'failed'
+  target_key_version: string
+  rewrapped_data_keys: number
+  total_contexts: number
+  processed_contexts: number
+  reencrypted_values: number
+  failed_values: number
+  errors: Array<{
+    context_id: string
+    field: string
+    key: string
+    error: string
+  }>
+  started_at?: string
+  completed_at?: string
+  error_message?: string
+}
+
+export class KeyRotationService {
+  private progress: KeyRotationProgress
+  private currentRun: Promise<KeyRotationProgress> | null = null
+
+  constructor(
+    private secretContextService: SecretContextService,
+    private workspaceKeys: WorkspaceKeyService,
+    private encryption: EncryptionService
+  ) {
+    this.progress = { ...this.createProgress(''), status: 'idle' }
+    delete this.progress.started_at
+  }
+
+  /**
+   * Start re-encrypting all secret contexts in the background.
+   * Returns the running job if one is already in progress.
+   */
+  start(): KeyRotationProgress {
+    if (this.currentRun) {
+      return this.getProgress()
+    }
+
+    this.progress = this.createProgress(crypto.randomUUID())
+    this.currentRun = this.run().finally(() => {
+      this.currentRun = null
+    })
+
+    return this.getProgress()
+  }
+
+  /**
+   * Wait for the running job (if any) to finish
+   */
+  async waitForCompletion(): Promise<KeyRotationProgress> {
+    if (this.currentRun) {
+      await this.currentRun
+    }
+    return this.getProgress()
+  }
+
+  getProgress(): KeyRotationProgress {
+    return {
+      ...this.progress,
+      errors: [...this.progress.errors]
+    }
+  }
+
+  private async run(): Promise<KeyRotationProgress> {
+    try {
+      const rewrap = await this.workspaceKeys.rewrapAllDataKeys()
+      this.progress.rewrapped_data_keys = rewrap.rewrapped
+      this.progress.failed_values += rewrap.failures.length
+      this.progress.errors.push(
+        ...rewrap.failures.map(failure => ({
+          context_id: `workspace:${failure.workspace_id}`,
+          field: 'workspace_keys',
+          key: failure.key_version,
+          error: failure.error
+        }))
+      )
+
+      this.progress.total_contexts = await this.secretContextService.countSecretContexts()
+
+      for await (const secretContext of this.secretContextService.iterateSecretContexts()) {
+        try {
+          const result = await this.secretContextService.reencryptSecretContext(secretContext)
+          this.progress.reencrypted_values += result.reencrypted
+          this.progress.failed_values += result.failures.length
+          this.progress.errors.push(
+            ...result.failures.map(failure => ({ context_id: secretContext.id, ...failure }))
+          )
+        } catch (error) {
+          this.progress.failed_values++
+          this.progress.errors.push({
+            context_id: secretContext.id,
+            field: '*',
+            key: '*',
+            error: error instanceof Error ? error.message : 'Unknown error'
+          })
+        }
+
+        this.progress.processed_contexts++
+      }
+
+      this.progress.status = 'completed'
+      console.log(
+        `[KeyRotation] Job ${this.progress.job_id} completed: ` +
+        `${this.progress.rewrapped_data_keys} data key(s) re-wrapped to key version ${this.progress.target_key_version}, ` +
+        `${this.progress.reencrypted_values} value(s) re-encrypted, ` +
+        `${this.progress.failed_values} failure(s)`
+      )
+    } catch (error) {
+      this.progress.status = 'failed'
+      this.progress.error_message = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`[KeyRotation] Job ${this.progress.job_id} failed:`, error)
+    }
+
+    this.progress.completed_at = new Date().toISOString()
+    return this.getProgress()
+  }
+
+  private createProgress(jobId: string): KeyRotationProgress {
+    return {
+      job_id: jobId,
+      status: 'running',
+      target_key_version: this.encryption.getKeyVersion(),
+      rewrapped_data_keys: 0,
+      total_contexts: 0,
+      processed_contexts: 0,
+      reencrypted_values: 0,
+      failed_values: 0,
+      errors: [],
+      started_at: new Date().toISOString()
+    }
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Notification Service
+ *
+ * Delivers events to a user through the channels selected in their
+ * notification preferences (email, slack, webhook), holding them back
+ * during the user's quiet hours.
+ */
+
+import { UserPreferences, UserSettings } from '../types'
+
+export type NotificationChannelName = 'email' | 'slack' | 'webhook'
+
+type QuietHours = NonNullable<NonNullable<UserPreferences['notification_preferences']>['quiet_hours']>
+
+export interface Notification {
+  event: string
+  workspace_id: string
+  user_id: string
+  title: string
+  message: string
+  data: Record<string, any>
+  created_at: string
+}
+
+export interface NotificationChannel {
+  send(notification: Notification, settings?: UserSettings): Promise<void>
+}
+
+export interface NotificationDispatchResult {
+  status: 'sent' | 'deferred' | 'skipped'
+  delivered: NotificationChannelName[]
+  failures: Array<{ channel: NotificationChannelName; error: string }>
+}
+
+export class NotificationService {
+  private channels: Partial<Record<NotificationChannelName, NotificationChannel>>
+
+  constructor(channels?: Partial<Record<NotificationChannelName, NotificationChannel>>) {
+    this.channels = channels || NotificationService.channelsFromEnvironment()
+  }
+
+  /**
+   * Build the channels configured through environment variables. Webhook
+   * delivery always uses the endpoints in the user's integration settings.
+   */
+  static channelsFromEnvironment(env: NodeJS.ProcessEnv = process.env): Partial<Record<NotificationChannelName, NotificationChannel>> {
+    return {
+      webhook: new WebhookChannel(),
+      ...(env.SLACK_WEBHOOK_URL && { slack: new SlackChannel(env.SLACK_WEBHOOK_URL) }),
+      ...(env.NOTIFICATION_EMAIL_RELAY_URL && { email: new EmailRelayChannel(env.NOTIFICATION_EMAIL_RELAY_URL) })
+    }
+  }
+
+  /**
+   * Send a notification through the user's preferred channels. Nothing is
+   * sent during quiet hours; the caller should retry later.
+   */
+  async dispatch(
+    notification: Notification,
+    preferences?: UserPreferences['notification_preferences'],
+    settings?: UserSettings,
+    now: Date = new Date()
+  ): Promise<NotificationDispatchResult> {
+    const result: NotificationDispatchResult = { status: 'skipped', delivered: [], failures: [] }
+    const channelNames = preferences?.channels || []
+
+    if (channelNames.length === 0) {
+      return result
+    }
+
+    if (preferences?.quiet_hours && isWithinQuietHours(preferences.quiet_hours, now)) {
+      return { ...result, status: 'deferred' }
+    }
+
+    for (const channelName of channelNames) {
+      const channel = this.channels[channelName]
+      if (!channel) {
+        result.failures.push({ channel: channelName, error: `Channel '${channelName}' is not configured` })
+        continue
+      }
+
+      try {
+        await channel.send(notification, settings)
+        result.delivered.push(channelName)
+      } catch (error) {
+        result.failures.push({
+          channel: channelName,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    result.status = result.delivered.length > 0 ? 'sent' : 'skipped'
+    return result
+  }
+}
+
+/**
+ * Check whether a time falls inside quiet hours ("HH:MM" in the given
+ * timezone). Windows that cross midnight, like 22:00-07:00, are supported.
+ */
+export function isWithinQuietHours(quietHours: QuietHours, now: Date = new Date()): boolean {
+  const start = parseTimeOfDay(quietHours.start)
+  const end = parseTimeOfDay(quietHours.end)
+  if (start === null || end === null || start === end) {
+    return false
+  }
+
+  const current = minutesInTimezone(now, quietHours.timezone)
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end
+}
+
+// Channels
+class WebhookChannel implements NotificationChannel {
+  async send(notification: Notification, settings?: UserSettings): Promise<void> {
+    const endpoints = settings?.integrations?.webhook_endpoints || []
+    if (endpoints.length === 0) {
+      throw new Error('No webhook endpoints configured')
+    }
+
+    for (const endpoint of endpoints) {
+      await postJson(endpoint, notification)
+    }
+  }
+}
+
+class SlackChannel implements NotificationChannel {
+  constructor(private webhookUrl: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await postJson(this.webhookUrl, { text: `*${notification.title}*\n${notification.message}` })
+  }
+}
+
+// Hands the message to an HTTP email relay, which resolves the recipient from the user ID
+class EmailRelayChannel implements NotificationChannel {
+  constructor(private relayUrl: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await postJson(this.relayUrl, {
+      user_id: notification.user_id,
+      workspace_id: notification.workspace_id,
+      subject: notification.title,
+      body: notification.message,
+      event: notification.event
+    })
+  }
+}
+
+// Private helpers
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+
+  if (!response.ok) {
+    throw new Error(`POST ${url} failed with status ${response.status}`)
+  }
+}
+
+function parseTimeOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value)
+  if (!match) return null
+
+  const hours = parseInt(match[1]!)
+  const minutes = parseInt(match[2]!)
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null
+}
+
+function minutesInTimezone(date: Date, timezone: string): number {
+  let parts: Intl.DateTimeFormatPart[]
+  try {
+    parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+      .formatToParts(date)
+  } catch (error) {
+    // Unknown timezone, fall back to UTC
+    return date.getUTCHours() * 60 + date.getUTCMinutes()
+  }
+
+  const hour = parseInt(parts.find(part => part.type === 'hour')?.value || '0')
+  const minute = parseInt(parts.find(part => part.type === 'minute')?.value || '0')
+  return hour * 60 + minute
+}
@@ -1,23 +1,152 @@
 import crypto from 'crypto'
-import { DatabaseClient } from '../database/client'
-import { EncryptionService } from '../utils/encryption'
+import { DatabaseClient, inTransaction } from '../database/client'
+import { isConflict } from '../database/ContextStore'
+import { SecretContextRepository } from '../database/SecretContextRepository'
+import { SecretVersionRepository } from '../database/SecretVersionRepository'
+import { EncryptionService, buildSecretAssociatedData, isExpired } from '../utils/encryption'
+import {
+  CertificateError,
+  parseCertificate,
+  splitPemCertificates,
+  certificateMatchesPrivateKey,
+  validateCertificateChain
+} from '../utils/certificates'
+import { SSHKeyError, ValidatedSSHKeyPair, generateSSHKeyPair, sshFingerprint, validateSSHKeyPair } from '../utils/ssh'
+import { WorkspaceKeyService } from './WorkspaceKeyService'
+import { AuditLogService } from './AuditLogService'
+import { CredentialProviderRegistry, CredentialValidation, CredentialValidationError } from '../providers'
+import { SecretImportError } from '../utils/secretImport'
+import {
+  SecretBundle,
+  SecretBundleEntry,
+  SecretBundleManifest,
+  SecretBundleOpenKey,
+  SecretBundleSealKey,
+  openSecretBundle,
+  sealSecretBundle
+} from '../utils/secretBundle'
+import { currentActor } from '../utils/actorContext'
+import { assertVersion, retryOnConflict } from '../utils/concurrency'
 import { 
   SecretContext, 
   EncryptedCredential, 
   EncryptedSSHKey, 
   EncryptedCertificate,
+  EncryptedValue,
+  CredentialRotationPolicy,
+  SecretVersion,
+  SecretContextLock,
   AuditLog 
 } from '../types'
 
+// Owner ID of the workspace-shared secret contexts (see WorkspaceSecretService)
+export const WORKSPACE_SECRET_OWNER = '00000000-0000-0000-0000-000000000000'
+
+type SecretField = 'api_keys' | 'credentials' | 'ssh_keys' | 'certificates'
+
+// Secret type bound into each value's associated data
+const SECRET_TYPES: Record<SecretField, string> = {
+  api_keys: 'api_key',
+  credentials: 'credential',
+  ssh_keys: 'ssh_key',
+  certificates: 'certificate'
+}
+
+// Secret types that keep a version history, and the map each one lives in
+const VERSIONED_FIELDS: Record<SecretVersion['secret_type'], SecretField> = {
+  credential: 'credentials',
+  ssh_key: 'ssh_keys',
+  certificate: 'certificates'
+}
+
+// Fields that belong to a value's encryption here rather than to the secret
+const SEALING_FIELDS = ['encrypted_data', 'algorithm', 'iv', 'auth_tag', 'key_version', 'aad_version', 'key_scope']
+
+export type SecretVersionSummary = Omit<SecretVersion, 'value'> & { current: boolean }
+
+export interface CredentialImportEntry {
+  key: string
+  value: string
+  credential_type: 'oauth' | 'api_key' | 'password' | 'token'
+  provider: string
+}
+
+// What importing an entry does to the stored credential (never includes values)
+export interface CredentialImportChange {
+  key: string
+  action: 'create' | 'update' | 'unchanged' | 'invalid'
+  credential_type: CredentialImportEntry['credential_type']
+  provider: string
+  // For updates: which of value, credential_type and provider differ
+  changed_fields?: Array<'value' | 'credential_type' | 'provider'>
+  error?: string
+}
+
+export interface SecretBundleImportResult {
+  bundle_id: string
+  imported: Array<{ secret_type: SecretVersion['secret_type']; key: string; action: 'created' | 'replaced' }>
+  skipped: Array<{ secret_type: SecretVersion['secret_type']; key: string; reason: string }>
+}
+
+export class SecretVersionError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'SecretVersionError'
+  }
+}
+
+export class SecretContextLockedError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'SecretContextLockedError'
+  }
+}
+
 export class SecretContextService {
-  private inMemoryStore: Map<string, SecretContext> = new Map()
-  private useInMemoryDB: boolean
+  // Reject values that are not yet bound to their owner with associated data
+  private enforceAssociatedData: boolean
+  // Version retention: newest versions kept per secret, and maximum age of older ones
+  private maxVersions: number
+  private versionRetentionDays: number
+
+  private workspaceKeys: WorkspaceKeyService
+  private repository: SecretContextRepository
+  private versions: SecretVersionRepository
+  private auditLog: AuditLogService
+  // Provider-aware format and liveness checks for stored credentials
+  private credentialProviders?: CredentialProviderRegistry
 
   constructor(
     private db: DatabaseClient,
-    private encryption: EncryptionService
+    private encryption: EncryptionService,
+    workspaceKeys?: WorkspaceKeyService,
+    repository?: SecretContextRepository,
+    versions?: SecretVersionRepository,
+    auditLog?: AuditLogService
   ) {
-    this.useInMemoryDB = process.env.USE_IN_MEMORY_DB === 'true'
+    this.enforceAssociatedData = process.env.ENFORCE_SECRET_AAD === 'true'
+    this.maxVersions = parseInt(process.env.SECRET_VERSION_MAX_COUNT || '10')
+    this.versionRetentionDays = parseInt(process.env.SECRET_VERSION_RETENTION_DAYS || '90')
+    this.workspaceKeys = workspaceKeys || new WorkspaceKeyService(db, encryption)
+    this.repository = repository || new SecretContextRepository(db, encryption)
+    this.versions = versions || new SecretVersionRepository(db)
+    this.auditLog = auditLog || new AuditLogService(db)
+  }
+
+  /**
+   * Validate credentials against their provider's plugin before storing them
+   */
+  setCredentialProviders(credentialProviders: CredentialProviderRegistry | undefined): SecretContextService {
+    this.credentialProviders = credentialProviders
+    return this
+  }
+
+  getCredentialProviders(): CredentialProviderRegistry | undefined {
+    return this.credentialProviders
+  }
+
+  getAuditLog(): AuditLogService {
+    return this.auditLog
   }
 
   /**
@@ -30,44 +159,35 @@ export class SecretContextService {
     value: string,
     credentialType: 'oauth' | 'api_key' | 'password' | 'token',
     provider: string,
-    expiresAt?: Date
-  ): Promise<void> {
-    // Encrypt the credential
+    expiresAt?: Date,
+    // expectedVersion: the secret context version the caller read (If-Match)
+    options: { checkLiveness?: boolean; expectedVersion?: number } = {}
+  ): Promise<CredentialValidation | null> {
+    // Malformed or rejected credentials are refused before anything is stored.
+    // A transaction would hold the store while the provider is asked whether
+    // the credential is live, so within one it is not asked
+    const validation = this.credentialProviders
+      ? await this.credentialProviders.validate(provider, value, credentialType, {
+        checkLiveness: inTransaction() ? false : options.checkLiveness
+      })
+      : null
+
+    // Encrypt the credential with the workspace data key
     const encryptedCredential: EncryptedCredential = {
-      ...this.encryption.encrypt(value, expiresAt),
+      ...await this.sealValue(workspaceId, userId, 'credentials', key, value, expiresAt),
       credential_type: credentialType,
       provider: provider,
       metadata: {
-        created_by: userId,
+        created_by: currentActor() ?? userId,
         provider: provider,
-        key_name: key
-      }
-    }
-
-    // Check if secret context exists for this user/workspace
-    let secretContext = await this.getSecretContext(workspaceId, userId)
-    
-    if (!secretContext) {
-      // Create new secret context
-      secretContext = {
-        id: crypto.randomUUID(),
-        workspace_id: workspaceId,
-        user_id: userId,
-        api_keys: {},
-        credentials: {},
-        ssh_keys: {},
-        certificates: {},
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
+        key_name: key,
+        ...(validation && { validation })
       }
     }
 
-    // Add the credential
-    secretContext.credentials[key] = encryptedCredential
-    secretContext.updated_at = new Date().toISOString()
-
-    // Store in database
-    await this.saveSecretContext(secretContext)
+    // Add the credential and record it in the version history
+    await this.withSecretContext(workspaceId, userId, secretContext =>
+      this.putSecretEntry(secretContext, 'credentials', key, encryptedCredential, userId), options.expectedVersion)
 
     // Audit log
     await this.createAuditLog({
@@ -80,9 +200,7 @@ export class SecretContextService {
       status: 'success'
     })
 
-    // Cache invalidation
-    const cacheKey = this.db.generateCacheKey('secret_context', workspaceId, userId)
-    await this.db.cacheDelete(cacheKey)
+    return validation
   }
 
   /**
@@ -98,11 +216,12 @@ export class SecretContextService {
     if (!secretContext || !secretContext.credentials[key]) {
       return null
     }
+    await this.assertUnlocked(secretContext, 'get_credential', key)
 
     const encryptedCredential = secretContext.credentials[key]
     
     try {
-      const decryptedValue = this.encryption.decrypt(encryptedCredential)
+      const decryptedValue = await this.openValue(workspaceId, userId, 'credentials', key, encryptedCredential)
       
       // Audit log
       await this.createAuditLog({
@@ -132,7 +251,8 @@ export class SecretContextService {
   }
 
   /**
-   * Store SSH key
+   * Store SSH key. The key pair must match; the key type is detected from
+   * the public key and checked against keyType when one is given.
    */
   async storeSSHKey(
     workspaceId: string,
@@ -140,42 +260,78 @@ export class SecretContextService {
     keyName: string,
     privateKey: string,
     publicKey: string,
-    keyType: 'rsa' | 'ed25519' | 'ecdsa',
-    metadata?: { description?: string; allowed_hosts?: string[] }
-  ): Promise<void> {
-    const fingerprint = this.generateSSHFingerprint(publicKey)
+    keyType?: 'rsa' | 'ed25519' | 'ecdsa',
+    metadata?: { description?: string; allowed_hosts?: string[] },
+    // The secret context version the caller read (If-Match)
+    expectedVersion?: number
+  ): Promise<ValidatedSSHKeyPair> {
+    const keyPair = validateSSHKeyPair(privateKey, publicKey)
+
+    if (keyType && keyType !== keyPair.key_type) {
+      throw new SSHKeyError(`Key type '${keyType}' does not match the ${keyPair.key_type} key provided`, 'KEY_TYPE_MISMATCH')
+    }
     
     const encryptedSSHKey: EncryptedSSHKey = {
-      ...this.encryption.encrypt(privateKey),
-      key_type: keyType,
-      public_key: publicKey,
-      fingerprint: fingerprint,
+      ...await this.sealValue(workspaceId, userId, 'ssh_keys', keyName, privateKey),
+      key_type: keyPair.key_type,
+      public_key: keyPair.public_key,
+      fingerprint: keyPair.fingerprint,
       metadata: metadata || {}
     }
 
-    let secretContext = await this.getSecretContext(workspaceId, userId)
-    
-    if (!secretContext) {
-      secretContext = await this.createEmptySecretContext(workspaceId, userId)
-    }
-
-    secretContext.ssh_keys[keyName] = encryptedSSHKey
-    secretContext.updated_at = new Date().toISOString()
-
-    await this.saveSecretContext(secretContext)
+    await this.withSecretContext(workspaceId, userId, secretContext =>
+      this.putSecretEntry(secretContext, 'ssh_keys', keyName, encryptedSSHKey, userId), expectedVersion)
 
-    // Audit and cache invalidation
+    // Audit
     await this.createAuditLog({
       workspace_id: workspaceId,
       user_id: userId,
       operation: 'store_ssh_key',
       context_type: 'secret',
       resource_key: keyName,
+      new_value_hash: keyPair.fingerprint,
       status: 'success'
     })
 
-    const cacheKey = this.db.generateCacheKey('secret_context', workspaceId, userId)
-    await this.db.cacheDelete(cacheKey)
+    return keyPair
+  }
+
+  /**
+   * Generate an SSH key pair inside the service and store it, so the private
+   * key never leaves it. Only the public half is returned.
+   */
+  async generateSSHKey(
+    workspaceId: string,
+    userId: string,
+    keyName: string,
+    keyType: 'rsa' | 'ed25519' | 'ecdsa' = 'ed25519',
+    options: {
+      bits?: number
+      comment?: string
+      metadata?: { description?: string; allowed_hosts?: string[] }
+      overwrite?: boolean
+      expectedVersion?: number
+    } = {}
+  ): Promise<ValidatedSSHKeyPair> {
+    if (!options.overwrite) {
+      const secretContext = await this.getSecretContext(workspaceId, userId)
+      if (secretContext?.ssh_keys[keyName]) {
+        throw new SSHKeyError(`SSH key '${keyName}' already exists`, 'KEY_EXISTS')
+      }
+    }
+
+    const generated = await generateSSHKeyPair(keyType, options.bits, options.comment || keyName)
+
+    return await this.storeSSHKey(
+      workspaceId,
+      userId,
+      keyName,
+      generated.private_key,
+      generated.public_key,
+      keyType,
+      { ...options.metadata, description: options.metadata?.description || `Generated ${keyType} key` },
+      options.expectedVersion
+    )
   }
 
   /**
@@ -191,11 +347,12 @@ export class SecretContextService {
     if (!secretContext || !secretContext.ssh_keys[keyName]) {
       return null
     }
+    await this.assertUnlocked(secretContext, 'get_ssh_key', keyName)
 
     const encryptedSSHKey = secretContext.ssh_keys[keyName]
     
     try {
-      const privateKey = this.encryption.decrypt(encryptedSSHKey)
+      const privateKey = await this.openValue(workspaceId, userId, 'ssh_keys', keyName, encryptedSSHKey)
       
       await this.createAuditLog({
         workspace_id: workspaceId,
@@ -209,7 +366,7 @@ export class SecretContextService {
       return {
         privateKey,
         publicKey: encryptedSSHKey.public_key,
-        fingerprint: encryptedSSHKey.fingerprint
+        fingerprint: this.sshKeyFingerprint(encryptedSSHKey)
       }
     } catch (error) {
       await this.createAuditLog({
@@ -226,6 +383,141 @@ export class SecretContextService {
     }
   }
 
+  /**
+   * Store an X.509 certificate with its optional private key and chain.
+   * Subject, SANs, issuer and expiry are read from the PEM; the sealed value
+   * expires with the certificate.
+   */
+  async storeCertificate(
+    workspaceId: string,
+    userId: string,
+    name: string,
+    certificatePem: string,
+    privateKey?: string,
+    chainPem?: string,
+    certificateType?: 'ssl' | 'client' | 'ca',
+    metadata?: Record<string, any>,
+    // The secret context version the caller read (If-Match)
+    expectedVersion?: number
+  ): Promise<EncryptedCertificate> {
+    const [leaf, ...bundledChain] = splitPemCertificates(certificatePem)
+    if (!leaf) {
+      throw new CertificateError('No PEM certificate found', 'INVALID_CERTIFICATE')
+    }
+
+    const chain = [...bundledChain, ...splitPemCertificates(chainPem || '')]
+    const parsed = parseCertificate(leaf)
+    validateCertificateChain([leaf, ...chain])
+
+    if (privateKey && !certificateMatchesPrivateKey(leaf, privateKey)) {
+      throw new CertificateError(`Private key does not match certificate '${parsed.common_name}'`, 'KEY_MISMATCH')
+    }
+
+    const sealed = await this.sealValue(
+      workspaceId,
+      userId,
+      'certificates',
+      name,
+      JSON.stringify({ certificate: leaf, chain, ...(privateKey && { private_key: privateKey }) }),
+      new Date(parsed.expires_at)
+    )
+
+    const encryptedCertificate: EncryptedCertificate = {
+      ...sealed,
+      certificate_type: certificateType || (parsed.is_ca ? 'ca' : 'ssl'),
+      common_name: parsed.common_name,
+      expires_at: parsed.expires_at,
+      subject_alt_names: parsed.subject_alt_names,
+      issuer: parsed.issuer,
+      serial_number: parsed.serial_number,
+      fingerprint: parsed.fingerprint,
+      not_before: parsed.not_before,
+      has_private_key: Boolean(privateKey),
+      metadata: metadata || {}
+    }
+
+    await this.withSecretContext(workspaceId, userId, secretContext =>
+      this.putSecretEntry(secretContext, 'certificates', name, encryptedCertificate, userId), expectedVersion)
+
+    await this.createAuditLog({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation: 'store_certificate',
+      context_type: 'secret',
+      resource_key: name,
+      new_value_hash: parsed.fingerprint,
+      status: 'success'
+    })
+
+    return encryptedCertificate
+  }
+
+  /**
+   * Get certificate with its decrypted private key and chain.
+   * Expired certificates can no longer be retrieved.
+   */
+  async getCertificate(
+    workspaceId: string,
+    userId: string,
+    name: string
+  ): Promise<{
+    certificate: string
+    privateKey?: string
+    chain: string[]
+    commonName: string
+    subjectAltNames: string[]
+    issuer?: string
+    fingerprint?: string
+    expiresAt: string
+  } | null> {
+    const secretContext = await this.getSecretContext(workspaceId, userId)
+
+    if (!secretContext || !secretContext.certificates[name]) {
+      return null
+    }
+    await this.assertUnlocked(secretContext, 'get_certificate', name)
+
+    const encryptedCertificate = secretContext.certificates[name]
+
+    try {
+      const bundle = JSON.parse(
+        await this.openValue(workspaceId, userId, 'certificates', name, encryptedCertificate)
+      ) as { certificate: string; chain: string[]; private_key?: string }
+
+      await this.createAuditLog({
+        workspace_id: workspaceId,
+        user_id: userId,
+        operation: 'get_certificate',
+        context_type: 'secret',
+        resource_key: name,
+        status: 'success'
+      })
+
+      return {
+        certificate: bundle.certificate,
+        ...(bundle.private_key && { privateKey: bundle.private_key }),
+        chain: bundle.chain,
+        commonName: encryptedCertificate.common_name,
+        subjectAltNames: encryptedCertificate.subject_alt_names || [],
+        ...(encryptedCertificate.issuer && { issuer: encryptedCertificate.issuer }),
+        ...(encryptedCertificate.fingerprint && { fingerprint: encryptedCertificate.fingerprint }),
+        expiresAt: encryptedCertificate.expires_at
+      }
+    } catch (error) {
+      await this.createAuditLog({
+        workspace_id: workspaceId,
+        user_id: userId,
+        operation: 'get_certificate',
+        context_type: 'secret',
+        resource_key: name,
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error'
+      })
+
+      throw new Error(`Failed to decrypt certificate '${name}': ${error}`)
+    }
+  }
+
   /**
    * List available credentials/keys (without decrypting values)
    */
@@ -233,7 +525,7 @@ export class SecretContextService {
     workspaceId: string,
     userId: string
   ): Promise<{
-    credentials: Array<{ key: string; provider: string; type: string; created_at: string; expires_at?: string }>
+    credentials: Array<{ key: string; provider: string; type: string; created_at: string; expires_at?: string; validation?: CredentialValidation }>
     ssh_keys: Array<{ key: string; type: string; fingerprint: string; created_at: string }>
     certificates: Array<{ key: string; type: string; common_name: string; expires_at: string }>
   }> {
@@ -253,13 +545,16 @@ export class SecretContextService {
       if (cred.expires_at) {
         result.expires_at = cred.expires_at
       }
+      if (cred.metadata?.validation) {
+        result.validation = cred.metadata.validation
+      }
       return result
     })
 
     const ssh_keys = Object.entries(secretContext.ssh_keys).map(([key, sshKey]) => ({
       key,
       type: sshKey.key_type,
-      fingerprint: sshKey.fingerprint,
+      fingerprint: this.sshKeyFingerprint(sshKey),
       created_at: sshKey.created_at
     }))
 
@@ -280,44 +575,47 @@ export class SecretContextService {
     workspaceId: string,
     userId: string,
     secretType: 'credential' | 'ssh_key' | 'certificate',
-    key: string
+    key: string,
+    expectedVersion?: number
   ): Promise<boolean> {
-    const secretContext = await this.getSecretContext(workspaceId, userId)
-    
-    if (!secretContext) {
-      return false
-    }
+    const { deleted, oldValueHash } = await this.withSecretContext(workspaceId, userId, async secretContext => {
+      let deleted = false
+      const oldValueHash = secretContext[`${secretType}s`]?.[key] 
+        ? this.encryption.hash(JSON.stringify(secretContext[`${secretType}s`][key]))
+        : undefined
 
-    let deleted = false
-    const oldValueHash = secretContext[`${secretType}s`]?.[key] 
-      ? this.encryption.hash(JSON.stringify(secretContext[`${secretType}s`][key]))
-      : undefined
+      switch (secretType) {
+        case 'credential':
+          if (secretContext.credentials[key]) {
+            delete secretContext.credentials[key]
+            deleted = true
+          }
+          break
+        case 'ssh_key':
+          if (secretContext.ssh_keys[key]) {
+            delete secretContext.ssh_keys[key]
+            deleted = true
+          }
+          break
+        case 'certificate':
+          if (secretContext.certificates[key]) {
+            delete secretContext.certificates[key]
+            deleted = true
+          }
+          break
+      }
 
-    switch (secretType) {
-      case 'credential':
-        if (secretContext.credentials[key]) {
-          delete secretContext.credentials[key]
-          deleted = true
-        }
-        break
-      case 'ssh_key':
-        if (secretContext.ssh_keys[key]) {
-          delete secretContext.ssh_keys[key]
-          deleted = true
-        }
-        break
-      case 'certificate':
-        if (secretContext.certificates[key]) {
-          delete secretContext.certificates[key]
-          deleted = true
-        }
-        break
-    }
+      if (deleted) {
+        secretContext.updated_at = new Date().toISOString()
+        await this.saveSecretContext(secretContext)
+        // The history is kept, so a deleted secret can be rolled back
+        await this.recordVersion(secretContext, secretType, key, null, 'delete', userId)
+      }
 
-    if (deleted) {
-      secretContext.updated_at = new Date().toISOString()
-      await this.saveSecretContext(secretContext)
+      return { deleted, oldValueHash }
+    }, expectedVersion)
 
+    if (deleted) {
       const auditLogData: Partial<AuditLog> = {
         workspace_id: workspaceId,
         user_id: userId,
@@ -330,113 +628,908 @@ export class SecretContextService {
         auditLogData.old_value_hash = oldValueHash
       }
       await this.createAuditLog(auditLogData)
-
-      // Cache invalidation
-      const cacheKey = this.db.generateCacheKey('secret_context', workspaceId, userId)
-      await this.db.cacheDelete(cacheKey)
     }
 
     return deleted
   }
 
-  // Private helper methods
-  private async getSecretContext(workspaceId: string, userId: string): Promise<SecretContext | null> {
-    if (this.useInMemoryDB) {
-      const key = `${workspaceId}:${userId}`
-      return this.inMemoryStore.get(key) || null
-    }
+  /**
+   * Count stored secret contexts across all workspaces
+   */
+  async countSecretContexts(): Promise<number> {
+    return await this.repository.count()
+  }
 
-    // Try cache first
-    const cacheKey = this.db.generateCacheKey('secret_context', workspaceId, userId)
-    const cached = await this.db.cacheGet<SecretContext>(cacheKey)
-    
-    if (cached) {
-      return cached
+  /**
+   * Iterate every stored secret context page by page (for background jobs)
+   */
+  async *iterateSecretContexts(pageSize: number = 100, workspaceId?: string): AsyncGenerator<SecretContext> {
+    yield* this.repository.iterate(pageSize, workspaceId)
+  }
+
+  /**
+   * Re-encrypt every value in a secret context that was sealed under an
+   * older workspace key version, move values still sealed with the master
+   * key under the workspace data key, and bind values written without
+   * associated data to their owner
+   */
+  async reencryptSecretContext(secretContext: SecretContext): Promise<{
+    reencrypted: number
+    failures: Array<{ field: string; key: string; error: string }>
+  }> {
+    try {
+      return await this.reencryptValues(secretContext)
+    } catch (error) {
+      if (!isConflict(error)) throw error
+      // Saved since it was read: re-encrypt the stored context instead
+      return await this.withSecretContext(secretContext.workspace_id, secretContext.user_id, latest => this.reencryptValues(latest))
     }
+  }
 
-    // Query database
-    const results = await this.db.findByUserAndWorkspace<SecretContext>(
-      'secret_contexts',
-      userId,
-      workspaceId
-    )
+  /**
+   * Rotate a workspace's data key and re-encrypt its secrets under the new version
+   */
+  async rotateWorkspaceKey(
+    workspaceId: string,
+    userId: string
+  ): Promise<{ key_version: string; reencrypted: number; failed: number }> {
+    const keyVersion = await this.workspaceKeys.rotateWorkspaceKey(workspaceId)
+    let reencrypted = 0
+    let failed = 0
 
-    const secretContext = results[0] || null
-    
-    // Cache the result
-    if (secretContext) {
-      await this.db.cacheSet(cacheKey, secretContext, 300) // 5 minute cache
+    for await (const secretContext of this.iterateSecretContexts(100, workspaceId)) {
+      const result = await this.reencryptSecretContext(secretContext)
+      reencrypted += result.reencrypted
+      failed += result.failures.length
     }
 
-    return secretContext
+    await this.createAuditLog({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation: 'rotate_workspace_key',
+      context_type: 'secret',
+      resource_key: `workspace_key:${keyVersion}`,
+      status: failed > 0 ? 'failed' : 'success',
+      ...(failed > 0 && { error_message: `${failed} value(s) could not be re-encrypted` })
+    })
+
+    return { key_version: keyVersion, reencrypted, failed }
   }
 
-  private async saveSecretContext(secretContext: SecretContext): Promise<void> {
-    if (this.useInMemoryDB) {
-      const key = `${secretContext.workspace_id}:${secretContext.user_id}`
-      this.inMemoryStore.set(key, secretContext)
-      return
-    }
+  /**
+   * Crypto-shred every secret in a workspace by destroying its data keys
+   */
+  async shredWorkspaceSecrets(workspaceId: string, userId: string): Promise<number> {
+    const destroyedKeys = await this.workspaceKeys.shredWorkspaceKeys(workspaceId)
+    await this.versions.deleteWorkspace(workspaceId)
 
-    // Encrypt the entire secret context before storing
-    const encryptedContext = this.encryption.encryptObject(
-      secretContext,
-      ['credentials', 'ssh_keys', 'certificates']
-    )
+    await this.createAuditLog({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation: 'shred_workspace_keys',
+      context_type: 'secret',
+      resource_key: 'workspace_key:*',
+      status: 'success'
+    })
+
+    await this.repository.invalidateWorkspace(workspaceId)
+
+    return destroyedKeys
+  }
+
+  /**
+   * List the retained versions of a secret, newest first (no values)
+   */
+  async listSecretVersions(
+    workspaceId: string,
+    userId: string,
+    secretType: SecretVersion['secret_type'],
+    key: string
+  ): Promise<SecretVersionSummary[]> {
+    const versions = await this.versions.list(workspaceId, userId, secretType, key)
+
+    return versions.map(({ value, ...version }, index) => ({
+      ...version,
+      current: index === 0 && value !== null
+    }))
+  }
+
+  /**
+   * Get one version of a secret with its decrypted value. For certificates
+   * the value is the sealed JSON bundle of certificate, chain and private key.
+   */
+  async getSecretVersion(
+    workspaceId: string,
+    userId: string,
+    secretType: SecretVersion['secret_type'],
+    key: string,
+    version: number
+  ): Promise<{ version: SecretVersionSummary; value: string }> {
+    const entry = await this.findSecretVersion(workspaceId, userId, secretType, key, version)
+    const latest = (await this.versions.list(workspaceId, userId, secretType, key))[0]
+    const { value: sealedValue, ...summary } = entry
+    await this.assertUnlocked(await this.getSecretContext(workspaceId, userId), 'get_secret_version', `${key}@${version}`)
+
+    try {
+      const value = await this.openValue(workspaceId, userId, VERSIONED_FIELDS[secretType], key, sealedValue!)
+
+      await this.createAuditLog({
+        workspace_id: workspaceId,
+        user_id: userId,
+        operation: 'get_secret_version',
+        context_type: 'secret',
+        resource_key: `${key}@${version}`,
+        status: 'success'
+      })
+
+      return {
+        version: { ...summary, current: latest?.id === entry.id },
+        value
+      }
+    } catch (error) {
+      await this.createAuditLog({
+        workspace_id: workspaceId,
+        user_id: userId,
+        operation: 'get_secret_version',
+        context_type: 'secret',
+        resource_key: `${key}@${version}`,
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error'
+      })
 
-    if (await this.db.findById('secret_contexts', secretContext.id)) {
-      await this.db.update('secret_contexts', secretContext.id, encryptedContext)
-    } else {
-      await this.db.insert('secret_contexts', encryptedContext)
+      throw new Error(`Failed to decrypt version ${version} of ${secretType} '${key}': ${error}`)
     }
   }
 
-  private async createEmptySecretContext(workspaceId: string, userId: string): Promise<SecretContext> {
-    return {
-      id: crypto.randomUUID(),
+  /**
+   * Make an earlier version the current value of a secret again. The
+   * rollback itself is recorded as a new version.
+   */
+  async rollbackSecret(
+    workspaceId: string,
+    userId: string,
+    secretType: SecretVersion['secret_type'],
+    key: string,
+    version: number,
+    // The secret context version the caller read (If-Match)
+    expectedVersion?: number
+  ): Promise<SecretVersionSummary> {
+    const entry = await this.findSecretVersion(workspaceId, userId, secretType, key, version)
+
+    const field = VERSIONED_FIELDS[secretType]
+    const restored = { ...entry.value!, updated_at: new Date().toISOString() }
+    const { oldValue, rollback } = await this.withSecretContext(workspaceId, userId, async secretContext => ({
+      oldValue: (secretContext[field] as Record<string, EncryptedValue>)[key],
+      rollback: await this.putSecretEntry(secretContext, field, key, restored, userId, version)
+    }), expectedVersion)
+
+    await this.createAuditLog({
       workspace_id: workspaceId,
       user_id: userId,
-      api_keys: {},
-      credentials: {},
-      ssh_keys: {},
-      certificates: {},
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString()
-    }
+      operation: 'rollback_secret',
+      context_type: 'secret',
+      resource_key: `${key}@${version}`,
+      ...(oldValue && { old_value_hash: this.encryption.hash(JSON.stringify(oldValue)) }),
+      new_value_hash: this.encryption.hash(JSON.stringify(restored)),
+      status: 'success'
+    })
+
+    const { value, ...summary } = rollback
+    return { ...summary, current: true }
   }
 
-  private async createAuditLog(logData: Partial<AuditLog>): Promise<void> {
-    if (this.useInMemoryDB) {
-      // Skip audit logging in development mode
-      return
+  /**
+   * Import many credentials at once. Every entry is compared with the stored
+   * credential and validated first; with dryRun that comparison is all that
+   * happens (without liveness checks). Otherwise nothing is written unless
+   * every entry is valid, and all changes are saved together and audited as
+   * one import.
+   */
+  async importCredentials(
+    workspaceId: string,
+    userId: string,
+    entries: CredentialImportEntry[],
+    options: { dryRun?: boolean; checkLiveness?: boolean; expectedVersion?: number } = {}
+  ): Promise<{ applied: boolean; changes: CredentialImportChange[] }> {
+    const keys = new Set<string>()
+    for (const entry of entries) {
+      if (keys.has(entry.key)) {
+        throw new SecretImportError(`More than one entry for credential '${entry.key}'`, 'DUPLICATE_KEY')
+      }
+      keys.add(entry.key)
     }
 
-    const auditLog: AuditLog = {
-      id: crypto.randomUUID(),
-      workspace_id: logData.workspace_id!,
-      user_id: logData.user_id!,
-      operation: logData.operation!,
-      context_type: logData.context_type!,
-      resource_key: logData.resource_key!,
-      ip_address: logData.ip_address || 'system',
-      user_agent: logData.user_agent || 'cv-context-manager',
-      timestamp: new Date().toISOString(),
-      status: logData.status!,
-      ...((logData.old_value_hash !== undefined) && { old_value_hash: logData.old_value_hash }),
-      ...((logData.new_value_hash !== undefined) && { new_value_hash: logData.new_value_hash }),
-      ...((logData.error_message !== undefined) && { error_message: logData.error_message })
+    const secretContext = await this.getSecretContext(workspaceId, userId) || await this.createEmptySecretContext(workspaceId, userId)
+    const changes: CredentialImportChange[] = []
+    const validations = new Map<string, CredentialValidation | null>()
+
+    for (const entry of entries) {
+      const change: CredentialImportChange = { key: entry.key, action: 'create', credential_type: entry.credential_type, provider: entry.provider }
+      changes.push(change)
+
+      try {
+        validations.set(entry.key, this.credentialProviders
+          ? await this.credentialProviders.validate(entry.provider, entry.value, entry.credential_type, {
+            checkLiveness: options.dryRun ? false : options.checkLiveness
+          })
+          : null)
+      } catch (error) {
+        if (!(error instanceof CredentialValidationError)) throw error
+        change.action = 'invalid'
+        change.error = error.message
+        continue
+      }
+
+      const existing = secretContext.credentials[entry.key]
+      if (existing) {
+        const changedFields: CredentialImportChange['changed_fields'] = []
+        if (await this.openValue(workspaceId, userId, 'credentials', entry.key, existing) !== entry.value) changedFields.push('value')
+        if (existing.credential_type !== entry.credential_type) changedFields.push('credential_type')
+        if (existing.provider !== entry.provider) changedFields.push('provider')
+
+        change.action = changedFields.length > 0 ? 'update' : 'unchanged'
+        if (changedFields.length > 0) change.changed_fields = changedFields
+      }
     }
 
-    try {
-      await this.db.insert('audit_logs', auditLog)
-    } catch (error) {
-      console.error('Failed to create audit log:', error)
-      // Don't throw - auditing failure shouldn't break the operation
+    const invalid = changes.filter(change => change.action === 'invalid')
+    if (options.dryRun || changes.every(change => change.action === 'unchanged')) {
+      return { applied: false, changes }
     }
+    if (invalid.length > 0) {
+      throw new SecretImportError(
+        `${invalid.length} credential(s) failed validation: ${invalid.map(change => `${change.key}: ${change.error}`).join('; ')}`,
+        'INVALID_ENTRIES'
+      )
+    }
+
+    const imported = entries.filter(entry => changes.find(change => change.key === entry.key)!.action !== 'unchanged')
+    const sealed = new Map<string, EncryptedCredential>()
+    for (const entry of imported) {
+      const validation = validations.get(entry.key)
+      sealed.set(entry.key, {
+        ...await this.sealValue(workspaceId, userId, 'credentials', entry.key, entry.value),
+        credential_type: entry.credential_type,
+        provider: entry.provider,
+        metadata: {
+          created_by: currentActor() ?? userId,
+          provider: entry.provider,
+          key_name: entry.key,
+          source: 'import',
+          ...(validation && { validation })
+        }
+      })
+    }
+
+    // One save for the whole import, then the version history of each
+    // credential and the audit entry, committed together where the store can
+    await this.db.transactionIfSupported(async () => {
+      await this.withSecretContext(workspaceId, userId, async latest => {
+        const changeTypes = new Map(imported.map(entry => [entry.key, latest.credentials[entry.key] ? 'update' : 'create'] as const))
+        sealed.forEach((credential, key) => { latest.credentials[key] = credential })
+        latest.updated_at = new Date().toISOString()
+        await this.saveSecretContext(latest)
+
+        for (const [key, credential] of sealed) {
+          await this.recordVersion(latest, 'credential', key, credential, changeTypes.get(key)!, userId)
+        }
+      }, options.expectedVersion)
+
+      await this.createAuditLog({
+        workspace_id: workspaceId,
+        user_id: userId,
+        operation: 'import_credentials',
+        context_type: 'secret',
+        resource_key: imported.map(entry => entry.key).join(','),
+        status: 'success'
+      })
+    })
+
+    return { applied: true, changes }
+  }
+
+  /**
+   * Export every credential, SSH key and certificate into a bundle encrypted
+   * to the given passphrase or X25519 public key. Expired secrets are left
+   * out and listed in the manifest. Rotation policies stay behind, since
+   * they refer to this instance's version history.
+   */
+  async exportSecretBundle(workspaceId: string, userId: string, sealKey: SecretBundleSealKey): Promise<SecretBundle> {
+    const secretContext = await this.getSecretContext(workspaceId, userId)
+    await this.assertUnlocked(secretContext, 'export_secret_bundle', 'secret_context')
+    const manifest: SecretBundleManifest = {
+      bundle_id: crypto.randomUUID(),
+      created_at: new Date().toISOString(),
+      source: { workspace_id: workspaceId, user_id: userId },
+      entries: [],
+      skipped: []
+    }
+    const entries: SecretBundleEntry[] = []
+
+    for (const [secretType, field] of Object.entries(VERSIONED_FIELDS) as Array<[SecretVersion['secret_type'], SecretField]>) {
+      const values = (secretContext?.[field] || {}) as Record<string, EncryptedValue & Record<string, any>>
+
+      for (const [key, sealed] of Object.entries(values)) {
+        if (isExpired(sealed.expires_at)) {
+          manifest.skipped.push({ secret_type: secretType, key, reason: `Expired at ${sealed.expires_at}` })
+          continue
+        }
+
+        const attributes: Record<string, any> = Object.fromEntries(
+          Object.entries(sealed).filter(([name]) => !SEALING_FIELDS.includes(name))
+        )
+        if (attributes.metadata?.rotation) {
+          const { rotation, ...metadata } = attributes.metadata
+          attributes.metadata = metadata
+        }
+
+        entries.push({ secret_type: secretType, key, value: await this.openValue(workspaceId, userId, field, key, sealed), attributes })
+        manifest.entries.push({ secret_type: secretType, key })
+      }
+    }
+
+    const bundle = sealSecretBundle(manifest, entries, sealKey)
+
+    await this.createAuditLog({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation: 'export_secret_bundle',
+      context_type: 'secret',
+      resource_key: `bundle:${manifest.bundle_id}`,
+      new_value_hash: bundle.payload.sha256,
+      status: 'success'
+    })
+
+    return bundle
+  }
+
+  /**
+   * Import a bundle, sealing every entry under this instance's keys for the
+   * given owner. Existing secrets are kept unless overwrite is set. All
+   * entries are saved together and audited as one import.
+   */
+  async importSecretBundle(
+    workspaceId: string,
+    userId: string,
+    bundle: SecretBundle,
+    openKey: SecretBundleOpenKey,
+    options: { overwrite?: boolean; expectedVersion?: number } = {}
+  ): Promise<SecretBundleImportResult> {
+    let entries: SecretBundleEntry[]
+    try {
+      entries = openSecretBundle(bundle, openKey)
+    } catch (error) {
+      await this.createAuditLog({
+        workspace_id: workspaceId,
+        user_id: userId,
+        operation: 'import_secret_bundle',
+        context_type: 'secret',
+        resource_key: `bundle:${bundle?.manifest?.bundle_id}`,
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Unknown error'
+      })
+      throw error
+    }
+
+    const secretContext = await this.getSecretContext(workspaceId, userId) || await this.createEmptySecretContext(workspaceId, userId)
+    const result: SecretBundleImportResult = {
+      bundle_id: bundle.manifest.bundle_id,
+      imported: [],
+      skipped: [...bundle.manifest.skipped]
+    }
+    const sealed: Array<{ field: SecretField; key: string; entry: EncryptedValue; changeType: SecretVersion['change_type'] }> = []
+
+    for (const { secret_type, key, value, attributes } of entries) {
+      const field = VERSIONED_FIELDS[secret_type]
+      const existing = (secretContext[field] as Record<string, EncryptedValue>)[key]
+
+      if (existing && !options.overwrite) {
+        result.skipped.push({ secret_type, key, reason: 'Already exists' })
+        continue
+      }
+      if (isExpired(attributes.expires_at)) {
+        result.skipped.push({ secret_type, key, reason: `Expired at ${attributes.expires_at}` })
+        continue
+      }
+
+      const expiresAt = attributes.expires_at ? new Date(attributes.expires_at) : undefined
+      sealed.push({
+        field,
+        key,
+        entry: { ...attributes, ...await this.sealValue(workspaceId, userId, field, key, value, expiresAt) },
+        changeType: existing ? 'update' : 'create'
+      })
+      result.imported.push({ secret_type, key, action: existing ? 'replaced' : 'created' })
+    }
+
+    if (sealed.length > 0) {
+      // One save for the whole bundle, then the version history of each secret
+      await this.withSecretContext(workspaceId, userId, async latest => {
+        sealed.forEach(({ field, key, entry }) => { (latest[field] as Record<string, EncryptedValue>)[key] = entry })
+        latest.updated_at = new Date().toISOString()
+        await this.saveSecretContext(latest)
+
+        for (const { field, key, entry, changeType } of sealed) {
+          await this.recordVersion(latest, SECRET_TYPES[field] as SecretVersion['secret_type'], key, entry as SecretVersion['value'], changeType, userId)
+        }
+      }, options.expectedVersion)
+    }
+
+    await this.createAuditLog({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation: 'import_secret_bundle',
+      context_type: 'secret',
+      resource_key: `bundle:${bundle.manifest.bundle_id}`,
+      new_value_hash: bundle.payload.sha256,
+      status: 'success'
+    })
+
+    return result
+  }
+
+  /**
+   * Rotation policy of a credential, or null if it has none (or does not exist)
+   */
+  async getRotationPolicy(workspaceId: string, userId: string, key: string): Promise<CredentialRotationPolicy | null> {
+    const secretContext = await this.getSecretContext(workspaceId, userId)
+    return secretContext?.credentials[key]?.metadata?.rotation || null
+  }
+
+  /**
+   * Set or clear a credential's rotation policy. This only touches metadata,
+   * so no new version is recorded. Returns false if the credential does not exist.
+   */
+  async setRotationPolicy(
+    workspaceId: string,
+    userId: string,
+    key: string,
+    policy: CredentialRotationPolicy | null
+  ): Promise<boolean> {
+    const updated = await this.withSecretContext(workspaceId, userId, async secretContext => {
+      const credential = secretContext.credentials[key]
+      if (!credential) {
+        return false
+      }
+
+      const { rotation, ...metadata } = credential.metadata || {}
+      credential.metadata = policy ? { ...metadata, rotation: policy } : metadata
+      secretContext.updated_at = new Date().toISOString()
+      await this.saveSecretContext(secretContext)
+      return true
+    })
+    if (!updated) {
+      return false
+    }
+
+    await this.createAuditLog({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation: policy ? 'set_rotation_policy' : 'remove_rotation_policy',
+      context_type: 'secret',
+      resource_key: key,
+      status: 'success'
+    })
+
+    return true
+  }
+
+  /**
+   * Replace a credential's value with a rotated one, but only if it still
+   * holds the value the rotation started from. Metadata is kept, updated
+   * with the given fields (e.g. the new rotation policy). Returns the versions
+   * holding the old and new values, or null if the credential changed or
+   * disappeared meanwhile.
+   */
+  async swapCredential(
+    workspaceId: string,
+    userId: string,
+    key: string,
+    expectedValue: string,
+    newValue: string,
+    metadata: Record<string, any>,
+    expiresAt?: Date
+  ): Promise<{ previous_version: number; version: number } | null> {
+    const swapped = await this.withSecretContext(workspaceId, userId, async secretContext => {
+      const current = secretContext.credentials[key]
+      if (!current || await this.openValue(workspaceId, userId, 'credentials', key, current) !== expectedValue) {
+        return null
+      }
+
+      // Credentials stored before versioning have no history yet; record the
+      // old value first so it can still be revoked after the grace period
+      let [previous] = await this.versions.list(workspaceId, userId, 'credential', key)
+      if (!previous) {
+        previous = await this.recordVersion(secretContext, 'credential', key, current, 'create', userId)
+      }
+
+      const rotated: EncryptedCredential = {
+        ...await this.sealValue(workspaceId, userId, 'credentials', key, newValue, expiresAt),
+        credential_type: current.credential_type,
+        provider: current.provider,
+        metadata: { ...current.metadata, ...metadata }
+      }
+      return { previous, version: await this.putSecretEntry(secretContext, 'credentials', key, rotated, userId) }
+    })
+    if (!swapped) {
+      return null
+    }
+
+    await this.createAuditLog({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation: 'rotate_credential',
+      context_type: 'secret',
+      resource_key: key,
+      old_value_hash: this.encryption.hash(expectedValue),
+      new_value_hash: this.encryption.hash(newValue),
+      status: 'success'
+    })
+
+    return { previous_version: swapped.previous.version, version: swapped.version.version }
   }
 
-  private generateSSHFingerprint(publicKey: string): string {
-    // Simple fingerprint generation - in production, use proper SSH key parsing
-    return this.encryption.hash(publicKey).substring(0, 32)
+  /**
+   * Suspend retrieval of the user's secrets until unlocked. Storing and
+   * deleting secrets still work, so compromised values can be replaced.
+   */
+  async lockSecretContext(workspaceId: string, userId: string, reason: string, lockedBy: string): Promise<SecretContextLock> {
+    const { lock, locked } = await this.withSecretContext(workspaceId, userId, async secretContext => {
+      if (secretContext.locked) {
+        return { lock: secretContext.locked, locked: false }
+      }
+
+      secretContext.locked = { locked_at: new Date().toISOString(), locked_by: lockedBy, reason }
+      secretContext.updated_at = new Date().toISOString()
+      await this.saveSecretContext(secretContext)
+      return { lock: secretContext.locked, locked: true }
+    })
+    if (!locked) {
+      return lock
+    }
+
+    await this.createAuditLog({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation: 'lock_secret_context',
+      context_type: 'secret',
+      resource_key: 'secret_context',
+      status: 'success'
+    })
+
+    return lock
+  }
+
+  /**
+   * Lift a lock; returns false when the context was not locked. Run it
+   * with withActor to credit the administrator in the audit log.
+   */
+  async unlockSecretContext(workspaceId: string, userId: string): Promise<boolean> {
+    const unlocked = await this.withSecretContext(workspaceId, userId, async secretContext => {
+      if (!secretContext.locked) {
+        return false
+      }
+
+      secretContext.locked = null
+      secretContext.updated_at = new Date().toISOString()
+      await this.saveSecretContext(secretContext)
+      return true
+    })
+    if (!unlocked) {
+      return false
+    }
+
+    await this.createAuditLog({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation: 'unlock_secret_context',
+      context_type: 'secret',
+      resource_key: 'secret_context',
+      status: 'success'
+    })
+
+    return true
+  }
+
+  /**
+   * Version of the user's secret context (for ETags), or null if none is stored
+   */
+  async getSecretContextVersion(workspaceId: string, userId: string): Promise<number | null> {
+    const secretContext = await this.getSecretContext(workspaceId, userId)
+    return secretContext ? secretContext.version ?? 1 : null
+  }
+
+  async getSecretContextLock(workspaceId: string, userId: string): Promise<SecretContextLock | null> {
+    return (await this.getSecretContext(workspaceId, userId))?.locked || null
+  }
+
+  /**
+   * Record an audit event for an operation performed outside this service
+   * (e.g. lease redemption by an executor)
+   */
+  async recordAuditEvent(logData: Partial<AuditLog>): Promise<void> {
+    await this.createAuditLog(logData)
+  }
+
+  // Private helper methods
+  private async sealValue(
+    workspaceId: string,
+    userId: string,
+    field: SecretField,
+    key: string,
+    plaintext: string,
+    expiresAt?: Date
+  ): Promise<EncryptedValue> {
+    const workspaceEncryption = await this.workspaceKeys.getWorkspaceEncryption(workspaceId)
+    return {
+      ...workspaceEncryption.encrypt(plaintext, expiresAt, this.associatedData(workspaceId, userId, field, key)),
+      key_scope: 'workspace'
+    }
+  }
+
+  private async openValue(
+    workspaceId: string,
+    userId: string,
+    field: SecretField,
+    key: string,
+    encryptedValue: EncryptedValue
+  ): Promise<string> {
+    if (!encryptedValue.aad_version && this.enforceAssociatedData) {
+      throw new Error('Value is not bound to its owner; run the re-encryption job to migrate it')
+    }
+
+    const associatedData = this.associatedData(workspaceId, userId, field, key)
+
+    if (encryptedValue.key_scope === 'workspace') {
+      const workspaceEncryption = await this.workspaceKeys.getWorkspaceEncryption(workspaceId, encryptedValue.key_version || '1')
+      return workspaceEncryption.decrypt(encryptedValue, associatedData)
+    }
+
+    // Values written before envelope encryption are sealed with the master key
+    return this.encryption.decrypt(encryptedValue, associatedData)
+  }
+
+  private associatedData(workspaceId: string, userId: string, field: SecretField, key: string): string {
+    return buildSecretAssociatedData(workspaceId, userId, SECRET_TYPES[field], key)
+  }
+
+  private async getSecretContext(workspaceId: string, userId: string): Promise<SecretContext | null> {
+    return await this.repository.findByUserAndWorkspace(workspaceId, userId)
+  }
+
+  // Refuse (and audit) retrieval from a locked context
+  private async assertUnlocked(secretContext: SecretContext | null, operation: string, resourceKey: string): Promise<void> {
+    const lock = secretContext?.locked
+    if (!secretContext || !lock) {
+      return
+    }
+
+    const message = `Secret context is locked since ${lock.locked_at}: ${lock.reason}`
+    await this.createAuditLog({
+      workspace_id: secretContext.workspace_id,
+      user_id: secretContext.user_id,
+      operation,
+      context_type: 'secret',
+      resource_key: resourceKey,
+      status: 'failed',
+      error_message: message
+    })
+
+    throw new SecretContextLockedError(message, 'CONTEXT_LOCKED')
+  }
+
+  // Saving also drops the cached copy of the context, and fails with
+  // CONFLICT when the context was saved since it was read
+  private async saveSecretContext(secretContext: SecretContext): Promise<void> {
+    await this.repository.save(secretContext)
+  }
+
+  // Re-encrypt and save the values reencryptSecretContext describes
+  private async reencryptValues(secretContext: SecretContext): Promise<{
+    reencrypted: number
+    failures: Array<{ field: string; key: string; error: string }>
+  }> {
+    const failures: Array<{ field: string; key: string; error: string }> = []
+    let reencrypted = 0
+    const workspaceEncryption = await this.workspaceKeys.getWorkspaceEncryption(secretContext.workspace_id)
+
+    for (const field of Object.keys(SECRET_TYPES) as SecretField[]) {
+      const values = secretContext[field] as Record<string, EncryptedValue> | undefined
+      if (!values) continue
+
+      for (const [key, value] of Object.entries(values)) {
+        const isWorkspaceScoped = value.key_scope === 'workspace'
+        if (isWorkspaceScoped && value.aad_version && !workspaceEncryption.needsReencryption(value)) continue
+
+        const associatedData = this.associatedData(secretContext.workspace_id, secretContext.user_id, field, key)
+        try {
+          values[key] = isWorkspaceScoped
+            ? workspaceEncryption.reencrypt(value, associatedData)
+            : { ...this.encryption.resealWith(value, workspaceEncryption, associatedData), key_scope: 'workspace' }
+          reencrypted++
+        } catch (error) {
+          failures.push({
+            field,
+            key,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          })
+        }
+      }
+    }
+
+    if (reencrypted > 0) {
+      secretContext.updated_at = new Date().toISOString()
+      await this.saveSecretContext(secretContext)
+
+      await this.createAuditLog({
+        workspace_id: secretContext.workspace_id,
+        user_id: secretContext.user_id,
+        operation: 'reencrypt_secret_context',
+        context_type: 'secret',
+        resource_key: `key_version:${workspaceEncryption.getKeyVersion()}`,
+        status: failures.length > 0 ? 'failed' : 'success',
+        ...(failures.length > 0 && { error_message: `${failures.length} value(s) could not be re-encrypted` })
+      })
+    }
+
+    return { reencrypted, failures }
+  }
+
+  // Run a change against the stored context (or a new empty one). When
+  // another write saved first, the change runs again on the context that
+  // write left behind, so both end up applied.
+  private async withSecretContext<T>(
+    workspaceId: string,
+    userId: string,
+    change: (secretContext: SecretContext) => Promise<T>,
+    expectedVersion?: number
+  ): Promise<T> {
+    return await retryOnConflict(async () => {
+      const secretContext = await this.getSecretContext(workspaceId, userId)
+      assertVersion(secretContext, expectedVersion)
+      return await change(secretContext || await this.createEmptySecretContext(workspaceId, userId))
+    })
+  }
+
+  private async createEmptySecretContext(workspaceId: string, userId: string): Promise<SecretContext> {
+    return {
+      id: crypto.randomUUID(),
+      workspace_id: workspaceId,
+      user_id: userId,
+      api_keys: {},
+      credentials: {},
+      ssh_keys: {},
+      certificates: {},
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }
+  }
+
+  // Set an entry, save the context and record the new version
+  private async putSecretEntry(
+    secretContext: SecretContext,
+    field: SecretField,
+    key: string,
+    entry: EncryptedValue,
+    changedBy: string,
+    restoredVersion?: number
+  ): Promise<SecretVersion> {
+    const entries = secretContext[field] as Record<string, EncryptedValue>
+    const changeType = restoredVersion !== undefined ? 'rollback' : entries[key] ? 'update' : 'create'
+
+    entries[key] = entry
+    secretContext.updated_at = new Date().toISOString()
+    await this.saveSecretContext(secretContext)
+
+    return await this.recordVersion(
+      secretContext,
+      SECRET_TYPES[field] as SecretVersion['secret_type'],
+      key,
+      entry as SecretVersion['value'],
+      changeType,
+      changedBy,
+      restoredVersion
+    )
+  }
+
+  private async recordVersion(
+    secretContext: SecretContext,
+    secretType: SecretVersion['secret_type'],
+    key: string,
+    value: SecretVersion['value'],
+    changeType: SecretVersion['change_type'],
+    changedBy: string,
+    restoredVersion?: number
+  ): Promise<SecretVersion> {
+    const history = await this.versions.list(secretContext.workspace_id, secretContext.user_id, secretType, key)
+
+    const version: SecretVersion = {
+      id: crypto.randomUUID(),
+      workspace_id: secretContext.workspace_id,
+      user_id: secretContext.user_id,
+      secret_type: secretType,
+      key,
+      version: (history[0]?.version || 0) + 1,
+      change_type: changeType,
+      value,
+      changed_by: currentActor() ?? changedBy,
+      ...(restoredVersion !== undefined && { restored_version: restoredVersion }),
+      created_at: new Date().toISOString()
+    }
+
+    await this.versions.insert(version)
+    await this.pruneVersions([version, ...history])
+
+    return version
+  }
+
+  // Retention: keep the newest maxVersions, and drop older ones past the retention age
+  private async pruneVersions(history: SecretVersion[]): Promise<void> {
+    const cutoff = Date.now() - this.versionRetentionDays * 24 * 60 * 60 * 1000
+
+    const expired = history.filter((version, index) =>
+      index > 0 && (index >= this.maxVersions || new Date(version.created_at).getTime() < cutoff)
+    )
+
+    if (expired.length > 0) {
+      await this.versions.delete(expired)
+    }
+  }
+
+  private async findSecretVersion(
+    workspaceId: string,
+    userId: string,
+    secretType: SecretVersion['secret_type'],
+    key: string,
+    version: number
+  ): Promise<SecretVersion> {
+    const entry = await this.versions.find(workspaceId, userId, secretType, key, version)
+
+    if (!entry) {
+      throw new SecretVersionError(`Version ${version} of ${secretType} '${key}' not found`, 'VERSION_NOT_FOUND')
+    }
+    if (!entry.value) {
+      throw new SecretVersionError(`Version ${version} of ${secretType} '${key}' is a deletion`, 'VERSION_DELETED')
+    }
+
+    return entry
+  }
+
+  private async createAuditLog(logData: Partial<AuditLog>): Promise<void> {
+    try {
+      await this.auditLog.append({
+        workspace_id: logData.workspace_id!,
+        // Credit the acting user; shared secrets are marked as such
+        user_id: currentActor() ?? logData.user_id!,
+        operation: logData.operation!,
+        context_type: logData.context_type!,
+        resource_key: logData.user_id === WORKSPACE_SECRET_OWNER ? `workspace:${logData.resource_key}` : logData.resource_key!,
+        status: logData.status!,
+        ...((logData.ip_address !== undefined) && { ip_address: logData.ip_address }),
+        ...((logData.user_agent !== undefined) && { user_agent: logData.user_agent }),
+        ...((logData.old_value_hash !== undefined) && { old_value_hash: logData.old_value_hash }),
+        ...((logData.new_value_hash !== undefined) && { new_value_hash: logData.new_value_hash }),
+        ...((logData.error_message !== undefined) && { error_message: logData.error_message })
+      })
+    } catch (error) {
+      // Within a transaction the change must not commit without its audit entry
+      if (inTransaction()) throw error
+
+      console.error('Failed to create audit log:', error)
+      // Don't throw - auditing failure shouldn't break the operation
+    }
+  }
+
+  // Keys stored before proper parsing carry a truncated hash instead of a SHA256: fingerprint
+  private sshKeyFingerprint(sshKey: EncryptedSSHKey): string {
+    if (sshKey.fingerprint.startsWith('SHA256:')) {
+      return sshKey.fingerprint
+    }
+
+    try {
+      return sshFingerprint(sshKey.public_key)
+    } catch (error) {
+      return sshKey.fingerprint
+    }
   }
 }
\ No newline at end of file
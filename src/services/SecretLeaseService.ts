@@ -0,0 +1,347 @@
+/**
+ * Secret Lease Service
+ *
+ * Short-lived, opaque handles for credentials, so agents can pass a secret
+ * along without the plaintext ever entering the conversation transcript.
+ * A lease is bound to one session and one purpose; only a trusted executor
+ * redeems it, within its TTL and use count. Handles are held as SHA-256
+ * digests only; one created within a transaction that rolls back is dropped
+ * with its audit entry.
+ *
+ * With a context store, leases are kept in the secret_leases table and every
+ * redemption counts its use on the stored row, so any instance can redeem
+ * or revoke a lease another one issued. Without one they live in process
+ * memory and only the issuing instance knows them.
+ */
+
+import crypto from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import { SecretContextService } from './SecretContextService'
+import { onRollback } from '../database/client'
+import { ContextStore, Row } from '../database/ContextStore'
+import { retryOnConflict } from '../utils/concurrency'
+
+const DEFAULT_TTL_SECONDS = 300
+const MAX_TTL_SECONDS = 3600
+const DEFAULT_MAX_USES = 1
+const MAX_USES_LIMIT = 10
+// Keep finished leases around for a while so redemptions report why they failed
+const RETENTION_MS = 60 * 60 * 1000
+
+export interface SecretLease {
+  lease_id: string
+  workspace_id: string
+  user_id: string
+  key: string
+  session_id: string
+  purpose: string
+  created_at: string
+  expires_at: string
+  max_uses: number
+  uses: number
+  revoked_at?: string
+}
+
+export interface SecretLeaseRedemption {
+  lease_id: string
+  key: string
+  value: string
+  remaining_uses: number
+  expires_at: string
+}
+
+export class SecretLeaseError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'SecretLeaseError'
+  }
+}
+
+export class SecretLeaseService {
+  // Without a store only
+  private leases: Map<string, SecretLease> = new Map() // handle digest -> lease
+  private leaseIds: Map<string, string> = new Map() // lease_id -> handle digest
+
+  constructor(private secretContextService: SecretContextService, private store?: ContextStore) {
+    // Drop leases that expired more than an hour ago
+    setInterval(() => {
+      this.cleanupExpiredLeases().catch(error => {
+        console.error('[SecretLease] Failed to clean up expired leases:', error)
+      })
+    }, 60000).unref() // Every minute
+  }
+
+  /**
+   * Issue a lease for a stored credential. The handle is returned once and
+   * cannot be recovered afterwards.
+   */
+  async createLease(
+    workspaceId: string,
+    userId: string,
+    key: string,
+    options: { session_id: string; purpose: string; ttl_seconds?: number; max_uses?: number }
+  ): Promise<{ lease_handle: string; lease: SecretLease }> {
+    const ttlSeconds = options.ttl_seconds ?? DEFAULT_TTL_SECONDS
+    const maxUses = options.max_uses ?? DEFAULT_MAX_USES
+
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < 1 || ttlSeconds > MAX_TTL_SECONDS) {
+      throw new SecretLeaseError(`Lease TTL must be between 1 and ${MAX_TTL_SECONDS} seconds`, 'INVALID_TTL')
+    }
+    if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_USES_LIMIT) {
+      throw new SecretLeaseError(`Lease max uses must be between 1 and ${MAX_USES_LIMIT}`, 'INVALID_MAX_USES')
+    }
+
+    const secrets = await this.secretContextService.listSecrets(workspaceId, userId)
+    if (!secrets.credentials.some(credential => credential.key === key)) {
+      throw new SecretLeaseError(`Credential '${key}' not found`, 'CREDENTIAL_NOT_FOUND')
+    }
+
+    const now = new Date()
+    const leaseHandle = `lease_${crypto.randomBytes(32).toString('base64url')}`
+    const lease: SecretLease = {
+      lease_id: uuidv4(),
+      workspace_id: workspaceId,
+      user_id: userId,
+      key,
+      session_id: options.session_id,
+      purpose: options.purpose,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + ttlSeconds * 1000).toISOString(),
+      max_uses: maxUses,
+      uses: 0
+    }
+
+    await this.saveLease(this.digest(leaseHandle), lease)
+
+    await this.secretContextService.recordAuditEvent({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation: 'create_secret_lease',
+      context_type: 'secret',
+      resource_key: this.auditResource(lease),
+      status: 'success'
+    })
+
+    return { lease_handle: leaseHandle, lease: { ...lease } }
+  }
+
+  /**
+   * Redeem a lease on behalf of a trusted executor and return the plaintext.
+   * Every attempt, successful or not, is written to the audit log.
+   */
+  async redeemLease(
+    leaseHandle: string,
+    executor: { executor_id: string; workspace_id: string; session_id: string; purpose: string; ip_address?: string; user_agent?: string }
+  ): Promise<SecretLeaseRedemption> {
+    const digest = this.digest(leaseHandle)
+    let visibleLease: SecretLease | undefined
+
+    try {
+      // Count the use before decrypting so concurrent redemptions can't exceed
+      // max_uses; when another one counted first, check the lease again
+      const lease = await retryOnConflict(async () => {
+        const found = await this.findLease(digest)
+        // Leases of other workspaces are indistinguishable from unknown handles
+        const visible = visibleLease = found && found.workspace_id === executor.workspace_id ? found : undefined
+
+        if (!visible) {
+          throw new SecretLeaseError('Lease not found', 'LEASE_NOT_FOUND')
+        }
+        if (visible.revoked_at) {
+          throw new SecretLeaseError('Lease has been revoked', 'LEASE_REVOKED')
+        }
+        if (new Date(visible.expires_at) <= new Date()) {
+          throw new SecretLeaseError('Lease has expired', 'LEASE_EXPIRED')
+        }
+        if (visible.uses >= visible.max_uses) {
+          throw new SecretLeaseError('Lease has no uses left', 'LEASE_EXHAUSTED')
+        }
+        if (visible.session_id !== executor.session_id || visible.purpose !== executor.purpose) {
+          throw new SecretLeaseError('Lease was issued for a different session or purpose', 'LEASE_SCOPE_MISMATCH')
+        }
+
+        await this.countUse(visible)
+        return visible
+      })
+
+      const value = await this.secretContextService.getCredential(
+        lease.workspace_id,
+        lease.user_id,
+        lease.key
+      )
+      if (value === null) {
+        throw new SecretLeaseError(`Credential '${lease.key}' no longer exists`, 'CREDENTIAL_NOT_FOUND')
+      }
+
+      await this.recordRedemption(executor, lease, 'success')
+
+      return {
+        lease_id: lease.lease_id,
+        key: lease.key,
+        value,
+        remaining_uses: lease.max_uses - lease.uses,
+        expires_at: lease.expires_at
+      }
+    } catch (error) {
+      await this.recordRedemption(
+        executor,
+        visibleLease,
+        'failed',
+        error instanceof Error ? error.message : 'Unknown error'
+      )
+      throw error
+    }
+  }
+
+  /**
+   * Revoke a lease before it expires. Returns false if the lease is unknown.
+   */
+  async revokeLease(workspaceId: string, userId: string, leaseId: string): Promise<boolean> {
+    const lease = await this.findLeaseById(leaseId)
+
+    if (!lease || lease.workspace_id !== workspaceId || lease.user_id !== userId) {
+      return false
+    }
+
+    if (!lease.revoked_at) {
+      await this.revoke(lease)
+
+      await this.secretContextService.recordAuditEvent({
+        workspace_id: workspaceId,
+        user_id: userId,
+        operation: 'revoke_secret_lease',
+        context_type: 'secret',
+        resource_key: this.auditResource(lease),
+        status: 'success'
+      })
+    }
+
+    return true
+  }
+
+  /**
+   * List a user's leases that can still be redeemed
+   */
+  async listLeases(workspaceId: string, userId: string): Promise<SecretLease[]> {
+    const now = new Date()
+    const leases = this.store
+      ? (await this.store.query('secret_leases', { filter: { workspace_id: workspaceId, user_id: userId } })).map(row => this.fromRow(row))
+      : Array.from(this.leases.values())
+
+    return leases
+      .filter(lease =>
+        lease.workspace_id === workspaceId &&
+        lease.user_id === userId &&
+        !lease.revoked_at &&
+        lease.uses < lease.max_uses &&
+        new Date(lease.expires_at) > now
+      )
+      .map(lease => ({ ...lease }))
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+  }
+
+  // Private helper methods
+  private async saveLease(digest: string, lease: SecretLease): Promise<void> {
+    if (this.store) {
+      await this.store.insert('secret_leases', { ...this.toRow(lease), handle_digest: digest })
+      return
+    }
+
+    this.leases.set(digest, lease)
+    this.leaseIds.set(lease.lease_id, digest)
+    onRollback(() => {
+      this.leases.delete(digest)
+      this.leaseIds.delete(lease.lease_id)
+    })
+  }
+
+  private async findLease(digest: string): Promise<SecretLease | undefined> {
+    if (!this.store) {
+      return this.leases.get(digest)
+    }
+
+    const [row] = await this.store.query('secret_leases', { filter: { handle_digest: digest }, limit: 1 })
+    return row ? this.fromRow(row) : undefined
+  }
+
+  private async findLeaseById(leaseId: string): Promise<SecretLease | undefined> {
+    if (!this.store) {
+      const digest = this.leaseIds.get(leaseId)
+      return digest ? this.leases.get(digest) : undefined
+    }
+
+    const [row] = await this.store.query('secret_leases', { filter: { id: leaseId }, limit: 1 })
+    return row ? this.fromRow(row) : undefined
+  }
+
+  // Fails with CONFLICT when the stored lease was used or revoked since it was read
+  private async countUse(lease: SecretLease): Promise<void> {
+    if (this.store) {
+      await this.store.update('secret_leases', lease.lease_id, { uses: lease.uses + 1 }, { uses: lease.uses, revoked_at: null })
+    }
+    lease.uses++
+  }
+
+  private async revoke(lease: SecretLease): Promise<void> {
+    lease.revoked_at = new Date().toISOString()
+    if (this.store) {
+      await this.store.update('secret_leases', lease.lease_id, { revoked_at: lease.revoked_at })
+    }
+  }
+
+  private toRow(lease: SecretLease): Row {
+    const { lease_id, ...fields } = lease
+    return { id: lease_id, ...fields }
+  }
+
+  private fromRow(row: Row): SecretLease {
+    const { id, handle_digest, revoked_at, ...fields } = row
+    return { lease_id: id, ...fields, ...(revoked_at && { revoked_at }) } as SecretLease
+  }
+
+  private async recordRedemption(
+    executor: { executor_id: string; workspace_id: string; ip_address?: string; user_agent?: string },
+    lease: SecretLease | undefined,
+    status: 'success' | 'failed',
+    errorMessage?: string
+  ): Promise<void> {
+    await this.secretContextService.recordAuditEvent({
+      workspace_id: executor.workspace_id,
+      user_id: executor.executor_id,
+      operation: 'redeem_secret_lease',
+      context_type: 'secret',
+      resource_key: lease ? this.auditResource(lease) : 'lease:unknown',
+      ...(executor.ip_address && { ip_address: executor.ip_address }),
+      ...(executor.user_agent && { user_agent: executor.user_agent }),
+      status,
+      ...(errorMessage !== undefined && { error_message: errorMessage })
+    })
+  }
+
+  private auditResource(lease: SecretLease): string {
+    return `lease:${lease.lease_id}:${lease.key}`
+  }
+
+  private digest(leaseHandle: string): string {
+    return crypto.createHash('sha256').update(leaseHandle).digest('hex')
+  }
+
+  private async cleanupExpiredLeases(): Promise<void> {
+    const cutoff = Date.now() - RETENTION_MS
+
+    if (this.store) {
+      const expired = await this.store.query('secret_leases', { range: { expires_at: { lt: new Date(cutoff).toISOString() } } })
+      for (const row of expired) {
+        await this.store.delete('secret_leases', row.id)
+      }
+      return
+    }
+
+    for (const [digest, lease] of this.leases.entries()) {
+      if (new Date(lease.expires_at).getTime() < cutoff) {
+        this.leases.delete(digest)
+        this.leaseIds.delete(lease.lease_id)
+      }
+    }
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Secret Reference Service
+ *
+ * Expands `secret://` references held in deployment configs and other
+ * context fields. Anyone may inspect which references a config contains and
+ * whether they would resolve; only a trusted executor gets the expanded
+ * values back, so secrets never flow into an LLM-visible response.
+ * References resolve from the user's own store and the workspace-shared
+ * store, in the configured resolution order.
+ */
+
+import {
+  SecretReference,
+  SECRET_REFERENCE_FIELDS,
+  findSecretReferences,
+  replaceSecretReferences
+} from '../utils/secretReferences'
+import { SecretContextService } from './SecretContextService'
+import { UserContextService } from './UserContextService'
+import { GlobalContextService } from './GlobalContextService'
+import { WorkspaceSecretService, SharedSecretList } from './WorkspaceSecretService'
+
+// Where the references to expand live: an inline value or a stored context field
+export interface SecretReferenceSource {
+  value?: unknown
+  deployment_pattern_id?: string
+  community_pattern_id?: string
+}
+
+export interface SecretReferenceReport {
+  resolved: Array<SecretReference & { scope: 'user' | 'workspace' }>
+  unresolved: Array<SecretReference & { reason: string }>
+}
+
+export class SecretReferenceError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'SecretReferenceError'
+  }
+}
+
+const SECRET_LISTS: Record<SecretReference['secret_type'], SharedSecretList> = {
+  credential: 'credentials',
+  ssh_key: 'ssh_keys',
+  certificate: 'certificates'
+}
+
+export class SecretReferenceService {
+  constructor(
+    private secretContextService: SecretContextService,
+    private workspaceSecretService: WorkspaceSecretService,
+    private userContextService: UserContextService,
+    private globalContextService: GlobalContextService
+  ) {}
+
+  /**
+   * Report the references in a source and whether they would resolve,
+   * without decrypting anything
+   */
+  async inspectReferences(
+    workspaceId: string,
+    userId: string,
+    source: SecretReferenceSource
+  ): Promise<SecretReferenceReport> {
+    const report: SecretReferenceReport = { resolved: [], unresolved: [] }
+
+    for (const reference of findSecretReferences(await this.loadSource(workspaceId, userId, source))) {
+      const invalidField = this.checkField(reference)
+      const scope = invalidField
+        ? null
+        : await this.workspaceSecretService.locateSecret(workspaceId, userId, SECRET_LISTS[reference.secret_type], reference.key)
+
+      if (scope) {
+        report.resolved.push({ ...reference, scope })
+      } else {
+        report.unresolved.push({ ...reference, reason: invalidField || `No ${reference.secret_type} named '${reference.key}'` })
+      }
+    }
+
+    return report
+  }
+
+  /**
+   * Expand the references in a source on behalf of a user, for a trusted
+   * executor. Unresolved references are left in place and reported.
+   */
+  async resolveReferences(
+    workspaceId: string,
+    userId: string,
+    source: SecretReferenceSource,
+    executor: { executor_id: string; ip_address?: string; user_agent?: string }
+  ): Promise<SecretReferenceReport & { value: unknown }> {
+    const value = await this.loadSource(workspaceId, userId, source)
+    const references = findSecretReferences(value)
+    // Each distinct reference is resolved (and audited) once
+    const resolutions = new Map<string, { value: string; scope: 'user' | 'workspace' } | string>()
+
+    for (const reference of references) {
+      if (resolutions.has(reference.reference)) continue
+
+      let resolution: { value: string; scope: 'user' | 'workspace' } | string
+      try {
+        resolution = await this.resolveReference(workspaceId, userId, reference)
+      } catch (error) {
+        resolution = error instanceof Error ? error.message : 'Unknown error'
+      }
+      resolutions.set(reference.reference, resolution)
+
+      await this.secretContextService.recordAuditEvent({
+        workspace_id: workspaceId,
+        user_id: executor.executor_id,
+        operation: 'resolve_secret_reference',
+        context_type: 'secret',
+        resource_key: `reference:${userId}:${reference.reference}`,
+        ...(executor.ip_address && { ip_address: executor.ip_address }),
+        ...(executor.user_agent && { user_agent: executor.user_agent }),
+        status: typeof resolution === 'string' ? 'failed' : 'success',
+        ...(typeof resolution === 'string' && { error_message: resolution })
+      })
+    }
+
+    const report: SecretReferenceReport = { resolved: [], unresolved: [] }
+    for (const reference of references) {
+      const resolution = resolutions.get(reference.reference)!
+      if (typeof resolution === 'string') {
+        report.unresolved.push({ ...reference, reason: resolution })
+      } else {
+        report.resolved.push({ ...reference, scope: resolution.scope })
+      }
+    }
+
+    return {
+      value: replaceSecretReferences(value, reference => {
+        const resolution = resolutions.get(reference)
+        return typeof resolution === 'string' ? undefined : resolution?.value
+      }),
+      ...report
+    }
+  }
+
+  // Private helper methods
+
+  private async loadSource(workspaceId: string, userId: string, source: SecretReferenceSource): Promise<unknown> {
+    const given = [source.value !== undefined, !!source.deployment_pattern_id, !!source.community_pattern_id].filter(Boolean)
+    if (given.length !== 1) {
+      throw new SecretReferenceError(
+        'Provide exactly one of value, deployment_pattern_id or community_pattern_id',
+        'INVALID_SOURCE'
+      )
+    }
+
+    if (source.deployment_pattern_id) {
+      const pattern = await this.userContextService.getDeploymentPattern(workspaceId, userId, source.deployment_pattern_id)
+      if (!pattern) {
+        throw new SecretReferenceError(`Deployment pattern '${source.deployment_pattern_id}' not found`, 'SOURCE_NOT_FOUND')
+      }
+      return pattern.configuration
+    }
+
+    if (source.community_pattern_id) {
+      const pattern = await this.globalContextService.getCommunityPattern(source.community_pattern_id)
+      if (!pattern) {
+        throw new SecretReferenceError(`Community pattern '${source.community_pattern_id}' not found`, 'SOURCE_NOT_FOUND')
+      }
+      return pattern.configuration
+    }
+
+    return source.value
+  }
+
+  // Reason a reference selects a field its secret type does not have, if it does
+  private checkField(reference: SecretReference): string | undefined {
+    const fields = SECRET_REFERENCE_FIELDS[reference.secret_type]
+    if (reference.field !== undefined && !fields.includes(reference.field)) {
+      return `Unknown field '${reference.field}' for ${reference.secret_type}, expected one of: ${fields.join(', ')}`
+    }
+    return undefined
+  }
+
+  // The expanded value and where it came from, or the reason it cannot be resolved
+  private async resolveReference(
+    workspaceId: string,
+    userId: string,
+    reference: SecretReference
+  ): Promise<{ value: string; scope: 'user' | 'workspace' } | string> {
+    const invalidField = this.checkField(reference)
+    if (invalidField) return invalidField
+
+    const field = reference.field ?? SECRET_REFERENCE_FIELDS[reference.secret_type][0]!
+    const notFound = `No ${reference.secret_type} named '${reference.key}'`
+
+    switch (reference.secret_type) {
+      case 'credential': {
+        return await this.workspaceSecretService.resolveCredential(workspaceId, userId, reference.key) ?? notFound
+      }
+
+      case 'ssh_key': {
+        const resolved = await this.workspaceSecretService.resolveSSHKey(workspaceId, userId, reference.key)
+        if (!resolved) return notFound
+
+        const values: Record<string, string> = {
+          private_key: resolved.value.privateKey,
+          public_key: resolved.value.publicKey,
+          fingerprint: resolved.value.fingerprint
+        }
+        return { value: values[field]!, scope: resolved.scope }
+      }
+
+      case 'certificate': {
+        const resolved = await this.workspaceSecretService.resolveCertificate(workspaceId, userId, reference.key)
+        if (!resolved) return notFound
+
+        const values: Record<string, string | undefined> = {
+          certificate: resolved.value.certificate,
+          private_key: resolved.value.privateKey,
+          chain: resolved.value.chain.join('\n'),
+          fingerprint: resolved.value.fingerprint
+        }
+        const value = values[field]
+        return value ? { value, scope: resolved.scope } : `Certificate '${reference.key}' has no ${field}`
+      }
+    }
+  }
+}
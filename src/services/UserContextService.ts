@@ -1,4 +1,6 @@
-import { DatabaseClient } from '../database/client'
+import { DatabaseClient, DatabaseError } from '../database/client'
+import { Row } from '../database/ContextStore'
+import { assertVersion, retryOnConflict } from '../utils/concurrency'
 import { 
   UserContext, 
   UserPreferences, 
@@ -9,6 +11,14 @@ import {
   UserSettings 
 } from '../types'
 
+// User history, one row per pattern, event, conversation and session
+const PATTERNS_TABLE = 'user_deployment_patterns'
+const EVENTS_TABLE = 'user_infrastructure_events'
+const CONVERSATIONS_TABLE = 'user_conversations'
+const SESSIONS_TABLE = 'user_deployment_sessions'
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+
 export class UserContextService {
   constructor(private db: DatabaseClient) {}
 
@@ -42,115 +52,134 @@ export class UserContextService {
   }
 
   /**
-   * Create or update user preferences
+   * Every user context held for a workspace, uncached
+   */
+  async listWorkspaceUserContexts(workspaceId: string): Promise<UserContext[]> {
+    return await this.db.findByWorkspace<UserContext>('user_contexts', workspaceId)
+  }
+
+  /**
+   * Create or update user preferences. A concurrent update is merged by
+   * applying these preferences again on top of it; with expectedVersion
+   * (If-Match) the update fails instead once the context has moved on.
    */
   async updateUserPreferences(
     workspaceId: string,
     userId: string,
-    preferences: UserPreferences
+    preferences: UserPreferences,
+    expectedVersion?: number
   ): Promise<UserContext> {
-    let userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      userContext = await this.createUserContext(workspaceId, userId)
-    }
-
-    // Merge preferences
-    userContext.preferences = {
-      ...userContext.preferences,
-      ...preferences
-    }
-
-    userContext.updated_at = new Date().toISOString()
-
-    return await this.saveUserContext(userContext)
+    return await this.modifyUserContext(workspaceId, userId, userContext => {
+      // Merge preferences
+      userContext.preferences = {
+        ...userContext.preferences,
+        ...preferences
+      }
+    }, expectedVersion)
   }
 
   /**
-   * Update user settings
+   * Update user settings, merged like updateUserPreferences
    */
   async updateUserSettings(
     workspaceId: string,
     userId: string,
-    settings: Partial<UserSettings>
+    settings: Partial<UserSettings>,
+    expectedVersion?: number
   ): Promise<UserContext> {
-    let userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      userContext = await this.createUserContext(workspaceId, userId)
-    }
-
-    // Deep merge settings
-    userContext.settings = {
-      ...userContext.settings,
-      ...settings,
-      security: {
-        ...userContext.settings.security,
-        ...settings.security
-      },
-      workspace: {
-        ...userContext.settings.workspace,
-        ...settings.workspace
-      },
-      integrations: {
-        ...userContext.settings.integrations,
-        ...settings.integrations
+    return await this.modifyUserContext(workspaceId, userId, userContext => {
+      // Deep merge settings
+      userContext.settings = {
+        ...userContext.settings,
+        ...settings,
+        security: {
+          ...userContext.settings.security,
+          ...settings.security
+        },
+        workspace: {
+          ...userContext.settings.workspace,
+          ...settings.workspace
+        },
+        integrations: {
+          ...userContext.settings.integrations,
+          ...settings.integrations
+        }
       }
-    }
-
-    userContext.updated_at = new Date().toISOString()
-
-    return await this.saveUserContext(userContext)
+    }, expectedVersion)
   }
 
   /**
-   * Add a deployment pattern to user's history
+   * Add a deployment pattern to user's history, or count another use of
+   * the pattern with the same name and type
    */
   async addDeploymentPattern(
     workspaceId: string,
     userId: string,
     pattern: Omit<DeploymentPattern, 'id' | 'created_at'>
   ): Promise<void> {
-    let userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      userContext = await this.createUserContext(workspaceId, userId)
-    }
+    await this.ensureUserContext(workspaceId, userId)
 
-    const deploymentPattern: DeploymentPattern = {
-      id: crypto.randomUUID(),
-      created_at: new Date().toISOString(),
-      ...pattern
-    }
+    const now = new Date().toISOString()
 
-    // Check if pattern already exists
-    const existingPatternIndex = userContext.deployment_patterns.findIndex(
-      p => p.name === pattern.name && p.pattern_type === pattern.pattern_type
-    )
+    // usage_count doubles as the row's version: an update applies only if no
+    // other use was counted since the read, and a pattern another writer
+    // created first is read back and counted instead
+    await retryOnConflict(async () => {
+      const [existingPattern] = await this.db.query(PATTERNS_TABLE, {
+        filter: { workspace_id: workspaceId, user_id: userId, name: pattern.name, pattern_type: pattern.pattern_type },
+        limit: 1
+      })
 
-    if (existingPatternIndex >= 0) {
-      // Update existing pattern
-      const existingPattern = userContext.deployment_patterns[existingPatternIndex]
-      userContext.deployment_patterns[existingPatternIndex] = {
-        ...existingPattern,
-        ...deploymentPattern,
-        usage_count: (existingPattern?.usage_count || 0) + 1,
-        last_used: new Date().toISOString()
+      if (existingPattern) {
+        await this.db.update(PATTERNS_TABLE, existingPattern.id, {
+          configuration: pattern.configuration,
+          success_rate: pattern.success_rate,
+          usage_count: (existingPattern.usage_count || 0) + 1,
+          last_used: now,
+          search_text: patternSearchText(pattern)
+        }, { usage_count: existingPattern.usage_count ?? null })
+        return
       }
-    } else {
-      // Add new pattern
-      userContext.deployment_patterns.push(deploymentPattern)
-    }
 
-    // Keep only the most recent 50 patterns
-    if (userContext.deployment_patterns.length > 50) {
-      userContext.deployment_patterns = userContext.deployment_patterns
-        .sort((a, b) => new Date(b.last_used).getTime() - new Date(a.last_used).getTime())
-        .slice(0, 50)
-    }
+      try {
+        await this.db.insert(PATTERNS_TABLE, {
+          id: crypto.randomUUID(),
+          workspace_id: workspaceId,
+          user_id: userId,
+          name: pattern.name,
+          pattern_type: pattern.pattern_type,
+          configuration: pattern.configuration,
+          success_rate: pattern.success_rate,
+          usage_count: pattern.usage_count,
+          last_used: pattern.last_used || now,
+          created_at: now,
+          search_text: patternSearchText(pattern)
+        })
+      } catch (error) {
+        if (error instanceof DatabaseError && error.code === '23505') {
+          throw new DatabaseError(`Insert failed: deployment pattern '${pattern.name}' was created meanwhile`, 'CONFLICT')
+        }
+        throw error
+      }
+    })
+  }
+
+  /**
+   * Get one of the user's deployment patterns
+   */
+  async getDeploymentPattern(workspaceId: string, userId: string, patternId: string): Promise<DeploymentPattern | null> {
+    const [row] = await this.db.query(PATTERNS_TABLE, {
+      filter: { id: patternId, workspace_id: workspaceId, user_id: userId },
+      limit: 1
+    })
+    return row ? toDeploymentPattern(row) : null
+  }
 
-    userContext.updated_at = new Date().toISOString()
-    await this.saveUserContext(userContext)
+  /**
+   * Number of deployment patterns the user has
+   */
+  async countDeploymentPatterns(workspaceId: string, userId: string): Promise<number> {
+    return await this.db.count(PATTERNS_TABLE, { workspace_id: workspaceId, user_id: userId })
   }
 
   /**
@@ -161,29 +190,22 @@ export class UserContextService {
     userId: string,
     event: Omit<InfrastructureEvent, 'id' | 'timestamp'>
   ): Promise<void> {
-    let userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      userContext = await this.createUserContext(workspaceId, userId)
-    }
+    await this.ensureUserContext(workspaceId, userId)
 
-    const infrastructureEvent: InfrastructureEvent = {
+    await this.db.insert(EVENTS_TABLE, {
       id: crypto.randomUUID(),
+      workspace_id: workspaceId,
+      user_id: userId,
+      event_type: event.event_type,
+      resource_type: event.resource_type,
+      provider: event.provider,
+      status: event.status,
+      configuration: event.configuration,
+      cost_impact: event.cost_impact,
+      duration_ms: event.duration_ms,
       timestamp: new Date().toISOString(),
-      ...event
-    }
-
-    userContext.infrastructure_history.push(infrastructureEvent)
-
-    // Keep only the most recent 100 events
-    if (userContext.infrastructure_history.length > 100) {
-      userContext.infrastructure_history = userContext.infrastructure_history
-        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-        .slice(0, 100)
-    }
-
-    userContext.updated_at = new Date().toISOString()
-    await this.saveUserContext(userContext)
+      metadata: event.metadata
+    })
   }
 
   /**
@@ -194,29 +216,24 @@ export class UserContextService {
     userId: string,
     conversation: Omit<ConversationContext, 'id' | 'timestamp'>
   ): Promise<void> {
-    let userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      userContext = await this.createUserContext(workspaceId, userId)
-    }
+    await this.ensureUserContext(workspaceId, userId)
 
-    const conversationContext: ConversationContext = {
+    await this.db.insert(CONVERSATIONS_TABLE, {
       id: crypto.randomUUID(),
+      workspace_id: workspaceId,
+      user_id: userId,
+      session_id: conversation.session_id,
+      message_content: conversation.message_content,
+      intent_analysis: conversation.intent_analysis,
+      agent_responses: conversation.agent_responses,
+      outcome: conversation.outcome,
       timestamp: new Date().toISOString(),
-      ...conversation
-    }
-
-    userContext.conversation_context.push(conversationContext)
-
-    // Keep only the most recent 200 conversations
-    if (userContext.conversation_context.length > 200) {
-      userContext.conversation_context = userContext.conversation_context
-        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-        .slice(0, 200)
-    }
-
-    userContext.updated_at = new Date().toISOString()
-    await this.saveUserContext(userContext)
+      search_text: [
+        conversation.message_content,
+        conversation.intent_analysis.primary_intent,
+        ...conversation.agent_responses.map(response => response.response)
+      ].join('\n')
+    })
   }
 
   /**
@@ -232,41 +249,26 @@ export class UserContextService {
       name_contains?: string
     }
   ): Promise<DeploymentPattern[]> {
-    const userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      return []
-    }
-
-    let patterns = userContext.deployment_patterns
-
-    // Apply filters
-    if (query.pattern_type) {
-      patterns = patterns.filter(p => p.pattern_type === query.pattern_type)
-    }
-
-    if (query.min_success_rate !== undefined) {
-      patterns = patterns.filter(p => p.success_rate >= query.min_success_rate!)
-    }
-
-    if (query.name_contains) {
-      patterns = patterns.filter(p => 
-        p.name.toLowerCase().includes(query.name_contains!.toLowerCase())
-      )
-    }
+    const rows = await this.db.query(PATTERNS_TABLE, {
+      filter: {
+        workspace_id: workspaceId,
+        user_id: userId,
+        ...(query.pattern_type && { pattern_type: query.pattern_type })
+      },
+      range: { success_rate: { gte: query.min_success_rate } },
+      ...(query.name_contains && { contains: { name: query.name_contains } })
+    })
 
     // Sort by usage count and success rate
-    patterns.sort((a, b) => {
+    return rows.map(toDeploymentPattern).sort((a, b) => {
       const scoreA = a.usage_count * a.success_rate
       const scoreB = b.usage_count * b.success_rate
       return scoreB - scoreA
     })
-
-    return patterns
   }
 
   /**
-   * Get infrastructure usage analytics
+   * Get infrastructure usage analytics, aggregated by the database
    */
   async getInfrastructureAnalytics(
     workspaceId: string,
@@ -279,50 +281,43 @@ export class UserContextService {
     providerBreakdown: Record<string, number>
     eventTypeBreakdown: Record<string, number>
   }> {
-    const userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      return {
-        totalEvents: 0,
-        successRate: 0,
-        costSummary: { total: 0, average: 0 },
-        providerBreakdown: {},
-        eventTypeBreakdown: {}
-      }
-    }
-
-    // Filter events by time range
-    const events = userContext.infrastructure_history.filter(event => {
-      const eventTime = new Date(event.timestamp)
-      return eventTime >= timeRange.start && eventTime <= timeRange.end
+    // One row per provider, event type and status
+    const groups = await this.db.aggregate(EVENTS_TABLE, {
+      filter: { workspace_id: workspaceId, user_id: userId },
+      range: { timestamp: { gte: timeRange.start.toISOString(), lte: timeRange.end.toISOString() } },
+      groupBy: ['provider', 'event_type', 'status'],
+      measures: { events: { fn: 'count' }, total_cost: { fn: 'sum', column: 'cost_impact' } }
     })
 
-    const totalEvents = events.length
-    const successfulEvents = events.filter(e => e.status === 'success').length
-    const successRate = totalEvents > 0 ? successfulEvents / totalEvents : 0
-
-    const totalCost = events.reduce((sum, event) => sum + (event.cost_impact || 0), 0)
-    const averageCost = totalEvents > 0 ? totalCost / totalEvents : 0
-
+    let totalEvents = 0
+    let successfulEvents = 0
+    let totalCost = 0
     const providerBreakdown: Record<string, number> = {}
     const eventTypeBreakdown: Record<string, number> = {}
 
-    events.forEach(event => {
-      providerBreakdown[event.provider] = (providerBreakdown[event.provider] || 0) + 1
-      eventTypeBreakdown[event.event_type] = (eventTypeBreakdown[event.event_type] || 0) + 1
-    })
+    for (const group of groups) {
+      const events = Number(group.events)
+      totalEvents += events
+      totalCost += Number(group.total_cost || 0)
+      if (group.status === 'success') {
+        successfulEvents += events
+      }
+      providerBreakdown[group.provider] = (providerBreakdown[group.provider] || 0) + events
+      eventTypeBreakdown[group.event_type] = (eventTypeBreakdown[group.event_type] || 0) + events
+    }
 
     return {
       totalEvents,
-      successRate,
-      costSummary: { total: totalCost, average: averageCost },
+      successRate: totalEvents > 0 ? successfulEvents / totalEvents : 0,
+      costSummary: { total: totalCost, average: totalEvents > 0 ? totalCost / totalEvents : 0 },
       providerBreakdown,
       eventTypeBreakdown
     }
   }
 
   /**
-   * Search conversation history
+   * Search conversation history by message, primary intent and agent
+   * responses, newest first
    */
   async searchConversationHistory(
     workspaceId: string,
@@ -330,27 +325,14 @@ export class UserContextService {
     query: string,
     limit: number = 20
   ): Promise<ConversationContext[]> {
-    const userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      return []
-    }
+    const rows = await this.db.query(CONVERSATIONS_TABLE, {
+      filter: { workspace_id: workspaceId, user_id: userId },
+      contains: { search_text: query },
+      order: { column: 'timestamp', ascending: false },
+      limit
+    })
 
-    const queryLower = query.toLowerCase()
-
-    // Simple text search - in production, you'd want to use a proper search engine
-    const matchingConversations = userContext.conversation_context
-      .filter(conversation => 
-        conversation.message_content.toLowerCase().includes(queryLower) ||
-        conversation.intent_analysis.primary_intent.toLowerCase().includes(queryLower) ||
-        conversation.agent_responses.some(response => 
-          response.response.toLowerCase().includes(queryLower)
-        )
-      )
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-      .slice(0, limit)
-
-    return matchingConversations
+    return rows.map(toConversationContext)
   }
 
   /**
@@ -361,33 +343,19 @@ export class UserContextService {
     userId: string,
     context?: string
   ): Promise<DeploymentPattern[]> {
-    const userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      return []
-    }
-
-    let patterns = userContext.deployment_patterns
-
-    // Filter by context if provided (e.g., "react", "docker", "aws")
-    if (context) {
-      const contextLower = context.toLowerCase()
-      patterns = patterns.filter(pattern =>
-        pattern.name.toLowerCase().includes(contextLower) ||
-        JSON.stringify(pattern.configuration).toLowerCase().includes(contextLower)
-      )
-    }
-
-    // Sort by success rate and usage count
-    patterns.sort((a, b) => {
-      // Weight: success_rate (70%) + usage_count normalized (30%)
-      const maxUsage = Math.max(...patterns.map(p => p.usage_count), 1)
-      const scoreA = (a.success_rate * 0.7) + ((a.usage_count / maxUsage) * 0.3)
-      const scoreB = (b.success_rate * 0.7) + ((b.usage_count / maxUsage) * 0.3)
-      return scoreB - scoreA
+    // Filter by context if provided (e.g., "react", "docker", "aws"), in
+    // the pattern name or configuration
+    const rows = await this.db.query(PATTERNS_TABLE, {
+      filter: { workspace_id: workspaceId, user_id: userId },
+      ...(context && { contains: { search_text: context } })
     })
+    const patterns = rows.map(toDeploymentPattern)
+
+    // Weight: success_rate (70%) + usage_count normalized (30%)
+    const maxUsage = Math.max(...patterns.map(p => p.usage_count), 1)
+    const score = (pattern: DeploymentPattern) => (pattern.success_rate * 0.7) + ((pattern.usage_count / maxUsage) * 0.3)
 
-    return patterns.slice(0, 5) // Top 5 recommendations
+    return patterns.sort((a, b) => score(b) - score(a)).slice(0, 5) // Top 5 recommendations
   }
 
   /**
@@ -399,11 +367,7 @@ export class UserContextService {
     sessionName: string,
     deploymentContext: DeploymentSession['deployment_context']
   ): Promise<DeploymentSession> {
-    let userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      userContext = await this.createUserContext(workspaceId, userId)
-    }
+    await this.ensureUserContext(workspaceId, userId)
 
     const deploymentSession: DeploymentSession = {
       id: crypto.randomUUID(),
@@ -415,23 +379,10 @@ export class UserContextService {
       session_state: 'active',
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
-      expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString() // 7 days
-    }
-
-    if (!userContext.deployment_sessions) {
-      userContext.deployment_sessions = []
+      expires_at: new Date(Date.now() + SESSION_TTL_MS).toISOString()
     }
-    userContext.deployment_sessions.push(deploymentSession)
-    
-    // Keep only the most recent 10 active sessions
-    userContext.deployment_sessions = userContext.deployment_sessions
-      .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
-      .slice(0, 10)
-
-    userContext.updated_at = new Date().toISOString()
-    await this.saveUserContext(userContext)
 
-    return deploymentSession
+    return toDeploymentSession(await this.db.insert(SESSIONS_TABLE, deploymentSession))
   }
 
   async updateDeploymentSession(
@@ -440,44 +391,29 @@ export class UserContextService {
     sessionId: string,
     updates: Partial<Pick<DeploymentSession, 'deployment_context' | 'active_resources' | 'session_state' | 'metadata'>>
   ): Promise<DeploymentSession | null> {
-    let userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      return null
-    }
-
-    const sessionIndex = userContext.deployment_sessions?.findIndex(s => s.id === sessionId) ?? -1
-    if (sessionIndex === -1 || !userContext.deployment_sessions) {
-      return null
-    }
-
-    const existingSession = userContext.deployment_sessions[sessionIndex]
-    if (!existingSession) {
-      return null
-    }
-    
-    const updatedSession: DeploymentSession = {
-      id: existingSession.id,
-      workspace_id: existingSession.workspace_id,
-      user_id: existingSession.user_id,
-      session_name: existingSession.session_name,
-      deployment_context: updates.deployment_context || existingSession.deployment_context,
-      active_resources: updates.active_resources || existingSession.active_resources,
-      session_state: updates.session_state || existingSession.session_state,
-      metadata: updates.metadata || existingSession.metadata,
-      created_at: existingSession.created_at,
-      updated_at: new Date().toISOString(),
-      // Extend expiration if session is still active
-      expires_at: updates.session_state === 'active' || existingSession.session_state === 'active'
-        ? new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
-        : existingSession.expires_at
-    }
-
-    userContext.deployment_sessions[sessionIndex] = updatedSession
-    userContext.updated_at = new Date().toISOString()
-    await this.saveUserContext(userContext)
+    // Applied again on top of any update that got in first
+    return await retryOnConflict(async () => {
+      const existingSession = await this.getDeploymentSession(workspaceId, userId, sessionId)
+      if (!existingSession) {
+        return null
+      }
 
-    return updatedSession
+      const version = existingSession.version ?? 1
+      const updated = await this.db.update(SESSIONS_TABLE, sessionId, {
+        deployment_context: updates.deployment_context || existingSession.deployment_context,
+        active_resources: updates.active_resources || existingSession.active_resources,
+        session_state: updates.session_state || existingSession.session_state,
+        metadata: updates.metadata || existingSession.metadata || null,
+        updated_at: new Date().toISOString(),
+        // Extend expiration if session is still active
+        expires_at: updates.session_state === 'active' || existingSession.session_state === 'active'
+          ? new Date(Date.now() + SESSION_TTL_MS).toISOString()
+          : existingSession.expires_at,
+        version: version + 1
+      }, { version })
+
+      return toDeploymentSession(updated)
+    })
   }
 
   async getDeploymentSession(
@@ -485,33 +421,23 @@ export class UserContextService {
     userId: string,
     sessionId: string
   ): Promise<DeploymentSession | null> {
-    const userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      return null
-    }
-
-    return userContext.deployment_sessions?.find(s => s.id === sessionId) || null
+    const [row] = await this.db.query(SESSIONS_TABLE, {
+      filter: { id: sessionId, workspace_id: workspaceId, user_id: userId },
+      limit: 1
+    })
+    return row ? toDeploymentSession(row) : null
   }
 
   async getActiveDeploymentSessions(
     workspaceId: string,
     userId: string
   ): Promise<DeploymentSession[]> {
-    const userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      return []
-    }
-
-    const now = new Date().toISOString()
-    
-    return userContext.deployment_sessions
-      ?.filter(session => 
-        session.session_state === 'active' && 
-        session.expires_at > now
-      )
-      .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()) || []
+    const rows = await this.db.query(SESSIONS_TABLE, {
+      filter: { workspace_id: workspaceId, user_id: userId, session_state: 'active' },
+      range: { expires_at: { gt: new Date().toISOString() } },
+      order: { column: 'updated_at', ascending: false }
+    })
+    return rows.map(toDeploymentSession)
   }
 
   async resumeDeploymentSession(
@@ -550,36 +476,54 @@ export class UserContextService {
     })
   }
 
+  /**
+   * Delete expired sessions that are no longer active
+   */
   async cleanupExpiredSessions(
     workspaceId: string,
     userId: string
   ): Promise<number> {
-    let userContext = await this.getUserContext(workspaceId, userId)
-    
-    if (!userContext) {
-      return 0
-    }
+    const expired = await this.db.query(SESSIONS_TABLE, {
+      select: 'id, session_state',
+      filter: { workspace_id: workspaceId, user_id: userId },
+      range: { expires_at: { lte: new Date().toISOString() } }
+    })
 
-    const now = new Date().toISOString()
-    const originalCount = userContext.deployment_sessions?.length || 0
-    
-    if (userContext.deployment_sessions) {
-      userContext.deployment_sessions = userContext.deployment_sessions.filter(session => 
-        session.expires_at > now || session.session_state === 'active'
-      )
+    const stale = expired.filter(session => session.session_state !== 'active')
+    for (const session of stale) {
+      await this.db.delete(SESSIONS_TABLE, session.id)
     }
 
-    const cleanedCount = originalCount - (userContext.deployment_sessions?.length || 0)
-    
-    if (cleanedCount > 0) {
+    return stale.length
+  }
+
+  // Private helper methods
+  private async ensureUserContext(workspaceId: string, userId: string): Promise<UserContext> {
+    // A concurrent first write may create it meanwhile
+    return await retryOnConflict(async () =>
+      await this.getUserContext(workspaceId, userId) || await this.createUserContext(workspaceId, userId))
+  }
+
+  // Load the context (creating it first if need be), change it and save it,
+  // starting over from the stored context when another write saved first
+  private async modifyUserContext(
+    workspaceId: string,
+    userId: string,
+    change: (userContext: UserContext) => void,
+    expectedVersion?: number
+  ): Promise<UserContext> {
+    return await retryOnConflict(async () => {
+      const stored = await this.getUserContext(workspaceId, userId)
+      assertVersion(stored, expectedVersion)
+
+      const userContext = stored || await this.createUserContext(workspaceId, userId)
+      change(userContext)
       userContext.updated_at = new Date().toISOString()
-      await this.saveUserContext(userContext)
-    }
 
-    return cleanedCount
+      return await this.saveUserContext(userContext)
+    })
   }
 
-  // Private helper methods
   private async createUserContext(workspaceId: string, userId: string): Promise<UserContext> {
     const userContext: UserContext = {
       id: crypto.randomUUID(),
@@ -607,10 +551,6 @@ export class UserContextService {
           default_view: 'infrastructure'
         }
       },
-      deployment_patterns: [],
-      infrastructure_history: [],
-      conversation_context: [],
-      deployment_sessions: [],
       settings: {
         security: {
           mfa_enabled: false,
@@ -633,17 +573,67 @@ export class UserContextService {
     return await this.saveUserContext(userContext)
   }
 
+  // Fails with CONFLICT when the context was saved since it was read
   private async saveUserContext(userContext: UserContext): Promise<UserContext> {
-    if (await this.db.findById('user_contexts', userContext.id)) {
-      await this.db.update('user_contexts', userContext.id, userContext)
-    } else {
-      await this.db.insert('user_contexts', userContext)
+    const cacheKey = this.db.generateCacheKey('user_context', userContext.workspace_id, userContext.user_id)
+    try {
+      userContext.version = await this.db.saveVersioned('user_contexts', userContext)
+    } catch (error) {
+      // The cached copy may be the stale one; the next read goes to the database
+      await this.db.cacheDelete(cacheKey)
+      throw error
     }
 
     // Update cache
-    const cacheKey = this.db.generateCacheKey('user_context', userContext.workspace_id, userContext.user_id)
     await this.db.cacheSet(cacheKey, userContext, 600) // 10 minute cache
 
     return userContext
   }
-}
\ No newline at end of file
+}
+
+// Name and configuration, matched by getRecommendedPatterns
+function patternSearchText(pattern: Pick<DeploymentPattern, 'name' | 'configuration'>): string {
+  return `${pattern.name} ${JSON.stringify(pattern.configuration || {})}`
+}
+
+function toDeploymentPattern(row: Row): DeploymentPattern {
+  return {
+    id: row.id,
+    name: row.name,
+    pattern_type: row.pattern_type,
+    configuration: row.configuration,
+    success_rate: row.success_rate,
+    usage_count: row.usage_count,
+    last_used: row.last_used,
+    created_at: row.created_at
+  }
+}
+
+function toConversationContext(row: Row): ConversationContext {
+  return {
+    id: row.id,
+    session_id: row.session_id,
+    message_content: row.message_content,
+    intent_analysis: row.intent_analysis,
+    agent_responses: row.agent_responses,
+    outcome: row.outcome,
+    timestamp: row.timestamp
+  }
+}
+
+function toDeploymentSession(row: Row): DeploymentSession {
+  return {
+    id: row.id,
+    workspace_id: row.workspace_id,
+    user_id: row.user_id,
+    session_name: row.session_name,
+    deployment_context: row.deployment_context,
+    active_resources: row.active_resources,
+    session_state: row.session_state,
+    ...(row.metadata && { metadata: row.metadata }),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+    expires_at: row.expires_at,
+    version: row.version
+  }
+}
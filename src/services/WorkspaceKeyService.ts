@@ -0,0 +1,208 @@
+/**
+ * Workspace Key Service
+ *
+ * Envelope encryption for secret contexts: every workspace gets its own
+ * data-encryption key (DEK), stored only in wrapped form under the master
+ * key-encryption key held by EncryptionService or its KMS provider. Rotating
+ * or deleting one workspace's DEKs never touches another workspace's secrets.
+ *
+ * Another instance may rotate a workspace's DEK, so a cached keyring is
+ * reloaded once it is older than KEYRING_TTL_MS, and as soon as a value
+ * names a DEK version it does not hold.
+ */
+
+import crypto from 'crypto'
+import { DatabaseClient, DatabaseError, inTransaction } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { WrappedKey } from '../kms/KeyProvider'
+
+// How long a keyring is trusted to seal with the workspace's latest DEK
+const KEYRING_TTL_MS = 60 * 1000
+
+export interface WorkspaceDataKey {
+  id: string
+  workspace_id: string
+  key_version: string
+  wrapped_key: WrappedKey
+  created_at: string
+}
+
+export class WorkspaceKeyService {
+  // Unwrapped keyrings are held in process memory only
+  private keyrings: Map<string, Promise<EncryptionService>> = new Map()
+  // The keyrings above that finished loading, and when they started to
+  private loadedKeyrings: Map<string, EncryptionService> = new Map()
+  private loadedAt: Map<string, number> = new Map()
+
+  constructor(
+    private db: DatabaseClient,
+    private encryption: EncryptionService
+  ) {}
+
+  /**
+   * Get the encryption service backed by a workspace's data keys,
+   * creating the first DEK if the workspace has none yet. keyVersion is the
+   * DEK version a value to decrypt was sealed with.
+   */
+  async getWorkspaceEncryption(workspaceId: string, keyVersion?: string): Promise<EncryptionService> {
+    const loaded = this.loadedKeyrings.get(workspaceId)
+    const current = loaded && this.isCurrent(workspaceId, loaded, keyVersion) ? loaded : undefined
+
+    // Transactions load a keyring of their own: the DEK a load creates may
+    // roll back, and a load pending outside may be waiting for them to end
+    if (inTransaction()) {
+      return current || await this.loadKeyring(workspaceId)
+    }
+
+    if (loaded && !current) {
+      this.forgetKeyring(workspaceId)
+    }
+
+    let keyring = this.keyrings.get(workspaceId)
+
+    if (!keyring) {
+      const startedAt = Date.now()
+      keyring = this.loadKeyring(workspaceId)
+      this.keyrings.set(workspaceId, keyring)
+      const loading = keyring
+      loading.then(
+        service => {
+          if (this.keyrings.get(workspaceId) !== loading) return
+          this.loadedKeyrings.set(workspaceId, service)
+          this.loadedAt.set(workspaceId, startedAt)
+        },
+        // Don't cache failures, the next call should retry
+        () => this.forgetKeyring(workspaceId)
+      )
+    }
+
+    return await keyring
+  }
+
+  /**
+   * Generate a new DEK version for a workspace. Older versions stay available
+   * for decryption until values are re-encrypted.
+   */
+  async rotateWorkspaceKey(workspaceId: string): Promise<string> {
+    const keys = await this.getWrappedKeys(workspaceId)
+    const nextVersion = String(keys.reduce((max, key) => Math.max(max, parseInt(key.key_version)), 0) + 1)
+
+    await this.createDataKey(workspaceId, nextVersion)
+    this.forgetKeyring(workspaceId)
+
+    return nextVersion
+  }
+
+  /**
+   * Delete every wrapped DEK of a workspace. Without them its secrets can no
+   * longer be decrypted (crypto-shredding).
+   */
+  async shredWorkspaceKeys(workspaceId: string): Promise<number> {
+    const keys = await this.getWrappedKeys(workspaceId)
+
+    for (const key of keys) {
+      await this.db.delete('workspace_keys', key.id)
+    }
+
+    this.forgetKeyring(workspaceId)
+    return keys.length
+  }
+
+  /**
+   * Re-wrap every stored DEK under the current master key version
+   * (or move them to a newly configured key provider)
+   */
+  async rewrapAllDataKeys(): Promise<{ rewrapped: number; failures: Array<{ workspace_id: string; key_version: string; error: string }> }> {
+    const failures: Array<{ workspace_id: string; key_version: string; error: string }> = []
+    let rewrapped = 0
+
+    for (const key of await this.getAllWrappedKeys()) {
+      try {
+        const rewrappedKey = await this.encryption.rewrapDataKey(key.wrapped_key)
+        if (!rewrappedKey) continue
+
+        key.wrapped_key = rewrappedKey
+        await this.saveWrappedKey(key)
+        rewrapped++
+      } catch (error) {
+        failures.push({
+          workspace_id: key.workspace_id,
+          key_version: key.key_version,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    return { rewrapped, failures }
+  }
+
+  // Private helper methods
+  private forgetKeyring(workspaceId: string): void {
+    this.keyrings.delete(workspaceId)
+    this.loadedKeyrings.delete(workspaceId)
+    this.loadedAt.delete(workspaceId)
+  }
+
+  // Recent enough to seal with, and holding the version to decrypt, if any
+  private isCurrent(workspaceId: string, keyring: EncryptionService, keyVersion?: string): boolean {
+    const age = Date.now() - (this.loadedAt.get(workspaceId) ?? 0)
+    return age < KEYRING_TTL_MS && (keyVersion === undefined || keyring.getKeyVersions().includes(keyVersion))
+  }
+
+  private async loadKeyring(workspaceId: string): Promise<EncryptionService> {
+    let keys = await this.getWrappedKeys(workspaceId)
+
+    if (keys.length === 0) {
+      keys = [await this.createDataKey(workspaceId, '1')]
+    }
+
+    keys.sort((a, b) => parseInt(a.key_version) - parseInt(b.key_version))
+
+    let keyring: EncryptionService | null = null
+    for (const key of keys) {
+      const dataKey = await this.encryption.unwrapDataKey(key.wrapped_key)
+      if (!keyring) {
+        keyring = new EncryptionService(dataKey, key.key_version)
+      } else {
+        keyring.rotateKey(dataKey, key.key_version)
+      }
+    }
+
+    return keyring!
+  }
+
+  private async createDataKey(workspaceId: string, keyVersion: string): Promise<WorkspaceDataKey> {
+    const { wrapped } = await this.encryption.generateDataKey()
+
+    const dataKey: WorkspaceDataKey = {
+      id: crypto.randomUUID(),
+      workspace_id: workspaceId,
+      key_version: keyVersion,
+      wrapped_key: wrapped,
+      created_at: new Date().toISOString()
+    }
+
+    if (await this.db.insertIfAbsent('workspace_keys', dataKey, 'workspace_id,key_version')) {
+      return dataKey
+    }
+
+    // Another instance created this version first; use theirs
+    const existing = (await this.getWrappedKeys(workspaceId)).find(key => key.key_version === keyVersion)
+    if (!existing) {
+      throw new DatabaseError(`Workspace key version ${keyVersion} for ${workspaceId} could not be created`, 'INSERT_ERROR')
+    }
+    return existing
+  }
+
+  private async saveWrappedKey(dataKey: WorkspaceDataKey): Promise<void> {
+    await this.db.update('workspace_keys', dataKey.id, { wrapped_key: dataKey.wrapped_key })
+  }
+
+  private async getWrappedKeys(workspaceId: string): Promise<WorkspaceDataKey[]> {
+    return await this.db.findByWorkspace<WorkspaceDataKey>('workspace_keys', workspaceId)
+  }
+
+  private async getAllWrappedKeys(): Promise<WorkspaceDataKey[]> {
+    return await this.db.query('workspace_keys') as unknown as WorkspaceDataKey[]
+  }
+}
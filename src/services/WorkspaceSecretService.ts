@@ -0,0 +1,364 @@
+/**
+ * Workspace Secret Service
+ *
+ * A workspace-scoped secret store next to the per-user one, so a team can
+ * share a single credential, SSH key or certificate. Shared secrets are
+ * stored by a second SecretContextService under WORKSPACE_SECRET_OWNER, in
+ * their own table, with the same encryption, version history and auditing;
+ * audit entries and versions credit the member who acted.
+ *
+ * Access follows the member's role in
+ * UserSettings.workspace.workspace_permissions[workspace_id]:
+ * - reader: list and retrieve shared secrets
+ * - user:   reader, plus store and update them
+ * - admin:  user, plus delete them
+ */
+
+import { DatabaseClient } from '../database/client'
+import { SecretContextRepository } from '../database/SecretContextRepository'
+import { EncryptionService } from '../utils/encryption'
+import { ValidatedSSHKeyPair } from '../utils/ssh'
+import { withActor } from '../utils/actorContext'
+import { SecretContextLockedError, SecretContextService, WORKSPACE_SECRET_OWNER } from './SecretContextService'
+import { UserContextService } from './UserContextService'
+import { WorkspaceKeyService } from './WorkspaceKeyService'
+import { CredentialValidation } from '../providers'
+import { EncryptedCertificate, SecretContext, UserContext } from '../types'
+
+export type WorkspaceRole = 'reader' | 'user' | 'admin'
+
+// The listSecrets() group a secret type is reported under
+export type SharedSecretList = 'credentials' | 'ssh_keys' | 'certificates'
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { reader: 1, user: 2, admin: 3 }
+
+// Highest workspace role granted in a user context, or null if none
+function highestRole(userContext: UserContext | null, workspaceId: string): WorkspaceRole | null {
+  const granted = userContext?.settings?.workspace?.workspace_permissions?.[workspaceId] || []
+
+  return granted
+    .filter((role): role is WorkspaceRole => role in ROLE_RANK)
+    .reduce<WorkspaceRole | null>((best, role) => !best || ROLE_RANK[role] > ROLE_RANK[best] ? role : best, null)
+}
+
+export class WorkspaceAccessError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'WorkspaceAccessError'
+  }
+}
+
+export class WorkspaceSecretService {
+  private store: SecretContextService
+  // Which secret wins when a user and their workspace both hold the same key
+  private resolutionOrder: 'user-first' | 'workspace-first'
+
+  constructor(
+    private userSecrets: SecretContextService,
+    private userContextService: UserContextService,
+    db: DatabaseClient,
+    encryption: EncryptionService,
+    workspaceKeys?: WorkspaceKeyService
+  ) {
+    this.store = new SecretContextService(
+      db,
+      encryption,
+      workspaceKeys,
+      new SecretContextRepository(db, encryption, 'workspace_secret_contexts'),
+      undefined,
+      userSecrets.getAuditLog()
+    )
+    this.store.setCredentialProviders(userSecrets.getCredentialProviders())
+    this.resolutionOrder = process.env.SECRET_RESOLUTION_ORDER === 'workspace-first' ? 'workspace-first' : 'user-first'
+  }
+
+  /**
+   * Highest workspace role granted to a user, or null if they have none
+   */
+  async getRole(workspaceId: string, userId: string): Promise<WorkspaceRole | null> {
+    const userContext = await this.userContextService.getUserContext(workspaceId, userId)
+    return highestRole(userContext, workspaceId)
+  }
+
+  /**
+   * Users holding at least the given role in a workspace
+   */
+  async listMembers(workspaceId: string, minimumRole: WorkspaceRole = 'reader'): Promise<string[]> {
+    const userContexts = await this.userContextService.listWorkspaceUserContexts(workspaceId)
+
+    return userContexts
+      .filter(userContext => {
+        const role = highestRole(userContext, workspaceId)
+        return role !== null && ROLE_RANK[role] >= ROLE_RANK[minimumRole]
+      })
+      .map(userContext => userContext.user_id)
+  }
+
+  /**
+   * Every workspace's shared secret context, for system jobs such as the
+   * expiry monitor; no member is checked or audited
+   */
+  async *iterateSharedContexts(pageSize: number = 100): AsyncGenerator<SecretContext> {
+    yield* this.store.iterateSecretContexts(pageSize)
+  }
+
+  /**
+   * A workspace's shared secrets without a member check, for system jobs
+   */
+  async listSharedSecrets(workspaceId: string): Promise<Awaited<ReturnType<SecretContextService['listSecrets']>>> {
+    return await this.store.listSecrets(workspaceId, WORKSPACE_SECRET_OWNER)
+  }
+
+  async storeCredential(
+    workspaceId: string,
+    userId: string,
+    key: string,
+    value: string,
+    credentialType: 'oauth' | 'api_key' | 'password' | 'token',
+    provider: string,
+    expiresAt?: Date,
+    options: { checkLiveness?: boolean; expectedVersion?: number } = {}
+  ): Promise<CredentialValidation | null> {
+    return await this.withAccess(workspaceId, userId, 'user', 'store_credential', key, () =>
+      this.store.storeCredential(workspaceId, WORKSPACE_SECRET_OWNER, key, value, credentialType, provider, expiresAt, options)
+    )
+  }
+
+  async getCredential(workspaceId: string, userId: string, key: string): Promise<string | null> {
+    await this.assertMemberUnlocked(workspaceId, userId, 'get_credential', key)
+    return await this.withAccess(workspaceId, userId, 'reader', 'get_credential', key, () =>
+      this.store.getCredential(workspaceId, WORKSPACE_SECRET_OWNER, key)
+    )
+  }
+
+  async storeSSHKey(
+    workspaceId: string,
+    userId: string,
+    keyName: string,
+    privateKey: string,
+    publicKey: string,
+    keyType?: 'rsa' | 'ed25519' | 'ecdsa',
+    metadata?: { description?: string; allowed_hosts?: string[] },
+    expectedVersion?: number
+  ): Promise<ValidatedSSHKeyPair> {
+    return await this.withAccess(workspaceId, userId, 'user', 'store_ssh_key', keyName, () =>
+      this.store.storeSSHKey(workspaceId, WORKSPACE_SECRET_OWNER, keyName, privateKey, publicKey, keyType, metadata, expectedVersion)
+    )
+  }
+
+  async getSSHKey(
+    workspaceId: string,
+    userId: string,
+    keyName: string
+  ): Promise<Awaited<ReturnType<SecretContextService['getSSHKey']>>> {
+    await this.assertMemberUnlocked(workspaceId, userId, 'get_ssh_key', keyName)
+    return await this.withAccess(workspaceId, userId, 'reader', 'get_ssh_key', keyName, () =>
+      this.store.getSSHKey(workspaceId, WORKSPACE_SECRET_OWNER, keyName)
+    )
+  }
+
+  async storeCertificate(
+    workspaceId: string,
+    userId: string,
+    name: string,
+    certificatePem: string,
+    privateKey?: string,
+    chainPem?: string,
+    certificateType?: 'ssl' | 'client' | 'ca',
+    metadata?: Record<string, any>,
+    expectedVersion?: number
+  ): Promise<EncryptedCertificate> {
+    return await this.withAccess(workspaceId, userId, 'user', 'store_certificate', name, () =>
+      this.store.storeCertificate(workspaceId, WORKSPACE_SECRET_OWNER, name, certificatePem, privateKey, chainPem, certificateType, metadata, expectedVersion)
+    )
+  }
+
+  async getCertificate(
+    workspaceId: string,
+    userId: string,
+    name: string
+  ): Promise<Awaited<ReturnType<SecretContextService['getCertificate']>>> {
+    await this.assertMemberUnlocked(workspaceId, userId, 'get_certificate', name)
+    return await this.withAccess(workspaceId, userId, 'reader', 'get_certificate', name, () =>
+      this.store.getCertificate(workspaceId, WORKSPACE_SECRET_OWNER, name)
+    )
+  }
+
+  async listSecrets(workspaceId: string, userId: string): Promise<Awaited<ReturnType<SecretContextService['listSecrets']>>> {
+    return await this.withAccess(workspaceId, userId, 'reader', 'list_secrets', '*', () =>
+      this.store.listSecrets(workspaceId, WORKSPACE_SECRET_OWNER)
+    )
+  }
+
+  // Version of the shared secret context, for ETags; null before anything is shared
+  async getSecretContextVersion(workspaceId: string, userId: string): Promise<number | null> {
+    return await this.withAccess(workspaceId, userId, 'reader', 'list_secrets', '*', () =>
+      this.store.getSecretContextVersion(workspaceId, WORKSPACE_SECRET_OWNER)
+    )
+  }
+
+  async deleteSecret(
+    workspaceId: string,
+    userId: string,
+    secretType: 'credential' | 'ssh_key' | 'certificate',
+    key: string,
+    expectedVersion?: number
+  ): Promise<boolean> {
+    return await this.withAccess(workspaceId, userId, 'admin', 'delete_secret', key, () =>
+      this.store.deleteSecret(workspaceId, WORKSPACE_SECRET_OWNER, secretType, key, expectedVersion)
+    )
+  }
+
+  /**
+   * Resolve a credential from the user's own store and the workspace store,
+   * in the configured order. The workspace store is only consulted for
+   * members with at least the reader role.
+   */
+  async resolveCredential(
+    workspaceId: string,
+    userId: string,
+    key: string
+  ): Promise<{ value: string; scope: 'user' | 'workspace' } | null> {
+    return await this.resolveInOrder(
+      workspaceId,
+      userId,
+      'credentials',
+      key,
+      () => this.userSecrets.getCredential(workspaceId, userId, key),
+      () => this.getCredential(workspaceId, userId, key)
+    )
+  }
+
+  async resolveSSHKey(
+    workspaceId: string,
+    userId: string,
+    keyName: string
+  ): Promise<{ value: NonNullable<Awaited<ReturnType<SecretContextService['getSSHKey']>>>; scope: 'user' | 'workspace' } | null> {
+    return await this.resolveInOrder(
+      workspaceId,
+      userId,
+      'ssh_keys',
+      keyName,
+      () => this.userSecrets.getSSHKey(workspaceId, userId, keyName),
+      () => this.getSSHKey(workspaceId, userId, keyName)
+    )
+  }
+
+  async resolveCertificate(
+    workspaceId: string,
+    userId: string,
+    name: string
+  ): Promise<{ value: NonNullable<Awaited<ReturnType<SecretContextService['getCertificate']>>>; scope: 'user' | 'workspace' } | null> {
+    return await this.resolveInOrder(
+      workspaceId,
+      userId,
+      'certificates',
+      name,
+      () => this.userSecrets.getCertificate(workspaceId, userId, name),
+      () => this.getCertificate(workspaceId, userId, name)
+    )
+  }
+
+  /**
+   * Which store a secret would be resolved from, without decrypting it
+   */
+  async locateSecret(
+    workspaceId: string,
+    userId: string,
+    secretType: SharedSecretList,
+    key: string
+  ): Promise<'user' | 'workspace' | null> {
+    const inUser = (await this.userSecrets.listSecrets(workspaceId, userId))[secretType].some(secret => secret.key === key)
+    const inWorkspace = await this.hasSharedSecret(workspaceId, userId, secretType, key)
+
+    if (inUser && inWorkspace) {
+      return this.resolutionOrder === 'workspace-first' ? 'workspace' : 'user'
+    }
+    return inUser ? 'user' : inWorkspace ? 'workspace' : null
+  }
+
+  // Private helper methods
+
+  // Whether the workspace holds the secret and the user may read it
+  private async hasSharedSecret(workspaceId: string, userId: string, secretType: SharedSecretList, key: string): Promise<boolean> {
+    const shared = (await this.store.listSecrets(workspaceId, WORKSPACE_SECRET_OWNER))[secretType]
+    return shared.some(secret => secret.key === key) && await this.getRole(workspaceId, userId) !== null
+  }
+
+  private async resolveInOrder<T>(
+    workspaceId: string,
+    userId: string,
+    secretType: SharedSecretList,
+    key: string,
+    readUser: () => Promise<T | null>,
+    readWorkspace: () => Promise<T | null>
+  ): Promise<{ value: T; scope: 'user' | 'workspace' } | null> {
+    const fromUser = async () => {
+      const value = await readUser()
+      return value === null ? null : { value, scope: 'user' as const }
+    }
+    const fromWorkspace = async () => {
+      if (!await this.hasSharedSecret(workspaceId, userId, secretType, key)) {
+        return null
+      }
+
+      const value = await readWorkspace()
+      return value === null ? null : { value, scope: 'workspace' as const }
+    }
+
+    return this.resolutionOrder === 'workspace-first'
+      ? await fromWorkspace() ?? await fromUser()
+      : await fromUser() ?? await fromWorkspace()
+  }
+
+  // A member whose own secret context is locked cannot retrieve shared secrets either
+  private async assertMemberUnlocked(workspaceId: string, userId: string, operation: string, key: string): Promise<void> {
+    const lock = await this.userSecrets.getSecretContextLock(workspaceId, userId)
+    if (!lock) {
+      return
+    }
+
+    const message = `Secret context is locked since ${lock.locked_at}: ${lock.reason}`
+    await this.store.recordAuditEvent({
+      workspace_id: workspaceId,
+      user_id: userId,
+      operation,
+      context_type: 'secret',
+      resource_key: `workspace:${key}`,
+      status: 'failed',
+      error_message: message
+    })
+
+    throw new SecretContextLockedError(message, 'CONTEXT_LOCKED')
+  }
+
+  // Check the member's role, then run the operation credited to them; refusals are audited too
+  private async withAccess<T>(
+    workspaceId: string,
+    userId: string,
+    requiredRole: WorkspaceRole,
+    operation: string,
+    key: string,
+    action: () => Promise<T>
+  ): Promise<T> {
+    const role = await this.getRole(workspaceId, userId)
+
+    if (!role || ROLE_RANK[role] < ROLE_RANK[requiredRole]) {
+      const message = `Workspace role '${requiredRole}' required, user has ${role ? `'${role}'` : 'no role'}`
+
+      await this.store.recordAuditEvent({
+        workspace_id: workspaceId,
+        user_id: userId,
+        operation,
+        context_type: 'secret',
+        resource_key: `workspace:${key}`,
+        status: 'failed',
+        error_message: message
+      })
+
+      throw new WorkspaceAccessError(message, 'ACCESS_DENIED')
+    }
+
+    return await withActor(userId, action)
+  }
+}
@@ -0,0 +1,151 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { withActor } from '../utils/actorContext'
+import { withRequestContext } from '../utils/requestContext'
+import { AuditLogService } from '../services/AuditLogService'
+import { AnomalyDetectionService } from '../services/AnomalyDetectionService'
+import { GlobalContextService } from '../services/GlobalContextService'
+import { SecretContextService } from '../services/SecretContextService'
+import { AuditLog, SecurityIntelligenceData } from '../types'
+
+// A retrieval audited at the given time and address
+function retrieval(timestamp: string, key: string, ipAddress: string = '198.51.100.10'): AuditLog {
+  return {
+    id: `${timestamp}-${key}`,
+    workspace_id: 'ws-1',
+    user_id: 'user-1',
+    operation: 'get_credential',
+    context_type: 'secret',
+    resource_key: key,
+    ip_address: ipAddress,
+    user_agent: 'cv-cli/2.1',
+    timestamp,
+    status: 'success',
+    sequence: 1,
+    prev_hash: '',
+    hash: ''
+  }
+}
+
+describe('Secret access anomaly detection', () => {
+  let db: DatabaseClient
+  let auditLog: AuditLogService
+  let secretContextService: SecretContextService
+  let globalContextService: GlobalContextService
+
+  beforeEach(async () => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    auditLog = new AuditLogService(db)
+    secretContextService = new SecretContextService(db, new EncryptionService('master-key', '1'), undefined, undefined, undefined, auditLog)
+    globalContextService = new GlobalContextService()
+
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_abc', 'token', 'digitalocean')
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should lock the secret context on a retrieval burst until an admin unlocks it', async () => {
+    const detector = new AnomalyDetectionService(auditLog, secretContextService, globalContextService, {
+      autoLock: true, burstThreshold: 5, burstWindowSeconds: 60
+    })
+    detector.start()
+
+    for (let i = 0; i < 6; i++) {
+      await secretContextService.getCredential('ws-1', 'user-1', 'do_token')
+    }
+    await detector.idle()
+
+    await expect(secretContextService.getCredential('ws-1', 'user-1', 'do_token')).rejects.toMatchObject({ code: 'CONTEXT_LOCKED' })
+    expect(detector.listFindings('ws-1')).toEqual([
+      expect.objectContaining({ user_id: 'user-1', type: 'retrieval_burst', severity: 'high', locked: true })
+    ])
+    expect((await secretContextService.getSecretContextLock('ws-1', 'user-1'))?.reason).toMatch(/^Anomaly retrieval_burst/)
+
+    // Replacing a compromised value still works while locked
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_new', 'token', 'digitalocean')
+
+    expect(await withActor('admin-1', () => secretContextService.unlockSecretContext('ws-1', 'user-1'))).toBe(true)
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'do_token')).toBe('dop_v1_new')
+
+    const operations = (await auditLog.list('ws-1')).map(entry => [entry.user_id, entry.operation, entry.status])
+    expect(operations).toContainEqual(['user-1', 'lock_secret_context', 'success'])
+    expect(operations).toContainEqual(['user-1', 'get_credential', 'failed'])
+    expect(operations).toContainEqual(['admin-1', 'unlock_secret_context', 'success'])
+    detector.stop()
+  })
+
+  it('should flag unusual hours, new addresses and first access to many keys once the baseline is learned', async () => {
+    const detector = new AnomalyDetectionService(auditLog, secretContextService, globalContextService, {
+      minBaselineEvents: 20, newKeyThreshold: 3, newKeyWindowSeconds: 3600
+    })
+
+    // Office hours, from one address, two keys
+    for (let day = 1; day <= 10; day++) {
+      const date = `2026-03-${String(day).padStart(2, '0')}`
+      expect(await detector.observe(retrieval(`${date}T09:15:00Z`, 'do_token'))).toEqual([])
+      expect(await detector.observe(retrieval(`${date}T14:40:00Z`, 'db_password'))).toEqual([])
+    }
+
+    const night = await detector.observe(retrieval('2026-03-11T03:05:00Z', 'do_token', '203.0.113.99'))
+    expect(night.map(anomaly => [anomaly.type, anomaly.severity])).toEqual([['unusual_hour', 'low'], ['new_source_ip', 'medium']])
+    expect(night[1]!.evidence).toMatchObject({ ip_address: '203.0.113.99', known_addresses: 1 })
+
+    expect(await detector.observe(retrieval('2026-03-11T09:20:00Z', 'aws'))).toEqual([])
+    expect(await detector.observe(retrieval('2026-03-11T09:21:00Z', 'stripe_secret_key'))).toEqual([])
+    const spread = await detector.observe(retrieval('2026-03-11T09:22:00Z', 'github_token'))
+    expect(spread).toEqual([expect.objectContaining({ type: 'new_key_spread', locked: false })])
+    expect(spread[0]!.evidence.keys).toEqual(['aws', 'stripe_secret_key', 'github_token'])
+
+    // The address is part of the baseline now
+    expect(await detector.observe(retrieval('2026-03-11T09:30:00Z', 'do_token', '203.0.113.99'))).toEqual([])
+    expect(await secretContextService.getSecretContextLock('ws-1', 'user-1')).toBeNull()
+  })
+
+  it('should answer retrievals without waiting for the detector to act', async () => {
+    const detector = new AnomalyDetectionService(auditLog, secretContextService, globalContextService, {
+      burstThreshold: 1, burstWindowSeconds: 60
+    })
+    let release: () => void = () => undefined
+    jest.spyOn(globalContextService, 'recordSecurityIntelligence').mockReturnValue(new Promise(resolve => { release = () => resolve(undefined as any) }))
+    detector.start()
+
+    await secretContextService.getCredential('ws-1', 'user-1', 'do_token')
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'do_token')).toBe('dop_v1_abc')
+
+    release()
+    await detector.idle()
+    expect(detector.listFindings('ws-1')).toEqual([expect.objectContaining({ type: 'retrieval_burst' })])
+    detector.stop()
+  })
+
+  it('should share findings as security intelligence without identifying details', async () => {
+    const detector = new AnomalyDetectionService(auditLog, secretContextService, globalContextService, {
+      burstThreshold: 2, burstWindowSeconds: 60
+    })
+    detector.start()
+
+    await withRequestContext({ ip_address: '203.0.113.7', user_agent: 'cv-cli/2.1' }, async () => {
+      for (let i = 0; i < 3; i++) {
+        await secretContextService.getCredential('ws-1', 'user-1', 'do_token')
+      }
+    })
+    await detector.idle()
+
+    const [intelligence] = await globalContextService.getSecurityIntelligence({ min_severity: 'high' })
+    expect(intelligence).toMatchObject({ context_type: 'intelligence', category: 'security', tags: ['secret-access', 'anomaly', 'retrieval_burst'] })
+    const data = intelligence!.data as SecurityIntelligenceData
+    expect(data).toMatchObject({ threat_type: 'secret_access_retrieval_burst', severity: 'high' })
+    expect(data.threat_indicators).toMatchObject({ retrievals: 3, subject: expect.stringMatching(/^[0-9a-f]{16}$/) })
+    expect(JSON.stringify(intelligence)).not.toMatch(/ws-1|user-1|do_token|203\.0\.113\.7/)
+    expect(await secretContextService.getSecretContextLock('ws-1', 'user-1')).toBeNull()
+    detector.stop()
+  })
+})
@@ -0,0 +1,97 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { withRequestContext } from '../utils/requestContext'
+import { AUDIT_GENESIS_HASH, AuditLogService } from '../services/AuditLogService'
+import { SecretContextService } from '../services/SecretContextService'
+
+describe('Audit log', () => {
+  let db: DatabaseClient
+  let auditLog: AuditLogService
+  let secretContextService: SecretContextService
+
+  // Tampering as someone with direct access to the database file would
+  const tamper = (sql: string, ...values: unknown[]): void => {
+    const sqlite = (db.store as any).db
+    sqlite.exec('DROP TRIGGER IF EXISTS audit_logs_no_update; DROP TRIGGER IF EXISTS audit_logs_no_delete')
+    sqlite.prepare(sql).run(...values)
+  }
+
+  beforeEach(async () => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    auditLog = new AuditLogService(db)
+    secretContextService = new SecretContextService(db, new EncryptionService('master-key', '1'), undefined, undefined, undefined, auditLog)
+
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_abc', 'token', 'digitalocean')
+    await secretContextService.getCredential('ws-1', 'user-1', 'do_token')
+    await secretContextService.deleteSecret('ws-1', 'user-1', 'credential', 'do_token')
+  })
+
+  afterEach(async () => {
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should chain each workspace\'s entries from a genesis hash', async () => {
+    await secretContextService.storeCredential('ws-2', 'user-2', 'gh_token', 'ghp_abc', 'token', 'github')
+
+    const entries = await auditLog.list('ws-1')
+    expect(entries.map(entry => [entry.sequence, entry.operation])).toEqual([
+      [1, 'store_credential'], [2, 'get_credential'], [3, 'delete_secret']
+    ])
+    expect(entries[0]!.prev_hash).toBe(AUDIT_GENESIS_HASH)
+    expect(entries[1]!.prev_hash).toBe(entries[0]!.hash)
+    expect(entries[2]!.prev_hash).toBe(entries[1]!.hash)
+    expect(await auditLog.list('ws-2')).toEqual([expect.objectContaining({ sequence: 1, prev_hash: AUDIT_GENESIS_HASH })])
+
+    expect(await auditLog.verify('ws-1')).toMatchObject({
+      valid: true, entries_checked: 3, head_sequence: 3, head_hash: entries[2]!.hash, problems: []
+    })
+  })
+
+  it('should number concurrent appends without gaps or duplicates', async () => {
+    await Promise.all(Array.from({ length: 10 }, (_, i) =>
+      secretContextService.storeCredential('ws-3', 'user-1', `key_${i}`, `value-${i}`, 'api_key', 'generic')
+    ))
+
+    expect((await auditLog.list('ws-3')).map(entry => entry.sequence)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+    expect((await auditLog.verify('ws-3')).valid).toBe(true)
+  })
+
+  it('should detect edited and missing entries', async () => {
+    const [first] = await auditLog.list('ws-1')
+    await expect(db.update('audit_logs', first!.id, { user_id: 'someone-else' })).rejects.toThrow('append-only')
+    await expect(db.delete('audit_logs', first!.id)).rejects.toThrow('append-only')
+
+    tamper('UPDATE audit_logs SET user_id = ? WHERE workspace_id = ? AND sequence = 2', 'someone-else', 'ws-1')
+
+    expect((await auditLog.verify('ws-1')).problems).toEqual([
+      { sequence: 2, type: 'edited', detail: 'Entry does not match its hash' }
+    ])
+
+    tamper('DELETE FROM audit_logs WHERE workspace_id = ? AND sequence = 2', 'ws-1')
+
+    expect(await auditLog.verify('ws-1')).toMatchObject({
+      valid: false,
+      entries_checked: 2,
+      problems: [
+        { sequence: 3, type: 'gap', detail: 'Entries 2-2 are missing' },
+        { sequence: 3, type: 'broken_link', detail: 'prev_hash does not match the previous entry' }
+      ]
+    })
+  })
+
+  it('should record the request\'s IP address and user agent, and system for background work', async () => {
+    await withRequestContext({ ip_address: '203.0.113.7', user_agent: 'cv-cli/2.1' }, () =>
+      secretContextService.storeCredential('ws-1', 'user-1', 'gh_token', 'ghp_abc', 'token', 'github')
+    )
+
+    const entries = await auditLog.list('ws-1')
+    expect(entries[0]).toMatchObject({ ip_address: 'system', user_agent: 'cv-context-manager' })
+    expect(entries[entries.length - 1]).toMatchObject({ ip_address: '203.0.113.7', user_agent: 'cv-cli/2.1' })
+    expect((await auditLog.verify('ws-1')).valid).toBe(true)
+  })
+})
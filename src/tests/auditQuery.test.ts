@@ -0,0 +1,148 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { AuditLogService } from '../services/AuditLogService'
+import { AuditQueryService } from '../services/AuditQueryService'
+import { SecretContextService } from '../services/SecretContextService'
+import { UserContextService } from '../services/UserContextService'
+import { GlobalContextService } from '../services/GlobalContextService'
+import { WorkspaceSecretService } from '../services/WorkspaceSecretService'
+import { ContextManagerMCPServer } from '../mcp/server'
+import { UserContext } from '../types'
+
+// Roles in ws-1; nobody has a role in ws-2
+const ROLES: Record<string, string[]> = {
+  'alice': ['admin'],
+  'bob': ['user']
+}
+
+describe('Audit log queries', () => {
+  let db: DatabaseClient
+  let auditLog: AuditLogService
+  let auditQuery: AuditQueryService
+  let secretContextService: SecretContextService
+  let userContextService: UserContextService
+
+  const collect = async (lines: AsyncIterable<string>): Promise<string> => {
+    let text = ''
+    for await (const line of lines) text += line
+    return text
+  }
+
+  beforeEach(async () => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    const encryption = new EncryptionService('master-key', '1')
+    userContextService = new UserContextService(db)
+    jest.spyOn(userContextService, 'getUserContext').mockImplementation(async (workspaceId, userId) => ({
+      settings: { workspace: { default_workspace_id: workspaceId, workspace_permissions: { [workspaceId]: workspaceId === 'ws-1' ? ROLES[userId] || [] : [] } } }
+    } as unknown as UserContext))
+
+    auditLog = new AuditLogService(db)
+    secretContextService = new SecretContextService(db, encryption, undefined, undefined, undefined, auditLog)
+    auditQuery = new AuditQueryService(auditLog, new WorkspaceSecretService(secretContextService, userContextService, db, encryption))
+
+    await secretContextService.storeCredential('ws-1', 'bob', 'do_token', 'dop_v1_abc', 'token', 'digitalocean')
+    for (let i = 0; i < 4; i++) {
+      await secretContextService.getCredential('ws-1', 'bob', 'do_token')
+    }
+    await secretContextService.storeCredential('ws-1', 'carol', '=HYPERLINK("http://evil")', 'x', 'api_key', 'generic')
+    await secretContextService.storeCredential('ws-2', 'dave', 'gh_token', 'ghp_abc', 'token', 'github')
+  })
+
+  afterEach(async () => {
+    jest.useRealTimers()
+    jest.restoreAllMocks()
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should filter entries and page through them with a cursor, newest first', async () => {
+    const filter = { workspace_id: 'ws-1', user_id: 'bob', operation: 'get_credential' }
+
+    const first = await auditQuery.query('alice', filter, { limit: 3 })
+    expect(first.entries.map(entry => entry.sequence)).toEqual([5, 4, 3])
+    expect(first.next_cursor).toEqual(expect.any(String))
+
+    // Entries appended meanwhile do not shift the next page
+    await secretContextService.getCredential('ws-1', 'bob', 'do_token')
+    const second = await auditQuery.query('alice', filter, { limit: 3, cursor: first.next_cursor! })
+    expect(second.entries.map(entry => entry.sequence)).toEqual([2])
+    expect(second.next_cursor).toBeNull()
+
+    const inRange = await auditQuery.query('alice', {
+      workspace_id: 'ws-1',
+      from: new Date(Date.now() - 60000).toISOString(),
+      to: new Date(Date.now() - 30000).toISOString()
+    })
+    expect(inRange.entries).toEqual([])
+
+    await expect(auditQuery.query('alice', filter, { cursor: 'not-a-cursor' })).rejects.toMatchObject({ code: 'INVALID_CURSOR' })
+  })
+
+  it('should refuse members who are not workspace admins and audit every read', async () => {
+    await expect(auditQuery.query('bob', { workspace_id: 'ws-1' })).rejects.toMatchObject({ code: 'ACCESS_DENIED' })
+    await expect(auditQuery.query('alice', { workspace_id: 'ws-2' })).rejects.toMatchObject({ code: 'ACCESS_DENIED' })
+    await auditQuery.query('dave', { workspace_id: 'ws-2' }, { serviceAdmin: true })
+
+    const reads = await auditLog.query({ workspace_id: 'ws-1', resource_key: 'audit_log' })
+    expect(reads.entries.map(entry => [entry.user_id, entry.operation, entry.status])).toEqual([
+      ['bob', 'query_audit_log', 'failed']
+    ])
+    expect((await auditLog.query({ workspace_id: 'ws-2', resource_key: 'audit_log' })).entries.map(entry => entry.status))
+      .toEqual(['success', 'failed'])
+  })
+
+  it('should export CSV with escaped cells and NDJSON with one entry per line', async () => {
+    const csv = await collect(await auditQuery.export('alice', { workspace_id: 'ws-1', user_id: 'carol' }, 'csv'))
+    const [header, row, ...rest] = csv.trimEnd().split('\n')
+
+    expect(header).toBe('sequence,timestamp,user_id,operation,context_type,resource_key,status,error_message,' +
+      'ip_address,user_agent,old_value_hash,new_value_hash,id,prev_hash,hash')
+    expect(row).toContain(`,store_credential,secret,"'=HYPERLINK(""http://evil"")",success,`)
+    expect(rest).toEqual([])
+
+    const ndjson = await collect(await auditQuery.export('alice', { workspace_id: 'ws-1' }, 'ndjson'))
+    const entries = ndjson.trimEnd().split('\n').map(line => JSON.parse(line))
+    expect(entries.map(entry => entry.sequence)).toEqual([8, 7, 6, 5, 4, 3, 2, 1])
+    expect(entries[0]).toMatchObject({ user_id: 'alice', operation: 'export_audit_log' })
+
+    await expect(auditQuery.export('bob', { workspace_id: 'ws-1' }, 'csv')).rejects.toMatchObject({ code: 'ACCESS_DENIED' })
+  })
+
+  it('should answer query_audit_log over MCP for workspace admins only', async () => {
+    jest.useFakeTimers({ doNotFake: ['Date', 'nextTick', 'setImmediate', 'queueMicrotask', 'setTimeout'] })
+    const verifyToken = (token: string) => {
+      const [, userId] = token.match(/^jwt-(\w+)$/) || []
+      if (!userId) throw new Error('invalid signature')
+      return { user_id: userId, workspace_id: 'ws-1' }
+    }
+    const server = new ContextManagerMCPServer(
+      secretContextService, userContextService, new GlobalContextService(),
+      undefined, undefined, undefined, undefined, undefined, undefined, auditQuery, verifyToken
+    )
+
+    const result = await server.callTool('query_audit_log', {
+      workspace_id: 'ws-1', user_id: 'alice', jwt_token: 'jwt-alice', operation: 'store_credential', limit: 1
+    })
+    expect(result.isError).toBeFalsy()
+    expect(result.content[0]!.text).toContain('#6')
+    expect(result.content[0]!.text).toContain('carol store_credential')
+    expect(result.content[0]!.text).toContain('Next Cursor:')
+
+    const refused = await server.callTool('query_audit_log', { workspace_id: 'ws-1', user_id: 'bob', jwt_token: 'jwt-bob' })
+    expect(refused.isError).toBe(true)
+    expect(refused.content[0]!.text).toContain("Workspace role 'admin' required")
+
+    // Naming an admin does not make the caller one
+    const impersonated = await server.callTool('query_audit_log', { workspace_id: 'ws-1', user_id: 'alice', jwt_token: 'jwt-bob' })
+    expect(impersonated.isError).toBe(true)
+    expect(impersonated.content[0]!.text).toContain("jwt_token does not belong to user 'alice'")
+
+    const forged = await server.callTool('query_audit_log', { workspace_id: 'ws-1', user_id: 'alice', jwt_token: 'test-jwt' })
+    expect(forged.isError).toBe(true)
+    expect(forged.content[0]!.text).toContain('Invalid or expired jwt_token')
+  })
+})
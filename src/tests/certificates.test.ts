@@ -0,0 +1,109 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContextService } from '../services/SecretContextService'
+import {
+  CertificateError,
+  parseCertificate,
+  certificateMatchesPrivateKey,
+  validateCertificateChain
+} from '../utils/certificates'
+import {
+  TEST_CA_CERTIFICATE,
+  TEST_LEAF_CERTIFICATE,
+  TEST_LEAF_PRIVATE_KEY,
+  TEST_OTHER_PRIVATE_KEY
+} from './fixtures/certificates'
+
+describe('Certificates', () => {
+  describe('parseCertificate', () => {
+    it('should extract subject, SANs, issuer and expiry', () => {
+      const parsed = parseCertificate(TEST_LEAF_CERTIFICATE)
+
+      expect(parsed.common_name).toBe('api.example.test')
+      expect(parsed.subject_alt_names).toEqual(['DNS:api.example.test', 'DNS:www.example.test', 'IP:10.0.0.5'])
+      expect(parsed.issuer).toContain('CN=ControlVector Test CA')
+      expect(parsed.expires_at).toBe('2126-09-25T10:24:11.000Z')
+      expect(parsed.is_ca).toBe(false)
+    })
+
+    it('should reject input that is not a PEM certificate', () => {
+      expect(() => parseCertificate('not a certificate')).toThrow(CertificateError)
+    })
+  })
+
+  describe('key and chain validation', () => {
+    it('should match a certificate with its own private key only', () => {
+      expect(certificateMatchesPrivateKey(TEST_LEAF_CERTIFICATE, TEST_LEAF_PRIVATE_KEY)).toBe(true)
+      expect(certificateMatchesPrivateKey(TEST_LEAF_CERTIFICATE, TEST_OTHER_PRIVATE_KEY)).toBe(false)
+    })
+
+    it('should accept a chain in issuing order and reject a reversed one', () => {
+      expect(() => validateCertificateChain([TEST_LEAF_CERTIFICATE, TEST_CA_CERTIFICATE])).not.toThrow()
+      expect(() => validateCertificateChain([TEST_CA_CERTIFICATE, TEST_LEAF_CERTIFICATE])).toThrow('not issued by')
+    })
+  })
+
+  describe('SecretContextService', () => {
+    let db: DatabaseClient
+    let secretContextService: SecretContextService
+
+    beforeEach(() => {
+      process.env.USE_IN_MEMORY_DB = 'true'
+      process.env.USE_IN_MEMORY_CACHE = 'true'
+
+      db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+      secretContextService = new SecretContextService(db, new EncryptionService('master-key', '1'))
+    })
+
+    afterEach(async () => {
+      await db.close()
+      delete process.env.USE_IN_MEMORY_DB
+      delete process.env.USE_IN_MEMORY_CACHE
+    })
+
+    it('should store a certificate with metadata read from the PEM', async () => {
+      const stored = await secretContextService.storeCertificate(
+        'ws-1', 'user-1', 'api-tls', TEST_LEAF_CERTIFICATE, TEST_LEAF_PRIVATE_KEY, TEST_CA_CERTIFICATE
+      )
+
+      expect(stored.certificate_type).toBe('ssl')
+      expect(stored.common_name).toBe('api.example.test')
+      expect(stored.has_private_key).toBe(true)
+      expect(stored.encrypted_data).not.toContain('BEGIN')
+
+      const { certificates } = await secretContextService.listSecrets('ws-1', 'user-1')
+      expect(certificates).toEqual([
+        { key: 'api-tls', type: 'ssl', common_name: 'api.example.test', expires_at: '2126-09-25T10:24:11.000Z' }
+      ])
+    })
+
+    it('should return the certificate, chain and private key', async () => {
+      await secretContextService.storeCertificate(
+        'ws-1', 'user-1', 'api-tls', TEST_LEAF_CERTIFICATE + TEST_CA_CERTIFICATE, TEST_LEAF_PRIVATE_KEY
+      )
+
+      const certificate = await secretContextService.getCertificate('ws-1', 'user-1', 'api-tls')
+
+      expect(certificate!.certificate.trim()).toBe(TEST_LEAF_CERTIFICATE.trim())
+      expect(certificate!.chain.map(pem => pem.trim())).toEqual([TEST_CA_CERTIFICATE.trim()])
+      expect(certificate!.privateKey).toBe(TEST_LEAF_PRIVATE_KEY)
+      expect(certificate!.subjectAltNames).toContain('DNS:www.example.test')
+      expect(await secretContextService.getCertificate('ws-1', 'user-1', 'missing')).toBeNull()
+    })
+
+    it('should detect CA certificates and store them without a private key', async () => {
+      const stored = await secretContextService.storeCertificate('ws-1', 'user-1', 'root-ca', TEST_CA_CERTIFICATE)
+
+      expect(stored.certificate_type).toBe('ca')
+      expect((await secretContextService.getCertificate('ws-1', 'user-1', 'root-ca'))!.privateKey).toBeUndefined()
+    })
+
+    it('should refuse a private key that does not match the certificate', async () => {
+      await expect(secretContextService.storeCertificate(
+        'ws-1', 'user-1', 'api-tls', TEST_LEAF_CERTIFICATE, TEST_OTHER_PRIVATE_KEY
+      )).rejects.toMatchObject({ name: 'CertificateError', code: 'KEY_MISMATCH' })
+
+      expect(await secretContextService.getCertificate('ws-1', 'user-1', 'api-tls')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,181 @@
+import { DatabaseClient, DatabaseError } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { ContextConflictError, retryOnConflict } from '../utils/concurrency'
+import { SecretContextService } from '../services/SecretContextService'
+import { UserContextService } from '../services/UserContextService'
+import { DeploymentSessionService } from '../services/DeploymentSessionService'
+import { createMCPErrorResult } from '../mcp/tools'
+
+describe('Optimistic concurrency', () => {
+  let db: DatabaseClient
+  let secretContextService: SecretContextService
+  let userContextService: UserContextService
+
+  beforeEach(() => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    secretContextService = new SecretContextService(db, new EncryptionService('master-key', '1'))
+    userContextService = new UserContextService(db)
+  })
+
+  afterEach(async () => {
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should keep both of two concurrent preference updates', async () => {
+    await Promise.all([
+      userContextService.updateUserPreferences('ws-1', 'user-1', { default_cloud_provider: 'aws' }),
+      userContextService.updateUserPreferences('ws-1', 'user-1', { preferred_regions: ['fra1'] })
+    ])
+
+    const [row] = await db.findByUserAndWorkspace<any>('user_contexts', 'user-1', 'ws-1')
+    expect(row.preferences).toMatchObject({ default_cloud_provider: 'aws', preferred_regions: ['fra1'] })
+    expect(await userContextService.getUserContext('ws-1', 'user-1')).toMatchObject({ version: row.version })
+  })
+
+  it('should refuse an update based on an outdated version', async () => {
+    const created = await userContextService.updateUserPreferences('ws-1', 'user-1', { default_cloud_provider: 'aws' })
+    const updated = await userContextService.updateUserPreferences('ws-1', 'user-1', { default_cloud_provider: 'gcp' }, created.version)
+    expect(updated.version).toBe(created.version! + 1)
+
+    const stale = userContextService.updateUserPreferences('ws-1', 'user-1', { default_cloud_provider: 'azure' }, created.version)
+    await expect(stale).rejects.toBeInstanceOf(ContextConflictError)
+    await expect(stale).rejects.toMatchObject({ code: 'VERSION_MISMATCH' })
+    expect((await userContextService.getUserContext('ws-1', 'user-1'))!.preferences.default_cloud_provider).toBe('gcp')
+  })
+
+  it('should keep every secret stored concurrently, even into a new context', async () => {
+    await Promise.all(['do_token', 'cf_token', 'gh_token'].map(key =>
+      secretContextService.storeCredential('ws-1', 'user-1', key, `${key}-value`, 'token', 'digitalocean')))
+
+    expect((await secretContextService.listSecrets('ws-1', 'user-1')).credentials.map(c => c.key).sort())
+      .toEqual(['cf_token', 'do_token', 'gh_token'])
+    expect(await secretContextService.getSecretContextVersion('ws-1', 'user-1')).toBe(3)
+
+    const rows = await db.findByUserAndWorkspace('secret_contexts', 'user-1', 'ws-1')
+    expect(rows).toHaveLength(1)
+  })
+
+  it('should delete a secret only at the expected version', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'value', 'token', 'digitalocean')
+    await secretContextService.storeCredential('ws-1', 'user-1', 'cf_token', 'value', 'token', 'cloudflare')
+
+    await expect(secretContextService.deleteSecret('ws-1', 'user-1', 'credential', 'do_token', 1))
+      .rejects.toMatchObject({ code: 'VERSION_MISMATCH' })
+    await expect(secretContextService.storeCredential('ws-9', 'user-1', 'do_token', 'value', 'token', 'digitalocean', undefined, { expectedVersion: 1 }))
+      .rejects.toMatchObject({ code: 'VERSION_MISMATCH' })
+
+    expect(await secretContextService.deleteSecret('ws-1', 'user-1', 'credential', 'do_token', 2)).toBe(true)
+    expect(await secretContextService.getSecretContextVersion('ws-1', 'user-1')).toBe(3)
+  })
+
+  it('should store SSH keys and roll secrets back only at the expected version', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'first', 'token', 'digitalocean')
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'second', 'token', 'digitalocean')
+
+    await expect(secretContextService.generateSSHKey('ws-1', 'user-1', 'deploy', 'ed25519', { expectedVersion: 1 }))
+      .rejects.toMatchObject({ code: 'VERSION_MISMATCH' })
+    await expect(secretContextService.rollbackSecret('ws-1', 'user-1', 'credential', 'do_token', 1, 1))
+      .rejects.toMatchObject({ code: 'VERSION_MISMATCH' })
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'do_token')).toBe('second')
+
+    await secretContextService.rollbackSecret('ws-1', 'user-1', 'credential', 'do_token', 1, 2)
+    await secretContextService.generateSSHKey('ws-1', 'user-1', 'deploy', 'ed25519', { expectedVersion: 3 })
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'do_token')).toBe('first')
+    expect(await secretContextService.getSecretContextVersion('ws-1', 'user-1')).toBe(4)
+  })
+
+  it('should count every concurrent use of a deployment pattern, the first included', async () => {
+    const pattern = { name: 'React App', pattern_type: 'deployment' as const, configuration: {}, success_rate: 0.9, usage_count: 1, last_used: '' }
+
+    await Promise.all(Array.from({ length: 4 }, () => userContextService.addDeploymentPattern('ws-1', 'user-1', pattern)))
+
+    expect(await userContextService.countDeploymentPatterns('ws-1', 'user-1')).toBe(1)
+    const [stored] = await userContextService.searchDeploymentPatterns('ws-1', 'user-1', { name_contains: 'react' })
+    expect(stored!.usage_count).toBe(4)
+  })
+
+  it('should merge concurrent deployment session updates', async () => {
+    const session = await userContextService.createDeploymentSession('ws-1', 'user-1', 'blog', {})
+
+    await Promise.all([
+      userContextService.updateDeploymentSession('ws-1', 'user-1', session.id, { deployment_context: { current_step: 'deploy' } }),
+      userContextService.updateDeploymentSession('ws-1', 'user-1', session.id, { session_state: 'paused' })
+    ])
+
+    expect(await userContextService.getDeploymentSession('ws-1', 'user-1', session.id)).toMatchObject({
+      deployment_context: { current_step: 'deploy' },
+      session_state: 'paused',
+      version: 3
+    })
+  })
+
+  it('should merge changes two instances make to the same deployment session', async () => {
+    const first = new DeploymentSessionService(db.store)
+    const second = new DeploymentSessionService(db.store)
+    const session = await first.createSession('user-1', 'ws-1', { target_domain: 'blog.example.com' } as any)
+    await second.getSession(session.session_id)
+
+    await Promise.all([
+      first.updateSession(session.session_id, { status: 'in_progress', notes: ['first'] }),
+      second.addDeploymentStep(session.session_id, 'provision'),
+      second.updateSession(session.session_id, { notes: ['second'] })
+    ])
+
+    const reloaded = await new DeploymentSessionService(db.store).getSession(session.session_id)
+    expect(reloaded).toMatchObject({ status: 'in_progress', current_step: 'provision' })
+    expect(reloaded!.notes!.sort()).toEqual(['first', 'second'])
+    expect(reloaded!.deployment_steps.map(step => step.step_name)).toEqual(['provision'])
+  })
+
+  it('should read deployment sessions without saving them each time', async () => {
+    const first = new DeploymentSessionService(db.store)
+    const second = new DeploymentSessionService(db.store)
+    const session = await first.createSession('user-1', 'ws-1', { target_domain: 'blog.example.com' } as any)
+    await second.getSession(session.session_id)
+    const update = jest.spyOn(db.store, 'update')
+
+    await first.getSession(session.session_id)
+    await second.getSession(session.session_id)
+    expect(update).not.toHaveBeenCalled()
+
+    // Once the stored expiry is old, a read saves a new one; losing that
+    // save to another instance's write does not fail the read
+    const later = Date.now() + 2 * 60 * 60 * 1000
+    jest.spyOn(Date, 'now').mockReturnValue(later)
+    try {
+      await first.updateSession(session.session_id, { notes: ['first'] })
+      expect(await second.getSession(session.session_id)).toMatchObject({ notes: ['first'] })
+      expect(update).toHaveBeenCalledTimes(2)
+    } finally {
+      jest.restoreAllMocks()
+    }
+  })
+
+  it('should leave a deployment session as it was when saving a change fails', async () => {
+    const sessions = new DeploymentSessionService(db.store)
+    const session = await sessions.createSession('user-1', 'ws-1', { target_domain: 'blog.example.com' } as any)
+    jest.spyOn(db.store, 'update').mockRejectedValueOnce(new DatabaseError('Update failed: connection lost', 'UPDATE_ERROR'))
+
+    await expect(sessions.updateSession(session.session_id, { status: 'failed', notes: ['lost'] })).rejects.toThrow('connection lost')
+
+    expect(await sessions.getSession(session.session_id)).toMatchObject({ status: 'planning', version: 1 })
+    expect((await sessions.getSession(session.session_id))!.notes).toBeUndefined()
+  })
+
+  it('should give up with a conflict code after repeated conflicts', async () => {
+    const operation = jest.fn().mockRejectedValue(new DatabaseError('Update failed: row has changed', 'CONFLICT'))
+
+    const attempt = retryOnConflict(operation)
+    await expect(attempt).rejects.toMatchObject({ code: 'CONFLICT' })
+    expect(operation).toHaveBeenCalledTimes(10)
+
+    const result = createMCPErrorResult('Failed to update preferences', await attempt.catch(error => error))
+    expect(result).toMatchObject({ isError: true, errorCode: 'CONFLICT' })
+    expect(createMCPErrorResult('Failed to update preferences', new Error('boom'))).not.toHaveProperty('errorCode')
+  })
+})
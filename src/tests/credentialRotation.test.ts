@@ -0,0 +1,163 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContextService } from '../services/SecretContextService'
+import { UserContextService } from '../services/UserContextService'
+import { GlobalContextService } from '../services/GlobalContextService'
+import { CredentialRotationService } from '../services/CredentialRotationService'
+import { ContextManagerMCPServer } from '../mcp/server'
+import { CredentialProviderRegistry, createCredentialProviderRegistry } from '../providers'
+import { MOCK_CREDENTIALS, ProviderMockServer, startProviderMockServer } from './helpers/providerMockServer'
+
+const HOUR_MS = 60 * 60 * 1000
+
+describe('Credential rotation', () => {
+  let mockServer: ProviderMockServer
+  let db: DatabaseClient
+  let registry: CredentialProviderRegistry
+  let secretContextService: SecretContextService
+  let rotationService: CredentialRotationService
+
+  beforeEach(async () => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    // A fresh mock server per test, so every test starts from the original tokens
+    mockServer = await startProviderMockServer()
+    const builtIn = createCredentialProviderRegistry({})
+    registry = new CredentialProviderRegistry({
+      apiUrls: Object.fromEntries(builtIn.list().map(name => [name, mockServer.url])),
+      checkLiveness: true
+    })
+    builtIn.list().forEach(name => registry.register(builtIn.get(name)!))
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    secretContextService = new SecretContextService(db, new EncryptionService('master-key', '1'))
+      .setCredentialProviders(registry)
+    rotationService = new CredentialRotationService(secretContextService, registry, { scanIntervalMs: 0 })
+
+    await secretContextService.storeCredential('ws-1', 'user-1', 'cf_token', MOCK_CREDENTIALS.cloudflare, 'token', 'cloudflare')
+    await secretContextService.storeCredential('ws-1', 'user-1', 'aws_key', MOCK_CREDENTIALS.aws, 'api_key', 'aws')
+  })
+
+  afterEach(async () => {
+    jest.useRealTimers()
+    await mockServer.close()
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should only accept policies for existing credentials of providers that can mint them', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'gh_token', MOCK_CREDENTIALS.github, 'token', 'github')
+
+    await expect(rotationService.setPolicy('ws-1', 'user-1', 'gh_token', { interval_days: 30, grace_period_hours: 24 }))
+      .rejects.toMatchObject({ code: 'ROTATION_UNSUPPORTED' })
+    await expect(rotationService.setPolicy('ws-1', 'user-1', 'missing', { interval_days: 30, grace_period_hours: 24 }))
+      .rejects.toMatchObject({ code: 'CREDENTIAL_NOT_FOUND' })
+    await expect(rotationService.rotate('ws-1', 'user-1', 'cf_token')).rejects.toMatchObject({ code: 'NO_POLICY' })
+
+    const policy = await rotationService.setPolicy('ws-1', 'user-1', 'cf_token', { interval_days: 30, grace_period_hours: 24 })
+    expect(new Date(policy.next_rotation_at).getTime()).toBeGreaterThan(Date.now() + 29 * 24 * HOUR_MS)
+  })
+
+  it('should plan a dry run without minting or changing anything', async () => {
+    await rotationService.setPolicy('ws-1', 'user-1', 'cf_token', { interval_days: 30, grace_period_hours: 24 })
+    mockServer.requests.length = 0
+
+    const run = await rotationService.rotate('ws-1', 'user-1', 'cf_token', { dryRun: true })
+
+    expect(run).toMatchObject({ dry_run: true, status: 'planned' })
+    expect(run.steps.map(step => [step.step, step.status])).toEqual([
+      ['verify_current', 'done'],
+      ['create_replacement', 'planned'],
+      ['verify_replacement', 'planned'],
+      ['swap', 'planned'],
+      ['revoke_previous', 'planned']
+    ])
+    expect(mockServer.requests.filter(request => request.method !== 'GET')).toEqual([])
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'cf_token')).toBe(MOCK_CREDENTIALS.cloudflare)
+  })
+
+  it('should swap in a verified replacement and revoke the old token after the grace period', async () => {
+    await rotationService.setPolicy('ws-1', 'user-1', 'cf_token', { interval_days: 30, grace_period_hours: 24 })
+
+    const run = await rotationService.rotate('ws-1', 'user-1', 'cf_token')
+    const rotated = await secretContextService.getCredential('ws-1', 'user-1', 'cf_token')
+
+    expect(run).toMatchObject({ status: 'completed', version: 2 })
+    expect(rotated).not.toBe(MOCK_CREDENTIALS.cloudflare)
+    expect(await registry.validate('cloudflare', rotated!, 'token')).toMatchObject({ scopes: ['Zone Read', 'DNS Write'] })
+
+    // The old token keeps working during the grace period
+    const policy = await secretContextService.getRotationPolicy('ws-1', 'user-1', 'cf_token')
+    expect(policy?.pending_revocation?.version).toBe(1)
+    expect(await rotationService.processDueRotations(new Date(Date.now() + HOUR_MS))).toMatchObject({ rotated: 0, revoked: 0 })
+    await expect(registry.validate('cloudflare', MOCK_CREDENTIALS.cloudflare, 'token')).resolves.toMatchObject({ liveness: 'live' })
+
+    expect(await rotationService.processDueRotations(new Date(Date.now() + 25 * HOUR_MS))).toMatchObject({ revoked: 1, failures: [] })
+    await expect(registry.validate('cloudflare', MOCK_CREDENTIALS.cloudflare, 'token')).rejects.toMatchObject({ code: 'CREDENTIAL_REJECTED' })
+    expect((await secretContextService.getRotationPolicy('ws-1', 'user-1', 'cf_token'))?.pending_revocation).toBeUndefined()
+  })
+
+  it('should revoke the old AWS key straight away without a grace period', async () => {
+    await rotationService.setPolicy('ws-1', 'user-1', 'aws_key', { interval_days: 90, grace_period_hours: 0 })
+
+    const run = await rotationService.rotate('ws-1', 'user-1', 'aws_key')
+
+    expect(run.steps.map(step => [step.step, step.status])).toEqual([
+      ['create_replacement', 'done'],
+      ['verify_replacement', 'done'],
+      ['swap', 'done'],
+      ['revoke_previous', 'done']
+    ])
+    expect(JSON.parse((await secretContextService.getCredential('ws-1', 'user-1', 'aws_key'))!).access_key_id).toMatch(/^AKIAMOCK/)
+    await expect(registry.validate('aws', MOCK_CREDENTIALS.aws, 'api_key')).rejects.toThrow(/security token/)
+  })
+
+  it('should keep the current credential and discard a replacement that fails verification', async () => {
+    await rotationService.setPolicy('ws-1', 'user-1', 'aws_key', { interval_days: 90, grace_period_hours: 24 })
+    mockServer.issueDeadCredentials = true
+
+    const run = await rotationService.rotate('ws-1', 'user-1', 'aws_key')
+
+    expect(run).toMatchObject({ status: 'failed', error_message: 'The replacement credential could not be verified' })
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'aws_key')).toBe(MOCK_CREDENTIALS.aws)
+    expect(await secretContextService.listSecretVersions('ws-1', 'user-1', 'credential', 'aws_key')).toHaveLength(1)
+    expect((await rotationService.getStatus('ws-1', 'user-1', 'aws_key')).last_run).toMatchObject({ run_id: run.run_id })
+  })
+
+  it('should rotate credentials that are due when scanning', async () => {
+    await rotationService.setPolicy('ws-1', 'user-1', 'cf_token', { interval_days: 7, grace_period_hours: 1 })
+    await rotationService.setPolicy('ws-1', 'user-1', 'aws_key', { interval_days: 90, grace_period_hours: 1 })
+
+    const result = await rotationService.processDueRotations(new Date(Date.now() + 8 * 24 * HOUR_MS))
+
+    expect(result).toMatchObject({ rotated: 1, revoked: 0, failures: [] })
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'cf_token')).not.toBe(MOCK_CREDENTIALS.cloudflare)
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'aws_key')).toBe(MOCK_CREDENTIALS.aws)
+  })
+
+  it('should trigger and inspect rotations through MCP without exposing values', async () => {
+    // The deployment session cleanup timer would otherwise keep jest alive
+    jest.useFakeTimers({ doNotFake: ['Date', 'nextTick', 'setImmediate', 'queueMicrotask', 'setTimeout'] })
+    const mcpServer = new ContextManagerMCPServer(
+      secretContextService, new UserContextService(db), new GlobalContextService(),
+      undefined, undefined, undefined, undefined, undefined, rotationService
+    )
+    await rotationService.setPolicy('ws-1', 'user-1', 'cf_token', { interval_days: 30, grace_period_hours: 24 })
+    const auth = { workspace_id: 'ws-1', user_id: 'user-1', jwt_token: 'token' }
+
+    const rotation = await mcpServer.callTool('rotate_credential', { key: 'cf_token', ...auth })
+    expect(rotation.isError).toBe(false)
+    expect(rotation.content[0]!.text).toContain('Credential rotated successfully')
+    expect(rotation.content[0]!.text).not.toContain(await secretContextService.getCredential('ws-1', 'user-1', 'cf_token'))
+
+    const status = await mcpServer.callTool('get_credential_rotation', { key: 'cf_token', ...auth })
+    expect(status.content[0]!.text).toContain('Pending Revocation: version 1')
+    expect(status.content[0]!.text).toContain('swap: done (Version 2)')
+
+    const pending = await mcpServer.callTool('rotate_credential', { key: 'cf_token', dry_run: true, ...auth })
+    expect(pending.isError).toBe(true)
+    expect(pending.content[0]!.text).toContain('still in its grace period')
+  })
+})
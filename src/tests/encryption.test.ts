@@ -1,4 +1,4 @@
-import { EncryptionService } from '../utils/encryption'
+import { EncryptionService, buildSecretAssociatedData } from '../utils/encryption'
 
 describe('EncryptionService', () => {
   let encryptionService: EncryptionService
@@ -148,6 +148,96 @@ describe('EncryptionService', () => {
     })
   })
 
+  describe('key rotation', () => {
+    it('should decrypt values sealed under a previous key version', () => {
+      const plaintext = 'sealed-before-rotation'
+      const encrypted = encryptionService.encrypt(plaintext)
+
+      encryptionService.rotateKey('new-key-after-rotation', '2')
+
+      expect(encryptionService.getKeyVersion()).toBe('2')
+      expect(encryptionService.decrypt(encrypted)).toBe(plaintext)
+    })
+
+    it('should encrypt new values with the current key version', () => {
+      encryptionService.rotateKey('new-key-after-rotation', '2')
+
+      const encrypted = encryptionService.encrypt('fresh-value')
+      expect(encrypted.key_version).toBe('2')
+    })
+
+    it('should treat unversioned values as key version 1', () => {
+      const encrypted = encryptionService.encrypt('legacy-value')
+      delete encrypted.key_version
+
+      encryptionService.rotateKey('new-key-after-rotation', '2')
+
+      expect(encryptionService.needsReencryption(encrypted)).toBe(true)
+      expect(encryptionService.decrypt(encrypted)).toBe('legacy-value')
+    })
+
+    it('should re-encrypt values under the current key version', () => {
+      const encrypted = encryptionService.encrypt('rotate-me')
+      encryptionService.rotateKey('new-key-after-rotation', '2')
+
+      const reencrypted = encryptionService.reencrypt(encrypted)
+
+      expect(reencrypted.key_version).toBe('2')
+      expect(reencrypted.created_at).toBe(encrypted.created_at)
+      expect(encryptionService.needsReencryption(reencrypted)).toBe(false)
+
+      encryptionService.retireKey('1')
+      expect(encryptionService.decrypt(reencrypted)).toBe('rotate-me')
+      expect(() => encryptionService.decrypt(encrypted)).toThrow("Unknown encryption key version '1'")
+    })
+
+    it('should refuse to retire the current key version', () => {
+      expect(() => encryptionService.retireKey('1')).toThrow()
+    })
+
+    it('should load previous keys from the environment', () => {
+      const legacy = new EncryptionService('old-key', '1')
+      const encrypted = legacy.encrypt('from-old-key')
+
+      const service = EncryptionService.fromEnvironment({
+        CONTEXT_ENCRYPTION_KEY: 'current-key',
+        CONTEXT_ENCRYPTION_KEY_VERSION: '2',
+        CONTEXT_ENCRYPTION_PREVIOUS_KEYS: '1:old-key'
+      })
+
+      expect(service.getKeyVersions().sort()).toEqual(['1', '2'])
+      expect(service.decrypt(encrypted)).toBe('from-old-key')
+    })
+  })
+
+  describe('associated data', () => {
+    const owner = buildSecretAssociatedData('ws-1', 'user-1', 'credential', 'do_token')
+
+    it('should only decrypt with the associated data it was sealed with', () => {
+      const encrypted = encryptionService.encrypt('bound-secret', undefined, owner)
+
+      expect(encrypted.aad_version).toBe('1')
+      expect(encryptionService.decrypt(encrypted, owner)).toBe('bound-secret')
+      expect(() => encryptionService.decrypt(encrypted)).toThrow('bound to associated data')
+      expect(() => encryptionService.decrypt(encrypted, buildSecretAssociatedData('ws-1', 'user-2', 'credential', 'do_token'))).toThrow()
+      expect(() => encryptionService.decrypt({ ...encrypted, aad_version: undefined }, owner)).toThrow()
+    })
+
+    it('should not confuse owners whose identifiers contain the separator', () => {
+      expect(buildSecretAssociatedData('ws|1', 'user', 'credential', 'key'))
+        .not.toBe(buildSecretAssociatedData('ws', '1|user', 'credential', 'key'))
+    })
+
+    it('should bind legacy values when re-encrypting them', () => {
+      const legacy = encryptionService.encrypt('legacy-secret')
+
+      const migrated = encryptionService.reencrypt(legacy, owner)
+
+      expect(migrated.aad_version).toBe('1')
+      expect(encryptionService.decrypt(migrated, owner)).toBe('legacy-secret')
+    })
+  })
+
   describe('generateKey', () => {
     it('should generate keys of correct length', () => {
       const key16 = EncryptionService.generateKey(16)
@@ -0,0 +1,171 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContextService } from '../services/SecretContextService'
+import { UserContextService } from '../services/UserContextService'
+import { WorkspaceSecretService } from '../services/WorkspaceSecretService'
+import { ExpiryMonitorService } from '../services/ExpiryMonitorService'
+import { NotificationService, NotificationChannel, isWithinQuietHours } from '../services/NotificationService'
+import { UserContext } from '../types'
+import { TEST_LEAF_CERTIFICATE } from './fixtures/certificates'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Secret expiry monitoring', () => {
+  describe('isWithinQuietHours', () => {
+    it('should handle windows that cross midnight', () => {
+      const quietHours = { start: '22:00', end: '07:00', timezone: 'UTC' }
+
+      expect(isWithinQuietHours(quietHours, new Date('2026-03-01T23:30:00Z'))).toBe(true)
+      expect(isWithinQuietHours(quietHours, new Date('2026-03-01T06:59:00Z'))).toBe(true)
+      expect(isWithinQuietHours(quietHours, new Date('2026-03-01T07:00:00Z'))).toBe(false)
+      expect(isWithinQuietHours(quietHours, new Date('2026-03-01T12:00:00Z'))).toBe(false)
+    })
+
+    it('should evaluate the window in the user timezone', () => {
+      const quietHours = { start: '22:00', end: '07:00', timezone: 'America/New_York' }
+
+      // 03:00 UTC is 22:00 in New York (EST)
+      expect(isWithinQuietHours(quietHours, new Date('2026-01-15T03:00:00Z'))).toBe(true)
+      expect(isWithinQuietHours(quietHours, new Date('2026-01-15T15:00:00Z'))).toBe(false)
+    })
+  })
+
+  describe('ExpiryMonitorService', () => {
+    let db: DatabaseClient
+    let secretContextService: SecretContextService
+    let userContextService: UserContextService
+    let sent: string[]
+    let monitor: ExpiryMonitorService
+
+    const slack: NotificationChannel = {
+      send: async notification => {
+        sent.push(notification.message)
+      }
+    }
+
+    function setNotificationPreferences(notificationPreferences: UserContext['preferences']['notification_preferences']) {
+      jest.spyOn(userContextService, 'getUserContext').mockResolvedValue({
+        preferences: { notification_preferences: notificationPreferences }
+      } as UserContext)
+    }
+
+    beforeEach(async () => {
+      process.env.USE_IN_MEMORY_DB = 'true'
+      process.env.USE_IN_MEMORY_CACHE = 'true'
+
+      db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+      secretContextService = new SecretContextService(db, new EncryptionService('master-key', '1'))
+      userContextService = new UserContextService(db)
+      sent = []
+      monitor = new ExpiryMonitorService(
+        secretContextService,
+        userContextService,
+        new NotificationService({ slack }),
+        { warningWindowDays: 14, scanIntervalMs: 0 }
+      )
+
+      const now = Date.now()
+      await secretContextService.storeCredential('ws-1', 'user-1', 'soon', 'v1', 'token', 'github', new Date(now + 3 * DAY_MS))
+      await secretContextService.storeCredential('ws-1', 'user-1', 'later', 'v2', 'token', 'github', new Date(now + 30 * DAY_MS))
+      await secretContextService.storeCredential('ws-1', 'user-1', 'forever', 'v3', 'token', 'github')
+      await secretContextService.storeCertificate('ws-1', 'user-1', 'api-tls', TEST_LEAF_CERTIFICATE)
+    })
+
+    afterEach(async () => {
+      await db.close()
+      delete process.env.USE_IN_MEMORY_DB
+      delete process.env.USE_IN_MEMORY_CACHE
+    })
+
+    it('should list secrets expiring within the window', async () => {
+      const expiring = await monitor.listExpiringSecrets('ws-1', 'user-1')
+      expect(expiring).toHaveLength(1)
+      expect(expiring[0]).toMatchObject({ secret_type: 'credential', key: 'soon', expired: false })
+      expect(expiring[0]!.expires_in_seconds).toBeGreaterThan(2 * 86400)
+
+      const wider = await monitor.listExpiringSecrets('ws-1', 'user-1', 60)
+      expect(wider.map(secret => secret.key)).toEqual(['soon', 'later'])
+    })
+
+    it('should notify through the preferred channels once per item', async () => {
+      setNotificationPreferences({ channels: ['slack'] })
+
+      const first = await monitor.scan()
+      expect(first).toMatchObject({ scanned_contexts: 1, expiring_secrets: 1, notifications_sent: 1, failures: [] })
+      expect(sent).toHaveLength(1)
+      expect(sent[0]).toContain("credential 'soon' expires at")
+
+      const second = await monitor.scan()
+      expect(second.notifications_sent).toBe(0)
+      expect(sent).toHaveLength(1)
+    })
+
+    it('should defer notifications during quiet hours', async () => {
+      const hour = new Date().getUTCHours()
+      const pad = (value: number) => String((value + 24) % 24).padStart(2, '0')
+      setNotificationPreferences({
+        channels: ['slack'],
+        quiet_hours: { start: `${pad(hour - 1)}:00`, end: `${pad(hour + 1)}:00`, timezone: 'UTC' }
+      })
+
+      const deferred = await monitor.scan()
+      expect(deferred.notifications_deferred).toBe(1)
+      expect(sent).toHaveLength(0)
+
+      setNotificationPreferences({ channels: ['slack'] })
+      const delivered = await monitor.scan()
+      expect(delivered.notifications_sent).toBe(1)
+      expect(sent).toHaveLength(1)
+    })
+
+    it('should notify the workspace admins about shared secrets', async () => {
+      const encryption = new EncryptionService('master-key', '1')
+      const workspaceSecrets = new WorkspaceSecretService(secretContextService, userContextService, db, encryption)
+      monitor.setWorkspaceSecrets(workspaceSecrets)
+
+      const recipients: string[] = []
+      const send = slack.send
+      slack.send = async notification => {
+        recipients.push(`${notification.user_id}: ${notification.title}`)
+        await send(notification)
+      }
+
+      const roles: Record<string, string[]> = { 'user-1': ['user'], 'admin-1': ['admin'], 'admin-2': ['reader', 'admin'] }
+      for (const [userId, granted] of Object.entries(roles)) {
+        await db.insert('user_contexts', {
+          workspace_id: 'ws-1',
+          user_id: userId,
+          preferences: { notification_preferences: { channels: ['slack'] } },
+          settings: { workspace: { default_workspace_id: 'ws-1', workspace_permissions: { 'ws-1': granted } } }
+        })
+      }
+      await workspaceSecrets.storeCredential('ws-1', 'user-1', 'shared_soon', 'v4', 'token', 'github', new Date(Date.now() + 2 * DAY_MS))
+      await workspaceSecrets.storeCredential('ws-1', 'user-1', 'shared_later', 'v5', 'token', 'github', new Date(Date.now() + 30 * DAY_MS))
+
+      try {
+        const result = await monitor.scan()
+        expect(result).toMatchObject({ scanned_contexts: 2, expiring_secrets: 2, notifications_sent: 3, failures: [] })
+        expect(recipients.sort()).toEqual([
+          'admin-1: 1 shared workspace secret(s) expiring soon',
+          'admin-2: 1 shared workspace secret(s) expiring soon',
+          'user-1: 1 secret(s) expiring soon'
+        ])
+        expect(sent.filter(message => message.includes("credential 'shared_soon'"))).toHaveLength(2)
+
+        expect((await monitor.scan()).notifications_sent).toBe(0)
+      } finally {
+        slack.send = send
+      }
+    })
+
+    it('should report channels that are not configured', async () => {
+      setNotificationPreferences({ channels: ['email'] })
+
+      const result = await monitor.scan()
+      expect(result.notifications_sent).toBe(0)
+      expect(result.failures).toEqual([
+        { workspace_id: 'ws-1', user_id: 'user-1', error: "email: Channel 'email' is not configured" }
+      ])
+    })
+  })
+})
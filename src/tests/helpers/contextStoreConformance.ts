@@ -0,0 +1,292 @@
+/**
+ * Behaviour every ContextStore backend must share. Rows are written to real
+ * tables from the migrations; secret_contexts and secret_versions reference the
+ * given workspace (and user), so on Postgres and Supabase those must exist.
+ * Everything inserted is deleted again after each test.
+ */
+
+import crypto from 'crypto'
+import { DatabaseError } from '../../database/client'
+import { ContextStore, Row } from '../../database/ContextStore'
+
+export interface ConformanceFixture {
+  workspaceId: string
+  userId: string
+}
+
+export function describeContextStoreConformance(
+  name: string,
+  createStore: () => ContextStore | Promise<ContextStore>,
+  fixture: ConformanceFixture,
+  describeFn: jest.Describe = describe
+): void {
+  describeFn(`ContextStore conformance: ${name}`, () => {
+    let store: ContextStore
+    let created: Array<[string, string]>
+
+    const insert = async (table: string, row: Row): Promise<Row> => {
+      const inserted = await store.insert(table, row)
+      created.push([table, inserted.id])
+      return inserted
+    }
+
+    const secretVersion = (version: number, overrides: Row = {}): Row => ({
+      id: crypto.randomUUID(),
+      workspace_id: fixture.workspaceId,
+      user_id: fixture.userId,
+      secret_type: 'credential',
+      key: 'conformance_token',
+      version,
+      change_type: version === 1 ? 'create' : 'update',
+      value: { encrypted_data: `sealed-${version}`, iv: 'iv', algorithm: 'aes-256-gcm' },
+      changed_by: fixture.userId,
+      created_at: new Date(Date.UTC(2026, 0, 1, 10, version)).toISOString(),
+      ...overrides
+    })
+
+    beforeAll(async () => {
+      store = await createStore()
+    })
+
+    beforeEach(() => {
+      created = []
+    })
+
+    afterEach(async () => {
+      for (const [table, id] of created.reverse()) {
+        await store.delete(table, id)
+      }
+    })
+
+    afterAll(async () => {
+      await store.close()
+    })
+
+    it('should hand back JSON columns as objects and arrays, numbers as numbers and timestamps as ISO strings', async () => {
+      const createdAt = '2026-01-01T10:00:00.000Z'
+      const inserted = await insert('global_contexts', {
+        id: crypto.randomUUID(),
+        context_type: 'intelligence',
+        category: 'security',
+        data: { threat_type: 'conformance', indicators: [1, 2], nested: { ok: true } },
+        confidence_score: 0.85,
+        tags: ['conformance', 'store'],
+        created_at: createdAt,
+        updated_at: createdAt
+      })
+
+      const [row] = await store.query('global_contexts', { filter: { id: inserted.id } })
+      expect(row).toMatchObject({
+        data: { threat_type: 'conformance', indicators: [1, 2], nested: { ok: true } },
+        confidence_score: 0.85,
+        usage_count: 0,
+        tags: ['conformance', 'store']
+      })
+      expect(new Date(row!.created_at).toISOString()).toBe(createdAt)
+      expect(row!.created_at).toEqual(expect.stringMatching(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/))
+    })
+
+    it('should upsert on the unique columns and update by id', async () => {
+      const id = crypto.randomUUID()
+      const base = { id, workspace_id: fixture.workspaceId, user_id: fixture.userId, created_at: new Date().toISOString() }
+
+      await insert('secret_contexts', { ...base, credentials: { first: { encrypted_data: 'a' } } })
+      const upserted = await store.upsert('secret_contexts', { ...base, credentials: { second: { encrypted_data: 'b' } } }, 'user_id,workspace_id')
+      expect(upserted).toMatchObject({ id, credentials: { second: { encrypted_data: 'b' } } })
+
+      const updated = await store.update('secret_contexts', id, { locked: { reason: 'conformance' }, expires_at: '2030-01-01T00:00:00.000Z' })
+      expect(updated.locked).toEqual({ reason: 'conformance' })
+      expect(new Date(updated.expires_at).toISOString()).toBe('2030-01-01T00:00:00.000Z')
+
+      const rows = await store.query('secret_contexts', { filter: { user_id: fixture.userId, workspace_id: fixture.workspaceId } })
+      expect(rows.map(row => row.id)).toEqual([id])
+
+      await expect(store.update('secret_contexts', crypto.randomUUID(), { locked: null })).rejects.toMatchObject({ code: 'NOT_FOUND' })
+    })
+
+    it('should insert only rows that are absent, keeping the existing one', async () => {
+      const id = crypto.randomUUID()
+      const base = { workspace_id: fixture.workspaceId, user_id: fixture.userId, credentials: { first: { encrypted_data: 'a' } } }
+
+      const inserted = await store.insertIfAbsent('secret_contexts', { ...base, id }, 'user_id,workspace_id')
+      expect(inserted).toMatchObject({ id })
+      created.push(['secret_contexts', id])
+
+      const duplicate = { ...base, id: crypto.randomUUID(), credentials: { second: { encrypted_data: 'b' } } }
+      expect(await store.insertIfAbsent('secret_contexts', duplicate, 'user_id,workspace_id')).toBeNull()
+      if (store.backend !== 'supabase') {
+        // A skipped duplicate leaves the transaction usable
+        await store.transaction(async () => {
+          expect(await store.insertIfAbsent('secret_contexts', duplicate, 'user_id,workspace_id')).toBeNull()
+          expect(await store.count('secret_contexts', { id })).toBe(1)
+        })
+      }
+
+      const rows = await store.query('secret_contexts', { filter: { user_id: fixture.userId, workspace_id: fixture.workspaceId } })
+      expect(rows).toEqual([expect.objectContaining({ id, credentials: { first: { encrypted_data: 'a' } } })])
+    })
+
+    it('should update only while the row holds the expected values', async () => {
+      const id = crypto.randomUUID()
+      await insert('secret_contexts', { id, workspace_id: fixture.workspaceId, user_id: fixture.userId, version: 1 })
+
+      const updated = await store.update('secret_contexts', id, { locked: { reason: 'first' }, version: 2 }, { version: 1 })
+      expect(updated).toMatchObject({ locked: { reason: 'first' }, version: 2 })
+
+      await expect(store.update('secret_contexts', id, { locked: null, version: 2 }, { version: 1 })).rejects.toMatchObject({ code: 'CONFLICT' })
+      await expect(store.update('secret_contexts', crypto.randomUUID(), { locked: null }, { version: 1 })).rejects.toMatchObject({ code: 'NOT_FOUND' })
+      expect((await store.query('secret_contexts', { filter: { id } }))[0]).toMatchObject({ locked: { reason: 'first' }, version: 2 })
+    })
+
+    it('should commit a transaction as a whole or roll all of it back', async () => {
+      if (store.backend === 'supabase') {
+        await expect(store.transaction(async () => undefined)).rejects.toMatchObject({ code: 'UNSUPPORTED' })
+        return
+      }
+
+      const committed = await store.transaction(async () => {
+        const first = await insert('secret_versions', secretVersion(1))
+        // Nested transactions join the outer one
+        await store.transaction(() => insert('secret_versions', secretVersion(2)))
+        return first.id
+      })
+      expect(await store.query('secret_versions', { filter: { id: committed } })).toHaveLength(1)
+
+      const rolledBack = crypto.randomUUID()
+      await expect(store.transaction(async () => {
+        await store.insert('secret_versions', secretVersion(3, { id: rolledBack }))
+        await store.update('secret_versions', committed, { change_type: 'rollback' })
+        throw new Error('abort')
+      })).rejects.toThrow('abort')
+
+      expect(await store.query('secret_versions', { filter: { id: rolledBack } })).toEqual([])
+      expect(await store.count('secret_versions', { workspace_id: fixture.workspaceId, key: 'conformance_token' })).toBe(2)
+      expect((await store.query('secret_versions', { filter: { id: committed } }))[0]).toMatchObject({ change_type: 'create' })
+    })
+
+    it('should report unique violations with code 23505', async () => {
+      await insert('secret_versions', secretVersion(1))
+
+      const duplicate = store.insert('secret_versions', secretVersion(1))
+      await expect(duplicate).rejects.toBeInstanceOf(DatabaseError)
+      await expect(duplicate).rejects.toMatchObject({ code: '23505' })
+    })
+
+    it('should keep a transaction usable after a unique violation', async () => {
+      if (store.backend === 'supabase') return
+
+      const id = await store.transaction(async () => {
+        const first = await insert('secret_versions', secretVersion(1))
+        await expect(store.insert('secret_versions', secretVersion(1))).rejects.toMatchObject({ code: '23505' })
+        // Racing writers in one transaction recover from their own violations
+        await Promise.all([
+          expect(store.insert('secret_versions', secretVersion(1))).rejects.toMatchObject({ code: '23505' }),
+          insert('secret_versions', secretVersion(2))
+        ])
+        return first.id
+      })
+
+      expect(await store.query('secret_versions', { filter: { id } })).toHaveLength(1)
+      expect(await store.count('secret_versions', { workspace_id: fixture.workspaceId, key: 'conformance_token' })).toBe(2)
+    })
+
+    it('should filter, bound, order and page rows', async () => {
+      for (let version = 1; version <= 5; version++) {
+        await insert('secret_versions', secretVersion(version, version === 3 ? { restored_version: 1, change_type: 'rollback' } : {}))
+      }
+      const filter = { workspace_id: fixture.workspaceId, user_id: fixture.userId, key: 'conformance_token' }
+      const versions = (rows: Row[]) => rows.map(row => row.version)
+
+      expect(versions(await store.query('secret_versions', {
+        filter,
+        range: { version: { gt: 1, lte: 4, lt: undefined } },
+        order: { column: 'version', ascending: false }
+      }))).toEqual([4, 3, 2])
+
+      expect(versions(await store.query('secret_versions', {
+        filter,
+        order: { column: 'version', ascending: true },
+        limit: 2,
+        offset: 1
+      }))).toEqual([2, 3])
+
+      expect(versions(await store.query('secret_versions', {
+        filter: { ...filter, restored_version: null },
+        order: { column: 'version' }
+      }))).toEqual([1, 2, 4, 5])
+
+      const [only] = await store.query('secret_versions', { select: 'version, change_type', filter: { ...filter, version: 3 } })
+      expect(only).toEqual({ version: 3, change_type: 'rollback' })
+
+      expect(await store.count('secret_versions', filter)).toBe(5)
+    })
+
+    it('should compare timestamps as instants whatever their ISO format', async () => {
+      await insert('secret_versions', secretVersion(1))
+      await insert('secret_versions', secretVersion(2))
+      const filter = { workspace_id: fixture.workspaceId, key: 'conformance_token' }
+
+      // Version 1 was created at 10:01:00.000Z
+      const rows = await store.query('secret_versions', {
+        filter,
+        range: { created_at: { gte: '2026-01-01T10:01:00Z', lt: '2026-01-01T11:01:30+01:00' } }
+      })
+      expect(rows.map(row => row.version)).toEqual([1])
+    })
+
+    it('should match substrings regardless of case and aggregate groups', async () => {
+      const event = (provider: string, status: string, costImpact: number, resourceType: string): Row => ({
+        id: crypto.randomUUID(),
+        workspace_id: fixture.workspaceId,
+        user_id: fixture.userId,
+        event_type: 'provision',
+        resource_type: resourceType,
+        provider,
+        status,
+        cost_impact: costImpact,
+        duration_ms: 1000
+      })
+      await insert('user_infrastructure_events', event('digitalocean', 'success', 12.5, 'Droplet_100%'))
+      await insert('user_infrastructure_events', event('digitalocean', 'failed', 0, 'droplet'))
+      await insert('user_infrastructure_events', event('aws', 'success', 7.25, 'ec2'))
+      const filter = { workspace_id: fixture.workspaceId, user_id: fixture.userId }
+
+      const droplets = await store.query('user_infrastructure_events', { filter, contains: { resource_type: 'DROPLET' } })
+      expect(droplets).toHaveLength(2)
+      // Wildcards in the value match literally
+      const literal = await store.query('user_infrastructure_events', { filter, contains: { resource_type: '_100%' } })
+      expect(literal.map(row => row.resource_type)).toEqual(['Droplet_100%'])
+
+      const [total] = await store.aggregate('user_infrastructure_events', {
+        filter,
+        measures: { events: { fn: 'count' }, cost: { fn: 'sum', column: 'cost_impact' }, longest: { fn: 'max', column: 'duration_ms' } }
+      })
+      expect(total).toEqual({ events: 3, cost: 19.75, longest: 1000 })
+
+      const byProvider = await store.aggregate('user_infrastructure_events', {
+        filter,
+        contains: { resource_type: 'droplet' },
+        groupBy: ['provider', 'status'],
+        measures: { events: { fn: 'count' } }
+      })
+      expect(byProvider.sort((a, b) => a.status.localeCompare(b.status))).toEqual([
+        { provider: 'digitalocean', status: 'failed', events: 1 },
+        { provider: 'digitalocean', status: 'success', events: 1 }
+      ])
+    })
+
+    it('should delete rows by id', async () => {
+      const inserted = await insert('secret_versions', secretVersion(1))
+
+      expect(await store.delete('secret_versions', inserted.id)).toBe(true)
+      expect(await store.query('secret_versions', { filter: { id: inserted.id } })).toEqual([])
+      expect(await store.count('secret_versions', { workspace_id: fixture.workspaceId, key: 'conformance_token' })).toBe(0)
+    })
+
+    it('should refuse malformed column names and report healthy', async () => {
+      await expect(store.query('secret_versions', { filter: { 'key; DROP TABLE secret_versions': 'x' } }))
+        .rejects.toBeInstanceOf(DatabaseError)
+      expect(await store.healthCheck()).toBe(true)
+    })
+  })
+}
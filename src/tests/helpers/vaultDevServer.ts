@@ -0,0 +1,149 @@
+/**
+ * Vault dev-server harness for tests
+ *
+ * Runs an in-process stand-in for the transit secrets engine of a Vault dev
+ * server (`vault server -dev`) so the Vault key provider can be tested
+ * offline. Set VAULT_DEV_ADDR (and VAULT_DEV_TOKEN, default "root") to run the
+ * same tests against a real dev server instead.
+ */
+
+import crypto from 'crypto'
+import http from 'http'
+import { AddressInfo } from 'net'
+
+export interface VaultDevServer {
+  endpoint: string
+  token: string
+  rotateKey(keyName: string, mountPath?: string): Promise<void>
+  close(): Promise<void>
+}
+
+export async function startVaultDevServer(token: string = 'dev-root-token'): Promise<VaultDevServer> {
+  if (process.env.VAULT_DEV_ADDR) {
+    const endpoint = process.env.VAULT_DEV_ADDR
+    const devToken = process.env.VAULT_DEV_TOKEN || 'root'
+    // Dev servers don't mount transit by default; "already in use" is fine
+    await vaultRequest(endpoint, devToken, 'sys/mounts/transit', { type: 'transit' }).catch(() => undefined)
+
+    return {
+      endpoint,
+      token: devToken,
+      rotateKey: async (keyName, mountPath = 'transit') => {
+        await vaultRequest(endpoint, devToken, `${mountPath}/keys/${keyName}/rotate`, {})
+      },
+      close: async () => undefined
+    }
+  }
+
+  const transit = new FakeTransitEngine()
+  const server = http.createServer((request, response) => {
+    let body = ''
+    request.on('data', chunk => { body += chunk })
+    request.on('end', () => {
+      const reply = (status: number, payload?: unknown) => {
+        response.writeHead(status, { 'Content-Type': 'application/json' })
+        response.end(payload === undefined ? '' : JSON.stringify(payload))
+      }
+
+      if (request.headers['x-vault-token'] !== token) {
+        return reply(403, { errors: ['permission denied'] })
+      }
+
+      try {
+        const result = transit.handle(request.method || 'GET', request.url || '/', body ? JSON.parse(body) : {})
+        reply(result === undefined ? 204 : 200, result === undefined ? undefined : { data: result })
+      } catch (error) {
+        reply(400, { errors: [error instanceof Error ? error.message : 'Unknown error'] })
+      }
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+  return {
+    endpoint,
+    token,
+    rotateKey: async (keyName, mountPath = 'transit') => {
+      await vaultRequest(endpoint, token, `${mountPath}/keys/${keyName}/rotate`, {})
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+  }
+}
+
+/**
+ * Minimal transit engine: named keys with versions, AES-256-GCM ciphertexts
+ * in Vault's "vault:v<N>:<base64>" format
+ */
+class FakeTransitEngine {
+  private keys: Map<string, Buffer[]> = new Map()
+
+  handle(method: string, url: string, body: Record<string, string>): Record<string, unknown> | undefined {
+    const match = /^\/v1\/([^/]+)\/(encrypt|decrypt|rewrap|keys)\/([^/]+)(\/rotate)?$/.exec(url)
+    if (!match) {
+      throw new Error(`no handler for route '${url}'`)
+    }
+    const [, , operation, keyName, rotate] = match as unknown as [string, string, string, string, string | undefined]
+
+    switch (operation) {
+      case 'encrypt':
+        return { ciphertext: this.encrypt(keyName, Buffer.from(body.plaintext || '', 'base64')) }
+      case 'decrypt':
+        return { plaintext: this.decrypt(keyName, body.ciphertext || '').toString('base64') }
+      case 'rewrap':
+        return { ciphertext: this.encrypt(keyName, this.decrypt(keyName, body.ciphertext || '')) }
+      case 'keys':
+        if (rotate && method === 'POST') {
+          this.versions(keyName).push(crypto.randomBytes(32))
+          return undefined
+        }
+        if (!this.keys.has(keyName)) {
+          throw new Error(`encryption key not found`)
+        }
+        return { name: keyName, type: 'aes256-gcm96', latest_version: this.versions(keyName).length }
+    }
+    return undefined
+  }
+
+  private encrypt(keyName: string, plaintext: Buffer): string {
+    const versions = this.versions(keyName)
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv('aes-256-gcm', versions[versions.length - 1]!, iv)
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+    return `vault:v${versions.length}:${Buffer.concat([iv, ciphertext, cipher.getAuthTag()]).toString('base64')}`
+  }
+
+  private decrypt(keyName: string, ciphertext: string): Buffer {
+    const match = /^vault:v(\d+):(.+)$/.exec(ciphertext)
+    const key = match && this.keys.get(keyName)?.[parseInt(match[1]!) - 1]
+    if (!match || !key) {
+      throw new Error('invalid ciphertext: unable to decrypt')
+    }
+
+    const raw = Buffer.from(match[2]!, 'base64')
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, raw.subarray(0, 12))
+    decipher.setAuthTag(raw.subarray(raw.length - 16))
+    return Buffer.concat([decipher.update(raw.subarray(12, raw.length - 16)), decipher.final()])
+  }
+
+  // Transit creates keys on first encrypt, like Vault's upsert behaviour
+  private versions(keyName: string): Buffer[] {
+    let versions = this.keys.get(keyName)
+    if (!versions) {
+      versions = [crypto.randomBytes(32)]
+      this.keys.set(keyName, versions)
+    }
+    return versions
+  }
+}
+
+async function vaultRequest(endpoint: string, token: string, path: string, body: unknown): Promise<void> {
+  const response = await fetch(`${endpoint}/v1/${path}`, {
+    method: 'POST',
+    headers: { 'X-Vault-Token': token, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+  if (!response.ok) {
+    throw new Error(`Vault request to ${path} failed with status ${response.status}`)
+  }
+}
@@ -0,0 +1,167 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContextService } from '../services/SecretContextService'
+import { WorkspaceKeyService } from '../services/WorkspaceKeyService'
+import { KeyProviderError, LocalFileKeyProvider, Pkcs11KeyProvider, VaultTransitKeyProvider, createKeyProvider } from '../kms'
+import { startVaultDevServer, VaultDevServer } from './helpers/vaultDevServer'
+
+describe('KMS key providers', () => {
+  describe('LocalFileKeyProvider', () => {
+    let keystorePath: string
+
+    beforeEach(() => {
+      keystorePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'cv-kms-')), 'master-keys.json')
+    })
+
+    afterEach(() => {
+      fs.rmSync(path.dirname(keystorePath), { recursive: true, force: true })
+    })
+
+    it('should create the keystore on first use and round-trip data keys', async () => {
+      const provider = new LocalFileKeyProvider(keystorePath)
+      const dataKey = Buffer.alloc(32, 7)
+
+      const wrapped = await provider.wrapKey(dataKey)
+
+      expect(wrapped.provider).toBe('local-file')
+      expect(wrapped.key_version).toBe('1')
+      expect(fs.statSync(keystorePath).mode & 0o777).toBe(0o600)
+      expect(await new LocalFileKeyProvider(keystorePath).unwrapKey(wrapped)).toEqual(dataKey)
+    })
+
+    it('should re-wrap keys after the keystore is rotated', async () => {
+      const provider = new LocalFileKeyProvider(keystorePath)
+      const wrapped = await provider.wrapKey(Buffer.alloc(32, 1))
+
+      expect(await provider.rewrapKey(wrapped)).toBeNull()
+      expect(provider.rotate()).toBe('2')
+
+      const rewrapped = await provider.rewrapKey(wrapped)
+      expect(rewrapped?.key_version).toBe('2')
+      expect(await provider.unwrapKey(rewrapped!)).toEqual(Buffer.alloc(32, 1))
+    })
+  })
+
+  describe('VaultTransitKeyProvider', () => {
+    let vault: VaultDevServer
+    let provider: VaultTransitKeyProvider
+
+    beforeAll(async () => {
+      vault = await startVaultDevServer()
+    })
+
+    afterAll(async () => {
+      await vault.close()
+    })
+
+    beforeEach(() => {
+      provider = new VaultTransitKeyProvider({
+        endpoint: vault.endpoint,
+        token: vault.token,
+        keyName: `cv-test-${Date.now()}`
+      })
+    })
+
+    it('should wrap and unwrap data keys through transit', async () => {
+      const dataKey = Buffer.alloc(32, 9)
+
+      const wrapped = await provider.wrapKey(dataKey)
+
+      expect(wrapped.provider).toBe('vault-transit')
+      expect(wrapped.ciphertext).toMatch(/^vault:v1:/)
+      expect(await provider.unwrapKey(wrapped)).toEqual(dataKey)
+      expect(await provider.healthCheck()).toBe(true)
+    })
+
+    it('should rewrap only after the transit key is rotated', async () => {
+      const wrapped = await provider.wrapKey(Buffer.alloc(32, 3))
+      expect(await provider.rewrapKey(wrapped)).toBeNull()
+
+      await vault.rotateKey((provider as any).config.keyName)
+
+      const rewrapped = await provider.rewrapKey(wrapped)
+      expect(rewrapped?.key_version).toBe('2')
+      expect(await provider.unwrapKey(rewrapped!)).toEqual(Buffer.alloc(32, 3))
+    })
+
+    it('should surface Vault errors as KeyProviderError', async () => {
+      const unauthorized = new VaultTransitKeyProvider({ endpoint: vault.endpoint, token: 'wrong-token', keyName: 'cv-test' })
+
+      await expect(unauthorized.wrapKey(Buffer.alloc(32))).rejects.toThrow(KeyProviderError)
+      expect(await unauthorized.healthCheck()).toBe(false)
+    })
+
+    it('should wrap workspace data keys used by the secret context service', async () => {
+      process.env.USE_IN_MEMORY_DB = 'true'
+      process.env.USE_IN_MEMORY_CACHE = 'true'
+      const db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+
+      try {
+        const encryption = new EncryptionService('master-key', '1').setKeyProvider(provider)
+        const workspaceKeys = new WorkspaceKeyService(db, encryption)
+        const secretContextService = new SecretContextService(db, encryption, workspaceKeys)
+
+        await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_secret', 'token', 'digitalocean')
+
+        const [storedKey] = await db.query('workspace_keys')
+        expect(storedKey!.wrapped_key.provider).toBe('vault-transit')
+        expect(await secretContextService.getCredential('ws-1', 'user-1', 'do_token')).toBe('dop_v1_secret')
+      } finally {
+        await db.close()
+        delete process.env.USE_IN_MEMORY_DB
+        delete process.env.USE_IN_MEMORY_CACHE
+      }
+    })
+  })
+
+  describe('EncryptionService with a key provider', () => {
+    it('should move data keys wrapped by the keyring to a newly configured provider', async () => {
+      const keystoreDir = fs.mkdtempSync(path.join(os.tmpdir(), 'cv-kms-'))
+      const encryption = new EncryptionService('master-key', '1')
+      const { plaintext, wrapped } = await encryption.generateDataKey()
+      expect(wrapped.provider).toBe('master')
+
+      encryption.setKeyProvider(new LocalFileKeyProvider(path.join(keystoreDir, 'master-keys.json')))
+      const rewrapped = await encryption.rewrapDataKey(wrapped)
+
+      expect(rewrapped?.provider).toBe('local-file')
+      expect(await encryption.unwrapDataKey(rewrapped!)).toEqual(plaintext)
+      fs.rmSync(keystoreDir, { recursive: true, force: true })
+    })
+
+    it('should refuse keys wrapped by a provider that is not configured', async () => {
+      const encryption = new EncryptionService('master-key', '1')
+
+      await expect(encryption.unwrapDataKey({
+        provider: 'vault-transit',
+        key_id: 'transit/cv',
+        key_version: '1',
+        ciphertext: 'vault:v1:abc',
+        created_at: new Date().toISOString()
+      })).rejects.toThrow("No key provider available for keys wrapped by 'vault-transit'")
+    })
+  })
+
+  describe('Pkcs11KeyProvider', () => {
+    it('should report unavailable without an HSM session', async () => {
+      const provider = new Pkcs11KeyProvider({ modulePath: '/usr/lib/softhsm/libsofthsm2.so', slot: 0, pin: '1234', keyLabel: 'cv' })
+
+      expect(await provider.healthCheck()).toBe(false)
+      await expect(provider.wrapKey(Buffer.alloc(32))).rejects.toThrow('No PKCS#11 session available')
+    })
+  })
+
+  describe('createKeyProvider', () => {
+    it('should select the provider from KMS_PROVIDER', () => {
+      expect(createKeyProvider({})).toBeUndefined()
+      expect(createKeyProvider({ KMS_PROVIDER: 'local-file' })).toBeInstanceOf(LocalFileKeyProvider)
+      expect(createKeyProvider({ KMS_PROVIDER: 'vault-transit', VAULT_ENDPOINT: 'http://127.0.0.1:8200', VAULT_TOKEN: 'root' }))
+        .toBeInstanceOf(VaultTransitKeyProvider)
+      expect(() => createKeyProvider({ KMS_PROVIDER: 'vault-transit' })).toThrow('VAULT_ENDPOINT and VAULT_TOKEN are required')
+      expect(() => createKeyProvider({ KMS_PROVIDER: 'aws-kms' })).toThrow("Unknown KMS_PROVIDER 'aws-kms'")
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContextService } from '../services/SecretContextService'
+import { WorkspaceKeyService } from '../services/WorkspaceKeyService'
+import { KeyRotationService } from '../services/KeyRotationService'
+
+describe('KeyRotationService', () => {
+  let db: DatabaseClient
+  let encryption: EncryptionService
+  let workspaceKeys: WorkspaceKeyService
+  let secretContextService: SecretContextService
+
+  beforeEach(() => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    encryption = new EncryptionService('original-key', '1')
+    workspaceKeys = new WorkspaceKeyService(db, encryption)
+    secretContextService = new SecretContextService(db, encryption, workspaceKeys)
+  })
+
+  afterEach(async () => {
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should re-wrap every workspace data key to the new master key version', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_secret', 'token', 'digitalocean')
+    await secretContextService.storeCredential('ws-2', 'user-2', 'cf_token', 'cf-secret', 'api_key', 'cloudflare')
+
+    encryption.rotateKey('rotated-key', '2')
+    const rotation = new KeyRotationService(secretContextService, workspaceKeys, encryption)
+
+    expect(rotation.start().status).toBe('running')
+    const progress = await rotation.waitForCompletion()
+
+    expect(progress.status).toBe('completed')
+    expect(progress.rewrapped_data_keys).toBe(2)
+    expect(progress.total_contexts).toBe(2)
+    expect(progress.processed_contexts).toBe(2)
+    expect(progress.failed_values).toBe(0)
+
+    // Old master key is no longer needed once every data key is re-wrapped
+    encryption.retireKey('1')
+    const freshKeyCache = new WorkspaceKeyService(db, encryption)
+    const restarted = new SecretContextService(db, encryption, freshKeyCache, (secretContextService as any).repository)
+
+    expect(await restarted.getCredential('ws-1', 'user-1', 'do_token')).toBe('dop_v1_secret')
+    expect(await restarted.getCredential('ws-2', 'user-2', 'cf_token')).toBe('cf-secret')
+  })
+
+  it('should move values sealed with the master key under the workspace data key', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_secret', 'token', 'digitalocean')
+
+    // Simulate a value written before envelope encryption
+    const [secretContext] = await collect(secretContextService.iterateSecretContexts())
+    secretContext!.credentials.do_token = {
+      ...secretContext!.credentials.do_token!,
+      ...encryption.encrypt('legacy-master-secret'),
+      key_scope: undefined,
+      aad_version: undefined
+    }
+    await (secretContextService as any).repository.save(secretContext)
+
+    encryption.rotateKey('rotated-key', '2')
+    const rotation = new KeyRotationService(secretContextService, workspaceKeys, encryption)
+    rotation.start()
+    const progress = await rotation.waitForCompletion()
+
+    expect(progress.reencrypted_values).toBe(1)
+    const [reencrypted] = await collect(secretContextService.iterateSecretContexts())
+    expect(reencrypted!.credentials.do_token!.key_scope).toBe('workspace')
+    expect(reencrypted!.credentials.do_token!.aad_version).toBe('1')
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'do_token')).toBe('legacy-master-secret')
+  })
+
+  it('should report data keys whose master key version is missing from the keyring', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_secret', 'token', 'digitalocean')
+
+    encryption.rotateKey('rotated-key', '2')
+    encryption.retireKey('1')
+    const rotation = new KeyRotationService(secretContextService, workspaceKeys, encryption)
+
+    rotation.start()
+    const progress = await rotation.waitForCompletion()
+
+    expect(progress.status).toBe('completed')
+    expect(progress.rewrapped_data_keys).toBe(0)
+    expect(progress.errors[0]).toMatchObject({ context_id: 'workspace:ws-1', field: 'workspace_keys', key: '1' })
+  })
+})
+
+async function collect<T>(iterator: AsyncGenerator<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterator) {
+    items.push(item)
+  }
+  return items
+}
@@ -0,0 +1,180 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContextService } from '../services/SecretContextService'
+import { UserContextService } from '../services/UserContextService'
+import { GlobalContextService } from '../services/GlobalContextService'
+import { DeploymentSessionService } from '../services/DeploymentSessionService'
+import { ContextManagerMCPServer } from '../mcp/server'
+import { MCPBatch, MCPBatchSchema, runMCPBatch } from '../mcp/batch'
+
+describe('MCP batch calls', () => {
+  let db: DatabaseClient
+  let secretContextService: SecretContextService
+  let userContextService: UserContextService
+  let deploymentSessionService: DeploymentSessionService
+  let server: ContextManagerMCPServer
+
+  const scope = { workspace_id: 'ws-1', user_id: 'user-1', jwt_token: 'jwt' }
+  const deploymentTarget = {
+    repository_url: 'https://github.com/example/blog',
+    branch: 'main',
+    application_name: 'blog',
+    target_domain: 'blog.example.com'
+  }
+
+  const run = (batch: Partial<MCPBatch>) =>
+    runMCPBatch(MCPBatchSchema.parse(batch), (name, input) => server.callTool(name, input), db)
+
+  beforeEach(async () => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    secretContextService = new SecretContextService(db, new EncryptionService('master-key', '1'))
+    userContextService = new UserContextService(db)
+    deploymentSessionService = new DeploymentSessionService(db.store)
+    server = new ContextManagerMCPServer(secretContextService, userContextService, new GlobalContextService(), deploymentSessionService)
+
+    await userContextService.updateUserPreferences('ws-1', 'user-1', { default_cloud_provider: 'aws' })
+  })
+
+  afterEach(async () => {
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should commit calls across secret, user and session contexts, feeding results forward', async () => {
+    const outcome = await run({
+      transactional: true,
+      calls: [
+        { name: 'store_credential', arguments: { ...scope, key: 'do_token', value: 'dop_v1_abc', credential_type: 'token', provider: 'custom' } },
+        { name: 'update_user_preferences', arguments: { ...scope, preferences: { default_cloud_provider: 'digitalocean' } } },
+        { id: 'session', name: 'create_deployment_session', arguments: { ...scope, deployment_target: deploymentTarget } },
+        { name: 'add_deployment_step', arguments: { ...scope, session_id: { $ref: 'session.session_id' }, step_name: 'provision' } }
+      ]
+    })
+
+    expect(outcome).toMatchObject({ committed: true })
+    expect(outcome.results.map(result => [result.status, result.success])).toEqual(Array(4).fill(['committed', true]))
+
+    const sessionId = outcome.results[2]!.result!.data!.session_id as string
+    expect((await deploymentSessionService.getSession(sessionId))!.deployment_steps.map(step => step.step_name)).toEqual(['provision'])
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'do_token')).toBe('dop_v1_abc')
+    expect((await userContextService.getUserContext('ws-1', 'user-1'))!.preferences.default_cloud_provider).toBe('digitalocean')
+  })
+
+  it('should roll every call back and report the one that aborted the batch', async () => {
+    // Cached before the batch, so a stale cache would show the rolled back preferences
+    await userContextService.getUserContext('ws-1', 'user-1')
+
+    const outcome = await run({
+      transactional: true,
+      calls: [
+        { name: 'update_user_preferences', arguments: { ...scope, preferences: { default_cloud_provider: 'gcp' } } },
+        { name: 'store_credential', arguments: { ...scope, key: 'do_token', value: 'dop_v1_abc', credential_type: 'token', provider: 'custom' } },
+        { id: 'session', name: 'create_deployment_session', arguments: { ...scope, deployment_target: deploymentTarget } },
+        { id: 'lookup', name: 'get_deployment_session', arguments: { ...scope, session_id: 'missing' } },
+        { name: 'add_deployment_step', arguments: { ...scope, session_id: { $ref: 'session.session_id' }, step_name: 'provision' } }
+      ]
+    })
+
+    expect(outcome).toMatchObject({
+      committed: false,
+      aborted_at: { index: 3, id: 'lookup', tool_name: 'get_deployment_session', error: 'Deployment session not found or expired' }
+    })
+    expect(outcome.results.map(result => result.status)).toEqual(['rolled_back', 'rolled_back', 'rolled_back', 'failed', 'not_run'])
+    expect(outcome.results.every(result => !result.success)).toBe(true)
+    expect(outcome.results.filter(result => result.result).map(result => result.tool_name)).toEqual(['get_deployment_session'])
+
+    expect(await deploymentSessionService.getUserSessions('user-1')).toEqual([])
+    expect(await db.count('deployment_sessions')).toBe(0)
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'do_token')).toBeNull()
+    expect((await userContextService.getUserContext('ws-1', 'user-1'))!.preferences.default_cloud_provider).toBe('aws')
+  })
+
+  it('should abort on references that do not resolve to an earlier result', async () => {
+    const outcome = await run({
+      transactional: true,
+      calls: [
+        { id: 'prefs', name: 'update_user_preferences', arguments: { ...scope, preferences: { default_cloud_provider: 'gcp' } } },
+        { name: 'add_deployment_step', arguments: { ...scope, session_id: { $ref: 'prefs.session_id' }, step_name: 'provision' } }
+      ]
+    })
+
+    expect(outcome.aborted_at).toEqual({
+      index: 1,
+      tool_name: 'add_deployment_step',
+      error: "Reference 'prefs.session_id' has no value in the result of update_user_preferences",
+      error_code: 'UNRESOLVED_REFERENCE'
+    })
+    expect((await userContextService.getUserContext('ws-1', 'user-1'))!.preferences.default_cloud_provider).toBe('aws')
+
+    const forward = await run({
+      transactional: true,
+      calls: [{ name: 'get_deployment_session', arguments: { ...scope, session_id: { $ref: '1.session_id' } } }]
+    })
+    expect(forward.aborted_at).toMatchObject({ index: 0, error_code: 'UNRESOLVED_REFERENCE' })
+  })
+
+  it('should refuse references outside transactions and tools that cannot roll back', async () => {
+    await expect(run({
+      calls: [
+        { id: 'session', name: 'create_deployment_session', arguments: { ...scope, deployment_target: deploymentTarget } },
+        { name: 'get_deployment_session', arguments: { ...scope, session_id: { $ref: 'session.session_id' } } }
+      ]
+    })).rejects.toMatchObject({ code: 'REFERENCE_NOT_ALLOWED' })
+
+    await expect(run({
+      transactional: true,
+      calls: [{ name: 'rotate_credential', arguments: { ...scope, key: 'do_token' } }]
+    })).rejects.toMatchObject({ code: 'NOT_TRANSACTIONAL' })
+
+    await expect(run({
+      transactional: true,
+      calls: [{ name: 'store_credential', arguments: { ...scope, key: 'do_token', value: 'dop_v1_abc', credential_type: 'token', provider: 'custom', check_liveness: true } }]
+    })).rejects.toMatchObject({ code: 'NOT_TRANSACTIONAL' })
+
+    await expect(run({
+      transactional: true,
+      calls: [
+        { id: 'same', name: 'get_user_context', arguments: scope },
+        { id: 'same', name: 'get_user_context', arguments: scope }
+      ]
+    })).rejects.toMatchObject({ code: 'DUPLICATE_ID' })
+  })
+
+  it('should keep secret reads out of transactions, so their audit entries outlast a failure', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_abc', 'token', 'custom')
+    const calls = [
+      { name: 'retrieve_credential', arguments: { ...scope, key: 'do_token' } },
+      { name: 'get_deployment_session', arguments: { ...scope, session_id: 'missing' } }
+    ]
+
+    await expect(run({ transactional: true, calls })).rejects.toMatchObject({ code: 'NOT_TRANSACTIONAL' })
+    expect(await db.count('audit_logs', { operation: 'get_credential' })).toBe(0)
+
+    const outcome = await run({ calls })
+    expect(outcome.results.map(result => result.success)).toEqual([true, false])
+    expect(await db.count('audit_logs', { operation: 'get_credential', resource_key: 'do_token' })).toBe(1)
+  })
+
+  it('should keep writes from outside a transaction that rolls back', async () => {
+    let release: () => void = () => undefined
+    const held = new Promise<void>(resolve => { release = resolve })
+
+    const transaction = db.transaction(async () => {
+      await secretContextService.storeCredential('ws-1', 'user-1', 'inside', 'value', 'token', 'custom')
+      await held
+      throw new Error('abort')
+    })
+    const outside = secretContextService.storeCredential('ws-1', 'user-2', 'outside', 'value', 'token', 'custom')
+
+    release()
+    await expect(transaction).rejects.toThrow('abort')
+    await outside
+
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'inside')).toBeNull()
+    expect(await secretContextService.getCredential('ws-1', 'user-2', 'outside')).toBe('value')
+  })
+})
@@ -0,0 +1,191 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { MigrationRunner } from '../database/MigrationRunner'
+import { MIGRATIONS, Migration } from '../database/migrations'
+import { SqliteStore } from '../database/stores/SqliteStore'
+import { seedGlobalContext, COMMUNITY_PATTERN_SEEDS, WORKFLOW_PATTERN_SEEDS } from '../database/seeds/globalContext'
+import { GlobalContextService } from '../services/GlobalContextService'
+
+describe('MigrationRunner', () => {
+  let store: SqliteStore
+
+  beforeEach(() => {
+    store = new SqliteStore(':memory:', { migrate: false })
+  })
+
+  afterEach(async () => {
+    await store.close()
+  })
+
+  it('should apply pending migrations, roll them back and re-apply them', async () => {
+    const runner = new MigrationRunner(store)
+    expect((await runner.status()).every(migration => migration.applied_at === null)).toBe(true)
+
+    expect((await runner.up()).map(migration => migration.version)).toEqual(MIGRATIONS.map(migration => migration.version))
+    expect(await runner.up()).toEqual([])
+    expect((await runner.status()).every(migration => migration.applied_at !== null)).toBe(true)
+    expect(await store.count('audit_logs')).toBe(0)
+
+    // Back to the secret context tables only
+    const rolledBack = await runner.down(1)
+    expect(rolledBack.map(migration => migration.version)).toEqual([10, 9, 8, 7, 6, 5, 4, 3, 2])
+    await expect(store.count('user_contexts')).rejects.toMatchObject({ code: 'UNKNOWN_TABLE' })
+    expect(await store.count('secret_contexts')).toBe(0)
+
+    // Without a target only the latest is rolled back
+    await runner.up(3)
+    expect((await runner.down()).map(migration => migration.name)).toEqual(['global_contexts'])
+    expect((await runner.status()).filter(migration => migration.applied_at).map(migration => migration.version)).toEqual([1, 2])
+
+    await runner.up()
+    await store.insert('deployment_sessions', { id: 'session-1', workspace_id: 'ws-1', user_id: 'user-1', status: 'planning', data: {} })
+    expect(await store.count('deployment_sessions')).toBe(1)
+  })
+
+  it('should split user context documents into history rows and put them back on rollback', async () => {
+    const runner = new MigrationRunner(store)
+    await runner.up(6)
+
+    const pattern = {
+      id: 'pattern-1', name: 'react-app', pattern_type: 'deployment', configuration: { framework: 'react' },
+      success_rate: 0.9, usage_count: 3, last_used: '2026-01-02T00:00:00.000Z', created_at: '2026-01-01T00:00:00.000Z'
+    }
+    const conversation = {
+      id: 'conversation-1', session_id: 'session-1', message_content: 'Deploy my app',
+      intent_analysis: { primary_intent: 'deployment', confidence: 0.9, entities: {} },
+      agent_responses: [{ agent_type: 'watson', response: 'Provisioning a droplet', confidence: 0.8 }],
+      outcome: { status: 'success', actions_taken: [], resources_affected: [] },
+      timestamp: '2026-01-03T00:00:00.000Z'
+    }
+    await store.insert('user_contexts', {
+      id: 'context-1',
+      workspace_id: 'ws-1',
+      user_id: 'user-1',
+      preferences: {},
+      settings: {},
+      deployment_patterns: [pattern],
+      infrastructure_history: [1, 2].map(index => ({
+        id: `event-${index}`, event_type: 'provision', resource_type: 'droplet', provider: 'digitalocean', status: 'success',
+        configuration: {}, cost_impact: 5, duration_ms: 100, timestamp: `2026-01-0${index}T00:00:00.000Z`
+      })),
+      conversation_context: [conversation],
+      deployment_sessions: []
+    })
+
+    await runner.up()
+    const [context] = await store.query('user_contexts')
+    expect(context).not.toHaveProperty('deployment_patterns')
+    expect(await store.query('user_deployment_patterns', { select: 'id, configuration, usage_count, search_text' }))
+      .toEqual([{ id: 'pattern-1', configuration: { framework: 'react' }, usage_count: 3, search_text: 'react-app {"framework":"react"}' }])
+    expect(await store.count('user_infrastructure_events', { workspace_id: 'ws-1', user_id: 'user-1' })).toBe(2)
+    const [row] = await store.query('user_conversations')
+    expect(row).toMatchObject({ ...conversation, workspace_id: 'ws-1', user_id: 'user-1' })
+    expect(row!.search_text).toBe('Deploy my app\ndeployment\nProvisioning a droplet')
+
+    await runner.down(6)
+    const [restored] = await store.query('user_contexts')
+    expect(restored!.deployment_patterns).toEqual([pattern])
+    expect(restored!.infrastructure_history.map((event: { id: string }) => event.id)).toEqual(['event-2', 'event-1'])
+    expect(restored!.conversation_context).toEqual([conversation])
+    expect(restored!.deployment_sessions).toEqual([])
+    await expect(store.count('user_conversations')).rejects.toMatchObject({ code: 'UNKNOWN_TABLE' })
+  })
+
+  it('should merge deployment patterns a document holds more than once', async () => {
+    const runner = new MigrationRunner(store)
+    await runner.up(6)
+
+    const pattern = (id: string, fields: Record<string, unknown>) => ({
+      id, name: 'react-app', pattern_type: 'deployment', configuration: {}, created_at: '2026-01-01T00:00:00.000Z', ...fields
+    })
+    await store.insert('user_contexts', {
+      id: 'context-1',
+      workspace_id: 'ws-1',
+      user_id: 'user-1',
+      preferences: {},
+      settings: {},
+      deployment_patterns: [
+        pattern('pattern-1', { configuration: { framework: 'react' }, success_rate: 1, usage_count: 3, last_used: '2026-01-02T00:00:00.000Z' }),
+        pattern('pattern-2', { configuration: { framework: 'next' }, success_rate: 0.5, usage_count: 1, last_used: '2026-01-05T00:00:00.000Z' })
+      ],
+      infrastructure_history: [],
+      conversation_context: [],
+      deployment_sessions: []
+    })
+
+    await runner.up()
+    expect(await store.query('user_deployment_patterns', { select: 'configuration, success_rate, usage_count, last_used' })).toEqual([
+      { configuration: { framework: 'next' }, success_rate: 0.875, usage_count: 4, last_used: '2026-01-05T00:00:00.000Z' }
+    ])
+  })
+
+  it('should leave a failed migration unrecorded and its changes undone', async () => {
+    const broken: Migration = {
+      version: 2,
+      name: 'broken',
+      up: { postgres: '', sqlite: 'CREATE TABLE half_done (id TEXT PRIMARY KEY); INSERT INTO missing_table VALUES (1);' },
+      down: { postgres: '', sqlite: 'DROP TABLE half_done;' }
+    }
+    const runner = new MigrationRunner(store, [MIGRATIONS[0]!, broken])
+
+    await expect(runner.up()).rejects.toThrow(/Migration 002_broken failed/)
+
+    expect((await runner.status()).map(migration => [migration.version, migration.applied_at !== null])).toEqual([[1, true], [2, false]])
+    await expect(store.count('half_done')).rejects.toMatchObject({ code: 'UNKNOWN_TABLE' })
+    expect(await store.count('schema_migrations_lock')).toBe(0)
+  })
+
+  it('should wait for the lock of another runner and report a stale one', async () => {
+    const [first, second] = await Promise.all([new MigrationRunner(store).up(), new MigrationRunner(store).up()])
+    expect(first.length + second.length).toBe(MIGRATIONS.length)
+
+    await store.insert('schema_migrations_lock', { id: 1, locked_by: 'crashed-host:42', locked_at: new Date().toISOString() })
+    const runner = new MigrationRunner(store, MIGRATIONS, { lockTimeoutMs: 0 })
+
+    await expect(runner.down()).rejects.toMatchObject({ code: 'MIGRATION_LOCKED', message: expect.stringContaining('crashed-host:42') })
+    expect(await runner.unlock()).toBe(true)
+    expect(await runner.unlock()).toBe(false)
+    expect(await runner.down()).toHaveLength(1)
+  })
+
+  it('should refuse to roll back a migration this build does not know', async () => {
+    const runner = new MigrationRunner(store)
+    await runner.up()
+
+    await expect(new MigrationRunner(store, MIGRATIONS.slice(0, 5)).down()).rejects.toMatchObject({ code: 'MIGRATION_UNKNOWN' })
+    expect(() => new MigrationRunner(store, [MIGRATIONS[0]!, { ...MIGRATIONS[1]!, version: 1 }])).toThrow(/Duplicate migration version 1/)
+  })
+})
+
+describe('SQLite store migrations and seeding', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it('should migrate a database file when it opens and seed it once', async () => {
+    const filename = path.join(directory, 'context-manager.db')
+
+    let store = new SqliteStore(filename)
+    const status = await new MigrationRunner(store).status()
+    expect(status.every(migration => migration.applied_at !== null)).toBe(true)
+
+    expect(await seedGlobalContext(store)).toEqual({ patterns: COMMUNITY_PATTERN_SEEDS.length, workflows: WORKFLOW_PATTERN_SEEDS.length })
+    await store.close()
+
+    store = new SqliteStore(filename)
+    expect(await seedGlobalContext(store)).toEqual({ patterns: 0, workflows: 0 })
+
+    const globalContext = new GlobalContextService(store)
+    await globalContext.load()
+    const patterns = await globalContext.getCommunityPatterns({ limit: 100 })
+    expect(patterns.map(pattern => pattern.name).sort()).toEqual(COMMUNITY_PATTERN_SEEDS.map(pattern => pattern.name).sort())
+    await store.close()
+  })
+})
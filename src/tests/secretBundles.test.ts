@@ -0,0 +1,108 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretBundle, generateBundleKeyPair } from '../utils/secretBundle'
+import { SecretContextService } from '../services/SecretContextService'
+import { TEST_ED25519_PRIVATE_KEY, TEST_ED25519_PUBLIC_KEY } from './fixtures/sshKeys'
+import { TEST_CA_CERTIFICATE } from './fixtures/certificates'
+
+const PASSPHRASE = 'correct horse battery staple'
+
+describe('Secret bundles', () => {
+  let db: DatabaseClient
+  let source: SecretContextService
+  // A second instance with its own master key and store
+  let destination: SecretContextService
+
+  beforeEach(async () => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    source = new SecretContextService(db, new EncryptionService('source-master-key', '1'))
+    destination = new SecretContextService(db, new EncryptionService('destination-master-key', '1'))
+
+    await source.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_abc', 'token', 'digitalocean')
+    await source.storeCredential('ws-1', 'user-1', 'old_token', 'stale', 'token', 'github', new Date(Date.now() - 1000))
+    await source.storeSSHKey('ws-1', 'user-1', 'deploy', TEST_ED25519_PRIVATE_KEY, TEST_ED25519_PUBLIC_KEY)
+    await source.storeCertificate('ws-1', 'user-1', 'root-ca', TEST_CA_CERTIFICATE)
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should move secrets to another instance with a passphrase', async () => {
+    const bundle = await source.exportSecretBundle('ws-1', 'user-1', { passphrase: PASSPHRASE })
+
+    expect(bundle.manifest.entries).toEqual([
+      { secret_type: 'credential', key: 'do_token' },
+      { secret_type: 'ssh_key', key: 'deploy' },
+      { secret_type: 'certificate', key: 'root-ca' }
+    ])
+    expect(bundle.manifest.skipped).toEqual([expect.objectContaining({ key: 'old_token', reason: expect.stringMatching(/^Expired/) })])
+    expect(JSON.stringify(bundle)).not.toContain('dop_v1_abc')
+
+    const result = await destination.importSecretBundle('ws-2', 'user-2', bundle, { passphrase: PASSPHRASE })
+
+    expect(result.imported.map(entry => [entry.key, entry.action])).toEqual([
+      ['do_token', 'created'], ['deploy', 'created'], ['root-ca', 'created']
+    ])
+    expect(await destination.getCredential('ws-2', 'user-2', 'do_token')).toBe('dop_v1_abc')
+    expect((await destination.getSSHKey('ws-2', 'user-2', 'deploy'))?.privateKey).toBe(TEST_ED25519_PRIVATE_KEY)
+    expect((await destination.getCertificate('ws-2', 'user-2', 'root-ca'))?.commonName).toBe('ControlVector Test CA')
+    expect((await destination.listSecrets('ws-2', 'user-2')).credentials[0]).toMatchObject({ provider: 'digitalocean', type: 'token' })
+  })
+
+  it('should encrypt to an X25519 public key that only its private key opens', async () => {
+    const recipient = generateBundleKeyPair()
+    const bundle = await source.exportSecretBundle('ws-1', 'user-1', { public_key: recipient.public_key })
+
+    await expect(destination.importSecretBundle('ws-2', 'user-2', bundle, { passphrase: PASSPHRASE }))
+      .rejects.toMatchObject({ code: 'WRONG_KEY' })
+    await expect(destination.importSecretBundle('ws-2', 'user-2', bundle, { private_key: generateBundleKeyPair().private_key }))
+      .rejects.toMatchObject({ code: 'WRONG_KEY' })
+
+    await destination.importSecretBundle('ws-2', 'user-2', bundle, { private_key: recipient.private_key })
+    expect(await destination.getCredential('ws-2', 'user-2', 'do_token')).toBe('dop_v1_abc')
+  })
+
+  it('should refuse bundles whose manifest or payload was altered', async () => {
+    const bundle = await source.exportSecretBundle('ws-1', 'user-1', { passphrase: PASSPHRASE })
+
+    const relabelled: SecretBundle = { ...bundle, manifest: { ...bundle.manifest, source: { workspace_id: 'ws-9', user_id: 'user-1' } } }
+    await expect(destination.importSecretBundle('ws-2', 'user-2', relabelled, { passphrase: PASSPHRASE }))
+      .rejects.toMatchObject({ code: 'DECRYPTION_FAILED' })
+
+    const truncated: SecretBundle = { ...bundle, payload: { ...bundle.payload, ciphertext: bundle.payload.ciphertext.slice(8) } }
+    await expect(destination.importSecretBundle('ws-2', 'user-2', truncated, { passphrase: PASSPHRASE }))
+      .rejects.toMatchObject({ code: 'INTEGRITY_FAILED' })
+
+    await expect(destination.importSecretBundle('ws-2', 'user-2', bundle, { passphrase: 'wrong passphrase' }))
+      .rejects.toMatchObject({ code: 'DECRYPTION_FAILED' })
+    expect((await destination.listSecrets('ws-2', 'user-2')).credentials).toEqual([])
+  })
+
+  it('should keep existing secrets unless asked to overwrite them, and audit both directions', async () => {
+    const exportAudit = jest.spyOn(source as any, 'createAuditLog')
+    const importAudit = jest.spyOn(destination as any, 'createAuditLog')
+    await destination.storeCredential('ws-2', 'user-2', 'do_token', 'dop_v1_existing', 'token', 'digitalocean')
+    const bundle = await source.exportSecretBundle('ws-1', 'user-1', { passphrase: PASSPHRASE })
+
+    const kept = await destination.importSecretBundle('ws-2', 'user-2', bundle, { passphrase: PASSPHRASE })
+    expect(kept.skipped).toContainEqual({ secret_type: 'credential', key: 'do_token', reason: 'Already exists' })
+    expect(await destination.getCredential('ws-2', 'user-2', 'do_token')).toBe('dop_v1_existing')
+
+    const replaced = await destination.importSecretBundle('ws-2', 'user-2', bundle, { passphrase: PASSPHRASE }, { overwrite: true })
+    expect(replaced.imported).toContainEqual({ secret_type: 'credential', key: 'do_token', action: 'replaced' })
+    expect(await destination.getCredential('ws-2', 'user-2', 'do_token')).toBe('dop_v1_abc')
+    expect((await destination.listSecretVersions('ws-2', 'user-2', 'credential', 'do_token')).map(v => v.change_type))
+      .toEqual(['update', 'create'])
+
+    const bundleKey = `bundle:${bundle.manifest.bundle_id}`
+    expect(exportAudit.mock.calls.map(([log]: any[]) => [log.operation, log.resource_key])).toContainEqual(['export_secret_bundle', bundleKey])
+    expect(importAudit.mock.calls.map(([log]: any[]) => [log.operation, log.resource_key])).toContainEqual(['import_secret_bundle', bundleKey])
+  })
+})
@@ -0,0 +1,93 @@
+/**
+ * Runs against a local Supabase stack (`supabase start`, Postgres + PostgREST)
+ * with the migrations applied (`npm run migrate`). Skipped unless
+ * SUPABASE_TEST_URL, SUPABASE_TEST_SERVICE_ROLE_KEY, SUPABASE_TEST_WORKSPACE_ID
+ * and SUPABASE_TEST_USER_ID are set; the workspace and user must already exist.
+ */
+
+import crypto from 'crypto'
+import { DatabaseClient } from '../database/client'
+import { SecretContextRepository } from '../database/SecretContextRepository'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContextService } from '../services/SecretContextService'
+import { WorkspaceKeyService } from '../services/WorkspaceKeyService'
+
+const {
+  SUPABASE_TEST_URL,
+  SUPABASE_TEST_SERVICE_ROLE_KEY,
+  SUPABASE_TEST_WORKSPACE_ID,
+  SUPABASE_TEST_USER_ID
+} = process.env
+
+const describeWithDatabase = SUPABASE_TEST_URL && SUPABASE_TEST_SERVICE_ROLE_KEY &&
+  SUPABASE_TEST_WORKSPACE_ID && SUPABASE_TEST_USER_ID
+  ? describe
+  : describe.skip
+
+describeWithDatabase('SecretContextRepository (local Postgres)', () => {
+  const workspaceId = SUPABASE_TEST_WORKSPACE_ID!
+  const userId = SUPABASE_TEST_USER_ID!
+  let db: DatabaseClient
+  let encryption: EncryptionService
+  let repository: SecretContextRepository
+
+  beforeAll(() => {
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+    db = new DatabaseClient(SUPABASE_TEST_URL!, SUPABASE_TEST_SERVICE_ROLE_KEY!, {})
+    encryption = new EncryptionService('integration-master-key', '1')
+    repository = new SecretContextRepository(db, encryption)
+  })
+
+  afterEach(async () => {
+    for (const row of await db.findByUserAndWorkspace<{ id: string }>('secret_contexts', userId, workspaceId)) {
+      await db.delete('secret_contexts', row.id)
+    }
+    for (const row of await db.findByWorkspace<{ id: string }>('workspace_keys', workspaceId)) {
+      await db.delete('workspace_keys', row.id)
+    }
+    await repository.invalidate(workspaceId, userId)
+  })
+
+  afterAll(async () => {
+    await db.close()
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should round-trip credentials through Postgres and the cache', async () => {
+    const workspaceKeys = new WorkspaceKeyService(db, encryption)
+    const service = new SecretContextService(db, encryption, workspaceKeys, repository)
+
+    await service.storeCredential(workspaceId, userId, 'do_token', 'dop_v1_secret', 'token', 'digitalocean')
+    await service.storeCredential(workspaceId, userId, 'cf_token', 'cf-secret', 'api_key', 'cloudflare')
+
+    // First read fills the cache, second read is served from it
+    expect(await service.getCredential(workspaceId, userId, 'do_token')).toBe('dop_v1_secret')
+    expect(await service.getCredential(workspaceId, userId, 'cf_token')).toBe('cf-secret')
+
+    const rows = await db.findByUserAndWorkspace<Record<string, any>>('secret_contexts', userId, workspaceId)
+    expect(rows).toHaveLength(1)
+    expect(Object.keys(rows[0]!.credentials).sort()).toEqual(['cf_token', 'do_token'])
+  })
+
+  it('should repair a row written in the double-encrypted shape', async () => {
+    const sealed = { ...encryption.encrypt('sealed-value'), credential_type: 'token', provider: 'digitalocean' }
+    const { _encrypted_fields, ...legacyRow } = encryption.encryptObject({
+      id: crypto.randomUUID(),
+      workspace_id: workspaceId,
+      user_id: userId,
+      api_keys: {},
+      credentials: { do_token: sealed },
+      ssh_keys: {},
+      certificates: {}
+    }, ['credentials', 'ssh_keys', 'certificates'])
+    await db.insert('secret_contexts', legacyRow)
+
+    const result = await repository.repairLegacyRows()
+
+    expect(result.repaired).toBeGreaterThanOrEqual(1)
+    expect(result.failures).toEqual([])
+    const [row] = await db.findByUserAndWorkspace<Record<string, any>>('secret_contexts', userId, workspaceId)
+    expect(row!.credentials.do_token.provider).toBe('digitalocean')
+    expect(encryption.decrypt(row!.credentials.do_token)).toBe('sealed-value')
+  })
+})
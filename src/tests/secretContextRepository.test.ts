@@ -0,0 +1,126 @@
+import { DatabaseClient } from '../database/client'
+import { SecretContextRepository } from '../database/SecretContextRepository'
+import { EncryptionService } from '../utils/encryption'
+
+describe('SecretContextRepository', () => {
+  let db: DatabaseClient
+  let encryption: EncryptionService
+  let repository: SecretContextRepository
+
+  const sealedCredential = () => ({
+    ...encryption.encrypt('value-sealed-by-the-service'),
+    key_scope: 'workspace' as const,
+    credential_type: 'token' as const,
+    provider: 'digitalocean'
+  })
+
+  const row = (overrides: Record<string, any> = {}) => ({
+    id: 'ctx-1',
+    workspace_id: 'ws-1',
+    user_id: 'user-1',
+    api_keys: {},
+    credentials: { do_token: sealedCredential() },
+    ssh_keys: {},
+    certificates: {},
+    created_at: '2024-01-01T00:00:00.000Z',
+    updated_at: '2024-01-01T00:00:00.000Z',
+    expires_at: null,
+    ...overrides
+  })
+
+  // Shape written by the old saveSecretContext: whole maps sealed again by encryptObject
+  const legacyRow = () => {
+    const plain = row()
+    return {
+      ...encryption.encryptObject(plain, ['credentials', 'ssh_keys', 'certificates']),
+      _encrypted_fields: ['credentials', 'ssh_keys', 'certificates']
+    }
+  }
+
+  beforeEach(() => {
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    encryption = new EncryptionService('master-key', '1')
+    repository = new SecretContextRepository(db, encryption)
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await db.close()
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should store secret maps as-is instead of encrypting them again', async () => {
+    const saveVersioned = jest.spyOn(db, 'saveVersioned').mockResolvedValue(1)
+    const secretContext = row() as any
+
+    await repository.save(secretContext)
+
+    const [table, stored] = saveVersioned.mock.calls[0]!
+    expect(table).toBe('secret_contexts')
+    expect(stored.credentials).toEqual(secretContext.credentials)
+    expect(stored).not.toHaveProperty('_encrypted_fields')
+    expect(secretContext.version).toBe(1)
+  })
+
+  it('should round-trip a context through the cache', async () => {
+    const find = jest.spyOn(db, 'findByUserAndWorkspace').mockResolvedValue([row()])
+
+    const first = await repository.findByUserAndWorkspace('ws-1', 'user-1')
+    const second = await repository.findByUserAndWorkspace('ws-1', 'user-1')
+
+    expect(find).toHaveBeenCalledTimes(1)
+    expect(second).toEqual(first)
+    expect(encryption.decrypt(second!.credentials.do_token!)).toBe('value-sealed-by-the-service')
+  })
+
+  it('should drop the cached copy when a context is saved', async () => {
+    const find = jest.spyOn(db, 'findByUserAndWorkspace').mockResolvedValue([row()])
+    jest.spyOn(db, 'saveVersioned').mockResolvedValue(2)
+
+    const cached = await repository.findByUserAndWorkspace('ws-1', 'user-1')
+    await repository.save({ ...cached!, updated_at: new Date().toISOString() })
+    await repository.findByUserAndWorkspace('ws-1', 'user-1')
+
+    expect(find).toHaveBeenCalledTimes(2)
+  })
+
+  it('should decode rows written in the double-encrypted shape', async () => {
+    jest.spyOn(db, 'findByUserAndWorkspace').mockResolvedValue([legacyRow()])
+
+    const secretContext = await repository.findByUserAndWorkspace('ws-1', 'user-1')
+
+    expect(secretContext).not.toHaveProperty('_encrypted_fields')
+    expect(secretContext!.ssh_keys).toEqual({})
+    expect(encryption.decrypt(secretContext!.credentials.do_token!)).toBe('value-sealed-by-the-service')
+  })
+
+  it('should repair only rows in the double-encrypted shape', async () => {
+    jest.spyOn(db, 'query').mockResolvedValue([legacyRow(), row({ id: 'ctx-2', user_id: 'user-2' })] as any)
+    const saveVersioned = jest.spyOn(db, 'saveVersioned').mockResolvedValue(2)
+
+    const result = await repository.repairLegacyRows()
+
+    expect(result).toEqual({ scanned: 2, repaired: 1, failures: [] })
+    expect(saveVersioned).toHaveBeenCalledTimes(1)
+    const [, repaired] = saveVersioned.mock.calls[0]!
+    expect(repaired.id).toBe('ctx-1')
+    expect(repaired.credentials.do_token.provider).toBe('digitalocean')
+  })
+
+  it('should report rows it cannot repair', async () => {
+    const foreign = new EncryptionService('some-other-key', '1')
+    jest.spyOn(db, 'query').mockResolvedValue([
+      row({ credentials: foreign.encrypt(JSON.stringify({})) })
+    ] as any)
+    const saveVersioned = jest.spyOn(db, 'saveVersioned').mockResolvedValue(2)
+
+    const result = await repository.repairLegacyRows()
+
+    expect(result.repaired).toBe(0)
+    expect(result.failures).toHaveLength(1)
+    expect(result.failures[0]!.id).toBe('ctx-1')
+    expect(saveVersioned).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,270 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContextService } from '../services/SecretContextService'
+import { SecretLeaseService, SecretLeaseError } from '../services/SecretLeaseService'
+import { UserContextService } from '../services/UserContextService'
+import { GlobalContextService } from '../services/GlobalContextService'
+import { WorkspaceSecretService } from '../services/WorkspaceSecretService'
+import { ContextManagerMCPServer } from '../mcp/server'
+import { contextRoutes } from '../controllers/contextController'
+import Fastify from 'fastify'
+
+const EXECUTOR = {
+  executor_id: 'executor-1',
+  workspace_id: 'ws-1',
+  session_id: 'session-1',
+  purpose: 'deploy'
+}
+
+describe('Secret leases', () => {
+  let db: DatabaseClient
+  let secretContextService: SecretContextService
+  let leaseService: SecretLeaseService
+  let auditSpy: jest.SpyInstance
+
+  beforeEach(async () => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    secretContextService = new SecretContextService(db, new EncryptionService('master-key', '1'))
+    leaseService = new SecretLeaseService(secretContextService, db.store)
+    auditSpy = jest.spyOn(secretContextService, 'recordAuditEvent')
+
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_secret', 'token', 'digitalocean')
+  })
+
+  afterEach(async () => {
+    jest.useRealTimers()
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should issue an opaque handle and redeem it for the credential', async () => {
+    const { lease_handle, lease } = await leaseService.createLease('ws-1', 'user-1', 'do_token', {
+      session_id: 'session-1',
+      purpose: 'deploy'
+    })
+
+    expect(lease_handle).toMatch(/^lease_[A-Za-z0-9_-]{43}$/)
+    expect(lease_handle).not.toContain('dop_v1_secret')
+    expect(lease.max_uses).toBe(1)
+
+    const redemption = await leaseService.redeemLease(lease_handle, EXECUTOR)
+    expect(redemption).toMatchObject({ lease_id: lease.lease_id, key: 'do_token', value: 'dop_v1_secret', remaining_uses: 0 })
+  })
+
+  it('should enforce the use count and audit every redemption', async () => {
+    const { lease_handle, lease } = await leaseService.createLease('ws-1', 'user-1', 'do_token', {
+      session_id: 'session-1',
+      purpose: 'deploy',
+      max_uses: 2
+    })
+
+    await leaseService.redeemLease(lease_handle, EXECUTOR)
+    await leaseService.redeemLease(lease_handle, EXECUTOR)
+    await expect(leaseService.redeemLease(lease_handle, EXECUTOR)).rejects.toMatchObject({ code: 'LEASE_EXHAUSTED' })
+
+    const redemptions = auditSpy.mock.calls
+      .map(([event]) => event)
+      .filter(event => event.operation === 'redeem_secret_lease')
+    expect(redemptions.map(event => event.status)).toEqual(['success', 'success', 'failed'])
+    expect(redemptions[0]).toMatchObject({
+      workspace_id: 'ws-1',
+      user_id: 'executor-1',
+      resource_key: `lease:${lease.lease_id}:do_token`
+    })
+  })
+
+  it('should reject redemption for another session, purpose or workspace', async () => {
+    const { lease_handle } = await leaseService.createLease('ws-1', 'user-1', 'do_token', {
+      session_id: 'session-1',
+      purpose: 'deploy',
+      max_uses: 3
+    })
+
+    await expect(leaseService.redeemLease(lease_handle, { ...EXECUTOR, session_id: 'session-2' }))
+      .rejects.toMatchObject({ code: 'LEASE_SCOPE_MISMATCH' })
+    await expect(leaseService.redeemLease(lease_handle, { ...EXECUTOR, purpose: 'backup' }))
+      .rejects.toMatchObject({ code: 'LEASE_SCOPE_MISMATCH' })
+    await expect(leaseService.redeemLease(lease_handle, { ...EXECUTOR, workspace_id: 'ws-2' }))
+      .rejects.toMatchObject({ code: 'LEASE_NOT_FOUND' })
+    await expect(leaseService.redeemLease('lease_unknown', EXECUTOR))
+      .rejects.toThrow(SecretLeaseError)
+  })
+
+  it('should reject expired and revoked leases', async () => {
+    const expiring = await leaseService.createLease('ws-1', 'user-1', 'do_token', {
+      session_id: 'session-1',
+      purpose: 'deploy',
+      ttl_seconds: 60
+    })
+    const revoked = await leaseService.createLease('ws-1', 'user-1', 'do_token', {
+      session_id: 'session-1',
+      purpose: 'deploy'
+    })
+
+    expect(await leaseService.revokeLease('ws-1', 'user-2', revoked.lease.lease_id)).toBe(false)
+    expect(await leaseService.revokeLease('ws-1', 'user-1', revoked.lease.lease_id)).toBe(true)
+    await expect(leaseService.redeemLease(revoked.lease_handle, EXECUTOR)).rejects.toMatchObject({ code: 'LEASE_REVOKED' })
+
+    jest.useFakeTimers({ now: Date.now() + 61_000, doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] })
+    await expect(leaseService.redeemLease(expiring.lease_handle, EXECUTOR)).rejects.toMatchObject({ code: 'LEASE_EXPIRED' })
+    expect(await leaseService.listLeases('ws-1', 'user-1')).toEqual([])
+  })
+
+  it('should drop a lease created within a transaction that rolls back', async () => {
+    let handle = ''
+    await expect(db.transaction(async () => {
+      handle = (await leaseService.createLease('ws-1', 'user-1', 'do_token', { session_id: 'session-1', purpose: 'deploy' })).lease_handle
+      throw new Error('abort')
+    })).rejects.toThrow('abort')
+
+    expect(await leaseService.listLeases('ws-1', 'user-1')).toEqual([])
+    await expect(leaseService.redeemLease(handle, EXECUTOR)).rejects.toMatchObject({ code: 'LEASE_NOT_FOUND' })
+  })
+
+  it('should let another instance redeem and revoke a lease', async () => {
+    const other = new SecretLeaseService(secretContextService, db.store)
+    const { lease_handle, lease } = await leaseService.createLease('ws-1', 'user-1', 'do_token', {
+      session_id: 'session-1',
+      purpose: 'deploy',
+      max_uses: 3
+    })
+
+    expect(await other.redeemLease(lease_handle, EXECUTOR)).toMatchObject({ value: 'dop_v1_secret', remaining_uses: 2 })
+    expect(await leaseService.redeemLease(lease_handle, EXECUTOR)).toMatchObject({ remaining_uses: 1 })
+    expect(await other.listLeases('ws-1', 'user-1')).toEqual([expect.objectContaining({ lease_id: lease.lease_id, uses: 2 })])
+
+    expect(await other.revokeLease('ws-1', 'user-1', lease.lease_id)).toBe(true)
+    await expect(leaseService.redeemLease(lease_handle, EXECUTOR)).rejects.toMatchObject({ code: 'LEASE_REVOKED' })
+  })
+
+  it('should count concurrent redemptions without exceeding the use limit', async () => {
+    const other = new SecretLeaseService(secretContextService, db.store)
+    const { lease_handle } = await leaseService.createLease('ws-1', 'user-1', 'do_token', {
+      session_id: 'session-1',
+      purpose: 'deploy',
+      max_uses: 2
+    })
+
+    const results = await Promise.allSettled([
+      leaseService.redeemLease(lease_handle, EXECUTOR),
+      other.redeemLease(lease_handle, EXECUTOR),
+      other.redeemLease(lease_handle, EXECUTOR)
+    ])
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(2)
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: { code: 'LEASE_EXHAUSTED' } })
+  })
+
+  it('should keep leases in process memory without a store', async () => {
+    const inMemory = new SecretLeaseService(secretContextService)
+    const { lease_handle } = await inMemory.createLease('ws-1', 'user-1', 'do_token', { session_id: 'session-1', purpose: 'deploy' })
+
+    expect(await db.count('secret_leases')).toBe(0)
+    expect(await inMemory.redeemLease(lease_handle, EXECUTOR)).toMatchObject({ value: 'dop_v1_secret' })
+  })
+
+  it('should only lease credentials that exist, within the limits', async () => {
+    await expect(leaseService.createLease('ws-1', 'user-1', 'missing', { session_id: 's', purpose: 'p' }))
+      .rejects.toMatchObject({ code: 'CREDENTIAL_NOT_FOUND' })
+    await expect(leaseService.createLease('ws-1', 'user-1', 'do_token', { session_id: 's', purpose: 'p', ttl_seconds: 7200 }))
+      .rejects.toMatchObject({ code: 'INVALID_TTL' })
+    await expect(leaseService.createLease('ws-1', 'user-1', 'do_token', { session_id: 's', purpose: 'p', max_uses: 0 }))
+      .rejects.toMatchObject({ code: 'INVALID_MAX_USES' })
+  })
+
+  describe('retrieve_credential MCP tool', () => {
+    let server: ContextManagerMCPServer
+
+    beforeEach(() => {
+      // The deployment session cleanup timer would otherwise keep jest alive
+      jest.useFakeTimers({ doNotFake: ['Date', 'nextTick', 'setImmediate', 'queueMicrotask', 'setTimeout'] })
+      server = new ContextManagerMCPServer(
+        secretContextService,
+        new UserContextService(db),
+        new GlobalContextService(),
+        undefined,
+        leaseService
+      )
+    })
+
+    afterEach(() => {
+      delete process.env.REQUIRE_SECRET_LEASES
+    })
+
+    it('should return a lease handle rather than the value in lease mode', async () => {
+      const result = await server.callTool('retrieve_credential', {
+        key: 'do_token',
+        mode: 'lease',
+        session_id: 'session-1',
+        purpose: 'deploy',
+        workspace_id: 'ws-1',
+        user_id: 'user-1',
+        jwt_token: 'jwt'
+      })
+
+      const text = result.content[0]!.text
+      expect(result.isError).toBe(false)
+      expect(text).not.toContain('dop_v1_secret')
+
+      const handle = text.match(/Lease Handle: (\S+)/)![1]!
+      expect((await leaseService.redeemLease(handle, EXECUTOR)).value).toBe('dop_v1_secret')
+    })
+
+    it('should refuse plaintext retrieval when leases are required', async () => {
+      process.env.REQUIRE_SECRET_LEASES = 'true'
+      server = new ContextManagerMCPServer(
+        secretContextService,
+        new UserContextService(db),
+        new GlobalContextService(),
+        undefined,
+        leaseService
+      )
+
+      const result = await server.callTool('retrieve_credential', {
+        key: 'do_token',
+        workspace_id: 'ws-1',
+        user_id: 'user-1',
+        jwt_token: 'jwt'
+      })
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0]!.text).not.toContain('dop_v1_secret')
+    })
+  })
+
+  describe('REST retrieval in lease mode', () => {
+    const get = async (url: string) => {
+      const app = Fastify()
+      const userContextService = new UserContextService(db)
+      app.decorate('secretContextService', secretContextService)
+      app.decorate('workspaceSecretService', new WorkspaceSecretService(secretContextService, userContextService, db, new EncryptionService('master-key', '1')))
+      app.addHook('onRequest', async request => {
+        (request as any).user = { user_id: 'user-1', workspace_id: 'ws-1' }
+      })
+      await app.register(contextRoutes)
+      try {
+        return await app.inject({ method: 'GET', url })
+      } finally {
+        await app.close()
+      }
+    }
+
+    afterEach(() => {
+      delete process.env.REQUIRE_SECRET_LEASES
+    })
+
+    it('should refuse plaintext credentials and versions when leases are required', async () => {
+      expect((await get('/secret/credential/do_token')).json()).toMatchObject({ success: true, data: { value: 'dop_v1_secret' } })
+
+      process.env.REQUIRE_SECRET_LEASES = 'true'
+      for (const url of ['/secret/credential/do_token', '/secret/workspace/credential/do_token', '/secret/credential/do_token/versions/1']) {
+        const response = await get(url)
+        expect(response.statusCode).toBe(403)
+        expect(response.body).not.toContain('dop_v1_secret')
+      }
+    })
+  })
+})
@@ -0,0 +1,134 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { findSecretReferences } from '../utils/secretReferences'
+import { SecretContextService } from '../services/SecretContextService'
+import { UserContextService } from '../services/UserContextService'
+import { GlobalContextService } from '../services/GlobalContextService'
+import { WorkspaceSecretService } from '../services/WorkspaceSecretService'
+import { SecretReferenceService } from '../services/SecretReferenceService'
+import { ContextManagerMCPServer } from '../mcp/server'
+import { UserContext } from '../types'
+import { TEST_ED25519_PRIVATE_KEY, TEST_ED25519_PUBLIC_KEY } from './fixtures/sshKeys'
+
+const DEPLOY_CONFIG = {
+  provider: 'digitalocean',
+  api: { token: 'secret://credential/do_token', headers: ['Authorization: Bearer secret://credential/registry_token'] },
+  ssh: { public_key: 'secret://ssh_key/deploy#public_key' },
+  database_url: 'secret://credential/missing_password'
+}
+
+describe('Secret references', () => {
+  let db: DatabaseClient
+  let secretContextService: SecretContextService
+  let userContextService: UserContextService
+  let workspaceSecretService: WorkspaceSecretService
+  let secretReferenceService: SecretReferenceService
+
+  beforeEach(async () => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    const encryption = new EncryptionService('master-key', '1')
+    userContextService = new UserContextService(db)
+    jest.spyOn(userContextService, 'getUserContext').mockImplementation(async workspaceId => ({
+      settings: { workspace: { default_workspace_id: workspaceId, workspace_permissions: { [workspaceId]: ['user'] } } }
+    } as unknown as UserContext))
+
+    secretContextService = new SecretContextService(db, encryption)
+    workspaceSecretService = new WorkspaceSecretService(secretContextService, userContextService, db, encryption)
+    secretReferenceService = new SecretReferenceService(secretContextService, workspaceSecretService, userContextService, new GlobalContextService())
+
+    await db.insert('user_deployment_patterns', {
+      id: 'pattern-1', workspace_id: 'ws-1', user_id: 'user-1', name: 'droplet', pattern_type: 'deployment', configuration: DEPLOY_CONFIG
+    })
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_abc', 'token', 'digitalocean')
+    await secretContextService.storeSSHKey('ws-1', 'user-1', 'deploy', TEST_ED25519_PRIVATE_KEY, TEST_ED25519_PUBLIC_KEY)
+    await workspaceSecretService.storeCredential('ws-1', 'user-1', 'registry_token', 'shared-registry', 'token', 'docker')
+  })
+
+  afterEach(async () => {
+    jest.useRealTimers()
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should find references anywhere in a nested value', () => {
+    expect(findSecretReferences(DEPLOY_CONFIG).map(reference => [reference.path, reference.reference])).toEqual([
+      ['api.token', 'secret://credential/do_token'],
+      ['api.headers.0', 'secret://credential/registry_token'],
+      ['ssh.public_key', 'secret://ssh_key/deploy#public_key'],
+      ['database_url', 'secret://credential/missing_password']
+    ])
+    expect(findSecretReferences('plain value')).toEqual([])
+  })
+
+  it('should expand references from user and workspace secrets for an executor', async () => {
+    const resolution = await secretReferenceService.resolveReferences(
+      'ws-1', 'user-1', { deployment_pattern_id: 'pattern-1' }, { executor_id: 'executor-1' }
+    )
+
+    expect(resolution.value).toEqual({
+      provider: 'digitalocean',
+      api: { token: 'dop_v1_abc', headers: ['Authorization: Bearer shared-registry'] },
+      ssh: { public_key: TEST_ED25519_PUBLIC_KEY },
+      database_url: 'secret://credential/missing_password'
+    })
+    expect(resolution.resolved.map(reference => [reference.key, reference.scope])).toEqual([
+      ['do_token', 'user'],
+      ['registry_token', 'workspace'],
+      ['deploy', 'user']
+    ])
+    expect(resolution.unresolved).toEqual([
+      expect.objectContaining({ key: 'missing_password', path: 'database_url', reason: "No credential named 'missing_password'" })
+    ])
+  })
+
+  it('should audit each expansion as the executor', async () => {
+    const audit = jest.spyOn(secretContextService, 'recordAuditEvent')
+
+    await secretReferenceService.resolveReferences(
+      'ws-1', 'user-1', { value: ['secret://credential/do_token', 'secret://credential/do_token', 'secret://ssh_key/deploy#nope'] },
+      { executor_id: 'executor-1' }
+    )
+
+    expect(audit.mock.calls.map(([log]) => [log.user_id, log.operation, log.resource_key, log.status])).toEqual([
+      ['executor-1', 'resolve_secret_reference', 'reference:user-1:secret://credential/do_token', 'success'],
+      ['executor-1', 'resolve_secret_reference', 'reference:user-1:secret://ssh_key/deploy#nope', 'failed']
+    ])
+  })
+
+  it('should report references without values through MCP and refuse to expand them', async () => {
+    // The deployment session cleanup timer would otherwise keep jest alive
+    jest.useFakeTimers({ doNotFake: ['Date', 'nextTick', 'setImmediate', 'queueMicrotask', 'setTimeout'] })
+    const mcpServer = new ContextManagerMCPServer(
+      secretContextService, userContextService, new GlobalContextService(),
+      undefined, undefined, undefined, workspaceSecretService, secretReferenceService
+    )
+
+    const report = await mcpServer.callTool('resolve_references', {
+      deployment_pattern_id: 'pattern-1', workspace_id: 'ws-1', user_id: 'user-1', jwt_token: 'token'
+    })
+    const text = report.content[0]!.text
+
+    expect(report.isError).toBe(false)
+    expect(text).toContain('Resolvable: 3')
+    expect(text).toContain("✗ secret://credential/missing_password (at database_url): No credential named 'missing_password'")
+    expect(text).not.toContain('dop_v1_abc')
+    expect(text).not.toContain('shared-registry')
+
+    const refused = await mcpServer.callTool('resolve_references', {
+      deployment_pattern_id: 'pattern-1', expand: true, workspace_id: 'ws-1', user_id: 'user-1', jwt_token: 'token'
+    })
+    expect(refused.isError).toBe(true)
+    expect(refused.content[0]!.text).toContain('Refusing to expand')
+  })
+
+  it('should reject a missing or ambiguous source', async () => {
+    await expect(secretReferenceService.inspectReferences('ws-1', 'user-1', { deployment_pattern_id: 'unknown' }))
+      .rejects.toMatchObject({ code: 'SOURCE_NOT_FOUND' })
+    await expect(secretReferenceService.inspectReferences('ws-1', 'user-1', { value: 'x', community_pattern_id: 'y' }))
+      .rejects.toMatchObject({ code: 'INVALID_SOURCE' })
+  })
+})
@@ -0,0 +1,96 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContextService, SecretVersionError } from '../services/SecretContextService'
+import { TEST_LEAF_CERTIFICATE } from './fixtures/certificates'
+
+describe('Secret versioning', () => {
+  let db: DatabaseClient
+  let secretContextService: SecretContextService
+
+  beforeEach(() => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    secretContextService = new SecretContextService(db, new EncryptionService('master-key', '1'))
+  })
+
+  afterEach(async () => {
+    jest.useRealTimers()
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+    delete process.env.SECRET_VERSION_MAX_COUNT
+  })
+
+  it('should keep the previous value when a credential is overwritten', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'gh_token', 'good-token', 'token', 'github')
+    await secretContextService.storeCredential('ws-1', 'user-1', 'gh_token', 'bad-paste', 'token', 'github')
+
+    const versions = await secretContextService.listSecretVersions('ws-1', 'user-1', 'credential', 'gh_token')
+    expect(versions.map(version => [version.version, version.change_type, version.current])).toEqual([
+      [2, 'update', true],
+      [1, 'create', false]
+    ])
+    expect(versions[0]!.changed_by).toBe('user-1')
+    expect(versions[0]).not.toHaveProperty('value')
+
+    const previous = await secretContextService.getSecretVersion('ws-1', 'user-1', 'credential', 'gh_token', 1)
+    expect(previous.value).toBe('good-token')
+    expect(previous.version.current).toBe(false)
+  })
+
+  it('should roll back to an earlier version as a new version', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'gh_token', 'good-token', 'token', 'github')
+    await secretContextService.storeCredential('ws-1', 'user-1', 'gh_token', 'bad-paste', 'token', 'github')
+
+    const rollback = await secretContextService.rollbackSecret('ws-1', 'user-1', 'credential', 'gh_token', 1)
+    expect(rollback).toMatchObject({ version: 3, change_type: 'rollback', restored_version: 1, current: true })
+
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'gh_token')).toBe('good-token')
+  })
+
+  it('should restore a deleted secret from its history', async () => {
+    await secretContextService.storeCertificate('ws-1', 'user-1', 'api-tls', TEST_LEAF_CERTIFICATE)
+    await secretContextService.deleteSecret('ws-1', 'user-1', 'certificate', 'api-tls')
+
+    const versions = await secretContextService.listSecretVersions('ws-1', 'user-1', 'certificate', 'api-tls')
+    expect(versions.map(version => [version.change_type, version.current])).toEqual([['delete', false], ['create', false]])
+    await expect(secretContextService.getSecretVersion('ws-1', 'user-1', 'certificate', 'api-tls', 2))
+      .rejects.toMatchObject({ code: 'VERSION_DELETED' })
+
+    await secretContextService.rollbackSecret('ws-1', 'user-1', 'certificate', 'api-tls', 1)
+    expect((await secretContextService.getCertificate('ws-1', 'user-1', 'api-tls'))?.certificate).toBe(TEST_LEAF_CERTIFICATE)
+  })
+
+  it('should reject unknown versions', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'gh_token', 'good-token', 'token', 'github')
+
+    await expect(secretContextService.rollbackSecret('ws-1', 'user-1', 'credential', 'gh_token', 7))
+      .rejects.toThrow(SecretVersionError)
+  })
+
+  it('should prune versions beyond the retention count', async () => {
+    process.env.SECRET_VERSION_MAX_COUNT = '3'
+    secretContextService = new SecretContextService(db, new EncryptionService('master-key', '1'))
+
+    for (let i = 1; i <= 5; i++) {
+      await secretContextService.storeCredential('ws-1', 'user-1', 'gh_token', `token-${i}`, 'token', 'github')
+    }
+
+    const versions = await secretContextService.listSecretVersions('ws-1', 'user-1', 'credential', 'gh_token')
+    expect(versions.map(version => version.version)).toEqual([5, 4, 3])
+  })
+
+  it('should prune versions older than the retention period but keep the latest', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z'), doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] })
+    await secretContextService.storeCredential('ws-1', 'user-1', 'gh_token', 'token-1', 'token', 'github')
+    await secretContextService.storeCredential('ws-1', 'user-1', 'other', 'token', 'token', 'github')
+
+    jest.setSystemTime(new Date('2026-06-01T00:00:00Z'))
+    await secretContextService.storeCredential('ws-1', 'user-1', 'gh_token', 'token-2', 'token', 'github')
+
+    expect((await secretContextService.listSecretVersions('ws-1', 'user-1', 'credential', 'gh_token')).map(v => v.version)).toEqual([2])
+    expect((await secretContextService.listSecretVersions('ws-1', 'user-1', 'credential', 'other')).map(v => v.version)).toEqual([1])
+  })
+})
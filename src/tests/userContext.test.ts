@@ -0,0 +1,139 @@
+import { DatabaseClient } from '../database/client'
+import { UserContextService } from '../services/UserContextService'
+import { ConversationContext, InfrastructureEvent } from '../types'
+
+describe('User context history', () => {
+  let db: DatabaseClient
+  let userContextService: UserContextService
+
+  const event = (overrides: Partial<InfrastructureEvent> = {}): Omit<InfrastructureEvent, 'id' | 'timestamp'> => ({
+    event_type: 'provision',
+    resource_type: 'droplet',
+    provider: 'digitalocean',
+    status: 'success',
+    configuration: { size: 's-1vcpu-1gb' },
+    cost_impact: 2,
+    duration_ms: 1000,
+    ...overrides
+  })
+
+  const conversation = (message: string, response: string): Omit<ConversationContext, 'id' | 'timestamp'> => ({
+    session_id: 'session-1',
+    message_content: message,
+    intent_analysis: { primary_intent: 'deployment', confidence: 0.9, entities: {} },
+    agent_responses: [{ agent_type: 'watson', response, confidence: 0.8 }],
+    outcome: { status: 'success', actions_taken: [], resources_affected: [] }
+  })
+
+  beforeEach(() => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    userContextService = new UserContextService(db)
+  })
+
+  afterEach(async () => {
+    jest.useRealTimers()
+    await db.close()
+  })
+
+  it('should keep one row per deployment pattern and search and rank them', async () => {
+    const pattern = { pattern_type: 'deployment' as const, usage_count: 1, last_used: new Date().toISOString() }
+    await userContextService.addDeploymentPattern('ws-1', 'user-1', { ...pattern, name: 'React App', configuration: { framework: 'react' }, success_rate: 0.9 })
+    await userContextService.addDeploymentPattern('ws-1', 'user-1', { ...pattern, name: 'Docker API', configuration: { runtime: 'docker' }, success_rate: 0.6 })
+    await userContextService.addDeploymentPattern('ws-1', 'user-1', { ...pattern, name: 'React App', configuration: { framework: 'react', ssr: true }, success_rate: 0.95 })
+    await userContextService.addDeploymentPattern('ws-1', 'user-2', { ...pattern, name: 'React App', configuration: {}, success_rate: 1 })
+
+    expect(await userContextService.countDeploymentPatterns('ws-1', 'user-1')).toBe(2)
+    const [react] = await userContextService.searchDeploymentPatterns('ws-1', 'user-1', { name_contains: 'react' })
+    expect(react).toMatchObject({ name: 'React App', usage_count: 2, success_rate: 0.95, configuration: { framework: 'react', ssr: true } })
+    expect(react).not.toHaveProperty('search_text')
+    expect(await userContextService.getDeploymentPattern('ws-1', 'user-1', react!.id)).toEqual(react)
+    expect(await userContextService.getDeploymentPattern('ws-1', 'user-2', react!.id)).toBeNull()
+
+    expect((await userContextService.searchDeploymentPatterns('ws-1', 'user-1', { min_success_rate: 0.7 })).map(p => p.name)).toEqual(['React App'])
+    expect(await userContextService.searchDeploymentPatterns('ws-1', 'user-1', { pattern_type: 'hybrid' })).toEqual([])
+
+    // The context matches the configuration as well as the name
+    expect((await userContextService.getRecommendedPatterns('ws-1', 'user-1', 'DOCKER')).map(p => p.name)).toEqual(['Docker API'])
+    expect((await userContextService.getRecommendedPatterns('ws-1', 'user-1')).map(p => p.name)).toEqual(['React App', 'Docker API'])
+  })
+
+  it('should keep the whole infrastructure history and aggregate it in the database', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T00:00:00.000Z') })
+    await userContextService.recordInfrastructureEvent('ws-1', 'user-1', event({ cost_impact: 100 }))
+
+    jest.setSystemTime(new Date('2026-03-10T00:00:00.000Z'))
+    for (let index = 0; index < 120; index++) {
+      await userContextService.recordInfrastructureEvent('ws-1', 'user-1', event(index % 4 === 0
+        ? { provider: 'aws', event_type: 'deploy', status: 'failed', cost_impact: 0.5 }
+        : {}))
+    }
+    await userContextService.recordInfrastructureEvent('ws-1', 'user-2', event())
+
+    expect(await db.count('user_infrastructure_events', { workspace_id: 'ws-1', user_id: 'user-1' })).toBe(121)
+
+    const analytics = await userContextService.getInfrastructureAnalytics('ws-1', 'user-1', {
+      start: new Date('2026-03-05T00:00:00.000Z'),
+      end: new Date('2026-03-15T00:00:00.000Z')
+    })
+    expect(analytics).toEqual({
+      totalEvents: 120,
+      successRate: 0.75,
+      costSummary: { total: 195, average: 1.625 },
+      providerBreakdown: { digitalocean: 90, aws: 30 },
+      eventTypeBreakdown: { provision: 90, deploy: 30 }
+    })
+
+    expect(await userContextService.getInfrastructureAnalytics('ws-9', 'user-1', { start: new Date(0), end: new Date() })).toEqual({
+      totalEvents: 0,
+      successRate: 0,
+      costSummary: { total: 0, average: 0 },
+      providerBreakdown: {},
+      eventTypeBreakdown: {}
+    })
+  })
+
+  it('should search conversations by message, intent and agent responses, newest first', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T00:00:00.000Z') })
+    await userContextService.addConversationContext('ws-1', 'user-1', conversation('Deploy my blog', 'Created a droplet'))
+    jest.setSystemTime(new Date('2026-03-02T00:00:00.000Z'))
+    await userContextService.addConversationContext('ws-1', 'user-1', conversation('Scale it up', 'Resized the Droplet to 2GB'))
+    jest.setSystemTime(new Date('2026-03-03T00:00:00.000Z'))
+    await userContextService.addConversationContext('ws-1', 'user-1', conversation('100% uptime please', 'Added a load balancer'))
+
+    const droplets = await userContextService.searchConversationHistory('ws-1', 'user-1', 'droplet')
+    expect(droplets.map(c => c.message_content)).toEqual(['Scale it up', 'Deploy my blog'])
+    expect(droplets[0]).toEqual(expect.objectContaining({ timestamp: '2026-03-02T00:00:00.000Z', agent_responses: [expect.objectContaining({ agent_type: 'watson' })] }))
+    expect(droplets[0]).not.toHaveProperty('search_text')
+
+    expect(await userContextService.searchConversationHistory('ws-1', 'user-1', 'deployment', 1)).toHaveLength(1)
+    expect((await userContextService.searchConversationHistory('ws-1', 'user-1', '0%')).map(c => c.message_content)).toEqual(['100% uptime please'])
+    expect(await userContextService.searchConversationHistory('ws-1', 'user-2', 'droplet')).toEqual([])
+  })
+
+  it('should pause, resume and clean up deployment sessions', async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T00:00:00.000Z') })
+    const first = await userContextService.createDeploymentSession('ws-1', 'user-1', 'blog', { current_step: 'provision' })
+    const second = await userContextService.createDeploymentSession('ws-1', 'user-1', 'api', {})
+    expect(first).toMatchObject({ session_state: 'active', expires_at: '2026-03-08T00:00:00.000Z', active_resources: [] })
+
+    const paused = await userContextService.pauseDeploymentSession('ws-1', 'user-1', second.id)
+    expect(paused).toMatchObject({ session_state: 'paused', expires_at: '2026-03-08T00:00:00.000Z' })
+    expect((await userContextService.getActiveDeploymentSessions('ws-1', 'user-1')).map(s => s.id)).toEqual([first.id])
+    expect(await userContextService.getDeploymentSession('ws-1', 'user-2', first.id)).toBeNull()
+
+    jest.setSystemTime(new Date('2026-03-05T00:00:00.000Z'))
+    const resumed = await userContextService.resumeDeploymentSession('ws-1', 'user-1', second.id)
+    expect(resumed).toMatchObject({ session_state: 'active', expires_at: '2026-03-12T00:00:00.000Z' })
+    await userContextService.updateDeploymentSession('ws-1', 'user-1', first.id, { session_state: 'completed' })
+
+    // The completed session ran out, the resumed one is still active
+    jest.setSystemTime(new Date('2026-03-13T00:00:00.000Z'))
+    expect(await userContextService.getActiveDeploymentSessions('ws-1', 'user-1')).toEqual([])
+    expect(await userContextService.cleanupExpiredSessions('ws-1', 'user-1')).toBe(1)
+    expect(await userContextService.getDeploymentSession('ws-1', 'user-1', first.id)).toBeNull()
+    expect(await userContextService.getDeploymentSession('ws-1', 'user-1', second.id)).toMatchObject({ session_state: 'active' })
+  })
+})
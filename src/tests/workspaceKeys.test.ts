@@ -0,0 +1,147 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContextService } from '../services/SecretContextService'
+import { WorkspaceKeyService } from '../services/WorkspaceKeyService'
+
+describe('Envelope encryption with workspace data keys', () => {
+  let db: DatabaseClient
+  let encryption: EncryptionService
+  let workspaceKeys: WorkspaceKeyService
+  let secretContextService: SecretContextService
+
+  // Edit a stored row's credentials directly, as someone with database access could
+  const editStoredCredentials = async (workspaceId: string, userId: string, edit: (credentials: any) => void): Promise<void> => {
+    const [row] = await db.findByUserAndWorkspace<any>('secret_contexts', userId, workspaceId)
+    edit(row.credentials)
+    await db.update('secret_contexts', row.id, { credentials: row.credentials })
+    await (secretContextService as any).repository.invalidate(workspaceId, userId)
+  }
+
+  beforeEach(() => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    encryption = new EncryptionService('master-key', '1')
+    workspaceKeys = new WorkspaceKeyService(db, encryption)
+    secretContextService = new SecretContextService(db, encryption, workspaceKeys)
+  })
+
+  afterEach(async () => {
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+  })
+
+  it('should give each workspace its own data key', async () => {
+    const first = await workspaceKeys.getWorkspaceEncryption('ws-1')
+    const second = await workspaceKeys.getWorkspaceEncryption('ws-2')
+
+    const sealed = first.encrypt('only-for-ws-1')
+    expect(first.decrypt(sealed)).toBe('only-for-ws-1')
+    expect(() => second.decrypt(sealed)).toThrow()
+    expect(() => encryption.decrypt(sealed)).toThrow()
+  })
+
+  it('should share the first data key when two instances create it at once', async () => {
+    const other = new WorkspaceKeyService(db, encryption)
+    const insert = jest.spyOn(db, 'insertIfAbsent')
+
+    const [first, second] = await Promise.all([
+      workspaceKeys.getWorkspaceEncryption('ws-1'),
+      other.getWorkspaceEncryption('ws-1')
+    ])
+
+    // Both tried to create it, one lost on the unique key version
+    expect(insert).toHaveBeenCalledTimes(2)
+    expect(await db.count('workspace_keys', { workspace_id: 'ws-1' })).toBe(1)
+    expect(second.decrypt(first.encrypt('shared'))).toBe('shared')
+  })
+
+  it('should pick up a workspace key another instance rotated', async () => {
+    const other = new WorkspaceKeyService(db, encryption)
+    const otherService = new SecretContextService(db, encryption, other)
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'before-rotation', 'token', 'digitalocean')
+    expect(await otherService.getCredential('ws-1', 'user-1', 'do_token')).toBe('before-rotation')
+
+    await secretContextService.rotateWorkspaceKey('ws-1', 'user-1')
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'after-rotation', 'token', 'digitalocean')
+
+    // A value sealed with a DEK version it has not seen reloads the keyring
+    expect(await otherService.getCredential('ws-1', 'user-1', 'do_token')).toBe('after-rotation')
+
+    // And a keyring past its lifetime is reloaded before sealing
+    const third = new WorkspaceKeyService(db, encryption)
+    await third.getWorkspaceEncryption('ws-1')
+    await workspaceKeys.rotateWorkspaceKey('ws-1')
+    const now = Date.now()
+    jest.spyOn(Date, 'now').mockReturnValue(now + 61 * 1000)
+    try {
+      expect((await third.getWorkspaceEncryption('ws-1')).getKeyVersion()).toBe('3')
+    } finally {
+      jest.restoreAllMocks()
+    }
+  })
+
+  it('should seal stored credentials with the workspace data key', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_secret', 'token', 'digitalocean')
+
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'do_token')).toBe('dop_v1_secret')
+  })
+
+  it('should rotate a workspace key and re-encrypt only that workspace', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'ws1-secret', 'token', 'digitalocean')
+    await secretContextService.storeCredential('ws-2', 'user-2', 'do_token', 'ws2-secret', 'token', 'digitalocean')
+
+    const result = await secretContextService.rotateWorkspaceKey('ws-1', 'user-1')
+
+    expect(result).toEqual({ key_version: '2', reencrypted: 1, failed: 0 })
+    expect((await workspaceKeys.getWorkspaceEncryption('ws-1')).getKeyVersion()).toBe('2')
+    expect((await workspaceKeys.getWorkspaceEncryption('ws-2')).getKeyVersion()).toBe('1')
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'do_token')).toBe('ws1-secret')
+    expect(await secretContextService.getCredential('ws-2', 'user-2', 'do_token')).toBe('ws2-secret')
+  })
+
+  it('should crypto-shred a workspace without affecting others', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'ws1-secret', 'token', 'digitalocean')
+    await secretContextService.storeCredential('ws-2', 'user-2', 'do_token', 'ws2-secret', 'token', 'digitalocean')
+
+    expect(await secretContextService.shredWorkspaceSecrets('ws-1', 'user-1')).toBe(1)
+
+    await expect(secretContextService.getCredential('ws-1', 'user-1', 'do_token')).rejects.toThrow()
+    expect(await secretContextService.getCredential('ws-2', 'user-2', 'do_token')).toBe('ws2-secret')
+  })
+
+  it('should reject a credential blob copied to another user or key name', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'user1-secret', 'token', 'digitalocean')
+    await secretContextService.storeCredential('ws-1', 'user-2', 'do_token', 'user2-secret', 'token', 'digitalocean')
+
+    const [victim] = await db.findByUserAndWorkspace<any>('secret_contexts', 'user-1', 'ws-1')
+    const stolen = victim.credentials.do_token
+    await editStoredCredentials('ws-1', 'user-2', credentials => { credentials.do_token = stolen })
+    await editStoredCredentials('ws-1', 'user-1', credentials => { credentials.renamed = stolen })
+
+    await expect(secretContextService.getCredential('ws-1', 'user-2', 'do_token')).rejects.toThrow()
+    await expect(secretContextService.getCredential('ws-1', 'user-1', 'renamed')).rejects.toThrow()
+    expect(await secretContextService.getCredential('ws-1', 'user-1', 'do_token')).toBe('user1-secret')
+  })
+
+  it('should refuse unbound legacy values when associated data is enforced', async () => {
+    await secretContextService.storeCredential('ws-1', 'user-1', 'do_token', 'dop_v1_secret', 'token', 'digitalocean')
+    const legacy = (await workspaceKeys.getWorkspaceEncryption('ws-1')).encrypt('legacy-secret')
+    await editStoredCredentials('ws-1', 'user-1', credentials => {
+      Object.assign(credentials.do_token, legacy)
+      delete credentials.do_token.aad_version
+    })
+
+    process.env.ENFORCE_SECRET_AAD = 'true'
+    const strict = new SecretContextService(db, encryption, workspaceKeys, (secretContextService as any).repository)
+    delete process.env.ENFORCE_SECRET_AAD
+
+    await expect(strict.getCredential('ws-1', 'user-1', 'do_token')).rejects.toThrow('not bound to its owner')
+
+    const secretContext = await (secretContextService as any).repository.findByUserAndWorkspace('ws-1', 'user-1')
+    expect((await secretContextService.reencryptSecretContext(secretContext)).reencrypted).toBe(1)
+    expect(await strict.getCredential('ws-1', 'user-1', 'do_token')).toBe('legacy-secret')
+  })
+})
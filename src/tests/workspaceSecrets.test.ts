@@ -0,0 +1,97 @@
+import { DatabaseClient } from '../database/client'
+import { EncryptionService } from '../utils/encryption'
+import { SecretContextService, WORKSPACE_SECRET_OWNER } from '../services/SecretContextService'
+import { UserContextService } from '../services/UserContextService'
+import { WorkspaceSecretService, WorkspaceAccessError } from '../services/WorkspaceSecretService'
+import { UserContext } from '../types'
+
+const ROLES: Record<string, string[]> = {
+  'alice': ['admin'],
+  'bob': ['user'],
+  'carol': ['reader'],
+  'dave': []
+}
+
+describe('Workspace-shared secrets', () => {
+  let db: DatabaseClient
+  let userSecrets: SecretContextService
+  let workspaceSecrets: WorkspaceSecretService
+
+  beforeEach(async () => {
+    process.env.USE_IN_MEMORY_DB = 'true'
+    process.env.USE_IN_MEMORY_CACHE = 'true'
+
+    db = new DatabaseClient('https://test.supabase.co', 'test-service-role-key', {})
+    const encryption = new EncryptionService('master-key', '1')
+    const userContextService = new UserContextService(db)
+    jest.spyOn(userContextService, 'getUserContext').mockImplementation(async (workspaceId, userId) => ({
+      settings: { workspace: { default_workspace_id: workspaceId, workspace_permissions: { [workspaceId]: ROLES[userId] || [] } } }
+    } as unknown as UserContext))
+
+    userSecrets = new SecretContextService(db, encryption)
+    workspaceSecrets = new WorkspaceSecretService(userSecrets, userContextService, db, encryption)
+
+    await workspaceSecrets.storeCredential('ws-1', 'bob', 'do_token', 'shared-token', 'token', 'digitalocean')
+  })
+
+  afterEach(async () => {
+    await db.close()
+    delete process.env.USE_IN_MEMORY_DB
+    delete process.env.USE_IN_MEMORY_CACHE
+    delete process.env.SECRET_RESOLUTION_ORDER
+  })
+
+  it('should take the highest role from the workspace permissions', async () => {
+    expect(await workspaceSecrets.getRole('ws-1', 'alice')).toBe('admin')
+    expect(await workspaceSecrets.getRole('ws-1', 'carol')).toBe('reader')
+    expect(await workspaceSecrets.getRole('ws-1', 'dave')).toBeNull()
+  })
+
+  it('should let every member read, users write and admins delete', async () => {
+    expect(await workspaceSecrets.getCredential('ws-1', 'carol', 'do_token')).toBe('shared-token')
+
+    await expect(workspaceSecrets.getCredential('ws-1', 'dave', 'do_token')).rejects.toThrow(WorkspaceAccessError)
+    await expect(workspaceSecrets.storeCredential('ws-1', 'carol', 'do_token', 'x', 'token', 'digitalocean'))
+      .rejects.toMatchObject({ code: 'ACCESS_DENIED' })
+    await expect(workspaceSecrets.deleteSecret('ws-1', 'bob', 'credential', 'do_token'))
+      .rejects.toMatchObject({ code: 'ACCESS_DENIED' })
+
+    expect(await workspaceSecrets.deleteSecret('ws-1', 'alice', 'credential', 'do_token')).toBe(true)
+    expect(await workspaceSecrets.getCredential('ws-1', 'carol', 'do_token')).toBeNull()
+  })
+
+  it('should keep shared secrets apart from the per-user store', async () => {
+    expect(await userSecrets.getCredential('ws-1', 'bob', 'do_token')).toBeNull()
+    expect((await userSecrets.listSecrets('ws-1', 'bob')).credentials).toEqual([])
+    expect((await workspaceSecrets.listSecrets('ws-1', 'carol')).credentials.map(c => c.key)).toEqual(['do_token'])
+  })
+
+  it('should resolve user secrets first unless configured otherwise', async () => {
+    await userSecrets.storeCredential('ws-1', 'carol', 'do_token', 'own-token', 'token', 'digitalocean')
+
+    expect(await workspaceSecrets.resolveCredential('ws-1', 'carol', 'do_token')).toEqual({ value: 'own-token', scope: 'user' })
+    expect(await workspaceSecrets.resolveCredential('ws-1', 'bob', 'do_token')).toEqual({ value: 'shared-token', scope: 'workspace' })
+    expect(await workspaceSecrets.resolveCredential('ws-1', 'dave', 'do_token')).toBeNull()
+
+    process.env.SECRET_RESOLUTION_ORDER = 'workspace-first'
+    const workspaceFirst = new WorkspaceSecretService(userSecrets, (workspaceSecrets as any).userContextService, db, new EncryptionService('master-key', '1'))
+    await workspaceFirst.storeCredential('ws-1', 'bob', 'do_token', 'shared-token', 'token', 'digitalocean')
+    expect(await workspaceFirst.resolveCredential('ws-1', 'carol', 'do_token')).toEqual({ value: 'shared-token', scope: 'workspace' })
+  })
+
+  it('should credit the acting member in the audit log and version history', async () => {
+    const store: SecretContextService = (workspaceSecrets as any).store
+
+    await workspaceSecrets.getCredential('ws-1', 'carol', 'do_token')
+    await expect(workspaceSecrets.getCredential('ws-1', 'dave', 'do_token')).rejects.toThrow()
+
+    const auditLogs = await userSecrets.getAuditLog().list('ws-1')
+    expect(auditLogs.filter(log => log.operation === 'get_credential')).toEqual([
+      expect.objectContaining({ user_id: 'carol', operation: 'get_credential', resource_key: 'workspace:do_token', status: 'success' }),
+      expect.objectContaining({ user_id: 'dave', operation: 'get_credential', resource_key: 'workspace:do_token', status: 'failed' })
+    ])
+
+    const versions = await store.listSecretVersions('ws-1', WORKSPACE_SECRET_OWNER, 'credential', 'do_token')
+    expect(versions[0]!.changed_by).toBe('bob')
+  })
+})
@@ -17,6 +17,16 @@ export interface SecretContext {
   created_at: string
   updated_at: string
   expires_at?: string
+  // Set while secret retrieval is suspended, e.g. after suspected misuse
+  locked?: SecretContextLock | null
+  // Bumped by every save; unset until first saved
+  version?: number
+}
+
+export interface SecretContextLock {
+  locked_at: string
+  locked_by: string
+  reason: string
 }
 
 export interface EncryptedValue {
@@ -33,6 +43,20 @@ export interface EncryptedCredential extends EncryptedValue {
   metadata?: Record<string, any>
 }
 
+// Kept in EncryptedCredential.metadata.rotation
+export interface CredentialRotationPolicy {
+  interval_days: number
+  // How long the replaced credential stays valid before it is revoked
+  grace_period_hours: number
+  next_rotation_at: string
+  last_rotated_at?: string
+  // Replaced credential (a version in the history) waiting to be revoked
+  pending_revocation?: {
+    version: number
+    revoke_after: string
+  }
+}
+
 export interface EncryptedSSHKey extends EncryptedValue {
   key_type: 'rsa' | 'ed25519' | 'ecdsa'
   public_key: string
@@ -47,22 +71,44 @@ export interface EncryptedCertificate extends EncryptedValue {
   certificate_type: 'ssl' | 'client' | 'ca'
   common_name: string
   expires_at: string
+  subject_alt_names?: string[]
+  issuer?: string
+  serial_number?: string
+  fingerprint?: string
+  not_before?: string
+  has_private_key?: boolean
   metadata?: Record<string, any>
 }
 
-// User Context - User-specific preferences and history
+// One entry in the history of a credential, SSH key or certificate
+export interface SecretVersion {
+  id: string
+  workspace_id: string
+  user_id: string
+  secret_type: 'credential' | 'ssh_key' | 'certificate'
+  key: string
+  version: number
+  change_type: 'create' | 'update' | 'rollback' | 'delete'
+  // The sealed entry as stored at this version; null when the secret was deleted
+  value: EncryptedCredential | EncryptedSSHKey | EncryptedCertificate | null
+  changed_by: string
+  restored_version?: number
+  created_at: string
+}
+
+// User Context - User-specific preferences and settings; the history
+// (deployment patterns, infrastructure events, conversations and deployment
+// sessions) lives in tables of its own, see UserContextService
 export interface UserContext {
   id: string
   workspace_id: string
   user_id: string
   preferences: UserPreferences
-  deployment_patterns: DeploymentPattern[]
-  infrastructure_history: InfrastructureEvent[]
-  conversation_context: ConversationContext[]
-  deployment_sessions?: DeploymentSession[]
   settings: UserSettings
   created_at: string
   updated_at: string
+  // Bumped by every save; unset until first saved
+  version?: number
 }
 
 export interface UserPreferences {
@@ -163,6 +209,8 @@ export interface DeploymentSession {
   created_at: string
   updated_at: string
   expires_at: string
+  // Bumped by every update
+  version?: number
   metadata?: {
     cli_poc_patterns?: string[]
     watson_conversation_id?: string
@@ -358,4 +406,21 @@ export interface AuditLog {
   timestamp: string
   status: 'success' | 'failed'
   error_message?: string
+  // Position in the workspace's hash chain, the previous entry's hash and this entry's
+  sequence: number
+  prev_hash: string
+  hash: string
+}
+
+// Which audit entries to return; all but workspace_id are optional
+export interface AuditLogFilter {
+  workspace_id: string
+  user_id?: string
+  operation?: string
+  context_type?: AuditLog['context_type']
+  resource_key?: string
+  status?: AuditLog['status']
+  // ISO timestamps, both inclusive
+  from?: string
+  to?: string
 }
\ No newline at end of file
@@ -97,6 +97,9 @@ export interface DeploymentSessionContext {
   // Additional context
   notes?: string[]
   metadata?: Record<string, any>
+
+  // Bumped by every save; unset until first saved
+  version?: number
 }
 
 export interface SessionUpdate {
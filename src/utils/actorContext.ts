@@ -0,0 +1,16 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+/**
+ * The user on whose behalf an operation runs, when it differs from the
+ * owner of the secrets being touched (e.g. a member using a workspace-shared
+ * secret). Audit entries and version history credit the actor.
+ */
+const actorStorage = new AsyncLocalStorage<{ actor_id: string }>()
+
+export async function withActor<T>(actorId: string, operation: () => Promise<T>): Promise<T> {
+  return await actorStorage.run({ actor_id: actorId }, operation)
+}
+
+export function currentActor(): string | undefined {
+  return actorStorage.getStore()?.actor_id
+}
@@ -0,0 +1,106 @@
+import crypto from 'crypto'
+
+export interface ParsedCertificate {
+  common_name: string
+  subject: string
+  issuer: string
+  subject_alt_names: string[]
+  serial_number: string
+  fingerprint: string
+  not_before: string
+  expires_at: string
+  is_ca: boolean
+}
+
+export class CertificateError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'CertificateError'
+  }
+}
+
+/**
+ * Split a PEM bundle into its individual certificates (leaf first)
+ */
+export function splitPemCertificates(pem: string): string[] {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g) || []
+  return blocks.map(block => `${block}\n`)
+}
+
+/**
+ * Parse a PEM certificate and extract the metadata stored alongside it
+ */
+export function parseCertificate(pem: string): ParsedCertificate {
+  const certificate = loadCertificate(pem)
+
+  return {
+    common_name: distinguishedNameField(certificate.subject, 'CN') || '',
+    subject: certificate.subject.replace(/\n/g, ', '),
+    issuer: certificate.issuer.replace(/\n/g, ', '),
+    subject_alt_names: parseSubjectAltNames(certificate.subjectAltName),
+    serial_number: certificate.serialNumber,
+    fingerprint: certificate.fingerprint256,
+    not_before: new Date(certificate.validFrom).toISOString(),
+    expires_at: new Date(certificate.validTo).toISOString(),
+    is_ca: certificate.ca
+  }
+}
+
+/**
+ * Check that a private key (PEM, PKCS#1/PKCS#8/SEC1) belongs to the certificate
+ */
+export function certificateMatchesPrivateKey(certificatePem: string, privateKeyPem: string): boolean {
+  const certificate = loadCertificate(certificatePem)
+
+  let privateKey: crypto.KeyObject
+  try {
+    privateKey = crypto.createPrivateKey(privateKeyPem)
+  } catch (error) {
+    throw new CertificateError('Private key is not a valid unencrypted PEM key', 'INVALID_PRIVATE_KEY')
+  }
+
+  return certificate.checkPrivateKey(privateKey)
+}
+
+/**
+ * Check that every certificate in a chain is issued and signed by the next one
+ */
+export function validateCertificateChain(chainPem: string[]): void {
+  const chain = chainPem.map(pem => loadCertificate(pem))
+
+  for (let i = 0; i < chain.length - 1; i++) {
+    const certificate = chain[i]!
+    const issuer = chain[i + 1]!
+    if (!certificate.checkIssued(issuer) || !certificate.verify(issuer.publicKey)) {
+      throw new CertificateError(
+        `Certificate ${i + 1} in the chain is not issued by certificate ${i + 2}`,
+        'INVALID_CHAIN'
+      )
+    }
+  }
+}
+
+// Private helpers
+function loadCertificate(pem: string): crypto.X509Certificate {
+  try {
+    return new crypto.X509Certificate(pem)
+  } catch (error) {
+    throw new CertificateError('Certificate is not a valid PEM-encoded X.509 certificate', 'INVALID_CERTIFICATE')
+  }
+}
+
+function distinguishedNameField(distinguishedName: string, field: string): string | undefined {
+  return distinguishedName
+    .split('\n')
+    .find(line => line.startsWith(`${field}=`))
+    ?.slice(field.length + 1)
+}
+
+// "DNS:a.example.com, IP Address:10.0.0.1" -> ["DNS:a.example.com", "IP:10.0.0.1"]
+function parseSubjectAltNames(subjectAltName: string | undefined): string[] {
+  if (!subjectAltName) return []
+
+  return subjectAltName
+    .split(', ')
+    .map(name => name.replace(/^IP Address:/, 'IP:'))
+}
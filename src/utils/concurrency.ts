@@ -0,0 +1,53 @@
+/**
+ * Optimistic concurrency for context writes. Each context carries a version
+ * that every write bumps (DatabaseClient.saveVersioned), so a write based on
+ * a stale copy fails instead of silently overwriting a newer one.
+ */
+
+import { isConflict } from '../database/ContextStore'
+
+// Every conflict means another write went through, so this many writers
+// racing for one context all get through
+const CONFLICT_ATTEMPTS = 10
+
+export class ContextConflictError extends Error {
+  // CONFLICT: other writes kept getting in first; VERSION_MISMATCH: the
+  // context is no longer at the version the caller expected
+  constructor(message: string, public code: 'CONFLICT' | 'VERSION_MISMATCH') {
+    super(message)
+    this.name = 'ContextConflictError'
+  }
+}
+
+/**
+ * Run a read-modify-write and, when another write got in first, run it
+ * again so the change is merged into the latest state. The operation must
+ * therefore read what it changes itself. Gives up after a few attempts.
+ */
+export async function retryOnConflict<T>(operation: () => Promise<T>, attempts: number = CONFLICT_ATTEMPTS): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation()
+    } catch (error) {
+      if (!isConflict(error)) throw error
+      if (attempt >= attempts) {
+        throw new ContextConflictError(`Concurrent writes kept conflicting after ${attempts} attempts`, 'CONFLICT')
+      }
+    }
+  }
+}
+
+/**
+ * Refuse a change to a context that is no longer at the version the caller
+ * read, e.g. from an If-Match header. Without an expected version anything goes.
+ */
+export function assertVersion(context: { version?: number } | null, expectedVersion?: number): void {
+  if (expectedVersion === undefined || (context && (context.version ?? 1) === expectedVersion)) {
+    return
+  }
+
+  throw new ContextConflictError(
+    context ? `Context is at version ${context.version ?? 1}, not ${expectedVersion}` : 'Context does not exist',
+    'VERSION_MISMATCH'
+  )
+}
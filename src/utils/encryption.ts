@@ -1,24 +1,59 @@
 import crypto from 'crypto'
 import { EncryptedValue } from '../types'
+import { KeyProvider, WrappedKey } from '../kms/KeyProvider'
+
+// Format version of the associated data built by buildSecretAssociatedData
+const ASSOCIATED_DATA_VERSION = '1'
 
 export class EncryptionService {
   private algorithm: string = 'aes-256-gcm'
-  private key: Buffer
+  private keyring: Map<string, Buffer> = new Map()
   private keyVersion: string
+  private salt: string
+  private keyProvider?: KeyProvider
 
-  constructor(encryptionKey: string, keyVersion: string = '1') {
-    // Ensure the key is exactly 32 bytes for AES-256
-    this.key = crypto.scryptSync(encryptionKey, 'controlvector-salt', 32)
+  /**
+   * Passphrase keys are stretched with scrypt; a 32-byte Buffer is used as a
+   * raw AES-256 key (e.g. an unwrapped workspace data key).
+   */
+  constructor(encryptionKey: string | Buffer, keyVersion: string = '1', salt: string = 'controlvector-salt') {
+    this.salt = salt
+    this.keyring.set(keyVersion, this.deriveKey(encryptionKey))
     this.keyVersion = keyVersion
   }
 
   /**
-   * Encrypt sensitive data
+   * Build a service from CONTEXT_ENCRYPTION_KEY plus any retired keys listed in
+   * CONTEXT_ENCRYPTION_PREVIOUS_KEYS ("version:key,version:key")
+   */
+  static fromEnvironment(env: NodeJS.ProcessEnv = process.env): EncryptionService {
+    const service = new EncryptionService(
+      env.CONTEXT_ENCRYPTION_KEY || 'fallback-key-for-development-only',
+      env.CONTEXT_ENCRYPTION_KEY_VERSION || '1',
+      env.CONTEXT_ENCRYPTION_SALT || 'controlvector-salt'
+    )
+
+    for (const entry of (env.CONTEXT_ENCRYPTION_PREVIOUS_KEYS || '').split(',')) {
+      const separator = entry.indexOf(':')
+      if (separator <= 0) continue
+      service.addKey(entry.slice(separator + 1).trim(), entry.slice(0, separator).trim())
+    }
+
+    return service
+  }
+
+  /**
+   * Encrypt sensitive data with the current key version. When associated data
+   * is given the ciphertext is bound to it and only decrypts with the same AAD.
    */
-  encrypt(plaintext: string, expiresAt?: Date): EncryptedValue {
+  encrypt(plaintext: string, expiresAt?: Date, associatedData?: string): EncryptedValue {
     const iv = crypto.randomBytes(12) // 96-bit IV for GCM
-    const cipher = crypto.createCipheriv(this.algorithm, this.key, iv) as crypto.CipherGCM
+    const cipher = crypto.createCipheriv(this.algorithm, this.getKey(this.keyVersion), iv) as crypto.CipherGCM
     
+    if (associatedData !== undefined) {
+      cipher.setAAD(Buffer.from(associatedData, 'utf8'))
+    }
+
     let encrypted = cipher.update(plaintext, 'utf8', 'hex')
     encrypted += cipher.final('hex')
 
@@ -37,31 +72,24 @@ export class EncryptionService {
       result.expires_at = expiresAt.toISOString()
     }
 
+    if (associatedData !== undefined) {
+      result.aad_version = ASSOCIATED_DATA_VERSION
+    }
+
     return result
   }
 
   /**
-   * Decrypt sensitive data
+   * Decrypt sensitive data with whichever key version sealed it. Values sealed
+   * with associated data require the same AAD; legacy values without it ignore it.
    */
-  decrypt(encryptedValue: EncryptedValue): string {
+  decrypt(encryptedValue: EncryptedValue, associatedData?: string): string {
     // Check if expired
     if (encryptedValue.expires_at && new Date(encryptedValue.expires_at) < new Date()) {
       throw new Error('Encrypted data has expired')
     }
 
-    const iv = Buffer.from(encryptedValue.iv, 'hex')
-    const authTag = encryptedValue.auth_tag ? Buffer.from(encryptedValue.auth_tag, 'hex') : Buffer.alloc(0)
-    
-    const decipher = crypto.createDecipheriv(encryptedValue.algorithm, this.key, iv) as crypto.DecipherGCM
-    
-    if (authTag.length > 0) {
-      decipher.setAuthTag(authTag)
-    }
-
-    let decrypted = decipher.update(encryptedValue.encrypted_data, 'hex', 'utf8')
-    decrypted += decipher.final('utf8')
-
-    return decrypted
+    return this.decryptValue(encryptedValue, associatedData)
   }
 
   /**
@@ -79,18 +107,184 @@ export class EncryptionService {
   }
 
   /**
-   * Rotate encryption key (for future key rotation feature)
+   * Rotate encryption key. The previous key stays in the keyring so existing
+   * values remain readable until they are re-encrypted.
+   */
+  rotateKey(newKey: string | Buffer, newVersion: string): EncryptionService {
+    this.addKey(newKey, newVersion)
+    this.keyVersion = newVersion
+    return this
+  }
+
+  /**
+   * Register an additional key version usable for decryption
+   */
+  addKey(encryptionKey: string | Buffer, keyVersion: string): EncryptionService {
+    if (keyVersion === this.keyVersion && this.keyring.has(keyVersion)) {
+      throw new Error(`Cannot replace the current encryption key version '${keyVersion}'`)
+    }
+    this.keyring.set(keyVersion, this.deriveKey(encryptionKey))
+    return this
+  }
+
+  /**
+   * Remove a retired key version from the keyring
+   */
+  retireKey(keyVersion: string): boolean {
+    if (keyVersion === this.keyVersion) {
+      throw new Error(`Cannot retire the current encryption key version '${keyVersion}'`)
+    }
+    return this.keyring.delete(keyVersion)
+  }
+
+  getKeyVersion(): string {
+    return this.keyVersion
+  }
+
+  getKeyVersions(): string[] {
+    return Array.from(this.keyring.keys())
+  }
+
+  /**
+   * Whether a value was sealed under a key version other than the current one
+   */
+  needsReencryption(encryptedValue: EncryptedValue): boolean {
+    return (encryptedValue.key_version || '1') !== this.keyVersion
+  }
+
+  /**
+   * Re-seal a value under the current key version, keeping its other fields.
+   * Expired values are re-encrypted as well so rotation never strands them.
+   * Passing associated data binds values that were sealed without it.
+   */
+  reencrypt<T extends EncryptedValue>(encryptedValue: T, associatedData?: string): T {
+    return this.resealWith(encryptedValue, this, associatedData)
+  }
+
+  /**
+   * Decrypt a value with this service and seal it again with another one
+   * (e.g. moving a master-key value under a workspace data key)
+   */
+  resealWith<T extends EncryptedValue>(encryptedValue: T, target: EncryptionService, associatedData?: string): T {
+    const plaintext = this.decryptValue(encryptedValue, associatedData)
+    const resealed = target.encrypt(plaintext, undefined, associatedData)
+
+    const result: T = {
+      ...encryptedValue,
+      encrypted_data: resealed.encrypted_data,
+      algorithm: resealed.algorithm,
+      iv: resealed.iv,
+      auth_tag: resealed.auth_tag,
+      key_version: resealed.key_version
+    }
+
+    if (resealed.aad_version) {
+      result.aad_version = resealed.aad_version
+    } else {
+      delete result.aad_version
+    }
+
+    return result
+  }
+
+  /**
+   * Wrap and unwrap data keys through an external key provider (KMS/HSM)
+   * instead of this service's own keyring
+   */
+  setKeyProvider(keyProvider: KeyProvider | undefined): EncryptionService {
+    this.keyProvider = keyProvider
+    return this
+  }
+
+  getKeyProviderName(): string {
+    return this.keyProvider?.name || 'master'
+  }
+
+  async keyProviderHealthCheck(): Promise<boolean> {
+    return this.keyProvider ? await this.keyProvider.healthCheck() : true
+  }
+
+  /**
+   * Generate a fresh data-encryption key and wrap it with the current master key
+   */
+  async generateDataKey(): Promise<{ plaintext: Buffer; wrapped: WrappedKey }> {
+    const plaintext = crypto.randomBytes(32)
+    return { plaintext, wrapped: await this.wrapDataKey(plaintext) }
+  }
+
+  /**
+   * Wrap a data-encryption key with the key provider, or with the current
+   * keyring version when no provider is configured
    */
-  rotateKey(newKey: string, newVersion: string): EncryptionService {
-    return new EncryptionService(newKey, newVersion)
+  async wrapDataKey(dataKey: Buffer): Promise<WrappedKey> {
+    if (this.keyProvider) {
+      return await this.keyProvider.wrapKey(dataKey)
+    }
+
+    const sealed = this.encrypt(dataKey.toString('base64'))
+    return {
+      provider: 'master',
+      key_id: 'context-encryption-key',
+      key_version: sealed.key_version!,
+      ciphertext: sealed.encrypted_data,
+      iv: sealed.iv,
+      auth_tag: sealed.auth_tag!,
+      created_at: sealed.created_at
+    }
+  }
+
+  /**
+   * Unwrap a data-encryption key sealed by wrapDataKey
+   */
+  async unwrapDataKey(wrappedKey: WrappedKey): Promise<Buffer> {
+    let dataKey: Buffer
+
+    if (wrappedKey.provider === 'master') {
+      dataKey = Buffer.from(this.decryptValue({
+        encrypted_data: wrappedKey.ciphertext,
+        algorithm: this.algorithm,
+        iv: wrappedKey.iv || '',
+        auth_tag: wrappedKey.auth_tag,
+        key_version: wrappedKey.key_version,
+        created_at: wrappedKey.created_at
+      }), 'base64')
+    } else if (this.keyProvider && wrappedKey.provider === this.keyProvider.name) {
+      dataKey = await this.keyProvider.unwrapKey(wrappedKey)
+    } else {
+      throw new Error(`No key provider available for keys wrapped by '${wrappedKey.provider}'`)
+    }
+
+    if (dataKey.length !== 32) {
+      throw new Error('Unwrapped data key has an invalid length')
+    }
+    return dataKey
+  }
+
+  /**
+   * Re-wrap a data key under the current master key. Returns null when it is
+   * already wrapped by the current provider and key version.
+   */
+  async rewrapDataKey(wrappedKey: WrappedKey): Promise<WrappedKey | null> {
+    // Moving between providers (e.g. keyring to Vault) always re-wraps
+    if (wrappedKey.provider !== this.getKeyProviderName()) {
+      return await this.wrapDataKey(await this.unwrapDataKey(wrappedKey))
+    }
+
+    if (this.keyProvider) {
+      return await this.keyProvider.rewrapKey(wrappedKey)
+    }
+
+    return wrappedKey.key_version === this.keyVersion
+      ? null
+      : await this.wrapDataKey(await this.unwrapDataKey(wrappedKey))
   }
 
   /**
    * Verify encrypted data integrity
    */
-  verify(encryptedValue: EncryptedValue): boolean {
+  verify(encryptedValue: EncryptedValue, associatedData?: string): boolean {
     try {
-      this.decrypt(encryptedValue)
+      this.decrypt(encryptedValue, associatedData)
       return true
     } catch (error) {
       return false
@@ -149,9 +343,73 @@ export class EncryptionService {
     
     return result as T
   }
+
+  private decryptValue(encryptedValue: EncryptedValue, associatedData?: string): string {
+    const iv = Buffer.from(encryptedValue.iv, 'hex')
+    const authTag = encryptedValue.auth_tag ? Buffer.from(encryptedValue.auth_tag, 'hex') : Buffer.alloc(0)
+    
+    // Values written before key versioning carry no stamp and were sealed with version 1
+    const key = this.getKey(encryptedValue.key_version || '1')
+    const decipher = crypto.createDecipheriv(encryptedValue.algorithm, key, iv) as crypto.DecipherGCM
+    
+    if (authTag.length > 0) {
+      decipher.setAuthTag(authTag)
+    }
+
+    if (encryptedValue.aad_version) {
+      if (encryptedValue.aad_version !== ASSOCIATED_DATA_VERSION) {
+        throw new Error(`Unsupported associated data version '${encryptedValue.aad_version}'`)
+      }
+      if (associatedData === undefined) {
+        throw new Error('Encrypted data is bound to associated data that was not provided')
+      }
+      decipher.setAAD(Buffer.from(associatedData, 'utf8'))
+    }
+
+    let decrypted = decipher.update(encryptedValue.encrypted_data, 'hex', 'utf8')
+    decrypted += decipher.final('utf8')
+
+    return decrypted
+  }
+
+  private getKey(keyVersion: string): Buffer {
+    const key = this.keyring.get(keyVersion)
+    if (!key) {
+      throw new Error(`Unknown encryption key version '${keyVersion}'`)
+    }
+    return key
+  }
+
+  private deriveKey(encryptionKey: string | Buffer): Buffer {
+    if (Buffer.isBuffer(encryptionKey)) {
+      if (encryptionKey.length !== 32) {
+        throw new Error('Raw encryption keys must be exactly 32 bytes')
+      }
+      return Buffer.from(encryptionKey)
+    }
+
+    // Ensure the key is exactly 32 bytes for AES-256
+    return crypto.scryptSync(encryptionKey, this.salt, 32)
+  }
 }
 
 // Utility functions
+
+/**
+ * Associated data binding a secret's ciphertext to its owner, so a blob copied
+ * to another workspace, user, secret type or key name fails to decrypt
+ */
+export function buildSecretAssociatedData(
+  workspaceId: string,
+  userId: string,
+  secretType: string,
+  key: string
+): string {
+  return ['cv-secret', `v${ASSOCIATED_DATA_VERSION}`, workspaceId, userId, secretType, key]
+    .map(part => encodeURIComponent(part))
+    .join('|')
+}
+
 export function generateSecurePassword(length: number = 32): string {
   const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*()_+-=[]{}|;:,.<>?'
   let result = ''
@@ -181,5 +439,9 @@ declare module '../types' {
   interface EncryptedValue {
     auth_tag?: string
     key_version?: string
+    // 'workspace' values are sealed with the workspace data key; absent means the master keyring
+    key_scope?: 'master' | 'workspace'
+    // Set when the ciphertext is bound to associated data (see buildSecretAssociatedData)
+    aad_version?: string
   }
 }
\ No newline at end of file
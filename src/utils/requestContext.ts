@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from 'async_hooks'
+
+/**
+ * Where the HTTP request being handled came from. Audit entries written
+ * while handling it record this instead of the 'system' defaults used for
+ * background jobs.
+ */
+export interface RequestContext {
+  ip_address: string
+  user_agent: string
+}
+
+const requestStorage = new AsyncLocalStorage<RequestContext>()
+
+export function withRequestContext<T>(context: RequestContext, operation: () => T): T {
+  return requestStorage.run(context, operation)
+}
+
+export function currentRequestContext(): RequestContext | undefined {
+  return requestStorage.getStore()
+}
@@ -0,0 +1,232 @@
+/**
+ * Portable secret bundles
+ *
+ * A bundle carries a user's secrets between instances, encrypted to a
+ * recipient rather than to any instance key: either a passphrase (scrypt) or
+ * an X25519 public key (an ephemeral key agreement, as in age). The manifest
+ * lists what the bundle holds without any values and is bound to the
+ * ciphertext as associated data, so it cannot be altered without the bundle
+ * failing to open.
+ *
+ * X25519 keys are exchanged as base64 of their raw 32 bytes.
+ */
+
+import crypto from 'crypto'
+
+export const SECRET_BUNDLE_FORMAT = 'cv-secret-bundle'
+export const SECRET_BUNDLE_VERSION = 1
+
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 }
+const X25519_INFO = 'cv-secret-bundle/x25519'
+// DER headers that wrap a raw X25519 key as SPKI / PKCS#8
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex')
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex')
+
+export interface SecretBundleEntry {
+  secret_type: 'credential' | 'ssh_key' | 'certificate'
+  key: string
+  // Credential value, SSH private key, or the certificate bundle JSON
+  value: string
+  // Unsealed fields of the stored entry (type, provider, public key, metadata, ...)
+  attributes: Record<string, any>
+}
+
+export interface SecretBundleManifest {
+  bundle_id: string
+  created_at: string
+  source: { workspace_id: string; user_id: string }
+  entries: Array<{ secret_type: SecretBundleEntry['secret_type']; key: string }>
+  // Entries that could not be exported, e.g. expired ones
+  skipped: Array<{ secret_type: SecretBundleEntry['secret_type']; key: string; reason: string }>
+}
+
+export type SecretBundleRecipient =
+  | { type: 'passphrase'; kdf: 'scrypt'; salt: string; N: number; r: number; p: number }
+  | { type: 'x25519'; ephemeral_public_key: string; recipient_public_key: string }
+
+export interface SecretBundle {
+  format: typeof SECRET_BUNDLE_FORMAT
+  version: number
+  manifest: SecretBundleManifest
+  recipient: SecretBundleRecipient
+  payload: {
+    algorithm: 'aes-256-gcm'
+    iv: string
+    tag: string
+    ciphertext: string
+    // Lets a damaged bundle be detected without the key
+    sha256: string
+  }
+}
+
+// Who a bundle is encrypted to, and what opens it
+export type SecretBundleSealKey = { passphrase: string } | { public_key: string }
+export type SecretBundleOpenKey = { passphrase: string } | { private_key: string }
+
+export class SecretBundleError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'SecretBundleError'
+  }
+}
+
+/**
+ * Generate an X25519 key pair for receiving bundles
+ */
+export function generateBundleKeyPair(): { public_key: string; private_key: string } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('x25519')
+  const jwk = privateKey.export({ format: 'jwk' })
+
+  return {
+    public_key: Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('base64'),
+    private_key: Buffer.from(jwk.d!, 'base64url').toString('base64')
+  }
+}
+
+/**
+ * Encrypt entries into a bundle for the given recipient
+ */
+export function sealSecretBundle(
+  manifest: SecretBundleManifest,
+  entries: SecretBundleEntry[],
+  sealKey: SecretBundleSealKey
+): SecretBundle {
+  let recipient: SecretBundleRecipient
+  let fileKey: Buffer
+
+  if ('passphrase' in sealKey) {
+    const salt = crypto.randomBytes(16)
+    recipient = { type: 'passphrase', kdf: 'scrypt', salt: salt.toString('base64'), ...SCRYPT_PARAMS }
+    fileKey = scrypt(sealKey.passphrase, salt, SCRYPT_PARAMS)
+  } else {
+    const recipientKey = x25519PublicKey(sealKey.public_key)
+    const ephemeral = crypto.generateKeyPairSync('x25519')
+    const ephemeralPublic = rawPublicKey(ephemeral.publicKey)
+    recipient = {
+      type: 'x25519',
+      ephemeral_public_key: ephemeralPublic.toString('base64'),
+      recipient_public_key: rawPublicKey(recipientKey).toString('base64')
+    }
+    fileKey = x25519FileKey(crypto.diffieHellman({ privateKey: ephemeral.privateKey, publicKey: recipientKey }), recipient)
+  }
+
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', fileKey, iv)
+  cipher.setAAD(bundleAssociatedData(manifest, recipient))
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(entries), 'utf8'), cipher.final()])
+
+  return {
+    format: SECRET_BUNDLE_FORMAT,
+    version: SECRET_BUNDLE_VERSION,
+    manifest,
+    recipient,
+    payload: {
+      algorithm: 'aes-256-gcm',
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+      sha256: crypto.createHash('sha256').update(ciphertext).digest('hex')
+    }
+  }
+}
+
+/**
+ * Decrypt a bundle and check its entries against the manifest
+ */
+export function openSecretBundle(bundle: SecretBundle, openKey: SecretBundleOpenKey): SecretBundleEntry[] {
+  if (bundle?.format !== SECRET_BUNDLE_FORMAT || bundle.version !== SECRET_BUNDLE_VERSION) {
+    throw new SecretBundleError(`Not a version ${SECRET_BUNDLE_VERSION} ${SECRET_BUNDLE_FORMAT}`, 'INVALID_BUNDLE')
+  }
+
+  const ciphertext = Buffer.from(bundle.payload.ciphertext, 'base64')
+  if (crypto.createHash('sha256').update(ciphertext).digest('hex') !== bundle.payload.sha256) {
+    throw new SecretBundleError('Bundle payload is corrupted (checksum mismatch)', 'INTEGRITY_FAILED')
+  }
+
+  const { recipient } = bundle
+  let fileKey: Buffer
+  if (recipient.type === 'passphrase') {
+    if (!('passphrase' in openKey)) {
+      throw new SecretBundleError('This bundle is encrypted to a passphrase', 'WRONG_KEY')
+    }
+    // The parameters come from the bundle; refuse ones that would exhaust memory
+    if (recipient.N > 2 ** 20 || recipient.r > 16 || recipient.p > 4) {
+      throw new SecretBundleError('Unsupported scrypt parameters', 'INVALID_BUNDLE')
+    }
+    fileKey = scrypt(openKey.passphrase, Buffer.from(recipient.salt, 'base64'), recipient)
+  } else {
+    if (!('private_key' in openKey)) {
+      throw new SecretBundleError('This bundle is encrypted to an X25519 public key', 'WRONG_KEY')
+    }
+    const privateKey = x25519PrivateKey(openKey.private_key)
+    if (rawPublicKey(crypto.createPublicKey(privateKey)).toString('base64') !== recipient.recipient_public_key) {
+      throw new SecretBundleError('This bundle is encrypted to a different public key', 'WRONG_KEY')
+    }
+    const shared = crypto.diffieHellman({ privateKey, publicKey: x25519PublicKey(recipient.ephemeral_public_key) })
+    fileKey = x25519FileKey(shared, recipient)
+  }
+
+  let entries: SecretBundleEntry[]
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', fileKey, Buffer.from(bundle.payload.iv, 'base64'))
+    decipher.setAAD(bundleAssociatedData(bundle.manifest, recipient))
+    decipher.setAuthTag(Buffer.from(bundle.payload.tag, 'base64'))
+    entries = JSON.parse(Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8'))
+  } catch (error) {
+    throw new SecretBundleError('Cannot open the bundle; wrong key or the bundle was modified', 'DECRYPTION_FAILED')
+  }
+
+  const listed = bundle.manifest.entries.map(entry => `${entry.secret_type}:${entry.key}`)
+  const found = entries.map(entry => `${entry.secret_type}:${entry.key}`)
+  if (listed.length !== found.length || listed.some((entry, index) => entry !== found[index])) {
+    throw new SecretBundleError('Bundle contents do not match its manifest', 'INTEGRITY_FAILED')
+  }
+
+  return entries
+}
+
+// Private helpers
+function scrypt(passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Buffer {
+  return crypto.scryptSync(passphrase, salt, 32, { N: params.N, r: params.r, p: params.p, maxmem: 256 * params.N * params.r })
+}
+
+function x25519FileKey(shared: Buffer, recipient: Extract<SecretBundleRecipient, { type: 'x25519' }>): Buffer {
+  const salt = Buffer.concat([
+    Buffer.from(recipient.ephemeral_public_key, 'base64'),
+    Buffer.from(recipient.recipient_public_key, 'base64')
+  ])
+  return Buffer.from(crypto.hkdfSync('sha256', shared, salt, X25519_INFO, 32))
+}
+
+// Everything outside the payload is authenticated along with it
+function bundleAssociatedData(manifest: SecretBundleManifest, recipient: SecretBundleRecipient): Buffer {
+  return Buffer.from(JSON.stringify({ format: SECRET_BUNDLE_FORMAT, version: SECRET_BUNDLE_VERSION, manifest, recipient }))
+}
+
+function x25519PublicKey(base64: string): crypto.KeyObject {
+  try {
+    return crypto.createPublicKey({ key: Buffer.concat([X25519_SPKI_PREFIX, rawKey(base64)]), format: 'der', type: 'spki' })
+  } catch (error) {
+    throw new SecretBundleError('Invalid X25519 public key', 'INVALID_KEY')
+  }
+}
+
+function x25519PrivateKey(base64: string): crypto.KeyObject {
+  try {
+    return crypto.createPrivateKey({ key: Buffer.concat([X25519_PKCS8_PREFIX, rawKey(base64)]), format: 'der', type: 'pkcs8' })
+  } catch (error) {
+    throw new SecretBundleError('Invalid X25519 private key', 'INVALID_KEY')
+  }
+}
+
+function rawKey(base64: string): Buffer {
+  const raw = Buffer.from(base64, 'base64')
+  if (raw.length !== 32) {
+    throw new Error('X25519 keys are 32 bytes')
+  }
+  return raw
+}
+
+function rawPublicKey(key: crypto.KeyObject): Buffer {
+  return Buffer.from(key.export({ format: 'jwk' }).x!, 'base64url')
+}
@@ -0,0 +1,277 @@
+/**
+ * Bulk secret import
+ *
+ * Reads secrets from .env files, flat JSON objects and SOPS-encrypted
+ * YAML/JSON documents, and maps each entry to a credential key,
+ * credential_type and provider. Explicit rules are tried first; entries no
+ * rule matches are classified from their name and value.
+ *
+ * SOPS documents are decrypted with the document's data key (the key sops
+ * wraps for its age/PGP/KMS recipients). Each value is checked against its
+ * GCM tag and position in the document; the document-wide MAC is not checked.
+ * Values the document leaves unencrypted are not secrets and are not imported.
+ * A name given twice in one file is refused rather than one value winning.
+ */
+
+import crypto from 'crypto'
+import { parse as parseDotenv } from 'dotenv'
+import { parse as parseYaml } from 'yaml'
+
+export type SecretImportFormat = 'dotenv' | 'json' | 'sops'
+
+export type ImportCredentialType = 'oauth' | 'api_key' | 'password' | 'token'
+
+export interface SecretImportRule {
+  // Entry name, case-insensitive; '*' matches any run of characters
+  match: string
+  key?: string
+  credential_type?: ImportCredentialType
+  provider?: string
+  skip?: boolean
+}
+
+export interface SecretImportCandidate {
+  key: string
+  value: string
+  credential_type: ImportCredentialType
+  provider: string
+  // Entry names the credential was built from
+  sources: string[]
+  matched_by: 'rule' | 'heuristic'
+}
+
+export interface SecretImportPlan {
+  candidates: SecretImportCandidate[]
+  skipped: Array<{ source: string; reason: string }>
+}
+
+export class SecretImportError extends Error {
+  constructor(message: string, public code: string) {
+    super(message)
+    this.name = 'SecretImportError'
+  }
+}
+
+const SOPS_VALUE_PATTERN = /^ENC\[AES256_GCM,data:([^,]*),iv:([^,]+),tag:([^,]+),type:(\w+)\]$/
+
+// Providers recognised from an entry's name prefix or the shape of its value
+const PROVIDER_HEURISTICS: Array<{ provider: string; name: RegExp; value?: RegExp }> = [
+  { provider: 'digitalocean', name: /^(DO|DIGITALOCEAN)_/, value: /^do[opr]_v1_/ },
+  { provider: 'cloudflare', name: /^(CF|CLOUDFLARE)_/ },
+  { provider: 'github', name: /^(GH|GITHUB)_/, value: /^(gh[opusr]_|github_pat_)/ },
+  { provider: 'aws', name: /^AWS_/, value: /^(AKIA|ASIA)[A-Z0-9]{16}$/ }
+]
+
+// dotenv's own line pattern, to find the names a later line would override
+const DOTENV_LINE = /(?:^|^)\s*(?:export\s+)?([\w.-]+)(?:\s*=\s*?|:\s+?)(\s*'(?:\\'|[^'])*'|\s*"(?:\\"|[^"])*"|\s*`(?:\\`|[^`])*`|[^#\r\n]+)?\s*(?:#.*)?(?:$|$)/mg
+
+// JSON strings, each followed by a colon when it is an object key
+const JSON_STRING = /("(?:[^"\\]|\\.)*")(\s*:)?/g
+
+/**
+ * Parse an import file into entry names and plaintext values
+ */
+export function parseSecretImport(
+  content: string,
+  format: SecretImportFormat,
+  options: { sopsDataKey?: string } = {}
+): Record<string, string> {
+  switch (format) {
+    case 'dotenv':
+      assertUniqueNames(Array.from(content.replace(/\r\n?/g, '\n').matchAll(DOTENV_LINE), match => match[1]!))
+      return parseDotenv(content)
+    case 'json':
+      return parseFlatJson(content)
+    case 'sops':
+      return decryptSopsDocument(content, options.sopsDataKey)
+  }
+}
+
+/**
+ * Map parsed entries to credentials. AWS access key ID and secret access key
+ * pairs become one aws credential.
+ */
+export function classifySecretImport(entries: Record<string, string>, rules: SecretImportRule[] = []): SecretImportPlan {
+  const plan: SecretImportPlan = { candidates: [], skipped: [] }
+  const remaining = new Map(Object.entries(entries))
+
+  for (const [name, value] of remaining) {
+    const rule = rules.find(r => ruleMatches(r, name))
+    if (rule?.skip) {
+      plan.skipped.push({ source: name, reason: `Skipped by rule '${rule.match}'` })
+      remaining.delete(name)
+    } else if (value.trim() === '') {
+      plan.skipped.push({ source: name, reason: 'Empty value' })
+      remaining.delete(name)
+    } else if (value.startsWith('secret://')) {
+      plan.skipped.push({ source: name, reason: 'Already a secret reference' })
+      remaining.delete(name)
+    }
+  }
+
+  for (const [name, accessKeyId] of remaining) {
+    const prefix = name.toUpperCase().match(/^(.*)AWS_ACCESS_KEY_ID$/)?.[1]
+    if (prefix === undefined || rules.some(r => ruleMatches(r, name))) continue
+
+    const secretName = [...remaining.keys()].find(other => other.toUpperCase() === `${prefix}AWS_SECRET_ACCESS_KEY`)
+    if (!secretName) continue
+    const tokenName = [...remaining.keys()].find(other => other.toUpperCase() === `${prefix}AWS_SESSION_TOKEN`)
+
+    plan.candidates.push({
+      key: `${prefix}aws`.toLowerCase(),
+      value: JSON.stringify({
+        access_key_id: accessKeyId,
+        secret_access_key: remaining.get(secretName),
+        ...(tokenName && { session_token: remaining.get(tokenName) })
+      }),
+      credential_type: 'api_key',
+      provider: 'aws',
+      sources: [name, secretName, ...(tokenName ? [tokenName] : [])],
+      matched_by: 'heuristic'
+    })
+    remaining.delete(name)
+    remaining.delete(secretName)
+    if (tokenName) remaining.delete(tokenName)
+  }
+
+  for (const [name, value] of remaining) {
+    const rule = rules.find(r => ruleMatches(r, name))
+    plan.candidates.push({
+      key: rule?.key || name.toLowerCase(),
+      value,
+      credential_type: rule?.credential_type || guessCredentialType(name),
+      provider: rule?.provider || guessProvider(name, value),
+      sources: [name],
+      matched_by: rule ? 'rule' : 'heuristic'
+    })
+  }
+
+  const keys = new Set<string>()
+  for (const candidate of plan.candidates) {
+    if (keys.has(candidate.key)) {
+      throw new SecretImportError(`More than one entry maps to credential '${candidate.key}'`, 'DUPLICATE_KEY')
+    }
+    keys.add(candidate.key)
+  }
+
+  return plan
+}
+
+// Private helpers
+function parseFlatJson(content: string): Record<string, string> {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch (error) {
+    throw new SecretImportError(`Invalid JSON: ${error instanceof Error ? error.message : error}`, 'INVALID_FILE')
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new SecretImportError('JSON imports must be an object of names to values', 'INVALID_FILE')
+  }
+  // The object is flat, so every key is one of its names
+  assertUniqueNames(Array.from(content.matchAll(JSON_STRING))
+    .filter(match => match[2] !== undefined)
+    .map(match => JSON.parse(match[1]!) as string))
+
+  const entries: Record<string, string> = {}
+  for (const [name, value] of Object.entries(parsed)) {
+    if (value !== null && typeof value === 'object') {
+      throw new SecretImportError(`'${name}' is not a plain value; JSON imports must be flat`, 'INVALID_FILE')
+    }
+    entries[name] = value === null ? '' : String(value)
+  }
+  return entries
+}
+
+function decryptSopsDocument(content: string, dataKey?: string): Record<string, string> {
+  if (!dataKey) {
+    throw new SecretImportError('SOPS imports need the document data key', 'MISSING_DATA_KEY')
+  }
+  const key = /^[0-9a-f]{64}$/i.test(dataKey) ? Buffer.from(dataKey, 'hex') : Buffer.from(dataKey, 'base64')
+  if (key.length !== 32) {
+    throw new SecretImportError('The SOPS data key must be 32 bytes, hex or base64 encoded', 'MISSING_DATA_KEY')
+  }
+
+  let document: unknown
+  try {
+    // YAML is a superset of JSON, so this reads both kinds of SOPS file
+    document = parseYaml(content)
+  } catch (error) {
+    throw new SecretImportError(`Invalid SOPS document: ${error instanceof Error ? error.message : error}`, 'INVALID_FILE')
+  }
+  if (!document || typeof document !== 'object' || !('sops' in document)) {
+    throw new SecretImportError('Not a SOPS document (no sops metadata)', 'INVALID_FILE')
+  }
+
+  const entries: Record<string, string> = {}
+  const walk = (node: unknown, path: string[], name: string[]): void => {
+    if (node !== null && typeof node === 'object') {
+      for (const [child, value] of Object.entries(node)) {
+        // Array items share their parent's path in the associated data
+        walk(value, Array.isArray(node) ? path : [...path, child], [...name, child])
+      }
+      return
+    }
+    const value = decryptSopsValue(node, key, path)
+    if (value === null) return
+    if (name.join('_') in entries) {
+      throw new SecretImportError(`'${name.join('_')}' appears more than once in the file`, 'DUPLICATE_KEY')
+    }
+    entries[name.join('_')] = value
+  }
+
+  const { sops, ...data } = document as Record<string, unknown>
+  walk(data, [], [])
+  return entries
+}
+
+// Decrypted value, or null for a value left unencrypted (e.g. keys with the _unencrypted suffix)
+function decryptSopsValue(value: unknown, key: Buffer, path: string[]): string | null {
+  const match = typeof value === 'string' ? value.match(SOPS_VALUE_PATTERN) : null
+  if (!match) {
+    return null
+  }
+
+  const [, data, iv, tag] = match
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv!, 'base64'))
+    decipher.setAAD(Buffer.from(`${path.join(':')}:`))
+    decipher.setAuthTag(Buffer.from(tag!, 'base64'))
+    return Buffer.concat([decipher.update(Buffer.from(data!, 'base64')), decipher.final()]).toString('utf8')
+  } catch (error) {
+    throw new SecretImportError(`Cannot decrypt '${path.join('.')}'; wrong data key or tampered value`, 'DECRYPTION_FAILED')
+  }
+}
+
+function assertUniqueNames(names: string[]): void {
+  const seen = new Set<string>()
+  for (const name of names) {
+    if (seen.has(name)) {
+      throw new SecretImportError(`'${name}' appears more than once in the file`, 'DUPLICATE_KEY')
+    }
+    seen.add(name)
+  }
+}
+
+function ruleMatches(rule: SecretImportRule, name: string): boolean {
+  const pattern = rule.match.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+  return new RegExp(`^${pattern}$`, 'i').test(name)
+}
+
+function guessCredentialType(name: string): ImportCredentialType {
+  const upper = name.toUpperCase()
+  if (/PASSWORD|PASSWD|_PASS$|_PWD$/.test(upper)) return 'password'
+  if (/OAUTH|CLIENT_SECRET|REFRESH_TOKEN/.test(upper)) return 'oauth'
+  if (/TOKEN|_PAT$/.test(upper)) return 'token'
+  return 'api_key'
+}
+
+function guessProvider(name: string, value: string): string {
+  const upper = name.toUpperCase()
+  const known = PROVIDER_HEURISTICS.find(h => h.name.test(upper) || h.value?.test(value))
+  if (known) return known.provider
+
+  // Otherwise the service the name starts with, e.g. STRIPE_SECRET_KEY
+  const [prefix, ...rest] = name.toLowerCase().split('_')
+  return rest.length > 0 && prefix ? prefix : 'generic'
+}
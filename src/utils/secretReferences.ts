@@ -0,0 +1,79 @@
+/**
+ * Secret references
+ *
+ * Context fields may point at a stored secret instead of embedding it, e.g.
+ * `secret://credential/digitalocean_token` or
+ * `secret://ssh_key/deploy#public_key`. A reference can make up a whole
+ * string or sit inside one ("Bearer secret://credential/api_token").
+ */
+
+export type SecretReferenceType = 'credential' | 'ssh_key' | 'certificate'
+
+export interface SecretReference {
+  reference: string
+  secret_type: SecretReferenceType
+  key: string
+  field?: string
+  // Dotted path of the string the reference was found in ('' for a bare string)
+  path: string
+}
+
+// Fields a reference may select, the first being the default
+export const SECRET_REFERENCE_FIELDS: Record<SecretReferenceType, string[]> = {
+  credential: ['value'],
+  ssh_key: ['private_key', 'public_key', 'fingerprint'],
+  certificate: ['certificate', 'private_key', 'chain', 'fingerprint']
+}
+
+const REFERENCE_PATTERN = /secret:\/\/(credential|ssh_key|certificate)\/([A-Za-z0-9_.-]+)(?:#([a-z_]+))?/g
+
+/**
+ * Find every secret reference in a value, walking nested objects and arrays
+ */
+export function findSecretReferences(value: unknown, path: string = ''): SecretReference[] {
+  if (typeof value === 'string') {
+    return Array.from(value.matchAll(REFERENCE_PATTERN), ([reference, secretType, key, field]) => ({
+      reference: reference!,
+      secret_type: secretType as SecretReferenceType,
+      key: key!,
+      ...(field !== undefined && { field }),
+      path
+    }))
+  }
+
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => findSecretReferences(item, joinPath(path, String(index))))
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => findSecretReferences(item, joinPath(path, key)))
+  }
+
+  return []
+}
+
+/**
+ * Copy a value with each reference replaced by its lookup result; references
+ * the lookup returns undefined for are left as they are
+ */
+export function replaceSecretReferences(value: unknown, lookup: (reference: string) => string | undefined): unknown {
+  if (typeof value === 'string') {
+    return value.replace(REFERENCE_PATTERN, reference => lookup(reference) ?? reference)
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => replaceSecretReferences(item, lookup))
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replaceSecretReferences(item, lookup)])
+    )
+  }
+
+  return value
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key
+}